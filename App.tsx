@@ -4,6 +4,7 @@ import { Header } from './components/Header';
 import { Dashboard } from './pages/Dashboard';
 import { Members } from './pages/Members';
 import { Financial } from './pages/Financial';
+import { Accounting } from './pages/Accounting';
 import { Events } from './pages/Events';
 import { Documents } from './pages/Documents';
 import { Communications } from './pages/Communications';
@@ -11,10 +12,15 @@ import { Projects } from './pages/Projects';
 import { ServiceProviders } from './pages/ServiceProviders';
 import { Inventory } from './pages/Inventory';
 import { Settings } from './pages/Settings';
-import { Page } from './types';
+import { MemberPortal } from './pages/MemberPortal';
+import { Page, FinancialAlert } from './types';
 import { useAuth } from './contexts/AuthContext';
 import { useData } from './contexts/DataContext';
 import { Login } from './components/Login';
+import { CardVerification } from './components/CardVerification';
+import { getCardVerificationToken } from './utils/memberCard';
+import { MembershipApplicationForm } from './components/MembershipApplicationForm';
+import { isMembershipFormRequested } from './utils/membership';
 import { Loader2, AlertCircle, CheckCircle2 } from 'lucide-react';
 
 const Toast: React.FC<{ message: string; type: 'success' | 'error'; onClose: () => void }> = ({ message, type, onClose }) => {
@@ -41,11 +47,12 @@ const App: React.FC = () => {
   const { currentUser, loading: authLoading, users, addUser, updateUser, deleteUser } = useAuth();
   
   const { 
-    members, transactions, events, documents, communications, projects, providers, inventory,
+    members, transactions, transactionSummary, events, documents, communications, projects, providers, inventory, categories,
+    financialAccounts, transfers,
     loading: dataLoading, 
     error: dataError,
     addMember, updateMember, deleteMember,
-    addTransaction, deleteTransaction,
+    addTransaction, updateTransaction, deleteTransaction, addTransfer, deleteTransfer,
     addEvent, updateEvent, deleteEvent,
     addDocument, deleteDocument,
     sendCommunication
@@ -53,6 +60,8 @@ const App: React.FC = () => {
 
   const [currentPage, setCurrentPage] = useState<Page>('Dashboard');
   const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+  // Alerta aberto a partir do Dashboard: o Financeiro filtra e destaca a transação
+  const [focusAlert, setFocusAlert] = useState<FinancialAlert | null>(null);
   
   useEffect(() => {
     if (dataError) {
@@ -64,23 +73,34 @@ const App: React.FC = () => {
     setToast({ message, type });
   };
 
+  const handleOpenAlert = (alert: FinancialAlert) => {
+    setFocusAlert(alert);
+    setCurrentPage('Financial');
+  };
+
   const renderPage = () => {
     if (!currentUser) return null;
+    if (currentUser.role === 'Associado') return <MemberPortal showToast={showToast} />;
     switch (currentPage) {
-      case 'Dashboard': return <Dashboard members={members} transactions={transactions} events={events} />;
-      case 'Members': return <Members members={members} transactions={transactions} events={events} onAddMember={async (m) => { await addMember(m); showToast('Membro adicionado'); }} onUpdateMember={async (id, m) => { await updateMember(id, m); showToast('Membro atualizado'); }} onDeleteMember={async (id) => { await deleteMember(id); showToast('Membro excluído'); }} userRole={currentUser.role} />;
+      case 'Dashboard': return <Dashboard members={members} transactions={transactions} transactionSummary={transactionSummary} events={events} categories={categories} userRole={currentUser.role} onOpenAlert={handleOpenAlert} showToast={showToast} />;
+      case 'Members': return <Members members={members} transactions={transactions} events={events} onAddMember={async (m) => { await addMember(m); showToast('Membro adicionado'); }} onUpdateMember={async (id, m) => { await updateMember(id, m); showToast('Membro atualizado'); }} onDeleteMember={async (id) => { await deleteMember(id); showToast('Membro excluído'); }} userRole={currentUser.role} showToast={showToast} />;
       case 'Projects': return <Projects userRole={currentUser.role} showToast={showToast} />;
       case 'ServiceProviders': return <ServiceProviders userRole={currentUser.role} showToast={showToast} />;
-      case 'Financial': return <Financial transactions={transactions} members={members} onAddTransaction={async (t) => { await addTransaction(t); showToast('Transação adicionada'); }} onDeleteTransaction={async (id) => { await deleteTransaction(id); showToast('Transação excluída'); }} userRole={currentUser.role} />;
+      case 'Financial': return <Financial transactions={transactions} members={members} onAddTransaction={async (t, files) => { if (await addTransaction(t, files)) showToast('Transação adicionada'); }} onUpdateTransaction={async (id, t) => { await updateTransaction(id, t); showToast('Transação atualizada'); }} onDeleteTransaction={async (id) => { await deleteTransaction(id); showToast('Transação excluída'); }} financialAccounts={financialAccounts} transfers={transfers} onAddTransfer={async (t) => { await addTransfer(t); showToast('Transferência registrada'); }} onDeleteTransfer={async (id) => { await deleteTransfer(id); showToast('Transferência excluída'); }} userRole={currentUser.role} showToast={showToast} focusAlert={focusAlert} onFocusHandled={() => setFocusAlert(null)} />;
+      case 'Accounting': return <Accounting userRole={currentUser.role} showToast={showToast} />;
       case 'Inventory': return <Inventory userRole={currentUser.role} showToast={showToast} />;
       case 'Events': return <Events events={events} onAddEvent={async (e) => { await addEvent(e); showToast('Evento criado'); }} onUpdateEvent={async (id, e) => { await updateEvent(id, e); showToast('Evento atualizado'); }} onDeleteEvent={async (id) => { await deleteEvent(id); showToast('Evento excluído'); }} userRole={currentUser.role} />;
-      case 'Documents': return <Documents documents={documents} onAddDocument={async (d, f) => { await addDocument(d, f); showToast('Documento enviado'); }} onDeleteDocument={async (d) => { await deleteDocument(d); showToast('Documento excluído'); }} userRole={currentUser.role} />;
+      case 'Documents': return <Documents documents={documents} onAddDocument={async (d, f) => { if (await addDocument(d, f)) showToast('Documento enviado'); }} onDeleteDocument={async (d) => { await deleteDocument(d); showToast('Documento excluído'); }} userRole={currentUser.role} showToast={showToast} />;
       case 'Communications': return <Communications members={members} communications={communications} onSendCommunication={async (c, emails) => { await sendCommunication(c, emails); showToast('Mensagem enviada e registrada'); }} userRole={currentUser.role} />;
       case 'Settings': return <Settings currentUser={currentUser} users={users} onUpdateUser={updateUser} onAddUser={addUser} onDeleteUser={deleteUser} showToast={showToast} />;
-      default: return <Dashboard members={members} transactions={transactions} events={events} />;
+      default: return <Dashboard members={members} transactions={transactions} transactionSummary={transactionSummary} events={events} categories={categories} userRole={currentUser.role} onOpenAlert={handleOpenAlert} showToast={showToast} />;
     }
   };
 
+  // Telas públicas (QR da carteirinha e formulário de inscrição), acessíveis mesmo sem login
+  const cardToken = getCardVerificationToken();
+  if (cardToken !== null) return <CardVerification token={cardToken} />;
+  if (isMembershipFormRequested()) return <MembershipApplicationForm />;
   if (authLoading) return <div className="flex items-center justify-center h-screen bg-gray-50 dark:bg-gray-900"><Loader2 className="h-12 w-12 animate-spin text-primary-700" /></div>;
   if (!currentUser) return <Login />;
 
@@ -88,11 +108,11 @@ const App: React.FC = () => {
     <>
       {toast && <Toast message={toast.message} type={toast.type} onClose={() => setToast(null)} />}
       <div className="flex h-screen bg-gray-50 dark:bg-gray-900 text-gray-900 dark:text-gray-100">
-        <Sidebar currentPage={currentPage} setCurrentPage={setCurrentPage} user={currentUser} />
+        <Sidebar currentPage={currentUser.role === 'Associado' ? 'Portal' : currentPage} setCurrentPage={setCurrentPage} user={currentUser} />
         <div className="flex-1 flex flex-col overflow-hidden">
-          <Header title={currentPage} />
+          <Header title={currentUser.role === 'Associado' ? 'Meu Portal' : currentPage} />
           <main className="flex-1 overflow-x-hidden overflow-y-auto bg-gray-100 dark:bg-gray-900 p-6">
-            {dataLoading && members.length === 0 ? <div className="flex items-center justify-center h-full flex-col gap-4"><Loader2 className="h-12 w-12 animate-spin text-primary-700" /><span className="text-gray-500">Sincronizando banco de dados...</span></div> : renderPage()}
+            {dataLoading && members.length === 0 && currentUser.role !== 'Associado' ? <div className="flex items-center justify-center h-full flex-col gap-4"><Loader2 className="h-12 w-12 animate-spin text-primary-700" /><span className="text-gray-500">Sincronizando banco de dados...</span></div> : renderPage()}
           </main>
         </div>
       </div>
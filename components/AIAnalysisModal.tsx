@@ -1,63 +1,64 @@
-import React, { useState } from 'react';
-import { GoogleGenAI } from "@google/genai";
-import { X, Sparkles, Loader2 } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { X, Sparkles, Loader2, AlertTriangle, Lightbulb } from 'lucide-react';
 import { Transaction } from '../types';
+import { useData } from '../contexts/DataContext';
+import { ANOMALY_SEVERITY_LABELS, AnalysisAnomaly, FinancialAnalysis } from '../utils/aiAnalysis';
+import { getAnalysisProvider } from '../utils/geminiAnalysis';
+import { todayISO } from '../utils/dues';
+import { formatBRL, formatDateBR } from '../utils/print';
 
 interface AIAnalysisModalProps {
   isOpen: boolean;
   onClose: () => void;
-  transactions: Transaction[];
 }
 
-export const AIAnalysisModal: React.FC<AIAnalysisModalProps> = ({ isOpen, onClose, transactions }) => {
-  const [analysis, setAnalysis] = useState<string>('');
-  const [loading, setLoading] = useState(false);
+// Limita o volume enviado ao modelo
+const MAX_ANALYSIS_TRANSACTIONS = 500;
 
-  const runAnalysis = async () => {
-    setLoading(true);
-    try {
-        // Prepara os dados para o Gemini
-        const recentTransactions = transactions.slice(0, 50).map(t => 
-            `${t.date}: ${t.type} - ${t.description} (R$ ${t.amount})`
-        ).join('\n');
+const INPUT_CLASS = "mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-purple-500 focus:ring-purple-500 sm:text-sm dark:bg-gray-700 dark:border-gray-600 dark:text-white";
+
+const SEVERITY_CLASSES: Record<AnalysisAnomaly['severity'], string> = {
+  low: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+  medium: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/40 dark:text-yellow-300',
+  high: 'bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300',
+};
 
-        const prompt = `
-        Você é um consultor financeiro experiente para associações sem fins lucrativos.
-        Analise as seguintes transações recentes:
-        ${recentTransactions}
+export const AIAnalysisModal: React.FC<AIAnalysisModalProps> = ({ isOpen, onClose }) => {
+  const { fetchLedgerPage } = useData();
+  const [startDate, setStartDate] = useState(`${todayISO().slice(0, 4)}-01-01`);
+  const [endDate, setEndDate] = useState(todayISO());
+  const [analysis, setAnalysis] = useState<FinancialAnalysis | null>(null);
+  const [analyzed, setAnalyzed] = useState<{ transactions: Transaction[]; total: number }>({ transactions: [], total: 0 });
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+  const provider = getAnalysisProvider();
 
-        Por favor, forneça:
-        1. Um resumo da saúde financeira atual.
-        2. Identificação de padrões de gastos ou receitas atípicas.
-        3. Três sugestões práticas para melhorar o fluxo de caixa.
-        
-        Responda em formato HTML simples (usando tags <p>, <ul>, <li>, <strong>) para ser renderizado dentro de uma div.
-        `;
+  useEffect(() => { if (isOpen) { setAnalysis(null); setError(''); } }, [isOpen]);
 
-        // INICIALIZAÇÃO CORRETA DO GEMINI USANDO process.env.API_KEY
-        // A chave API deve estar configurada no ambiente (ex: .env)
-        const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-        
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: prompt,
-        });
+  if (!isOpen) return null;
 
-        setAnalysis(response.text || 'Não foi possível gerar a análise.');
-    } catch (error) {
-        console.error("Gemini Error:", error);
-        setAnalysis('<p class="text-red-500">Erro ao conectar com a IA. Verifique se a chave API está configurada no ambiente ou tente novamente mais tarde.</p>');
+  const runAnalysis = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!startDate || !endDate || startDate > endDate) { setError('Informe um período válido.'); return; }
+    setLoading(true); setError('');
+    try {
+      const page = await fetchLedgerPage({ startDate, endDate }, 0, MAX_ANALYSIS_TRANSACTIONS);
+      setAnalyzed({ transactions: page.rows, total: page.total });
+      setAnalysis(await provider.analyze({ startDate, endDate, transactions: page.rows }));
+    } catch (err) {
+      console.error('AI analysis error:', err);
+      setError(err instanceof Error ? err.message : 'Erro ao gerar a análise.');
     } finally {
-        setLoading(false);
+      setLoading(false);
     }
   };
 
-  if (!isOpen) return null;
+  const findTransaction = (id: string) => analyzed.transactions.find(t => t.id === id);
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex justify-center items-center p-4" onClick={onClose}>
       <div className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl w-full max-w-2xl flex flex-col max-h-[80vh]" onClick={e => e.stopPropagation()}>
-        
+
         <div className="p-6 border-b dark:border-gray-700 flex justify-between items-center bg-gradient-to-r from-indigo-600 to-purple-600 rounded-t-xl">
             <h2 className="text-xl font-bold text-white flex items-center gap-2">
                 <Sparkles className="text-yellow-300" /> Consultor IA Financeiro
@@ -69,18 +70,21 @@ export const AIAnalysisModal: React.FC<AIAnalysisModalProps> = ({ isOpen, onClos
 
         <div className="p-6 overflow-y-auto flex-1 custom-scrollbar">
             {!analysis && !loading && (
-                <div className="text-center py-10">
-                    <Sparkles size={64} className="mx-auto text-purple-400 mb-4" />
-                    <p className="text-gray-600 dark:text-gray-300 mb-6">
-                        Clique abaixo para que nossa Inteligência Artificial analise suas últimas 50 transações e gere insights estratégicos.
-                    </p>
-                    <button 
-                        onClick={runAnalysis}
-                        className="px-6 py-3 bg-purple-600 hover:bg-purple-700 text-white rounded-lg font-semibold shadow-lg transition-transform transform hover:scale-105 flex items-center mx-auto gap-2"
-                    >
+                <form onSubmit={runAnalysis} className="py-6 space-y-6">
+                    <div className="text-center">
+                        <Sparkles size={64} className="mx-auto text-purple-400 mb-4" />
+                        <p className="text-gray-600 dark:text-gray-300">Escolha o período para a análise do fluxo de caixa, das transações atípicas e das oportunidades de melhoria.</p>
+                    </div>
+                    <div className="grid grid-cols-2 gap-4 max-w-sm mx-auto">
+                        <div><label className="block text-sm font-medium">De</label><input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className={INPUT_CLASS} /></div>
+                        <div><label className="block text-sm font-medium">Até</label><input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} className={INPUT_CLASS} /></div>
+                    </div>
+                    {error && <p className="text-sm text-red-500 text-center">{error}</p>}
+                    <button type="submit" className="px-6 py-3 bg-purple-600 hover:bg-purple-700 text-white rounded-lg font-semibold shadow-lg transition-transform transform hover:scale-105 flex items-center mx-auto gap-2">
                         <Sparkles size={20} /> Gerar Análise Inteligente
                     </button>
-                </div>
+                    <p className="text-xs text-gray-400 text-center">Motor: {provider.name}</p>
+                </form>
             )}
 
             {loading && (
@@ -90,20 +94,53 @@ export const AIAnalysisModal: React.FC<AIAnalysisModalProps> = ({ isOpen, onClos
                 </div>
             )}
 
-            {analysis && (
-                <div className="prose dark:prose-invert max-w-none">
-                    <div dangerouslySetInnerHTML={{ __html: analysis }} />
+            {analysis && !loading && (
+                <div className="space-y-6 text-sm text-gray-700 dark:text-gray-300">
+                    <p className="text-xs text-gray-400">
+                        {formatDateBR(startDate)} a {formatDateBR(endDate)} · {analyzed.transactions.length} transações analisadas
+                        {analyzed.total > analyzed.transactions.length && ` (as ${analyzed.transactions.length} mais recentes de ${analyzed.total})`} · {provider.name}
+                    </p>
+                    <section>
+                        <h3 className="font-semibold text-gray-900 dark:text-white mb-1">Resumo</h3>
+                        <p className="whitespace-pre-line">{analysis.summary}</p>
+                    </section>
+                    <section>
+                        <h3 className="font-semibold text-gray-900 dark:text-white mb-2 flex items-center gap-2"><AlertTriangle size={16} className="text-orange-500" /> Transações atípicas</h3>
+                        {analysis.anomalies.length === 0 ? <p className="text-gray-500">Nenhuma anomalia encontrada.</p> : (
+                            <ul className="space-y-2">
+                                {analysis.anomalies.map((anomaly, i) => {
+                                    const transaction = findTransaction(anomaly.transactionId);
+                                    return (
+                                        <li key={`${anomaly.transactionId}-${i}`} className="p-3 rounded-lg border dark:border-gray-700">
+                                            <div className="flex justify-between items-start gap-2">
+                                                <span className="font-medium text-gray-900 dark:text-white">{transaction ? `${formatDateBR(transaction.date)} · ${transaction.description}` : anomaly.transactionId}</span>
+                                                <span className={`px-2 py-0.5 rounded-full text-xs font-semibold whitespace-nowrap ${SEVERITY_CLASSES[anomaly.severity]}`}>{ANOMALY_SEVERITY_LABELS[anomaly.severity]}</span>
+                                            </div>
+                                            {transaction && <p className={`text-xs ${transaction.type === 'Income' ? 'text-green-600' : 'text-red-500'}`}>{formatBRL(transaction.amount)}{transaction.categoryName ? ` · ${transaction.categoryName}` : ''}</p>}
+                                            <p className="mt-1">{anomaly.reason}</p>
+                                        </li>
+                                    );
+                                })}
+                            </ul>
+                        )}
+                    </section>
+                    <section>
+                        <h3 className="font-semibold text-gray-900 dark:text-white mb-2 flex items-center gap-2"><Lightbulb size={16} className="text-yellow-500" /> Sugestões</h3>
+                        <ul className="list-disc pl-5 space-y-1">
+                            {analysis.suggestions.map((suggestion, i) => <li key={i}>{suggestion}</li>)}
+                        </ul>
+                    </section>
                 </div>
             )}
         </div>
-        
-        {analysis && (
+
+        {analysis && !loading && (
              <div className="p-4 border-t dark:border-gray-700 flex justify-end bg-gray-50 dark:bg-gray-900 rounded-b-xl">
-                <button onClick={() => setAnalysis('')} className="text-sm text-gray-500 hover:text-gray-700 dark:hover:text-gray-300 mr-4">Nova Análise</button>
+                <button onClick={() => setAnalysis(null)} className="text-sm text-gray-500 hover:text-gray-700 dark:hover:text-gray-300 mr-4">Nova Análise</button>
                 <button onClick={onClose} className="px-4 py-2 bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-white rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600">Fechar</button>
             </div>
         )}
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,159 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { X, ClipboardCheck, Loader2, Printer, FileSpreadsheet, Save, Trash2, Settings2, AlertTriangle } from 'lucide-react';
+import { AccountabilityColumn, AccountabilityLayout, Project, Transaction } from '../types';
+import { useData } from '../contexts/DataContext';
+import { ACCOUNTABILITY_COLUMN_LABELS, DEFAULT_ACCOUNTABILITY_LAYOUT, accountabilityToRows, buildAccountabilityHtml, buildAccountabilityReport } from '../utils/accountability';
+import { printHtml } from '../utils/print';
+import { downloadSpreadsheet } from '../utils/spreadsheet';
+
+interface AccountabilityReportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  project: Project | null;
+  canPerformActions: boolean;
+  showToast: (msg: string, type?: 'success' | 'error') => void;
+}
+
+const INPUT_CLASS = "block w-full rounded-md border-gray-300 shadow-sm focus:border-secondary-500 focus:ring-secondary-500 sm:text-sm dark:bg-gray-700 dark:border-gray-600 dark:placeholder-gray-400 dark:text-white dark:focus:border-secondary-500 dark:focus:ring-secondary-500";
+
+const ALL_COLUMNS = Object.keys(ACCOUNTABILITY_COLUMN_LABELS) as AccountabilityColumn[];
+
+export const AccountabilityReportModal: React.FC<AccountabilityReportModalProps> = ({ isOpen, onClose, project, canPerformActions, showToast }) => {
+  const { budgetLines, providers, documents, associationSettings, accountabilityLayouts, fetchProjectTransactions, addAccountabilityLayout, updateAccountabilityLayout, deleteAccountabilityLayout } = useData();
+  const [projectTransactions, setProjectTransactions] = useState<Transaction[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [layoutId, setLayoutId] = useState('');
+  const [draft, setDraft] = useState<Omit<AccountabilityLayout, 'id'>>(DEFAULT_ACCOUNTABILITY_LAYOUT);
+  const [isEditingLayout, setIsEditingLayout] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen || !project) { setProjectTransactions([]); return; }
+    setLayoutId(''); setDraft(DEFAULT_ACCOUNTABILITY_LAYOUT); setIsEditingLayout(false);
+    setIsLoading(true);
+    fetchProjectTransactions(project.id).then(setProjectTransactions).finally(() => setIsLoading(false));
+  }, [isOpen, project?.id]);
+
+  const report = useMemo(
+    () => project ? buildAccountabilityReport(project, budgetLines, projectTransactions, providers, documents) : null,
+    [project, budgetLines, projectTransactions, providers, documents]
+  );
+
+  if (!isOpen || !project || !report) return null;
+
+  // Colunas mantidas na ordem padrão, independente da ordem em que foram marcadas
+  const layout: AccountabilityLayout = { id: layoutId, ...draft, columns: ALL_COLUMNS.filter(c => draft.columns.includes(c)) };
+  const html = buildAccountabilityHtml(report, layout, associationSettings);
+  const fileName = `prestacao_contas_${project.title.toLowerCase().replace(/[^a-z0-9]+/g, '_')}`;
+
+  const handleSelectLayout = (id: string) => {
+    setLayoutId(id);
+    const saved = accountabilityLayouts.find(l => l.id === id);
+    if (saved) { const { id: _, ...rest } = saved; setDraft(rest); } else setDraft(DEFAULT_ACCOUNTABILITY_LAYOUT);
+  };
+
+  const toggleColumn = (column: AccountabilityColumn) => setDraft(prev => ({
+    ...prev,
+    columns: prev.columns.includes(column) ? prev.columns.filter(c => c !== column) : [...prev.columns, column],
+  }));
+
+  const handleSaveLayout = async () => {
+    if (!draft.name.trim()) { showToast('Informe o nome do layout.', 'error'); return; }
+    if (layout.columns.length === 0) { showToast('Selecione ao menos uma coluna.', 'error'); return; }
+    const data = { ...draft, name: draft.name.trim(), columns: layout.columns };
+    if (layoutId) { await updateAccountabilityLayout(layoutId, data); showToast('Layout atualizado!'); }
+    else { await addAccountabilityLayout(data); showToast('Layout salvo!'); }
+    setIsEditingLayout(false);
+  };
+
+  const handleDeleteLayout = async () => {
+    if (!layoutId || !window.confirm('Excluir este layout?')) return;
+    await deleteAccountabilityLayout(layoutId);
+    handleSelectLayout('');
+    showToast('Layout excluído!');
+  };
+
+  const handlePrint = () => {
+    if (!printHtml(html)) showToast('Permita pop-ups para imprimir a prestação de contas.', 'error');
+  };
+
+  const handleSpreadsheet = () => {
+    if (layout.columns.length === 0) { showToast('Selecione ao menos uma coluna.', 'error'); return; }
+    const { columns, rows } = accountabilityToRows(report, layout);
+    downloadSpreadsheet(rows, columns, fileName, 'xlsx', 'Prestação de Contas');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex justify-center items-center p-4" onClick={onClose}>
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-5xl max-h-[90vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold flex items-center gap-2"><ClipboardCheck size={20} /> Prestação de Contas — {project.title}</h2>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700"><X size={20} /></button>
+        </div>
+
+        <div className="flex flex-wrap items-end gap-2 mb-3">
+          <div className="flex-1 min-w-[200px]">
+            <label className="block text-sm">Layout</label>
+            <select value={layoutId} onChange={(e) => handleSelectLayout(e.target.value)} className={INPUT_CLASS}>
+              <option value="">Padrão</option>
+              {accountabilityLayouts.map(l => <option key={l.id} value={l.id}>{l.name}{l.funder ? ` (${l.funder})` : ''}</option>)}
+            </select>
+          </div>
+          {canPerformActions && (
+            <button type="button" onClick={() => setIsEditingLayout(!isEditingLayout)} className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-gray-600 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200">
+              <Settings2 size={16} /> Personalizar
+            </button>
+          )}
+        </div>
+
+        {isEditingLayout && (
+          <div className="mb-3 p-3 rounded-lg bg-gray-50 dark:bg-gray-700/50 border dark:border-gray-600 space-y-3">
+            <div className="grid grid-cols-2 gap-3">
+              <div><label className="block text-sm">Nome do layout</label><input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} className={INPUT_CLASS} /></div>
+              <div><label className="block text-sm">Financiador</label><input value={draft.funder} onChange={(e) => setDraft({ ...draft, funder: e.target.value })} placeholder="Ex.: Lei Rouanet, Secretaria de Cultura" className={INPUT_CLASS} /></div>
+            </div>
+            <div>
+              <label className="block text-sm mb-1">Colunas da relação de despesas</label>
+              <div className="flex flex-wrap gap-3 text-sm">
+                {ALL_COLUMNS.map(column => (
+                  <label key={column} className="flex items-center gap-1"><input type="checkbox" checked={draft.columns.includes(column)} onChange={() => toggleColumn(column)} /> {ACCOUNTABILITY_COLUMN_LABELS[column]}</label>
+                ))}
+              </div>
+            </div>
+            <div className="flex flex-wrap gap-4 text-sm">
+              <label className="flex items-center gap-1"><input type="checkbox" checked={draft.groupByBudgetLine} onChange={(e) => setDraft({ ...draft, groupByBudgetLine: e.target.checked })} /> Agrupar por rubrica</label>
+              <label className="flex items-center gap-1"><input type="checkbox" checked={draft.includeIncome} onChange={(e) => setDraft({ ...draft, includeIncome: e.target.checked })} /> Incluir recursos recebidos</label>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div><label className="block text-sm">Texto de abertura</label><textarea rows={2} value={draft.headerNote} onChange={(e) => setDraft({ ...draft, headerNote: e.target.value })} className={INPUT_CLASS} /></div>
+              <div><label className="block text-sm">Texto de encerramento</label><textarea rows={2} value={draft.footerNote} onChange={(e) => setDraft({ ...draft, footerNote: e.target.value })} placeholder="Ex.: declaração de veracidade" className={INPUT_CLASS} /></div>
+            </div>
+            <div className="flex justify-end gap-2">
+              {layoutId && <button type="button" onClick={handleDeleteLayout} className="flex items-center gap-1 px-3 py-1.5 text-sm font-medium text-red-600 bg-red-50 dark:bg-red-900/30 rounded-lg hover:bg-red-100"><Trash2 size={14} /> Excluir</button>}
+              <button type="button" onClick={handleSaveLayout} className="flex items-center gap-1 px-3 py-1.5 text-sm font-medium text-white bg-secondary-700 rounded-lg hover:bg-secondary-800"><Save size={14} /> {layoutId ? 'Salvar layout' : 'Salvar como novo layout'}</button>
+            </div>
+          </div>
+        )}
+
+        {report.missingProofs > 0 && (
+          <p className="text-xs text-orange-600 dark:text-orange-400 flex items-center gap-1 mb-2"><AlertTriangle size={14} /> {report.missingProofs} despesa(s) sem comprovante anexado.</p>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-10"><Loader2 className="animate-spin text-secondary-600" /></div>
+        ) : (
+          <iframe title="Pré-visualização da prestação de contas" srcDoc={html} className="w-full flex-1 min-h-[420px] bg-white rounded border dark:border-gray-600" />
+        )}
+
+        <div className="flex justify-end gap-2 pt-4 border-t dark:border-gray-700 mt-4">
+          <button type="button" onClick={onClose} className="px-4 py-2 text-sm font-medium bg-gray-100 dark:bg-gray-700 rounded-lg">Fechar</button>
+          <button onClick={handleSpreadsheet} disabled={isLoading} className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-600 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 disabled:opacity-50">
+            <FileSpreadsheet size={16} /> Planilha (XLSX)
+          </button>
+          <button onClick={handlePrint} disabled={isLoading} className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-secondary-700 rounded-lg hover:bg-secondary-800 disabled:opacity-50">
+            <Printer size={16} /> Imprimir / PDF
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -20,6 +20,9 @@ export const AddEventModal: React.FC<AddEventModalProps> = ({ isOpen, onClose, o
   const [location, setLocation] = useState('');
   const [type, setType] = useState<EventType>('Reunião Ordinária');
   const [description, setDescription] = useState('');
+  const [fee, setFee] = useState('');
+  const [expectedRevenue, setExpectedRevenue] = useState('');
+  const [expectedCost, setExpectedCost] = useState('');
   const [error, setError] = useState('');
   const [isSaving, setIsSaving] = useState(false);
 
@@ -32,6 +35,9 @@ export const AddEventModal: React.FC<AddEventModalProps> = ({ isOpen, onClose, o
     setLocation('');
     setType('Reunião Ordinária');
     setDescription('');
+    setFee('');
+    setExpectedRevenue('');
+    setExpectedCost('');
     setError('');
     setIsSaving(false);
   }, []);
@@ -45,6 +51,9 @@ export const AddEventModal: React.FC<AddEventModalProps> = ({ isOpen, onClose, o
         setLocation(existingEvent.location);
         setType(existingEvent.type);
         setDescription(existingEvent.description);
+        setFee(existingEvent.fee ? String(existingEvent.fee) : '');
+        setExpectedRevenue(existingEvent.expectedRevenue ? String(existingEvent.expectedRevenue) : '');
+        setExpectedCost(existingEvent.expectedCost ? String(existingEvent.expectedCost) : '');
       } else {
         resetForm();
       }
@@ -66,7 +75,10 @@ export const AddEventModal: React.FC<AddEventModalProps> = ({ isOpen, onClose, o
     
     try {
         await onSave({ 
-            title, date, time, location, description, type
+            title, date, time, location, description, type,
+            fee: fee ? parseFloat(fee) : null,
+            expectedRevenue: expectedRevenue ? parseFloat(expectedRevenue) : null,
+            expectedCost: expectedCost ? parseFloat(expectedCost) : null
         });
         onClose();
     } catch (e) {
@@ -122,6 +134,22 @@ export const AddEventModal: React.FC<AddEventModalProps> = ({ isOpen, onClose, o
               </div>
             </div>
             
+            <div>
+              <label htmlFor="fee" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Valor da Inscrição (R$, opcional)</label>
+              <input type="number" id="fee" step="0.01" min="0" value={fee} onChange={(e) => setFee(e.target.value)} placeholder="Deixe em branco para eventos gratuitos" className={INPUT_CLASS} />
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="expectedRevenue" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Receita Prevista (R$, opcional)</label>
+                <input type="number" id="expectedRevenue" step="0.01" min="0" value={expectedRevenue} onChange={(e) => setExpectedRevenue(e.target.value)} placeholder="Inscrições, vendas, apoios" className={INPUT_CLASS} />
+              </div>
+              <div>
+                <label htmlFor="expectedCost" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Custo Previsto (R$, opcional)</label>
+                <input type="number" id="expectedCost" step="0.01" min="0" value={expectedCost} onChange={(e) => setExpectedCost(e.target.value)} placeholder="Locação, estrutura, cachês" className={INPUT_CLASS} />
+              </div>
+            </div>
+
             <div>
               <label htmlFor="description" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Descrição (Opcional)</label>
               <textarea id="description" value={description} onChange={(e) => setDescription(e.target.value)} rows={3} className={INPUT_CLASS}></textarea>
@@ -1,9 +1,12 @@
 import React, { useEffect, useState } from 'react';
-import { Member, MemberRole } from '../types';
+import { Member, MemberRole, RegistrationDuplicate } from '../types';
 import { X, UserSquare, Upload } from 'lucide-react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import * as z from 'zod';
+import { useData } from '../contexts/DataContext';
+import { DuplicateWarning } from './DuplicateWarning';
+import { formatCPF, onlyDigits } from '../utils/cpfCnpj';
+import { memberSchema, MemberFormData } from '../utils/memberSchema';
 
 interface AddMemberModalProps {
   isOpen: boolean;
@@ -16,26 +19,12 @@ const INPUT_CLASS = "mt-1 block w-full rounded-md border-gray-300 shadow-sm focu
 const ERROR_CLASS = "text-red-500 text-xs mt-1 font-medium";
 const LABEL_CLASS = "block text-sm font-medium text-gray-700 dark:text-gray-300";
 
-// SENIOR UPGRADE: Zod Schema Definition para validação robusta
-const memberSchema = z.object({
-  name: z.string().min(3, "O nome deve ter pelo menos 3 caracteres"),
-  email: z.string().email("Email inválido"),
-  cpf: z.string().min(11, "CPF inválido").optional().or(z.literal('')),
-  phone: z.string().optional(),
-  birthDate: z.string().optional(),
-  admissionDate: z.string().min(1, "Data de admissão é obrigatória"),
-  address: z.string().optional(),
-  city: z.string().optional(),
-  state: z.string().max(2, "UF deve ter 2 letras").optional().or(z.literal('')),
-  role: z.enum(['Diretoria', 'Membro Fundador', 'Associado']),
-  status: z.enum(['Active', 'Inactive', 'Pending']),
-});
-
-type MemberFormData = z.infer<typeof memberSchema>;
-
 export const AddMemberModal: React.FC<AddMemberModalProps> = ({ isOpen, onClose, onSave, existingMember }) => {
   const [avatarUrl, setAvatarUrl] = useState('');
   const [isSaving, setIsSaving] = useState(false);
+  const [duplicates, setDuplicates] = useState<RegistrationDuplicate[]>([]);
+  const [confirmedKey, setConfirmedKey] = useState('');
+  const { findRegistrationDuplicates } = useData();
 
   // SENIOR UPGRADE: React Hook Form integration
   const { register, handleSubmit, reset, formState: { errors }, setValue } = useForm<MemberFormData>({
@@ -49,10 +38,12 @@ export const AddMemberModal: React.FC<AddMemberModalProps> = ({ isOpen, onClose,
 
   useEffect(() => {
     if (isOpen) {
+      setDuplicates([]);
+      setConfirmedKey('');
       if (existingMember) {
         setValue('name', existingMember.name);
         setValue('email', existingMember.email);
-        setValue('cpf', existingMember.cpf || '');
+        setValue('cpf', formatCPF(existingMember.cpf || ''));
         setValue('phone', existingMember.phone);
         setValue('birthDate', existingMember.birthDate || '');
         setValue('admissionDate', existingMember.admissionDate);
@@ -87,8 +78,16 @@ export const AddMemberModal: React.FC<AddMemberModalProps> = ({ isOpen, onClose,
   const onSubmit = async (data: MemberFormData) => {
     setIsSaving(true);
     try {
+        // Duplicidade só avisa: um segundo envio com os mesmos dados confirma
+        const key = `${onlyDigits(data.cpf)}|${data.email.trim().toLowerCase()}`;
+        if (key !== confirmedKey) {
+            const found = await findRegistrationDuplicates(data.cpf || '', data.email, existingMember ? { kind: 'Member', id: existingMember.id } : undefined);
+            setDuplicates(found);
+            if (found.length > 0) { setConfirmedKey(key); return; }
+        }
         const finalData = {
             ...data,
+            cpf: data.cpf ? formatCPF(data.cpf) : '',
             birthDate: data.birthDate || null, 
             avatarUrl: avatarUrl || `https://i.pravatar.cc/150?u=${data.email}`
         } as any;
@@ -155,7 +154,7 @@ export const AddMemberModal: React.FC<AddMemberModalProps> = ({ isOpen, onClose,
                 <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
                     <div>
                         <label className={LABEL_CLASS}>CPF</label>
-                        <input {...register('cpf')} className={INPUT_CLASS} placeholder="000.000.000-00" />
+                        <input {...register('cpf', { onChange: (e) => setValue('cpf', formatCPF(e.target.value)) })} inputMode="numeric" className={INPUT_CLASS} placeholder="000.000.000-00" />
                         {errors.cpf && <p className={ERROR_CLASS}>{errors.cpf.message}</p>}
                     </div>
                     <div>
@@ -220,6 +219,8 @@ export const AddMemberModal: React.FC<AddMemberModalProps> = ({ isOpen, onClose,
                 </div>
             </div>
           </div>
+
+          <DuplicateWarning duplicates={duplicates} />
           
           <div className="flex justify-end gap-3 pt-6 border-t dark:border-gray-700 mt-4">
             <button
@@ -235,7 +236,7 @@ export const AddMemberModal: React.FC<AddMemberModalProps> = ({ isOpen, onClose,
               disabled={isSaving}
               className="px-5 py-2.5 text-sm font-medium text-white bg-primary-700 rounded-lg hover:bg-primary-800 disabled:bg-primary-400 disabled:cursor-wait transition-colors shadow-sm"
             >
-              {isSaving ? 'Salvando...' : (existingMember ? 'Salvar Alterações' : 'Salvar Membro')}
+              {isSaving ? 'Salvando...' : duplicates.length > 0 ? 'Salvar mesmo assim' : (existingMember ? 'Salvar Alterações' : 'Salvar Membro')}
             </button>
           </div>
         </form>
@@ -1,9 +1,12 @@
 import React, { useEffect, useState } from 'react';
-import { ServiceProvider } from '../types';
+import { RegistrationDuplicate, ServiceProvider } from '../types';
 import { X } from 'lucide-react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
+import { useData } from '../contexts/DataContext';
+import { DuplicateWarning } from './DuplicateWarning';
+import { formatCpfCnpj, isValidCpfCnpj, onlyDigits } from '../utils/cpfCnpj';
 
 interface AddProviderModalProps {
   isOpen: boolean;
@@ -20,15 +23,19 @@ const providerSchema = z.object({
   type: z.enum(['Artist', 'Workshop Facilitator', 'Designer', 'Consultant', 'Other']),
   email: z.string().email("Email inválido"),
   phone: z.string().min(8, "Telefone inválido"),
-  cpfCnpj: z.string().min(11, "Documento inválido"),
+  cpfCnpj: z.string().refine(isValidCpfCnpj, "CPF/CNPJ inválido"),
   portfolioUrl: z.string().optional().or(z.literal('')),
   notes: z.string().optional(),
+  contractedAmount: z.string().optional().refine((val) => !val || (!isNaN(parseFloat(val)) && parseFloat(val) >= 0), "Valor inválido"),
 });
 
 type ProviderFormData = z.infer<typeof providerSchema>;
 
 export const AddProviderModal: React.FC<AddProviderModalProps> = ({ isOpen, onClose, onSave, existingProvider }) => {
   const [isSaving, setIsSaving] = useState(false);
+  const [duplicates, setDuplicates] = useState<RegistrationDuplicate[]>([]);
+  const [confirmedKey, setConfirmedKey] = useState('');
+  const { findRegistrationDuplicates } = useData();
   const { register, handleSubmit, reset, setValue, formState: { errors } } = useForm<ProviderFormData>({
     resolver: zodResolver(providerSchema),
     defaultValues: { type: 'Artist' }
@@ -36,14 +43,17 @@ export const AddProviderModal: React.FC<AddProviderModalProps> = ({ isOpen, onCl
 
   useEffect(() => {
     if (isOpen) {
+      setDuplicates([]);
+      setConfirmedKey('');
       if (existingProvider) {
         setValue('name', existingProvider.name);
         setValue('type', existingProvider.type);
         setValue('email', existingProvider.email);
         setValue('phone', existingProvider.phone);
-        setValue('cpfCnpj', existingProvider.cpfCnpj);
+        setValue('cpfCnpj', formatCpfCnpj(existingProvider.cpfCnpj || ''));
         setValue('portfolioUrl', existingProvider.portfolioUrl || '');
         setValue('notes', existingProvider.notes || '');
+        setValue('contractedAmount', existingProvider.contractedAmount?.toString() || '');
       } else {
         reset({ type: 'Artist' });
       }
@@ -52,7 +62,17 @@ export const AddProviderModal: React.FC<AddProviderModalProps> = ({ isOpen, onCl
 
   const onSubmit = async (data: ProviderFormData) => {
     setIsSaving(true);
-    try { await onSave(data); onClose(); } catch (e) { console.error(e); } finally { setIsSaving(false); }
+    try {
+      // Duplicidade só avisa: um segundo envio com os mesmos dados confirma
+      const key = `${onlyDigits(data.cpfCnpj)}|${data.email.trim().toLowerCase()}`;
+      if (key !== confirmedKey) {
+        const found = await findRegistrationDuplicates(data.cpfCnpj, data.email, existingProvider ? { kind: 'ServiceProvider', id: existingProvider.id } : undefined);
+        setDuplicates(found);
+        if (found.length > 0) { setConfirmedKey(key); return; }
+      }
+      await onSave({ ...data, cpfCnpj: formatCpfCnpj(data.cpfCnpj), contractedAmount: data.contractedAmount ? parseFloat(data.contractedAmount) : null });
+      onClose();
+    } catch (e) { console.error(e); } finally { setIsSaving(false); }
   };
 
   if (!isOpen) return null;
@@ -83,7 +103,7 @@ export const AddProviderModal: React.FC<AddProviderModalProps> = ({ isOpen, onCl
                 </div>
                 <div>
                     <label className="block text-sm font-medium">CPF / CNPJ</label>
-                    <input {...register('cpfCnpj')} className={INPUT_CLASS} />
+                    <input {...register('cpfCnpj', { onChange: (e) => setValue('cpfCnpj', formatCpfCnpj(e.target.value)) })} inputMode="numeric" className={INPUT_CLASS} />
                     {errors.cpfCnpj && <p className={ERROR_CLASS}>{errors.cpfCnpj.message}</p>}
                 </div>
                 <div>
@@ -95,14 +115,20 @@ export const AddProviderModal: React.FC<AddProviderModalProps> = ({ isOpen, onCl
                     <label className="block text-sm font-medium">Telefone</label>
                     <input {...register('phone')} className={INPUT_CLASS} />
                 </div>
-                <div className="md:col-span-2">
+                <div>
                     <label className="block text-sm font-medium">Portfólio (URL)</label>
                     <input {...register('portfolioUrl')} className={INPUT_CLASS} />
                 </div>
+                <div>
+                    <label className="block text-sm font-medium">Valor contratado (R$, opcional)</label>
+                    <input type="number" step="0.01" min="0" {...register('contractedAmount')} className={INPUT_CLASS} />
+                    {errors.contractedAmount && <p className={ERROR_CLASS}>{errors.contractedAmount.message}</p>}
+                </div>
             </div>
+            <DuplicateWarning duplicates={duplicates} />
             <div className="flex justify-end gap-3 pt-6 border-t dark:border-gray-700 mt-4">
                 <button type="button" onClick={onClose} className="px-5 py-2.5 bg-gray-100 dark:bg-gray-700 rounded-lg">Cancelar</button>
-                <button type="submit" disabled={isSaving} className="px-5 py-2.5 text-white bg-secondary-700 rounded-lg hover:bg-secondary-800">{isSaving ? 'Salvando...' : 'Salvar'}</button>
+                <button type="submit" disabled={isSaving} className="px-5 py-2.5 text-white bg-secondary-700 rounded-lg hover:bg-secondary-800">{isSaving ? 'Salvando...' : duplicates.length > 0 ? 'Salvar mesmo assim' : 'Salvar'}</button>
             </div>
         </form>
       </div>
@@ -1,41 +1,73 @@
 import React, { useState, useEffect } from 'react';
 import { Transaction, Member } from '../types';
-import { X } from 'lucide-react';
+import { X, Paperclip } from 'lucide-react';
 import { useData } from '../contexts/DataContext';
+import { getCategoryLabel, sortCategories } from '../utils/categories';
 
 interface AddTransactionModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onAddTransaction: (transaction: Omit<Transaction, 'id'>) => Promise<void>;
+  onAddTransaction: (transaction: Omit<Transaction, 'id'>, attachments?: File[]) => Promise<void>;
+  onUpdateTransaction?: (id: string, transaction: Partial<Transaction>) => Promise<void>;
+  existingTransaction?: Transaction | null;
   members: Member[];
 }
 
 const INPUT_CLASS = "mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-secondary-500 focus:ring-secondary-500 sm:text-sm dark:bg-gray-700 dark:border-gray-600 dark:placeholder-gray-400 dark:text-white dark:focus:border-secondary-500 dark:focus:ring-secondary-500";
 type LinkType = 'Member' | 'Project' | 'Provider' | 'None';
 
-export const AddTransactionModal: React.FC<AddTransactionModalProps> = ({ isOpen, onClose, onAddTransaction, members }) => {
-  const { projects, providers } = useData();
+export const AddTransactionModal: React.FC<AddTransactionModalProps> = ({ isOpen, onClose, onAddTransaction, onUpdateTransaction, existingTransaction, members }) => {
+  const { projects, providers, categories, financialAccounts, budgetLines } = useData();
   const [description, setDescription] = useState('');
   const [amount, setAmount] = useState('');
   const [type, setType] = useState<'Income' | 'Expense'>('Income');
   const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
   const [linkType, setLinkType] = useState<LinkType>('None');
   const [selectedId, setSelectedId] = useState<string>('');
+  const [categoryId, setCategoryId] = useState('');
+  const [pixTxid, setPixTxid] = useState('');
+  const [accountId, setAccountId] = useState('');
+  const [budgetLineId, setBudgetLineId] = useState('');
+  const [documentNumber, setDocumentNumber] = useState('');
+  const [attachments, setAttachments] = useState<File[]>([]);
   const [error, setError] = useState('');
   const [isSaving, setIsSaving] = useState(false);
 
-  useEffect(() => { if (isOpen) { setDescription(''); setAmount(''); setType('Income'); setDate(new Date().toISOString().split('T')[0]); setLinkType('None'); setSelectedId(''); setError(''); setIsSaving(false); } }, [isOpen]);
+  const isEditing = !!existingTransaction;
+
+  useEffect(() => { if (isOpen) { setDescription(''); setAmount(''); setType('Income'); setDate(new Date().toISOString().split('T')[0]); setLinkType('None'); setSelectedId(''); setCategoryId(''); setPixTxid(''); setBudgetLineId(''); setDocumentNumber(''); setAttachments([]); setAccountId(financialAccounts.find(a => a.active)?.id || ''); setError(''); setIsSaving(false); } }, [isOpen]);
+
+  useEffect(() => {
+    if (!isOpen || !existingTransaction) return;
+    const t = existingTransaction;
+    setDescription(t.description); setAmount(String(t.amount)); setType(t.type); setDate(t.date);
+    setCategoryId(t.categoryId || ''); setAccountId(t.accountId || ''); setPixTxid(t.pixTxid || ''); setBudgetLineId(t.budgetLineId || ''); setDocumentNumber(t.documentNumber || '');
+    if (t.memberId) { setLinkType('Member'); setSelectedId(t.memberId); }
+    else if (t.projectId) { setLinkType('Project'); setSelectedId(t.projectId); }
+    else if (t.providerId) { setLinkType('Provider'); setSelectedId(t.providerId); }
+  }, [isOpen, existingTransaction]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!description || !amount || !date) { setError('Campos obrigatórios faltando.'); return; }
+    if (!categoryId) { setError('Selecione a categoria do plano de contas.'); return; }
+    if (!accountId) { setError('Selecione a conta financeira.'); return; }
     if (linkType !== 'None' && !selectedId) { setError('Selecione o item vinculado.'); return; }
     setError(''); setIsSaving(true);
-    const tData: Omit<Transaction, 'id'> = { description, amount: parseFloat(amount), type, date };
+    const tData: Omit<Transaction, 'id'> = { description, amount: parseFloat(amount), type, date, categoryId, categoryName: getCategoryLabel(categoryId, categories), accountId, accountName: financialAccounts.find(a => a.id === accountId)?.name };
+    // Na edição, vínculos removidos precisam ser gravados como nulos
+    if (isEditing) Object.assign(tData, { memberId: null, memberName: null, projectId: null, projectName: null, providerId: null, providerName: null, budgetLineId: null, budgetLineName: null, pixTxid: null, documentNumber: null });
+    if (type === 'Income' && pixTxid.trim()) tData.pixTxid = pixTxid.trim().toUpperCase();
+    if (type === 'Expense' && documentNumber.trim()) tData.documentNumber = documentNumber.trim();
     if (linkType === 'Member') { tData.memberId = selectedId; tData.memberName = members.find(m => m.id === selectedId)?.name; }
-    else if (linkType === 'Project') { tData.projectId = selectedId; tData.projectName = projects.find(p => p.id === selectedId)?.title; }
+    else if (linkType === 'Project') {
+      tData.projectId = selectedId; tData.projectName = projects.find(p => p.id === selectedId)?.title;
+      if (type === 'Expense' && budgetLineId) { tData.budgetLineId = budgetLineId; tData.budgetLineName = budgetLines.find(l => l.id === budgetLineId)?.name; }
+    }
     else if (linkType === 'Provider') { tData.providerId = selectedId; tData.providerName = providers.find(p => p.id === selectedId)?.name; }
-    await onAddTransaction(tData); setIsSaving(false); onClose();
+    if (isEditing && onUpdateTransaction) await onUpdateTransaction(existingTransaction!.id, tData);
+    else await onAddTransaction(tData, attachments);
+    setIsSaving(false); onClose();
   };
 
   if (!isOpen) return null;
@@ -43,30 +75,71 @@ export const AddTransactionModal: React.FC<AddTransactionModalProps> = ({ isOpen
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex justify-center items-center p-4" onClick={onClose}>
       <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-lg" onClick={(e) => e.stopPropagation()}>
-        <div className="flex justify-between items-center mb-4"><h2 className="text-xl font-semibold">Nova Transação</h2><button onClick={onClose}><X size={20} /></button></div>
+        <div className="flex justify-between items-center mb-4"><h2 className="text-xl font-semibold">{isEditing ? 'Editar Transação' : 'Nova Transação'}</h2><button onClick={onClose}><X size={20} /></button></div>
         <form onSubmit={handleSubmit} className="space-y-4">
             <div className="grid grid-cols-2 gap-4">
-                <div><label className="block text-sm">Tipo</label><select value={type} onChange={(e) => setType(e.target.value as any)} className={INPUT_CLASS}><option value="Income">Receita</option><option value="Expense">Despesa</option></select></div>
+                <div><label className="block text-sm">Tipo</label><select value={type} onChange={(e) => { setType(e.target.value as any); setCategoryId(''); }} className={INPUT_CLASS}><option value="Income">Receita</option><option value="Expense">Despesa</option></select></div>
                 <div><label className="block text-sm">Descrição</label><input value={description} onChange={(e) => setDescription(e.target.value)} className={INPUT_CLASS} /></div>
             </div>
+            <div className="grid grid-cols-2 gap-4">
+                <div>
+                    <label className="block text-sm">Categoria</label>
+                    <select value={categoryId} onChange={(e) => setCategoryId(e.target.value)} className={INPUT_CLASS}>
+                        <option value="">Selecione...</option>
+                        {sortCategories(categories.filter(c => c.type === type)).map(c => <option key={c.id} value={c.id}>{c.code} - {getCategoryLabel(c.id, categories)}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label className="block text-sm">Conta</label>
+                    <select value={accountId} onChange={(e) => setAccountId(e.target.value)} className={INPUT_CLASS}>
+                        <option value="">Selecione...</option>
+                        {financialAccounts.filter(a => a.active).map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                    </select>
+                </div>
+            </div>
             <div className="bg-gray-50 dark:bg-gray-700/50 p-3 rounded-lg border dark:border-gray-600">
                 <label className="block text-sm mb-2">Vincular a:</label>
-                <select value={linkType} onChange={(e) => { setLinkType(e.target.value as any); setSelectedId(''); }} className={INPUT_CLASS}>
+                <select value={linkType} onChange={(e) => { setLinkType(e.target.value as any); setSelectedId(''); setBudgetLineId(''); }} className={INPUT_CLASS}>
                     <option value="None">Sem Vínculo</option><option value="Member">Associado</option><option value="Project">Projeto</option><option value="Provider">Prestador</option>
                 </select>
                 {linkType !== 'None' && (
-                    <select value={selectedId} onChange={(e) => setSelectedId(e.target.value)} className={`${INPUT_CLASS} mt-2`}>
+                    <select value={selectedId} onChange={(e) => { setSelectedId(e.target.value); setBudgetLineId(''); }} className={`${INPUT_CLASS} mt-2`}>
                         <option value="">Selecione...</option>
                         {linkType === 'Member' && members.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
                         {linkType === 'Project' && projects.map(p => <option key={p.id} value={p.id}>{p.title}</option>)}
                         {linkType === 'Provider' && providers.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
                     </select>
                 )}
+                {linkType === 'Project' && type === 'Expense' && selectedId && (
+                    <select value={budgetLineId} onChange={(e) => setBudgetLineId(e.target.value)} className={`${INPUT_CLASS} mt-2`}>
+                        <option value="">Sem rubrica</option>
+                        {budgetLines.filter(l => l.projectId === selectedId).map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+                    </select>
+                )}
             </div>
             <div className="grid grid-cols-2 gap-4">
                 <div><label className="block text-sm">Valor (R$)</label><input type="number" step="0.01" value={amount} onChange={(e) => setAmount(e.target.value)} className={INPUT_CLASS} /></div>
                 <div><label className="block text-sm">Data</label><input type="date" value={date} onChange={(e) => setDate(e.target.value)} className={INPUT_CLASS} /></div>
             </div>
+            {type === 'Income' && (
+                <div><label className="block text-sm">TXID PIX (opcional)</label><input value={pixTxid} onChange={(e) => setPixTxid(e.target.value)} placeholder="Quita automaticamente a mensalidade correspondente" className={`${INPUT_CLASS} font-mono`} /></div>
+            )}
+            {type === 'Expense' && (
+                <div><label className="block text-sm">Nº do documento fiscal (opcional)</label><input value={documentNumber} onChange={(e) => setDocumentNumber(e.target.value)} placeholder="Nota fiscal ou recibo do fornecedor" className={INPUT_CLASS} /></div>
+            )}
+            {!isEditing && <div>
+                <label className="block text-sm">Nota fiscal / comprovantes</label>
+                <label className="mt-1 flex items-center gap-2 px-3 py-2 text-sm border border-dashed rounded-md cursor-pointer dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700/50">
+                    <Paperclip size={16} /> {attachments.length ? `${attachments.length} arquivo(s) selecionado(s)` : 'Anexar arquivos'}
+                    <input type="file" multiple className="sr-only" onChange={(e) => { const files = e.target.files; if (files) setAttachments(prev => [...prev, ...Array.from(files)]); e.target.value = ''; }} />
+                </label>
+                {attachments.length > 0 && (
+                    <ul className="mt-1 text-xs text-gray-500 dark:text-gray-400 space-y-0.5">
+                        {attachments.map((file, i) => <li key={`${file.name}-${i}`} className="flex justify-between"><span className="truncate">{file.name}</span><button type="button" onClick={() => setAttachments(prev => prev.filter((_, j) => j !== i))} className="hover:text-red-500"><X size={12} /></button></li>)}
+                    </ul>
+                )}
+                {type === 'Expense' && attachments.length === 0 && <p className="mt-1 text-xs text-orange-500">Despesas sem comprovante ficam pendentes na prestação de contas.</p>}
+            </div>}
             {error && <p className="text-red-500 text-sm">{error}</p>}
             <div className="flex justify-end gap-2 pt-4"><button type="button" onClick={onClose} className="px-4 py-2 bg-gray-100 rounded-lg">Cancelar</button><button type="submit" disabled={isSaving} className="px-4 py-2 bg-secondary-700 text-white rounded-lg">Salvar</button></div>
         </form>
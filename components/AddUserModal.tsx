@@ -1,11 +1,12 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { User, UserRole } from '../types';
+import { Member, User, UserRole } from '../types';
 import { X } from 'lucide-react';
+import { useData } from '../contexts/DataContext';
 
 interface AddUserModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSave: (user: { name: string; email: string; role: UserRole; password?: string; }) => Promise<void>;
+  onSave: (user: { name: string; email: string; role: UserRole; password?: string; memberId?: string | null; }) => Promise<void>;
   existingUser?: User | null;
 }
 
@@ -18,6 +19,9 @@ export const AddUserModal: React.FC<AddUserModalProps> = ({ isOpen, onClose, onS
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [role, setRole] = useState<UserRole>('Associado');
+  const [memberId, setMemberId] = useState('');
+  const [members, setMembers] = useState<Member[]>([]);
+  const { fetchAllMembers } = useData();
   const [error, setError] = useState('');
   const [isSaving, setIsSaving] = useState(false);
 
@@ -38,7 +42,9 @@ export const AddUserModal: React.FC<AddUserModalProps> = ({ isOpen, onClose, onS
           setName(existingUser.name);
           setEmail(existingUser.email);
           setRole(existingUser.role);
+          setMemberId(existingUser.memberId || '');
           setPassword('');
+          fetchAllMembers().then(setMembers);
         } else {
           resetForm();
         }
@@ -59,7 +65,7 @@ export const AddUserModal: React.FC<AddUserModalProps> = ({ isOpen, onClose, onS
     setError('');
     setIsSaving(true);
 
-    const userData = { name, email, role, ...(password && { password }) };
+    const userData = { name, email, role, ...(password && { password }), ...(isEditing && { memberId: memberId || null }) };
     
     try {
         await onSave(userData);
@@ -111,6 +117,15 @@ export const AddUserModal: React.FC<AddUserModalProps> = ({ isOpen, onClose, onS
                 </select>
               </div>
             </div>
+            {isEditing && (
+              <div>
+                <label htmlFor="userMember" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Membro Vinculado (Portal do Associado)</label>
+                <select id="userMember" value={memberId} onChange={(e) => setMemberId(e.target.value)} className={INPUT_CLASS}>
+                  <option value="">Vincular automaticamente pelo email</option>
+                  {members.map(m => <option key={m.id} value={m.id}>{m.name} ({m.email})</option>)}
+                </select>
+              </div>
+            )}
           </div>
           {error && <p className="text-sm text-red-500 mt-2">{error}</p>}
           <div className="flex justify-end gap-2 pt-6 border-t dark:border-gray-700 mt-4">
@@ -0,0 +1,93 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { X, FileBarChart, Loader2, Printer, Save } from 'lucide-react';
+import { Document, Member } from '../types';
+import { useData } from '../contexts/DataContext';
+import { buildAnnualReport, buildAnnualReportHtml } from '../utils/annualReport';
+import { printHtml } from '../utils/print';
+
+interface AnnualReportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSaveDocument: (doc: Omit<Document, 'id' | 'url'>, file: File) => Promise<void>;
+  showToast: (msg: string, type?: 'success' | 'error') => void;
+}
+
+const INPUT_CLASS = "block w-full rounded-md border-gray-300 shadow-sm focus:border-secondary-500 focus:ring-secondary-500 sm:text-sm dark:bg-gray-700 dark:border-gray-600 dark:placeholder-gray-400 dark:text-white dark:focus:border-secondary-500 dark:focus:ring-secondary-500";
+
+const YEARS_AVAILABLE = 6;
+
+export const AnnualReportModal: React.FC<AnnualReportModalProps> = ({ isOpen, onClose, onSaveDocument, showToast }) => {
+  const { events, projects, transactionSummary, categories, inventory, associationSettings, fetchAllMembers } = useData();
+  const currentYear = new Date().getFullYear();
+  // A assembleia ordinária costuma aprovar as contas do exercício anterior
+  const [year, setYear] = useState(currentYear - 1);
+  const [allMembers, setAllMembers] = useState<Member[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setYear(currentYear - 1);
+    setIsLoading(true);
+    fetchAllMembers().then(setAllMembers).finally(() => setIsLoading(false));
+  }, [isOpen]);
+
+  const html = useMemo(
+    () => buildAnnualReportHtml(buildAnnualReport({ year, members: allMembers, events, projects, transactionSummary, categories, inventory }), associationSettings),
+    [year, allMembers, events, projects, transactionSummary, categories, inventory, associationSettings]
+  );
+
+  if (!isOpen) return null;
+
+  const handlePrint = () => {
+    if (!printHtml(html)) showToast('Permita pop-ups para imprimir o relatório.', 'error');
+  };
+
+  const handleSave = async () => {
+    const name = `Relatório Anual ${year}.html`;
+    const file = new File([html], name, { type: 'text/html' });
+    setIsSaving(true);
+    try {
+      await onSaveDocument({ name, type: 'Report', uploadDate: new Date().toISOString(), size: file.size }, file);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex justify-center items-center p-4" onClick={onClose}>
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-5xl max-h-[90vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold flex items-center gap-2"><FileBarChart size={20} /> Relatório Anual para a Assembleia</h2>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700"><X size={20} /></button>
+        </div>
+
+        <div className="flex items-end gap-2 mb-3">
+          <div className="w-40">
+            <label className="block text-sm">Exercício</label>
+            <select value={year} onChange={(e) => setYear(Number(e.target.value))} className={INPUT_CLASS}>
+              {Array.from({ length: YEARS_AVAILABLE }, (_, i) => currentYear - i).map(y => <option key={y} value={y}>{y}</option>)}
+            </select>
+          </div>
+          {year === currentYear && <p className="text-xs text-orange-600 dark:text-orange-400 pb-2">Exercício em andamento: os números ainda são parciais.</p>}
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-10"><Loader2 className="animate-spin text-secondary-600" /></div>
+        ) : (
+          <iframe title="Pré-visualização do relatório anual" srcDoc={html} className="w-full flex-1 min-h-[420px] bg-white rounded border dark:border-gray-600" />
+        )}
+
+        <div className="flex justify-end gap-2 pt-4 border-t dark:border-gray-700 mt-4">
+          <button type="button" onClick={onClose} className="px-4 py-2 text-sm font-medium bg-gray-100 dark:bg-gray-700 rounded-lg">Fechar</button>
+          <button onClick={handleSave} disabled={isLoading || isSaving} className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-600 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 disabled:opacity-50">
+            {isSaving ? <Loader2 size={16} className="animate-spin" /> : <Save size={16} />} Salvar em Documentos
+          </button>
+          <button onClick={handlePrint} disabled={isLoading} className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-secondary-700 rounded-lg hover:bg-secondary-800 disabled:opacity-50">
+            <Printer size={16} /> Imprimir / PDF
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,201 @@
+import React, { useState, useEffect } from 'react';
+import { X, UploadCloud, Loader2, Landmark } from 'lucide-react';
+import { Transaction } from '../types';
+import { useData } from '../contexts/DataContext';
+import { MAX_DAY_DISTANCE, decodeStatementFile, matchStatementLines, parseStatement, StatementLine, StatementMatch } from '../utils/bankStatement';
+import { addDays } from '../utils/dues';
+import { getCategoryLabel, sortCategories } from '../utils/categories';
+
+interface BankImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+type LineAction = 'Confirm' | 'Create' | 'Ignore';
+
+interface PreviewRow extends StatementMatch {
+  action: LineAction;
+  categoryId: string;
+}
+
+const SELECT_CLASS = "block w-full rounded-md border-gray-300 text-xs dark:bg-gray-700 dark:border-gray-600 dark:text-white";
+
+const buildRows = (lines: StatementLine[], transactions: Transaction[], accountId: string): PreviewRow[] =>
+  matchStatementLines(lines, transactions, accountId).map(m => ({
+    ...m,
+    action: m.status === 'Matched' ? 'Confirm' : m.status === 'New' ? 'Create' : 'Ignore',
+    categoryId: '',
+  }));
+
+const STATUS_BADGE: Record<StatementMatch['status'], { label: string; className: string }> = {
+  Matched: { label: 'Encontrada', className: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300' },
+  New: { label: 'Nova', className: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300' },
+  Duplicate: { label: 'Duplicada', className: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300' },
+};
+
+export const BankImportModal: React.FC<BankImportModalProps> = ({ isOpen, onClose }) => {
+  const { categories, financialAccounts, fetchTransactions, addTransaction, reconcileTransaction } = useData();
+  const [lines, setLines] = useState<StatementLine[]>([]);
+  const [windowTransactions, setWindowTransactions] = useState<Transaction[]>([]);
+  const [rows, setRows] = useState<PreviewRow[]>([]);
+  const [fileName, setFileName] = useState('');
+  const [error, setError] = useState('');
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [summary, setSummary] = useState<string | null>(null);
+  const [accountId, setAccountId] = useState('');
+
+  useEffect(() => { if (isOpen) { setLines([]); setWindowTransactions([]); setRows([]); setFileName(''); setError(''); setIsProcessing(false); setSummary(null); setAccountId(financialAccounts.find(a => a.active && a.type !== 'Cash')?.id || ''); } }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setFileName(file.name); setError(''); setSummary(null);
+    try {
+      const content = decodeStatementFile(await file.arrayBuffer());
+      const parsed = parseStatement(file.name, content);
+      if (parsed.length === 0) { setError('Nenhum lançamento encontrado no arquivo.'); setLines([]); setRows([]); return; }
+      // Compara com todas as transações do período do extrato (com a folga de datas da conciliação), não só as recentes
+      const dates = parsed.map(l => l.date).sort();
+      const transactions = await fetchTransactions({ startDate: addDays(dates[0], -MAX_DAY_DISTANCE), endDate: addDays(dates[dates.length - 1], MAX_DAY_DISTANCE) });
+      setLines(parsed);
+      setWindowTransactions(transactions);
+      setRows(buildRows(parsed, transactions, accountId));
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Não foi possível ler o extrato.');
+      setLines([]);
+      setRows([]);
+    }
+  };
+
+  // A conciliação depende da conta: trocar a conta refaz a comparação
+  const handleAccountChange = (value: string) => {
+    setAccountId(value);
+    if (lines.length > 0) setRows(buildRows(lines, windowTransactions, value));
+  };
+
+  const updateRow = (index: number, data: Partial<PreviewRow>) => setRows(prev => prev.map((r, i) => i === index ? { ...r, ...data } : r));
+
+  const handleProcess = async () => {
+    if (rows.some(r => r.action === 'Create' && !r.categoryId)) { setError('Selecione a categoria de todas as linhas a criar.'); return; }
+    if (rows.some(r => r.action === 'Create') && !accountId) { setError('Selecione a conta bancária do extrato.'); return; }
+    setError(''); setIsProcessing(true);
+    let confirmed = 0, created = 0;
+    const failed: PreviewRow[] = [];
+    for (const row of rows) {
+      if (row.action === 'Confirm' && row.transaction) {
+        if (await reconcileTransaction(row.transaction.id, row.line.bankRef)) confirmed++;
+        else failed.push(row);
+      } else if (row.action === 'Create') {
+        const ok = await addTransaction({
+          description: row.line.description || 'Lançamento do extrato',
+          amount: Math.abs(row.line.amount),
+          type: row.line.amount >= 0 ? 'Income' : 'Expense',
+          date: row.line.date,
+          categoryId: row.categoryId,
+          categoryName: getCategoryLabel(row.categoryId, categories),
+          accountId,
+          accountName: financialAccounts.find(a => a.id === accountId)?.name,
+          reconciled: true,
+          bankRef: row.line.bankRef,
+        });
+        if (ok) created++;
+        else failed.push(row);
+      }
+    }
+    setIsProcessing(false);
+    // As linhas que falharam continuam na tela para nova tentativa
+    setLines(failed.map(r => r.line));
+    setRows(failed);
+    setSummary(`${confirmed} transação(ões) conciliada(s), ${created} criada(s).`);
+    if (failed.length > 0) setError(`${failed.length} linha(s) não puderam ser processadas e continuam na lista.`);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex justify-center items-center p-4" onClick={onClose}>
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-6xl max-h-[90vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold flex items-center gap-2"><Landmark size={20} /> Importar Extrato Bancário</h2>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700"><X size={20} /></button>
+        </div>
+
+        <label htmlFor="statement-upload" className="flex items-center justify-center gap-3 px-6 py-4 border-2 border-gray-300 dark:border-gray-600 border-dashed rounded-md cursor-pointer hover:border-secondary-500">
+          <UploadCloud className="h-8 w-8 text-gray-400" />
+          <div className="text-sm">
+            <p className="font-medium text-secondary-700 dark:text-secondary-400">{fileName || 'Selecione o arquivo do extrato'}</p>
+            <p className="text-xs text-gray-500 dark:text-gray-400">OFX ou CSV exportado pelo banco (Data; Histórico; Valor)</p>
+          </div>
+          <input id="statement-upload" type="file" accept=".ofx,.csv,.txt" className="sr-only" onChange={handleFileChange} />
+        </label>
+
+        <div className="mt-3 flex items-center gap-2 text-sm">
+          <label htmlFor="statement-account" className="font-medium whitespace-nowrap">Conta do extrato:</label>
+          <select id="statement-account" value={accountId} disabled={isProcessing} onChange={(e) => handleAccountChange(e.target.value)} className={`${SELECT_CLASS} max-w-xs`}>
+            <option value="">Selecione...</option>
+            {financialAccounts.filter(a => a.active).map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+          </select>
+        </div>
+
+        {error && <p className="text-red-500 text-sm mt-3">{error}</p>}
+        {summary && <p className="text-green-600 dark:text-green-400 text-sm mt-3 font-medium">{summary}</p>}
+
+        {rows.length > 0 && (
+          <div className="overflow-auto mt-4 flex-1">
+            <table className="w-full text-sm text-left text-gray-500 dark:text-gray-400">
+              <thead className="text-xs text-gray-700 uppercase bg-gray-50 dark:bg-gray-700 dark:text-gray-400 sticky top-0">
+                <tr>
+                  <th className="px-3 py-2">Data</th>
+                  <th className="px-3 py-2">Histórico</th>
+                  <th className="px-3 py-2">Valor</th>
+                  <th className="px-3 py-2">Situação</th>
+                  <th className="px-3 py-2">Transação Correspondente</th>
+                  <th className="px-3 py-2">Ação</th>
+                  <th className="px-3 py-2">Categoria</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row, index) => {
+                  const type = row.line.amount >= 0 ? 'Income' : 'Expense';
+                  return (
+                    <tr key={row.line.bankRef} className={`border-b dark:border-gray-700 ${row.action === 'Ignore' ? 'opacity-50' : ''}`}>
+                      <td className="px-3 py-2 whitespace-nowrap">{new Date(`${row.line.date}T00:00:00`).toLocaleDateString('pt-BR')}</td>
+                      <td className="px-3 py-2 text-gray-900 dark:text-white">{row.line.description}</td>
+                      <td className={`px-3 py-2 font-semibold whitespace-nowrap ${type === 'Income' ? 'text-green-500' : 'text-red-500'}`}>R$ {row.line.amount.toFixed(2)}</td>
+                      <td className="px-3 py-2"><span className={`px-2 py-1 text-xs font-medium rounded-full ${STATUS_BADGE[row.status].className}`}>{STATUS_BADGE[row.status].label}</span></td>
+                      <td className="px-3 py-2 text-xs">{row.transaction ? `${row.transaction.description} (${row.transaction.date})` : '-'}</td>
+                      <td className="px-3 py-2">
+                        <select value={row.action} disabled={row.status === 'Duplicate'} onChange={(e) => updateRow(index, { action: e.target.value as LineAction })} className={SELECT_CLASS}>
+                          {row.status === 'Matched' && <option value="Confirm">Confirmar</option>}
+                          {row.status !== 'Duplicate' && <option value="Create">Criar</option>}
+                          <option value="Ignore">Ignorar</option>
+                        </select>
+                      </td>
+                      <td className="px-3 py-2">
+                        {row.action === 'Create' && (
+                          <select value={row.categoryId} onChange={(e) => updateRow(index, { categoryId: e.target.value })} className={SELECT_CLASS}>
+                            <option value="">Selecione...</option>
+                            {sortCategories(categories.filter(c => c.type === type)).map(c => <option key={c.id} value={c.id}>{getCategoryLabel(c.id, categories)}</option>)}
+                          </select>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2 pt-4 border-t dark:border-gray-700 mt-4">
+          <button type="button" onClick={onClose} className="px-4 py-2 text-sm font-medium bg-gray-100 dark:bg-gray-700 rounded-lg">Fechar</button>
+          {rows.length > 0 && (
+            <button onClick={handleProcess} disabled={isProcessing} className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-secondary-700 rounded-lg hover:bg-secondary-800 disabled:opacity-50">
+              {isProcessing && <Loader2 size={16} className="animate-spin" />} Processar Extrato
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
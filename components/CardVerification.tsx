@@ -0,0 +1,72 @@
+import React, { useState, useEffect } from 'react';
+import { ShieldCheck, ShieldX, Loader2, Search } from 'lucide-react';
+import { ERP_NAME } from '../constants';
+import { MemberCardVerification } from '../types';
+import { useData } from '../contexts/DataContext';
+import { MEMBER_CARD_STATUS_LABELS } from '../utils/memberCard';
+import { formatDateBR } from '../utils/print';
+
+// Tela pública aberta pelo QR da carteirinha (?verificar=<token>). Não exige login:
+// o parceiro só vê nome, foto, categoria e se a carteirinha vale hoje.
+export const CardVerification: React.FC<{ token: string }> = ({ token }) => {
+  const { verifyMemberCard } = useData();
+  const [input, setInput] = useState(token);
+  const [result, setResult] = useState<MemberCardVerification | null>(null);
+  const [checked, setChecked] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const verify = async (value: string) => {
+    if (!value.trim()) return;
+    setIsLoading(true);
+    try {
+      setResult(await verifyMemberCard(value.trim()));
+      setChecked(true);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => { if (token) verify(token); }, [token]);
+
+  const isValid = result?.status === 'Valid';
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-gray-50 dark:bg-gray-900 px-4">
+      <div className="max-w-md w-full">
+        <div className="text-center mb-8">
+          <h1 className="mt-6 text-3xl font-extrabold text-gray-900 dark:text-white">{ERP_NAME}</h1>
+          <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">Verificação de carteirinha de membro</p>
+        </div>
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 space-y-4">
+          {isLoading ? (
+            <div className="flex justify-center py-10"><Loader2 className="h-10 w-10 animate-spin text-primary-700" /></div>
+          ) : checked && (
+            <div className={`rounded-lg p-4 text-center ${isValid ? 'bg-green-50 dark:bg-green-900/30 text-green-800 dark:text-green-200' : 'bg-red-50 dark:bg-red-900/30 text-red-800 dark:text-red-200'}`}>
+              {isValid ? <ShieldCheck className="mx-auto h-12 w-12" /> : <ShieldX className="mx-auto h-12 w-12" />}
+              <p className="mt-2 text-lg font-bold">{MEMBER_CARD_STATUS_LABELS[result?.status ?? 'Invalid']}</p>
+            </div>
+          )}
+
+          {!isLoading && result?.memberName && (
+            <div className="flex items-center gap-4">
+              {result.avatarUrl && <img src={result.avatarUrl} alt="" className="w-20 h-24 object-cover rounded-lg bg-gray-100" />}
+              <div className="text-sm text-gray-700 dark:text-gray-300 space-y-0.5">
+                <p className="text-base font-semibold text-gray-900 dark:text-white">{result.memberName}</p>
+                <p>{result.memberRole}</p>
+                {result.admissionDate && <p>Membro desde {formatDateBR(result.admissionDate)}</p>}
+                {result.validUntil && <p>Válida até {formatDateBR(result.validUntil)}</p>}
+              </div>
+            </div>
+          )}
+
+          <form onSubmit={(e) => { e.preventDefault(); verify(input); }} className="flex gap-2 pt-2 border-t dark:border-gray-700">
+            <input value={input} onChange={(e) => setInput(e.target.value)} placeholder="Código da carteirinha" className="flex-1 rounded-md border-gray-300 shadow-sm text-sm dark:bg-gray-700 dark:border-gray-600 dark:text-white" />
+            <button type="submit" disabled={isLoading || !input.trim()} className="flex items-center gap-1 px-4 py-2 text-sm font-medium text-white bg-primary-700 rounded-lg hover:bg-primary-800 disabled:opacity-50">
+              <Search size={16} /> Verificar
+            </button>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
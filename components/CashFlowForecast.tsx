@@ -0,0 +1,69 @@
+import React, { useMemo } from 'react';
+import { CalendarRange, AlertTriangle } from 'lucide-react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, Cell } from 'recharts';
+import { Member, Event } from '../types';
+import { useData } from '../contexts/DataContext';
+import { ExportButton } from './ExportButton';
+import { getAccountBalances } from '../utils/accounts';
+import { buildCashFlowForecast, ForecastMonth } from '../utils/cashFlowForecast';
+import { SpreadsheetColumn } from '../utils/spreadsheet';
+
+interface CashFlowForecastProps {
+  members: Member[];
+  events: Event[];
+}
+
+const FORECAST_EXPORT_COLUMNS: SpreadsheetColumn<ForecastMonth>[] = [
+  { key: 'label', label: 'Mês' },
+  { key: 'dues', label: 'Mensalidades', type: 'currency' },
+  { key: 'recurringIncome', label: 'Receitas Recorrentes', type: 'currency' },
+  { key: 'eventsIncome', label: 'Receitas de Eventos', type: 'currency' },
+  { key: 'recurringExpense', label: 'Despesas Recorrentes', type: 'currency' },
+  { key: 'projects', label: 'Projetos', type: 'currency' },
+  { key: 'eventsExpense', label: 'Custos de Eventos', type: 'currency' },
+  { key: 'net', label: 'Resultado', type: 'currency' },
+  { key: 'balance', label: 'Saldo Projetado', type: 'currency' },
+];
+
+export const CashFlowForecast: React.FC<CashFlowForecastProps> = ({ members, events }) => {
+  const { financialAccounts, transfers, transactionSummary, projectExpenseSummary, duesSettings, duesCharges, recurringTemplates, projects, budgetLines } = useData();
+
+  const forecast = useMemo(() => {
+    const openingBalance = getAccountBalances(financialAccounts, transactionSummary, transfers).reduce((acc, b) => acc + b.balance, 0);
+    return buildCashFlowForecast({ openingBalance, members, duesSettings, duesCharges, recurringTemplates, projects, budgetLines, projectExpenses: projectExpenseSummary, events });
+  }, [financialAccounts, transactionSummary, projectExpenseSummary, transfers, members, duesSettings, duesCharges, recurringTemplates, projects, budgetLines, events]);
+
+  const negativeMonths = forecast.filter(m => m.balance < 0);
+
+  return (
+    <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-lg border border-gray-200 dark:border-gray-700 h-96 flex flex-col">
+      <div className="flex justify-between items-start mb-2 gap-2">
+        <h3 className="text-lg font-semibold text-gray-800 dark:text-white flex items-center gap-2">
+          <CalendarRange size={20} className="text-purple-500"/> Previsão de Saldo (12 meses)
+        </h3>
+        <ExportButton rows={forecast} columns={FORECAST_EXPORT_COLUMNS} filename="previsao_fluxo_caixa" sheetName="Previsão de Saldo" />
+      </div>
+      {negativeMonths.length > 0 ? (
+        <p className="text-xs text-red-600 dark:text-red-400 flex items-center gap-1 mb-2"><AlertTriangle size={14} /> Saldo negativo previsto em {negativeMonths.map(m => m.label).join(', ')}</p>
+      ) : (
+        <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">Mensalidades, recorrentes, projetos e eventos previstos.</p>
+      )}
+      <ResponsiveContainer width="100%" height="100%">
+        <BarChart data={forecast}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#374151" opacity={0.1} />
+          <XAxis dataKey="label" stroke="#9CA3AF" fontSize={11} tickLine={false} axisLine={false} />
+          <YAxis stroke="#9CA3AF" fontSize={12} tickLine={false} axisLine={false} tickFormatter={(value) => `R$${value}`}/>
+          <Tooltip
+            contentStyle={{ backgroundColor: '#1F2937', borderColor: '#374151', color: '#F3F4F6', borderRadius: '8px' }}
+            cursor={{fill: 'transparent'}}
+            formatter={(value: number) => `R$ ${value.toFixed(2)}`}
+          />
+          <ReferenceLine y={0} stroke="#9CA3AF" />
+          <Bar dataKey="balance" name="Saldo Projetado" radius={[4, 4, 0, 0]} barSize={16}>
+            {forecast.map(m => <Cell key={m.competence} fill={m.balance < 0 ? '#EF4444' : '#8B5CF6'} />)}
+          </Bar>
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
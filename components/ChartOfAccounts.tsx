@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { Edit, Trash2, PlusCircle, X } from 'lucide-react';
+import { AccountCategory } from '../types';
+import { useData } from '../contexts/DataContext';
+import { sortCategories, getDescendantIds } from '../utils/categories';
+
+const INPUT_CLASS = "mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-secondary-500 focus:ring-secondary-500 sm:text-sm dark:bg-gray-700 dark:border-gray-600 dark:placeholder-gray-400 dark:text-white dark:focus:border-secondary-500 dark:focus:ring-secondary-500";
+
+const EMPTY_FORM = { code: '', name: '', type: 'Expense' as AccountCategory['type'], parentId: '' };
+
+const getDepth = (category: AccountCategory, categories: AccountCategory[]): number => {
+    let depth = 0;
+    const visited = new Set<string>([category.id]);
+    let parent = categories.find(c => c.id === category.parentId);
+    while (parent && !visited.has(parent.id)) { visited.add(parent.id); depth++; parent = categories.find(c => c.id === parent!.parentId); }
+    return depth;
+};
+
+export const ChartOfAccounts: React.FC<{ showToast: (msg: string, type?: 'success' | 'error') => void }> = ({ showToast }) => {
+    const { categories, addCategory, updateCategory, deleteCategory } = useData();
+    const [form, setForm] = useState(EMPTY_FORM);
+    const [editingId, setEditingId] = useState<string | null>(null);
+
+    const handleEdit = (category: AccountCategory) => {
+        setEditingId(category.id);
+        setForm({ code: category.code, name: category.name, type: category.type, parentId: category.parentId || '' });
+    };
+
+    const handleCancel = () => { setEditingId(null); setForm(EMPTY_FORM); };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!form.code || !form.name) { showToast('Informe código e nome da categoria.', 'error'); return; }
+        const data = { code: form.code, name: form.name, type: form.type, parentId: form.parentId || null };
+        if (editingId) { await updateCategory(editingId, data); showToast('Categoria atualizada!'); }
+        else { await addCategory(data); showToast('Categoria criada!'); }
+        handleCancel();
+    };
+
+    const handleDelete = async (category: AccountCategory) => {
+        if (window.confirm(`Excluir a categoria "${category.name}" e suas subcategorias?`)) { await deleteCategory(category.id); }
+    };
+
+    // Subcategoria herda o tipo da categoria-pai; a categoria editada não pode ficar abaixo de si mesma
+    const excludedIds = editingId ? getDescendantIds(editingId, categories) : new Set<string>();
+    const parentOptions = sortCategories(categories.filter(c => c.type === form.type && !excludedIds.has(c.id)));
+
+    return (
+        <div className="space-y-4">
+            <form onSubmit={handleSubmit} className="grid grid-cols-2 md:grid-cols-4 gap-3 items-end">
+                <div><label className="block text-sm font-medium">Código</label><input value={form.code} onChange={(e) => setForm({ ...form, code: e.target.value })} placeholder="2.01.04" className={INPUT_CLASS} /></div>
+                <div><label className="block text-sm font-medium">Nome</label><input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} className={INPUT_CLASS} /></div>
+                <div><label className="block text-sm font-medium">Tipo</label><select value={form.type} onChange={(e) => setForm({ ...form, type: e.target.value as AccountCategory['type'], parentId: '' })} className={INPUT_CLASS}><option value="Income">Receita</option><option value="Expense">Despesa</option></select></div>
+                <div><label className="block text-sm font-medium">Categoria Pai</label><select value={form.parentId} onChange={(e) => setForm({ ...form, parentId: e.target.value })} className={INPUT_CLASS}><option value="">Nenhuma</option>{parentOptions.map(c => <option key={c.id} value={c.id}>{c.code} - {c.name}</option>)}</select></div>
+                <div className="col-span-2 md:col-span-4 flex justify-end gap-2">
+                    {editingId && <button type="button" onClick={handleCancel} className="flex items-center gap-2 px-4 py-2 text-sm font-medium bg-gray-100 dark:bg-gray-700 rounded-lg"><X size={16} /> Cancelar</button>}
+                    <button type="submit" className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-secondary-700 rounded-lg hover:bg-secondary-800"><PlusCircle size={16} /> {editingId ? 'Salvar' : 'Adicionar'}</button>
+                </div>
+            </form>
+            {(['Income', 'Expense'] as const).map(type => (
+                <div key={type}>
+                    <h4 className={`text-sm font-semibold mb-2 ${type === 'Income' ? 'text-green-600' : 'text-red-500'}`}>{type === 'Income' ? 'Receitas' : 'Despesas'}</h4>
+                    <ul className="divide-y dark:divide-gray-700">
+                        {sortCategories(categories.filter(c => c.type === type)).map(category => (
+                            <li key={category.id} className="py-2 flex justify-between items-center text-sm">
+                                <span style={{ paddingLeft: `${getDepth(category, categories) * 1.25}rem` }}><span className="font-mono text-gray-500 mr-2">{category.code}</span>{category.name}</span>
+                                <div><button onClick={() => handleEdit(category)} className="p-2 text-gray-500 hover:text-blue-600"><Edit size={14} /></button><button onClick={() => handleDelete(category)} className="p-2 text-gray-500 hover:text-red-600"><Trash2 size={14} /></button></div>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            ))}
+            {categories.length === 0 && <p className="text-sm text-gray-500 text-center py-4">Nenhuma categoria cadastrada.</p>}
+        </div>
+    );
+};
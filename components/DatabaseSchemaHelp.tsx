@@ -97,6 +97,1510 @@ DROP POLICY IF EXISTS "Super Admins can view all profiles" ON public.profiles;
 CREATE POLICY "Authenticated users can view their own profile" ON public.profiles FOR SELECT TO authenticated USING (auth.uid() = id);
 CREATE POLICY "Users can update their own profile" ON public.profiles FOR UPDATE TO authenticated USING (auth.uid() = id);
 CREATE POLICY "Super Admins can view all profiles" ON public.profiles FOR SELECT TO authenticated USING ( (SELECT role FROM public.profiles WHERE id = auth.uid()) = 'Super Admin' );
+
+-- 8. MENSALIDADES (CONFIGURAÇÃO + COBRANÇAS)
+CREATE TABLE IF NOT EXISTS public.dues_settings (
+    id INT PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+    amount NUMERIC(10, 2) NOT NULL DEFAULT 0,
+    due_day INT NOT NULL DEFAULT 10 CHECK (due_day BETWEEN 1 AND 31),
+    grace_days INT NOT NULL DEFAULT 5 CHECK (grace_days >= 0),
+    start_competence TEXT NOT NULL DEFAULT to_char(now(), 'YYYY-MM')
+);
+
+CREATE TABLE IF NOT EXISTS public.dues_charges (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    member_id UUID NOT NULL REFERENCES public.members(id) ON DELETE CASCADE,
+    member_name TEXT,
+    competence TEXT NOT NULL,
+    due_date DATE NOT NULL,
+    amount NUMERIC(10, 2) NOT NULL,
+    status TEXT NOT NULL DEFAULT 'Open' CHECK (status IN ('Open', 'Paid')),
+    paid_at DATE,
+    transaction_id UUID REFERENCES public.transactions(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    UNIQUE (member_id, competence)
+);
+
+ALTER TABLE public.dues_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.dues_charges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable all for authenticated users on dues_settings" ON public.dues_settings FOR ALL TO authenticated USING (true) WITH CHECK (true);
+CREATE POLICY "Enable all for authenticated users on dues_charges" ON public.dues_charges FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+-- 9. PLANO DE CONTAS (CATEGORIAS DE RECEITA/DESPESA)
+CREATE TABLE IF NOT EXISTS public.account_categories (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    code TEXT NOT NULL UNIQUE,
+    name TEXT NOT NULL,
+    type TEXT NOT NULL CHECK (type IN ('Income', 'Expense')),
+    parent_id UUID REFERENCES public.account_categories(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+ALTER TABLE public.account_categories ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Enable all for authenticated users on account_categories" ON public.account_categories FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+-- Impede ciclos na hierarquia (categoria abaixo de uma subcategoria sua)
+CREATE OR REPLACE FUNCTION public.check_account_category_cycle()
+RETURNS TRIGGER AS $fn$
+DECLARE
+    v_current UUID := NEW.parent_id;
+    v_seen UUID[] := ARRAY[NEW.id];
+BEGIN
+    WHILE v_current IS NOT NULL LOOP
+        IF v_current = ANY(v_seen) THEN
+            RAISE EXCEPTION 'A categoria não pode ficar abaixo de uma subcategoria dela mesma.';
+        END IF;
+        v_seen := v_seen || v_current;
+        SELECT parent_id INTO v_current FROM public.account_categories WHERE id = v_current;
+    END LOOP;
+    RETURN NEW;
+END;
+$fn$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS account_categories_no_cycle ON public.account_categories;
+CREATE TRIGGER account_categories_no_cycle BEFORE INSERT OR UPDATE OF parent_id ON public.account_categories FOR EACH ROW EXECUTE FUNCTION public.check_account_category_cycle();
+
+INSERT INTO public.account_categories (code, name, type) VALUES
+    ('1.01', 'Mensalidades', 'Income'),
+    ('1.02', 'Doações', 'Income'),
+    ('1.03', 'Patrocínios e Editais', 'Income'),
+    ('1.04', 'Eventos e Feiras', 'Income'),
+    ('1.99', 'Outras Receitas', 'Income'),
+    ('2.01', 'Despesas Administrativas', 'Expense'),
+    ('2.02', 'Projetos e Eventos', 'Expense'),
+    ('2.03', 'Serviços de Terceiros', 'Expense'),
+    ('2.04', 'Tarifas Bancárias', 'Expense'),
+    ('2.99', 'Outras Despesas', 'Expense')
+ON CONFLICT (code) DO NOTHING;
+
+INSERT INTO public.account_categories (code, name, type, parent_id)
+SELECT sub.code, sub.name, 'Expense', p.id
+FROM (VALUES ('2.01.01', 'Aluguel'), ('2.01.02', 'Água, Luz e Internet'), ('2.01.03', 'Contabilidade')) AS sub(code, name)
+JOIN public.account_categories p ON p.code = '2.01'
+ON CONFLICT (code) DO NOTHING;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'transactions' AND column_name = 'category_id') THEN
+        ALTER TABLE public.transactions ADD COLUMN category_id UUID REFERENCES public.account_categories(id) ON DELETE RESTRICT;
+        ALTER TABLE public.transactions ADD COLUMN category_name TEXT;
+    END IF;
+END $$;
+
+-- 10. CONCILIAÇÃO BANCÁRIA (IMPORTAÇÃO DE EXTRATOS)
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'transactions' AND column_name = 'reconciled') THEN
+        ALTER TABLE public.transactions ADD COLUMN reconciled BOOLEAN NOT NULL DEFAULT false;
+        ALTER TABLE public.transactions ADD COLUMN bank_ref TEXT;
+    END IF;
+END $$;
+
+-- Impede que a mesma linha do extrato seja lançada duas vezes
+CREATE UNIQUE INDEX IF NOT EXISTS transactions_bank_ref_key ON public.transactions (bank_ref) WHERE bank_ref IS NOT NULL;
+
+-- 11. COBRANÇAS PIX (BR CODE)
+CREATE TABLE IF NOT EXISTS public.pix_settings (
+    id INT PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+    key TEXT NOT NULL DEFAULT '',
+    merchant_name TEXT NOT NULL DEFAULT '',
+    merchant_city TEXT NOT NULL DEFAULT ''
+);
+
+ALTER TABLE public.pix_settings ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Enable all for authenticated users on pix_settings" ON public.pix_settings FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'dues_charges' AND column_name = 'txid') THEN
+        ALTER TABLE public.dues_charges ADD COLUMN txid TEXT;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'transactions' AND column_name = 'pix_txid') THEN
+        ALTER TABLE public.transactions ADD COLUMN pix_txid TEXT;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'events' AND column_name = 'fee') THEN
+        ALTER TABLE public.events ADD COLUMN fee NUMERIC(10, 2);
+    END IF;
+END $$;
+
+-- Cada QR Code de inscrição em evento é uma cobrança com TXID próprio, quitada pela receita que o trouxer
+CREATE TABLE IF NOT EXISTS public.event_charges (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+    event_title TEXT,
+    amount NUMERIC(10, 2) NOT NULL,
+    txid TEXT NOT NULL UNIQUE DEFAULT ('E' || upper(substr(replace(gen_random_uuid()::text, '-', ''), 1, 24))),
+    status TEXT NOT NULL DEFAULT 'Open' CHECK (status IN ('Open', 'Paid')),
+    paid_at DATE,
+    transaction_id UUID REFERENCES public.transactions(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+ALTER TABLE public.event_charges ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Enable all for authenticated users on event_charges" ON public.event_charges FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+-- 12. CONTAS FINANCEIRAS E TRANSFERÊNCIAS
+CREATE TABLE IF NOT EXISTS public.financial_accounts (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    name TEXT NOT NULL UNIQUE,
+    type TEXT NOT NULL CHECK (type IN ('Checking', 'Savings', 'Cash')),
+    initial_balance NUMERIC(12, 2) NOT NULL DEFAULT 0,
+    active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS public.account_transfers (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    from_account_id UUID NOT NULL REFERENCES public.financial_accounts(id) ON DELETE RESTRICT,
+    from_account_name TEXT,
+    to_account_id UUID NOT NULL REFERENCES public.financial_accounts(id) ON DELETE RESTRICT,
+    to_account_name TEXT,
+    amount NUMERIC(12, 2) NOT NULL CHECK (amount > 0),
+    date DATE NOT NULL,
+    description TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    CHECK (from_account_id <> to_account_id)
+);
+
+ALTER TABLE public.financial_accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.account_transfers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable all for authenticated users on financial_accounts" ON public.financial_accounts FOR ALL TO authenticated USING (true) WITH CHECK (true);
+CREATE POLICY "Enable all for authenticated users on account_transfers" ON public.account_transfers FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+INSERT INTO public.financial_accounts (name, type) VALUES
+    ('Conta Corrente', 'Checking'),
+    ('Poupança', 'Savings'),
+    ('Caixa da Feira', 'Cash')
+ON CONFLICT (name) DO NOTHING;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'transactions' AND column_name = 'account_id') THEN
+        ALTER TABLE public.transactions ADD COLUMN account_id UUID REFERENCES public.financial_accounts(id) ON DELETE RESTRICT;
+        ALTER TABLE public.transactions ADD COLUMN account_name TEXT;
+        -- Lançamentos existentes passam a pertencer à conta corrente
+        UPDATE public.transactions SET account_id = a.id, account_name = a.name FROM public.financial_accounts a WHERE a.name = 'Conta Corrente';
+    END IF;
+END $$;
+
+-- 13. ORÇAMENTO DE PROJETOS (RUBRICAS)
+CREATE TABLE IF NOT EXISTS public.project_budget_lines (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    planned_amount NUMERIC(12, 2) NOT NULL DEFAULT 0 CHECK (planned_amount >= 0),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    UNIQUE (project_id, name)
+);
+
+ALTER TABLE public.project_budget_lines ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Enable all for authenticated users on project_budget_lines" ON public.project_budget_lines FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'transactions' AND column_name = 'budget_line_id') THEN
+        ALTER TABLE public.transactions ADD COLUMN budget_line_id UUID REFERENCES public.project_budget_lines(id) ON DELETE SET NULL;
+        ALTER TABLE public.transactions ADD COLUMN budget_line_name TEXT;
+    END IF;
+END $$;
+
+-- 14. LANÇAMENTOS RECORRENTES
+CREATE TABLE IF NOT EXISTS public.recurring_templates (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    description TEXT NOT NULL,
+    amount NUMERIC(12, 2) NOT NULL CHECK (amount > 0),
+    type TEXT NOT NULL CHECK (type IN ('Income', 'Expense')),
+    category_id UUID NOT NULL REFERENCES public.account_categories(id) ON DELETE RESTRICT,
+    category_name TEXT,
+    account_id UUID NOT NULL REFERENCES public.financial_accounts(id) ON DELETE RESTRICT,
+    account_name TEXT,
+    provider_id UUID REFERENCES public.service_providers(id) ON DELETE SET NULL,
+    provider_name TEXT,
+    frequency TEXT NOT NULL CHECK (frequency IN ('Monthly', 'Quarterly', 'Yearly')),
+    start_date DATE NOT NULL,
+    end_date DATE,
+    next_due_date DATE NOT NULL,
+    auto_confirm BOOLEAN NOT NULL DEFAULT true,
+    active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+ALTER TABLE public.recurring_templates ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Enable all for authenticated users on recurring_templates" ON public.recurring_templates FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'transactions' AND column_name = 'recurring_template_id') THEN
+        ALTER TABLE public.transactions ADD COLUMN recurring_template_id UUID REFERENCES public.recurring_templates(id) ON DELETE SET NULL;
+    END IF;
+END $$;
+
+-- Uma ocorrência por modelo e data (evita duplicidade na geração automática)
+CREATE UNIQUE INDEX IF NOT EXISTS transactions_recurring_occurrence_key ON public.transactions (recurring_template_id, date);
+
+-- 15. DADOS DA ASSOCIAÇÃO E RECIBOS
+CREATE TABLE IF NOT EXISTS public.association_settings (
+    id INT PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+    name TEXT NOT NULL DEFAULT '',
+    cnpj TEXT NOT NULL DEFAULT '',
+    address TEXT NOT NULL DEFAULT '',
+    city TEXT NOT NULL DEFAULT '',
+    state TEXT NOT NULL DEFAULT '',
+    email TEXT NOT NULL DEFAULT '',
+    phone TEXT NOT NULL DEFAULT '',
+    signatory_name TEXT NOT NULL DEFAULT '',
+    signatory_role TEXT NOT NULL DEFAULT ''
+);
+
+-- Numeração sequencial única; um recibo por transação (reimpressão mantém o número)
+CREATE TABLE IF NOT EXISTS public.receipts (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    number BIGINT GENERATED ALWAYS AS IDENTITY UNIQUE,
+    transaction_id UUID NOT NULL UNIQUE REFERENCES public.transactions(id) ON DELETE RESTRICT,
+    member_id UUID REFERENCES public.members(id) ON DELETE SET NULL,
+    member_name TEXT NOT NULL,
+    amount NUMERIC(12, 2) NOT NULL,
+    description TEXT NOT NULL,
+    payment_date DATE NOT NULL,
+    issued_at DATE NOT NULL DEFAULT CURRENT_DATE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+ALTER TABLE public.association_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.receipts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable all for authenticated users on association_settings" ON public.association_settings FOR ALL TO authenticated USING (true) WITH CHECK (true);
+CREATE POLICY "Enable all for authenticated users on receipts" ON public.receipts FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+-- 16. FECHAMENTO DE PERÍODOS (MÊS/ANO)
+CREATE TABLE IF NOT EXISTS public.fiscal_periods (
+    period TEXT PRIMARY KEY CHECK (period ~ '^[0-9]{4}-[0-9]{2}$'),
+    status TEXT NOT NULL DEFAULT 'Closed' CHECK (status IN ('Open', 'Closed')),
+    closed_at TIMESTAMP WITH TIME ZONE,
+    closed_by TEXT
+);
+
+CREATE TABLE IF NOT EXISTS public.fiscal_period_logs (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    period TEXT NOT NULL,
+    action TEXT NOT NULL CHECK (action IN ('Close', 'Reopen')),
+    justification TEXT,
+    user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    user_name TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    CHECK (action = 'Close' OR length(trim(coalesce(justification, ''))) > 0)
+);
+
+-- Leitura liberada; alterações apenas pelas funções abaixo (restritas a Super Admin e sempre registradas no log)
+ALTER TABLE public.fiscal_periods ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.fiscal_period_logs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable read for authenticated users on fiscal_periods" ON public.fiscal_periods FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Enable read for authenticated users on fiscal_period_logs" ON public.fiscal_period_logs FOR SELECT TO authenticated USING (true);
+
+CREATE OR REPLACE FUNCTION public.close_fiscal_period(p_period TEXT)
+RETURNS VOID AS $fn$
+DECLARE v_name TEXT;
+BEGIN
+    SELECT name INTO v_name FROM public.profiles WHERE id = auth.uid() AND role = 'Super Admin';
+    IF v_name IS NULL THEN RAISE EXCEPTION 'Apenas Super Admin pode fechar períodos'; END IF;
+    INSERT INTO public.fiscal_periods (period, status, closed_at, closed_by)
+    VALUES (p_period, 'Closed', now(), v_name)
+    ON CONFLICT (period) DO UPDATE SET status = 'Closed', closed_at = now(), closed_by = v_name;
+    INSERT INTO public.fiscal_period_logs (period, action, user_id, user_name) VALUES (p_period, 'Close', auth.uid(), v_name);
+END;
+$fn$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.reopen_fiscal_period(p_period TEXT, p_justification TEXT)
+RETURNS VOID AS $fn$
+DECLARE v_name TEXT;
+BEGIN
+    SELECT name INTO v_name FROM public.profiles WHERE id = auth.uid() AND role = 'Super Admin';
+    IF v_name IS NULL THEN RAISE EXCEPTION 'Apenas Super Admin pode reabrir períodos'; END IF;
+    IF length(trim(coalesce(p_justification, ''))) = 0 THEN RAISE EXCEPTION 'Informe a justificativa da reabertura'; END IF;
+    UPDATE public.fiscal_periods SET status = 'Open' WHERE period = p_period AND status = 'Closed';
+    IF NOT FOUND THEN RAISE EXCEPTION 'O período % não está fechado', p_period; END IF;
+    INSERT INTO public.fiscal_period_logs (period, action, justification, user_id, user_name) VALUES (p_period, 'Reopen', trim(p_justification), auth.uid(), v_name);
+END;
+$fn$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Bloqueia inclusão, edição e exclusão de lançamentos e transferências em períodos fechados
+CREATE OR REPLACE FUNCTION public.check_fiscal_period()
+RETURNS TRIGGER AS $fn$
+BEGIN
+    IF TG_OP IN ('UPDATE', 'DELETE') AND EXISTS (SELECT 1 FROM public.fiscal_periods WHERE period = to_char(OLD.date::date, 'YYYY-MM') AND status = 'Closed') THEN
+        RAISE EXCEPTION 'O período % está fechado', to_char(OLD.date::date, 'MM/YYYY');
+    END IF;
+    IF TG_OP IN ('INSERT', 'UPDATE') AND EXISTS (SELECT 1 FROM public.fiscal_periods WHERE period = to_char(NEW.date::date, 'YYYY-MM') AND status = 'Closed') THEN
+        RAISE EXCEPTION 'O período % está fechado', to_char(NEW.date::date, 'MM/YYYY');
+    END IF;
+    IF TG_OP = 'DELETE' THEN RETURN OLD; END IF;
+    RETURN NEW;
+END;
+$fn$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS transactions_fiscal_period_lock ON public.transactions;
+CREATE TRIGGER transactions_fiscal_period_lock BEFORE INSERT OR UPDATE OR DELETE ON public.transactions FOR EACH ROW EXECUTE FUNCTION public.check_fiscal_period();
+
+DROP TRIGGER IF EXISTS account_transfers_fiscal_period_lock ON public.account_transfers;
+CREATE TRIGGER account_transfers_fiscal_period_lock BEFORE INSERT OR UPDATE OR DELETE ON public.account_transfers FOR EACH ROW EXECUTE FUNCTION public.check_fiscal_period();
+
+-- 17. PREVISÃO DE FLUXO DE CAIXA (RECEITA E CUSTO PREVISTOS DOS EVENTOS)
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'events' AND column_name = 'expected_revenue') THEN
+        ALTER TABLE public.events ADD COLUMN expected_revenue NUMERIC(12, 2);
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'events' AND column_name = 'expected_cost') THEN
+        ALTER TABLE public.events ADD COLUMN expected_cost NUMERIC(12, 2);
+    END IF;
+END $$;
+
+-- 18. COMPROVANTES ANEXADOS ÀS TRANSAÇÕES
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'documents' AND column_name = 'transaction_id') THEN
+        ALTER TABLE public.documents ADD COLUMN transaction_id UUID REFERENCES public.transactions(id) ON DELETE SET NULL;
+    END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS documents_transaction_id_idx ON public.documents (transaction_id);
+
+-- 19. HISTÓRICO DE ALTERAÇÕES DAS TRANSAÇÕES (IMUTÁVEL)
+-- Sem FK: o histórico permanece mesmo após a exclusão da transação
+CREATE TABLE IF NOT EXISTS public.transaction_history (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    transaction_id UUID NOT NULL,
+    action TEXT NOT NULL CHECK (action IN ('Update', 'Delete')),
+    field TEXT,
+    old_value TEXT,
+    new_value TEXT,
+    user_id UUID,
+    user_name TEXT NOT NULL,
+    changed_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS transaction_history_transaction_id_idx ON public.transaction_history (transaction_id, changed_at);
+
+-- Somente leitura para os usuários; as linhas são gravadas apenas pelo trigger abaixo
+ALTER TABLE public.transaction_history ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Enable read for authenticated users on transaction_history" ON public.transaction_history FOR SELECT TO authenticated USING (true);
+
+CREATE OR REPLACE FUNCTION public.log_transaction_change()
+RETURNS TRIGGER AS $fn$
+DECLARE v_name TEXT;
+BEGIN
+    SELECT name INTO v_name FROM public.profiles WHERE id = auth.uid();
+    v_name := COALESCE(v_name, 'Sistema');
+    IF TG_OP = 'DELETE' THEN
+        INSERT INTO public.transaction_history (transaction_id, action, old_value, user_id, user_name)
+        VALUES (OLD.id, 'Delete', to_jsonb(OLD)::text, auth.uid(), v_name);
+        RETURN OLD;
+    END IF;
+    INSERT INTO public.transaction_history (transaction_id, action, field, old_value, new_value, user_id, user_name)
+    SELECT NEW.id, 'Update', n.key, o.value #>> '{}', n.value #>> '{}', auth.uid(), v_name
+    FROM jsonb_each(to_jsonb(NEW)) n JOIN jsonb_each(to_jsonb(OLD)) o ON o.key = n.key
+    WHERE n.value IS DISTINCT FROM o.value;
+    RETURN NEW;
+END;
+$fn$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS transactions_history_log ON public.transactions;
+CREATE TRIGGER transactions_history_log AFTER UPDATE OR DELETE ON public.transactions FOR EACH ROW EXECUTE FUNCTION public.log_transaction_change();
+
+-- 20. LIVRO-CAIXA PAGINADO E TOTAIS AGREGADOS NO BANCO
+-- Filtros do livro-caixa; a paginação e a ordenação são aplicadas pelo cliente sobre o resultado
+CREATE OR REPLACE FUNCTION public.filter_transactions(
+    p_start DATE DEFAULT NULL,
+    p_end DATE DEFAULT NULL,
+    p_type TEXT DEFAULT NULL,
+    p_member_id TEXT DEFAULT NULL,
+    p_project_id TEXT DEFAULT NULL,
+    p_provider_id TEXT DEFAULT NULL,
+    p_min_amount NUMERIC DEFAULT NULL,
+    p_max_amount NUMERIC DEFAULT NULL,
+    p_search TEXT DEFAULT NULL,
+    p_missing_proof BOOLEAN DEFAULT FALSE
+)
+RETURNS SETOF public.transactions AS $fn$
+    SELECT t.* FROM public.transactions t
+    WHERE (p_start IS NULL OR t.date::date >= p_start)
+      AND (p_end IS NULL OR t.date::date <= p_end)
+      AND (p_type IS NULL OR t.type = p_type)
+      AND (p_member_id IS NULL OR t.member_id::text = p_member_id)
+      AND (p_project_id IS NULL OR t.project_id::text = p_project_id)
+      AND (p_provider_id IS NULL OR t.provider_id::text = p_provider_id)
+      AND (p_min_amount IS NULL OR t.amount >= p_min_amount)
+      AND (p_max_amount IS NULL OR t.amount <= p_max_amount)
+      AND (p_search IS NULL OR concat_ws(' ', t.description, t.member_name, t.project_name, t.provider_name, t.category_name) ILIKE '%' || p_search || '%')
+      AND (NOT p_missing_proof OR (t.type = 'Expense' AND NOT EXISTS (SELECT 1 FROM public.documents d WHERE d.transaction_id = t.id)));
+$fn$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION public.filter_transactions_totals(
+    p_start DATE DEFAULT NULL,
+    p_end DATE DEFAULT NULL,
+    p_type TEXT DEFAULT NULL,
+    p_member_id TEXT DEFAULT NULL,
+    p_project_id TEXT DEFAULT NULL,
+    p_provider_id TEXT DEFAULT NULL,
+    p_min_amount NUMERIC DEFAULT NULL,
+    p_max_amount NUMERIC DEFAULT NULL,
+    p_search TEXT DEFAULT NULL,
+    p_missing_proof BOOLEAN DEFAULT FALSE
+)
+RETURNS TABLE (income NUMERIC, expense NUMERIC) AS $fn$
+    SELECT COALESCE(SUM(amount) FILTER (WHERE type = 'Income'), 0), COALESCE(SUM(amount) FILTER (WHERE type = 'Expense'), 0)
+    FROM public.filter_transactions(p_start, p_end, p_type, p_member_id, p_project_id, p_provider_id, p_min_amount, p_max_amount, p_search, p_missing_proof);
+$fn$ LANGUAGE sql STABLE;
+
+-- Totais por mês, conta, categoria e tipo: base dos saldos por conta e dos gráficos do painel
+CREATE OR REPLACE FUNCTION public.transaction_summary()
+RETURNS TABLE (month TEXT, account_id UUID, category_id UUID, type TEXT, amount NUMERIC, count BIGINT) AS $fn$
+    SELECT to_char(t.date::date, 'YYYY-MM'), t.account_id, t.category_id, t.type, SUM(t.amount), COUNT(*)
+    FROM public.transactions t
+    GROUP BY 1, 2, 3, 4;
+$fn$ LANGUAGE sql STABLE;
+
+-- Despesas por projeto e rubrica: orçado x realizado sem depender da janela de transações recentes
+CREATE OR REPLACE FUNCTION public.project_expense_summary()
+RETURNS TABLE (project_id UUID, budget_line_id UUID, type TEXT, amount NUMERIC) AS $fn$
+    SELECT t.project_id, t.budget_line_id, t.type, SUM(t.amount)
+    FROM public.transactions t
+    WHERE t.type = 'Expense' AND t.project_id IS NOT NULL
+    GROUP BY 1, 2, 3;
+$fn$ LANGUAGE sql STABLE;
+
+-- 21. PRESTAÇÃO DE CONTAS AOS PATROCINADORES
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'transactions' AND column_name = 'document_number') THEN
+        ALTER TABLE public.transactions ADD COLUMN document_number TEXT;
+    END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS public.accountability_layouts (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    name TEXT NOT NULL,
+    funder TEXT,
+    columns TEXT[] NOT NULL DEFAULT '{}',
+    group_by_budget_line BOOLEAN NOT NULL DEFAULT true,
+    include_income BOOLEAN NOT NULL DEFAULT true,
+    header_note TEXT,
+    footer_note TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+ALTER TABLE public.accountability_layouts ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Enable all for authenticated users on accountability_layouts" ON public.accountability_layouts FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+-- 22. RPA (PAGAMENTO A AUTÔNOMOS) E TRIBUTOS RETIDOS
+CREATE TABLE IF NOT EXISTS public.withholding_tables (
+    year INT PRIMARY KEY,
+    inss_rate NUMERIC(5, 2) NOT NULL DEFAULT 11,
+    inss_ceiling NUMERIC(12, 2) NOT NULL,
+    irrf_brackets JSONB NOT NULL DEFAULT '[]',
+    iss_rate NUMERIC(5, 2) NOT NULL DEFAULT 0,
+    iss_due_day INT NOT NULL DEFAULT 10 CHECK (iss_due_day BETWEEN 1 AND 31)
+);
+
+-- Numeração sequencial única; um RPA por transação (reimpressão mantém o número)
+CREATE TABLE IF NOT EXISTS public.rpas (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    number BIGINT GENERATED ALWAYS AS IDENTITY UNIQUE,
+    transaction_id UUID NOT NULL UNIQUE REFERENCES public.transactions(id) ON DELETE RESTRICT,
+    provider_id UUID REFERENCES public.service_providers(id) ON DELETE SET NULL,
+    provider_name TEXT NOT NULL,
+    provider_cpf TEXT NOT NULL DEFAULT '',
+    description TEXT NOT NULL,
+    payment_date DATE NOT NULL,
+    gross_amount NUMERIC(12, 2) NOT NULL CHECK (gross_amount > 0),
+    inss_amount NUMERIC(12, 2) NOT NULL DEFAULT 0,
+    irrf_amount NUMERIC(12, 2) NOT NULL DEFAULT 0,
+    iss_amount NUMERIC(12, 2) NOT NULL DEFAULT 0,
+    net_amount NUMERIC(12, 2) NOT NULL,
+    issued_at DATE NOT NULL DEFAULT CURRENT_DATE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS public.tax_payables (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    rpa_id UUID NOT NULL REFERENCES public.rpas(id) ON DELETE CASCADE,
+    rpa_number BIGINT NOT NULL,
+    tax TEXT NOT NULL CHECK (tax IN ('INSS', 'IRRF', 'ISS')),
+    amount NUMERIC(12, 2) NOT NULL CHECK (amount > 0),
+    due_date DATE NOT NULL,
+    status TEXT NOT NULL DEFAULT 'Open' CHECK (status IN ('Open', 'Paid')),
+    paid_at DATE,
+    transaction_id UUID REFERENCES public.transactions(id) ON DELETE SET NULL,
+    UNIQUE (rpa_id, tax)
+);
+
+ALTER TABLE public.withholding_tables ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.rpas ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.tax_payables ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable all for authenticated users on withholding_tables" ON public.withholding_tables FOR ALL TO authenticated USING (true) WITH CHECK (true);
+CREATE POLICY "Enable all for authenticated users on rpas" ON public.rpas FOR ALL TO authenticated USING (true) WITH CHECK (true);
+CREATE POLICY "Enable all for authenticated users on tax_payables" ON public.tax_payables FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+-- Exclusão de transação em uma única operação: reabre mensalidades, tributos e inscrições que ela quitou
+-- e só então a exclui. Se a exclusão falhar (recibo ou RPA vinculado, período fechado), nada é reaberto.
+CREATE OR REPLACE FUNCTION public.delete_transaction(p_id UUID)
+RETURNS VOID AS $fn$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role IN ('Super Admin', 'Financeiro')) THEN
+        RAISE EXCEPTION 'Apenas Super Admin e Financeiro podem excluir transações';
+    END IF;
+    UPDATE public.dues_charges SET status = 'Open', paid_at = NULL, transaction_id = NULL WHERE transaction_id = p_id;
+    UPDATE public.tax_payables SET status = 'Open', paid_at = NULL, transaction_id = NULL WHERE transaction_id = p_id;
+    UPDATE public.event_charges SET status = 'Open', paid_at = NULL, transaction_id = NULL WHERE transaction_id = p_id;
+    DELETE FROM public.transactions WHERE id = p_id;
+    IF NOT FOUND THEN RAISE EXCEPTION 'Transação não encontrada'; END IF;
+END;
+$fn$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Quitação na mesma operação que grava a receita. O TXID de uma cobrança PIX (no campo próprio ou no
+-- histórico) quita aquela cobrança; sem TXID, a receita de um associado quita as mensalidades em aberto
+-- mais antigas que o valor cobre por inteiro. Alterar valor, associado, tipo ou TXID refaz a quitação.
+CREATE OR REPLACE FUNCTION public.fill_transaction_member_from_txid()
+RETURNS TRIGGER AS $fn$
+DECLARE
+    v_haystack TEXT := upper(concat_ws(' ', NEW.pix_txid, NEW.description));
+    v_charge public.dues_charges;
+BEGIN
+    IF NEW.type = 'Income' AND NEW.member_id IS NULL AND btrim(v_haystack) <> '' THEN
+        SELECT * INTO v_charge FROM public.dues_charges
+        WHERE status = 'Open' AND txid IS NOT NULL AND position(upper(txid) IN v_haystack) > 0 AND NEW.amount + 0.005 >= amount
+        ORDER BY due_date LIMIT 1;
+        IF FOUND THEN
+            NEW.member_id := v_charge.member_id;
+            NEW.member_name := v_charge.member_name;
+        END IF;
+    END IF;
+    RETURN NEW;
+END;
+$fn$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION public.settle_transaction_charges()
+RETURNS TRIGGER AS $fn$
+DECLARE
+    v_haystack TEXT := upper(concat_ws(' ', NEW.pix_txid, NEW.description));
+    v_charge RECORD;
+    v_remaining NUMERIC := NEW.amount;
+    v_settled BOOLEAN := false;
+BEGIN
+    IF TG_OP = 'UPDATE' THEN
+        UPDATE public.dues_charges SET status = 'Open', paid_at = NULL, transaction_id = NULL WHERE transaction_id = NEW.id;
+        UPDATE public.event_charges SET status = 'Open', paid_at = NULL, transaction_id = NULL WHERE transaction_id = NEW.id;
+    END IF;
+    IF NEW.type <> 'Income' THEN RETURN NULL; END IF;
+
+    IF btrim(v_haystack) <> '' THEN
+        UPDATE public.dues_charges SET status = 'Paid', paid_at = NEW.date, transaction_id = NEW.id
+        WHERE id = (SELECT id FROM public.dues_charges
+                    WHERE status = 'Open' AND txid IS NOT NULL AND position(upper(txid) IN v_haystack) > 0 AND NEW.amount + 0.005 >= amount
+                    ORDER BY due_date LIMIT 1);
+        v_settled := FOUND;
+        UPDATE public.event_charges SET status = 'Paid', paid_at = NEW.date, transaction_id = NEW.id
+        WHERE id = (SELECT id FROM public.event_charges
+                    WHERE status = 'Open' AND position(upper(txid) IN v_haystack) > 0 AND NEW.amount + 0.005 >= amount
+                    ORDER BY created_at LIMIT 1);
+    END IF;
+
+    IF NOT v_settled AND NEW.member_id IS NOT NULL THEN
+        FOR v_charge IN SELECT id, amount FROM public.dues_charges WHERE member_id = NEW.member_id AND status = 'Open' ORDER BY competence LOOP
+            EXIT WHEN v_remaining + 0.005 < v_charge.amount;
+            UPDATE public.dues_charges SET status = 'Paid', paid_at = NEW.date, transaction_id = NEW.id WHERE id = v_charge.id;
+            v_remaining := v_remaining - v_charge.amount;
+        END LOOP;
+    END IF;
+    RETURN NULL;
+END;
+$fn$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS transactions_fill_member ON public.transactions;
+CREATE TRIGGER transactions_fill_member BEFORE INSERT OR UPDATE OF type, amount, member_id, pix_txid ON public.transactions FOR EACH ROW EXECUTE FUNCTION public.fill_transaction_member_from_txid();
+DROP TRIGGER IF EXISTS transactions_settle_on_insert ON public.transactions;
+CREATE TRIGGER transactions_settle_on_insert AFTER INSERT ON public.transactions FOR EACH ROW EXECUTE FUNCTION public.settle_transaction_charges();
+DROP TRIGGER IF EXISTS transactions_settle_on_update ON public.transactions;
+CREATE TRIGGER transactions_settle_on_update AFTER UPDATE ON public.transactions FOR EACH ROW
+    WHEN (OLD.type IS DISTINCT FROM NEW.type OR OLD.amount IS DISTINCT FROM NEW.amount OR OLD.member_id IS DISTINCT FROM NEW.member_id OR OLD.pix_txid IS DISTINCT FROM NEW.pix_txid)
+    EXECUTE FUNCTION public.settle_transaction_charges();
+
+-- 23. CONTABILIDADE EM PARTIDAS DOBRADAS
+CREATE TABLE IF NOT EXISTS public.ledger_accounts (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    code TEXT NOT NULL UNIQUE,
+    name TEXT NOT NULL,
+    nature TEXT NOT NULL CHECK (nature IN ('Asset', 'Liability', 'Equity', 'Revenue', 'Expense')),
+    active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+ALTER TABLE public.ledger_accounts ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Enable all for authenticated users on ledger_accounts" ON public.ledger_accounts FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+-- Contas padrão usadas quando a conta financeira ou a categoria não têm mapeamento
+INSERT INTO public.ledger_accounts (code, name, nature) VALUES
+    ('1.1.1.01', 'Caixa', 'Asset'),
+    ('1.1.1.02', 'Bancos Conta Movimento', 'Asset'),
+    ('1.1.1.03', 'Bancos Conta Poupança', 'Asset'),
+    ('2.1.1.01', 'INSS Retido a Recolher', 'Liability'),
+    ('2.1.1.02', 'IRRF Retido a Recolher', 'Liability'),
+    ('2.1.1.03', 'ISS Retido a Recolher', 'Liability'),
+    ('3.1.01', 'Patrimônio Social', 'Equity'),
+    ('4.9.99', 'Receitas Não Classificadas', 'Revenue'),
+    ('5.9.99', 'Despesas Não Classificadas', 'Expense')
+ON CONFLICT (code) DO NOTHING;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'financial_accounts' AND column_name = 'ledger_account_id') THEN
+        ALTER TABLE public.financial_accounts ADD COLUMN ledger_account_id UUID REFERENCES public.ledger_accounts(id) ON DELETE SET NULL;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'account_categories' AND column_name = 'ledger_account_id') THEN
+        ALTER TABLE public.account_categories ADD COLUMN ledger_account_id UUID REFERENCES public.ledger_accounts(id) ON DELETE SET NULL;
+    END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS public.journal_entries (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    date DATE NOT NULL,
+    description TEXT NOT NULL,
+    source TEXT NOT NULL CHECK (source IN ('Transaction', 'Transfer', 'TaxPayable', 'Opening', 'Manual')),
+    source_id UUID,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS public.journal_lines (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    entry_id UUID NOT NULL REFERENCES public.journal_entries(id) ON DELETE CASCADE,
+    account_id UUID NOT NULL REFERENCES public.ledger_accounts(id) ON DELETE RESTRICT,
+    debit NUMERIC(12, 2) NOT NULL DEFAULT 0 CHECK (debit >= 0),
+    credit NUMERIC(12, 2) NOT NULL DEFAULT 0 CHECK (credit >= 0),
+    CHECK ((debit > 0) <> (credit > 0))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS journal_entries_source_key ON public.journal_entries (source, source_id) WHERE source_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS journal_entries_date_idx ON public.journal_entries (date);
+CREATE INDEX IF NOT EXISTS journal_lines_entry_id_idx ON public.journal_lines (entry_id);
+CREATE INDEX IF NOT EXISTS journal_lines_account_id_idx ON public.journal_lines (account_id);
+
+-- Somente leitura para os usuários; as partidas são geradas pelos triggers e pelas funções abaixo
+ALTER TABLE public.journal_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.journal_lines ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Enable read for authenticated users on journal_entries" ON public.journal_entries FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Enable read for authenticated users on journal_lines" ON public.journal_lines FOR SELECT TO authenticated USING (true);
+
+-- Débitos = créditos em cada lançamento, verificado ao final da transação do banco
+CREATE OR REPLACE FUNCTION public.check_journal_entry_balance()
+RETURNS TRIGGER AS $fn$
+DECLARE
+    v_entry UUID := CASE WHEN TG_OP = 'DELETE' THEN OLD.entry_id ELSE NEW.entry_id END;
+    v_diff NUMERIC;
+BEGIN
+    SELECT COALESCE(SUM(debit - credit), 0) INTO v_diff FROM public.journal_lines WHERE entry_id = v_entry;
+    IF v_diff <> 0 AND EXISTS (SELECT 1 FROM public.journal_entries WHERE id = v_entry) THEN
+        RAISE EXCEPTION 'Lançamento contábil desbalanceado (diferença de %)', v_diff;
+    END IF;
+    RETURN NULL;
+END;
+$fn$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS journal_lines_balance ON public.journal_lines;
+CREATE CONSTRAINT TRIGGER journal_lines_balance AFTER INSERT OR UPDATE OR DELETE ON public.journal_lines
+    DEFERRABLE INITIALLY DEFERRED FOR EACH ROW EXECUTE FUNCTION public.check_journal_entry_balance();
+
+CREATE OR REPLACE FUNCTION public.ledger_account_by_code(p_code TEXT)
+RETURNS UUID AS $fn$
+    SELECT id FROM public.ledger_accounts WHERE code = p_code;
+$fn$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION public.default_ledger_code_for_financial(p_type TEXT)
+RETURNS TEXT AS $fn$
+    SELECT CASE p_type WHEN 'Cash' THEN '1.1.1.01' WHEN 'Savings' THEN '1.1.1.03' ELSE '1.1.1.02' END;
+$fn$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION public.ledger_account_for_financial(p_account_id UUID)
+RETURNS UUID AS $fn$
+    SELECT COALESCE(
+        (SELECT ledger_account_id FROM public.financial_accounts WHERE id = p_account_id),
+        public.ledger_account_by_code(public.default_ledger_code_for_financial((SELECT type FROM public.financial_accounts WHERE id = p_account_id)))
+    );
+$fn$ LANGUAGE sql STABLE;
+
+-- Subcategoria sem mapeamento usa o da categoria pai
+CREATE OR REPLACE FUNCTION public.ledger_account_for_category(p_category_id UUID, p_type TEXT)
+RETURNS UUID AS $fn$
+    SELECT COALESCE(
+        (SELECT c.ledger_account_id FROM public.account_categories c WHERE c.id = p_category_id),
+        (SELECT p.ledger_account_id FROM public.account_categories c JOIN public.account_categories p ON p.id = c.parent_id WHERE c.id = p_category_id),
+        public.ledger_account_by_code(CASE p_type WHEN 'Income' THEN '4.9.99' ELSE '5.9.99' END)
+    );
+$fn$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION public.ledger_account_for_tax(p_tax TEXT)
+RETURNS UUID AS $fn$
+    SELECT public.ledger_account_by_code(CASE p_tax WHEN 'INSS' THEN '2.1.1.01' WHEN 'IRRF' THEN '2.1.1.02' ELSE '2.1.1.03' END);
+$fn$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION public.post_journal_entry(p_source TEXT, p_source_id UUID, p_date DATE, p_description TEXT, p_debit_account UUID, p_credit_account UUID, p_amount NUMERIC)
+RETURNS VOID AS $fn$
+DECLARE v_entry UUID;
+BEGIN
+    DELETE FROM public.journal_entries WHERE source = p_source AND source_id = p_source_id;
+    IF p_amount IS NULL OR p_amount = 0 THEN RETURN; END IF;
+    INSERT INTO public.journal_entries (date, description, source, source_id) VALUES (p_date, p_description, p_source, p_source_id) RETURNING id INTO v_entry;
+    -- Valor negativo inverte débito e crédito
+    INSERT INTO public.journal_lines (entry_id, account_id, debit, credit) VALUES
+        (v_entry, CASE WHEN p_amount > 0 THEN p_debit_account ELSE p_credit_account END, abs(p_amount), 0),
+        (v_entry, CASE WHEN p_amount > 0 THEN p_credit_account ELSE p_debit_account END, 0, abs(p_amount));
+END;
+$fn$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Receita: D conta financeira / C receita. Despesa: D despesa / C conta financeira.
+-- O recolhimento de tributo retido baixa o passivo em vez de gerar nova despesa.
+CREATE OR REPLACE FUNCTION public.post_transaction(p_id UUID)
+RETURNS VOID AS $fn$
+DECLARE
+    t public.transactions%ROWTYPE;
+    v_cash UUID;
+    v_other UUID;
+    v_tax TEXT;
+BEGIN
+    SELECT * INTO t FROM public.transactions WHERE id = p_id;
+    IF NOT FOUND THEN
+        DELETE FROM public.journal_entries WHERE source = 'Transaction' AND source_id = p_id;
+        RETURN;
+    END IF;
+    v_cash := public.ledger_account_for_financial(t.account_id);
+    SELECT tax INTO v_tax FROM public.tax_payables WHERE transaction_id = p_id LIMIT 1;
+    v_other := CASE WHEN v_tax IS NOT NULL THEN public.ledger_account_for_tax(v_tax) ELSE public.ledger_account_for_category(t.category_id, t.type) END;
+    IF t.type = 'Income' THEN
+        PERFORM public.post_journal_entry('Transaction', t.id, t.date::date, t.description, v_cash, v_other, t.amount);
+    ELSE
+        PERFORM public.post_journal_entry('Transaction', t.id, t.date::date, t.description, v_other, v_cash, t.amount);
+    END IF;
+END;
+$fn$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.post_transfer(p_id UUID)
+RETURNS VOID AS $fn$
+DECLARE r public.account_transfers%ROWTYPE;
+BEGIN
+    SELECT * INTO r FROM public.account_transfers WHERE id = p_id;
+    IF NOT FOUND THEN
+        DELETE FROM public.journal_entries WHERE source = 'Transfer' AND source_id = p_id;
+        RETURN;
+    END IF;
+    PERFORM public.post_journal_entry('Transfer', r.id, r.date, COALESCE(r.description, 'Transferência entre contas'),
+        public.ledger_account_for_financial(r.to_account_id), public.ledger_account_for_financial(r.from_account_id), r.amount);
+END;
+$fn$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Tributo retido no RPA: D despesa do serviço / C tributo a recolher, na data do pagamento
+CREATE OR REPLACE FUNCTION public.post_tax_payable(p_id UUID)
+RETURNS VOID AS $fn$
+DECLARE
+    v_payable public.tax_payables%ROWTYPE;
+    v_rpa public.rpas%ROWTYPE;
+    v_category UUID;
+BEGIN
+    SELECT * INTO v_payable FROM public.tax_payables WHERE id = p_id;
+    IF NOT FOUND THEN
+        DELETE FROM public.journal_entries WHERE source = 'TaxPayable' AND source_id = p_id;
+        RETURN;
+    END IF;
+    SELECT * INTO v_rpa FROM public.rpas WHERE id = v_payable.rpa_id;
+    SELECT category_id INTO v_category FROM public.transactions WHERE id = v_rpa.transaction_id;
+    PERFORM public.post_journal_entry('TaxPayable', v_payable.id, v_rpa.payment_date, v_payable.tax || ' retido - RPA ' || v_rpa.number,
+        public.ledger_account_for_category(v_category, 'Expense'), public.ledger_account_for_tax(v_payable.tax), v_payable.amount);
+END;
+$fn$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Saldo inicial da conta financeira contra o Patrimônio Social, na data do primeiro movimento
+CREATE OR REPLACE FUNCTION public.post_opening_balance(p_account_id UUID)
+RETURNS VOID AS $fn$
+DECLARE a public.financial_accounts%ROWTYPE;
+BEGIN
+    SELECT * INTO a FROM public.financial_accounts WHERE id = p_account_id;
+    IF NOT FOUND THEN
+        DELETE FROM public.journal_entries WHERE source = 'Opening' AND source_id = p_account_id;
+        RETURN;
+    END IF;
+    PERFORM public.post_journal_entry('Opening', a.id,
+        LEAST(a.created_at::date, COALESCE((SELECT MIN(date::date) FROM public.transactions WHERE account_id = a.id), a.created_at::date)),
+        'Saldo inicial - ' || a.name, public.ledger_account_for_financial(a.id), public.ledger_account_by_code('3.1.01'), a.initial_balance);
+END;
+$fn$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.journal_on_change()
+RETURNS TRIGGER AS $fn$
+BEGIN
+    IF TG_TABLE_NAME = 'transactions' THEN
+        PERFORM public.post_transaction(COALESCE(NEW.id, OLD.id));
+    ELSIF TG_TABLE_NAME = 'account_transfers' THEN
+        PERFORM public.post_transfer(COALESCE(NEW.id, OLD.id));
+    ELSIF TG_TABLE_NAME = 'financial_accounts' THEN
+        PERFORM public.post_opening_balance(COALESCE(NEW.id, OLD.id));
+    ELSIF TG_TABLE_NAME = 'tax_payables' THEN
+        PERFORM public.post_tax_payable(COALESCE(NEW.id, OLD.id));
+        -- Vincular ou desvincular o recolhimento muda a contrapartida da transação de pagamento
+        IF TG_OP <> 'INSERT' AND OLD.transaction_id IS NOT NULL THEN PERFORM public.post_transaction(OLD.transaction_id); END IF;
+        IF TG_OP <> 'DELETE' AND NEW.transaction_id IS NOT NULL THEN PERFORM public.post_transaction(NEW.transaction_id); END IF;
+    END IF;
+    RETURN NULL;
+END;
+$fn$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS transactions_journal ON public.transactions;
+CREATE TRIGGER transactions_journal AFTER INSERT OR UPDATE OR DELETE ON public.transactions FOR EACH ROW EXECUTE FUNCTION public.journal_on_change();
+DROP TRIGGER IF EXISTS account_transfers_journal ON public.account_transfers;
+CREATE TRIGGER account_transfers_journal AFTER INSERT OR UPDATE OR DELETE ON public.account_transfers FOR EACH ROW EXECUTE FUNCTION public.journal_on_change();
+DROP TRIGGER IF EXISTS financial_accounts_journal ON public.financial_accounts;
+CREATE TRIGGER financial_accounts_journal AFTER INSERT OR UPDATE OR DELETE ON public.financial_accounts FOR EACH ROW EXECUTE FUNCTION public.journal_on_change();
+DROP TRIGGER IF EXISTS tax_payables_journal ON public.tax_payables;
+CREATE TRIGGER tax_payables_journal AFTER INSERT OR UPDATE OR DELETE ON public.tax_payables FOR EACH ROW EXECUTE FUNCTION public.journal_on_change();
+
+CREATE OR REPLACE FUNCTION public.assert_accounting_role()
+RETURNS VOID AS $fn$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role IN ('Super Admin', 'Financeiro')) THEN
+        RAISE EXCEPTION 'Apenas Super Admin e Financeiro podem alterar a contabilidade';
+    END IF;
+END;
+$fn$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Migração: cria uma conta contábil por categoria sem mapeamento (4.x receitas, 5.x despesas),
+-- mapeia as contas financeiras pelo tipo e regera as partidas automáticas dos períodos abertos
+CREATE OR REPLACE FUNCTION public.migrate_journal()
+RETURNS VOID AS $fn$
+BEGIN
+    PERFORM public.assert_accounting_role();
+    INSERT INTO public.ledger_accounts (code, name, nature)
+    SELECT CASE c.type WHEN 'Income' THEN '4.' ELSE '5.' END || c.code, c.name, CASE c.type WHEN 'Income' THEN 'Revenue' ELSE 'Expense' END
+    FROM public.account_categories c WHERE c.ledger_account_id IS NULL
+    ON CONFLICT (code) DO NOTHING;
+    UPDATE public.account_categories c SET ledger_account_id = l.id FROM public.ledger_accounts l
+    WHERE c.ledger_account_id IS NULL AND l.code = CASE c.type WHEN 'Income' THEN '4.' ELSE '5.' END || c.code;
+    UPDATE public.financial_accounts SET ledger_account_id = public.ledger_account_by_code(public.default_ledger_code_for_financial(type))
+    WHERE ledger_account_id IS NULL;
+    PERFORM public.rebuild_journal();
+END;
+$fn$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.is_period_closed(p_date DATE)
+RETURNS BOOLEAN AS $fn$
+    SELECT EXISTS (SELECT 1 FROM public.fiscal_periods WHERE period = to_char(p_date, 'YYYY-MM') AND status = 'Closed');
+$fn$ LANGUAGE sql STABLE;
+
+-- Regera as partidas automáticas após mudança de mapeamento; lançamentos manuais são preservados.
+-- Partidas de períodos fechados não são apagadas nem relançadas: a escrituração aprovada fica como está.
+CREATE OR REPLACE FUNCTION public.rebuild_journal()
+RETURNS VOID AS $fn$
+BEGIN
+    PERFORM public.assert_accounting_role();
+    DELETE FROM public.journal_entries WHERE source <> 'Manual' AND NOT public.is_period_closed(date);
+    PERFORM public.post_opening_balance(a.id) FROM public.financial_accounts a
+    WHERE NOT EXISTS (SELECT 1 FROM public.journal_entries e WHERE e.source = 'Opening' AND e.source_id = a.id);
+    PERFORM public.post_transaction(t.id) FROM public.transactions t WHERE NOT public.is_period_closed(t.date::date);
+    PERFORM public.post_transfer(r.id) FROM public.account_transfers r WHERE NOT public.is_period_closed(r.date);
+    PERFORM public.post_tax_payable(p.id) FROM public.tax_payables p
+    JOIN public.rpas r ON r.id = p.rpa_id WHERE NOT public.is_period_closed(r.payment_date);
+END;
+$fn$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Lançamento manual (ajustes do contador): p_lines = [{"account_id", "debit", "credit"}, ...]
+CREATE OR REPLACE FUNCTION public.add_manual_journal_entry(p_date DATE, p_description TEXT, p_lines JSONB)
+RETURNS UUID AS $fn$
+DECLARE v_entry UUID;
+BEGIN
+    PERFORM public.assert_accounting_role();
+    IF EXISTS (SELECT 1 FROM public.fiscal_periods WHERE period = to_char(p_date, 'YYYY-MM') AND status = 'Closed') THEN
+        RAISE EXCEPTION 'O período % está fechado', to_char(p_date, 'MM/YYYY');
+    END IF;
+    IF jsonb_array_length(p_lines) < 2 THEN RAISE EXCEPTION 'O lançamento precisa de ao menos duas partidas'; END IF;
+    INSERT INTO public.journal_entries (date, description, source) VALUES (p_date, p_description, 'Manual') RETURNING id INTO v_entry;
+    INSERT INTO public.journal_lines (entry_id, account_id, debit, credit)
+    SELECT v_entry, (l ->> 'account_id')::uuid, COALESCE((l ->> 'debit')::numeric, 0), COALESCE((l ->> 'credit')::numeric, 0)
+    FROM jsonb_array_elements(p_lines) l;
+    RETURN v_entry;
+END;
+$fn$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.delete_manual_journal_entry(p_id UUID)
+RETURNS VOID AS $fn$
+DECLARE v_date DATE;
+BEGIN
+    PERFORM public.assert_accounting_role();
+    SELECT date INTO v_date FROM public.journal_entries WHERE id = p_id AND source = 'Manual';
+    IF v_date IS NULL THEN RAISE EXCEPTION 'Apenas lançamentos manuais podem ser excluídos'; END IF;
+    IF EXISTS (SELECT 1 FROM public.fiscal_periods WHERE period = to_char(v_date, 'YYYY-MM') AND status = 'Closed') THEN
+        RAISE EXCEPTION 'O período % está fechado', to_char(v_date, 'MM/YYYY');
+    END IF;
+    DELETE FROM public.journal_entries WHERE id = p_id;
+END;
+$fn$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Balancete: saldo anterior (débito - crédito), movimento do período e contas sem movimento omitidas
+CREATE OR REPLACE FUNCTION public.trial_balance(p_start DATE, p_end DATE)
+RETURNS TABLE (account_id UUID, code TEXT, name TEXT, nature TEXT, opening NUMERIC, debit NUMERIC, credit NUMERIC) AS $fn$
+    SELECT a.id, a.code, a.name, a.nature,
+        COALESCE(SUM(l.debit - l.credit) FILTER (WHERE e.date < p_start), 0),
+        COALESCE(SUM(l.debit) FILTER (WHERE p_start IS NULL OR e.date >= p_start), 0),
+        COALESCE(SUM(l.credit) FILTER (WHERE p_start IS NULL OR e.date >= p_start), 0)
+    FROM public.ledger_accounts a
+    JOIN public.journal_lines l ON l.account_id = a.id
+    JOIN public.journal_entries e ON e.id = l.entry_id
+    WHERE p_end IS NULL OR e.date <= p_end
+    GROUP BY a.id, a.code, a.name, a.nature
+    ORDER BY a.code;
+$fn$ LANGUAGE sql STABLE;
+
+-- Razão de uma conta, com as contrapartidas de cada lançamento
+CREATE OR REPLACE FUNCTION public.general_ledger(p_account_id UUID, p_start DATE, p_end DATE)
+RETURNS TABLE (entry_id UUID, date DATE, description TEXT, source TEXT, counterpart TEXT, debit NUMERIC, credit NUMERIC) AS $fn$
+    SELECT e.id, e.date, e.description, e.source,
+        (SELECT string_agg(a.code || ' ' || a.name, ', ') FROM public.journal_lines o JOIN public.ledger_accounts a ON a.id = o.account_id WHERE o.entry_id = e.id AND o.id <> l.id),
+        l.debit, l.credit
+    FROM public.journal_lines l
+    JOIN public.journal_entries e ON e.id = l.entry_id
+    WHERE l.account_id = p_account_id AND (p_start IS NULL OR e.date >= p_start) AND (p_end IS NULL OR e.date <= p_end)
+    ORDER BY e.date, e.created_at;
+$fn$ LANGUAGE sql STABLE;
+
+-- 24. ALERTAS FINANCEIROS (REGRAS FIXAS)
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'service_providers' AND column_name = 'contracted_amount') THEN
+        ALTER TABLE public.service_providers ADD COLUMN contracted_amount NUMERIC(12, 2);
+    END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS public.alert_settings (
+    id INT PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+    expense_threshold NUMERIC(12, 2) NOT NULL DEFAULT 1000 CHECK (expense_threshold >= 0)
+);
+
+INSERT INTO public.alert_settings (id) VALUES (1) ON CONFLICT (id) DO NOTHING;
+
+-- Alerta revisado não volta a aparecer como pendente; a chave é regra + transação
+CREATE TABLE IF NOT EXISTS public.alert_reviews (
+    alert_key TEXT PRIMARY KEY,
+    reviewed_by TEXT NOT NULL,
+    reviewed_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+ALTER TABLE public.alert_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.alert_reviews ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Enable all for authenticated users on alert_settings" ON public.alert_settings FOR ALL TO authenticated USING (true) WITH CHECK (true);
+CREATE POLICY "Enable all for authenticated users on alert_reviews" ON public.alert_reviews FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+-- Duplicidade (mesma data, tipo, valor e descrição), despesa acima do limite sem prestador (exceto recolhimento de tributos),
+-- despesa de projeto fora da vigência e pagamentos que ultrapassam o valor contratado do prestador
+CREATE OR REPLACE FUNCTION public.financial_alerts()
+RETURNS TABLE (alert_key TEXT, rule TEXT, transaction_id UUID, date DATE, description TEXT, amount NUMERIC, reference NUMERIC, reviewed_by TEXT, reviewed_at TIMESTAMP WITH TIME ZONE) AS $fn$
+    WITH threshold AS (
+        SELECT COALESCE((SELECT expense_threshold FROM public.alert_settings WHERE id = 1), 1000) AS value
+    ),
+    provider_running AS (
+        SELECT t.id, p.contracted_amount,
+            SUM(t.amount) OVER (PARTITION BY t.provider_id ORDER BY t.date, t.id) AS paid
+        FROM public.transactions t
+        JOIN public.service_providers p ON p.id = t.provider_id
+        WHERE t.type = 'Expense' AND p.contracted_amount > 0
+    ),
+    alerts AS (
+        SELECT 'Duplicate' AS rule, t.id, NULL::numeric AS reference
+        FROM public.transactions t
+        WHERE EXISTS (
+            SELECT 1 FROM public.transactions d
+            WHERE d.id <> t.id AND d.date::date = t.date::date AND d.type = t.type AND d.amount = t.amount
+              AND lower(trim(d.description)) = lower(trim(t.description))
+        )
+        UNION ALL
+        SELECT 'NoProvider', t.id, (SELECT value FROM threshold)
+        FROM public.transactions t
+        WHERE t.type = 'Expense' AND t.provider_id IS NULL AND t.amount > (SELECT value FROM threshold)
+          AND NOT EXISTS (SELECT 1 FROM public.tax_payables x WHERE x.transaction_id = t.id)
+        UNION ALL
+        SELECT 'OutsideProject', t.id, NULL
+        FROM public.transactions t
+        JOIN public.projects p ON p.id = t.project_id
+        WHERE t.type = 'Expense' AND (t.date::date < p.start_date::date OR (p.end_date IS NOT NULL AND t.date::date > p.end_date::date))
+        UNION ALL
+        SELECT 'ContractExceeded', r.id, r.contracted_amount
+        FROM provider_running r
+        WHERE r.paid > r.contracted_amount
+    )
+    SELECT a.rule || ':' || a.id, a.rule, t.id, t.date::date, t.description, t.amount, a.reference, r.reviewed_by, r.reviewed_at
+    FROM alerts a
+    JOIN public.transactions t ON t.id = a.id
+    LEFT JOIN public.alert_reviews r ON r.alert_key = a.rule || ':' || a.id
+    ORDER BY t.date DESC, a.rule;
+$fn$ LANGUAGE sql STABLE;
+-- 25. RELATÓRIO ANUAL (DATA DE DESLIGAMENTO DOS MEMBROS)
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'members' AND column_name = 'exit_date') THEN
+        ALTER TABLE public.members ADD COLUMN exit_date DATE;
+    END IF;
+END $$;
+
+-- Registra o desligamento quando o membro passa a Inativo e limpa na reativação
+CREATE OR REPLACE FUNCTION public.set_member_exit_date()
+RETURNS TRIGGER AS $fn$
+BEGIN
+    IF NEW.status = 'Inactive' AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'Inactive') THEN
+        NEW.exit_date := COALESCE(NEW.exit_date, current_date);
+    ELSIF NEW.status <> 'Inactive' THEN
+        NEW.exit_date := NULL;
+    END IF;
+    RETURN NEW;
+END;
+$fn$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS members_exit_date ON public.members;
+CREATE TRIGGER members_exit_date BEFORE INSERT OR UPDATE OF status ON public.members FOR EACH ROW EXECUTE FUNCTION public.set_member_exit_date();
+-- 26. CPF/CNPJ E EMAIL DUPLICADOS ENTRE MEMBROS E PRESTADORES
+-- Compara só os dígitos do documento, pois há cadastros antigos com e sem máscara
+CREATE OR REPLACE FUNCTION public.find_registration_duplicates(p_document TEXT, p_email TEXT)
+RETURNS TABLE (kind TEXT, id UUID, name TEXT, field TEXT) AS $fn$
+    WITH input AS (
+        SELECT NULLIF(regexp_replace(COALESCE(p_document, ''), '[^0-9]', '', 'g'), '') AS document,
+               NULLIF(lower(trim(COALESCE(p_email, ''))), '') AS email
+    )
+    SELECT 'Member', m.id, m.name, 'document' FROM public.members m, input i
+    WHERE i.document IS NOT NULL AND regexp_replace(COALESCE(m.cpf, ''), '[^0-9]', '', 'g') = i.document
+    UNION ALL
+    SELECT 'Member', m.id, m.name, 'email' FROM public.members m, input i
+    WHERE i.email IS NOT NULL AND lower(trim(m.email)) = i.email
+    UNION ALL
+    SELECT 'ServiceProvider', p.id, p.name, 'document' FROM public.service_providers p, input i
+    WHERE i.document IS NOT NULL AND regexp_replace(COALESCE(p.cpf_cnpj, ''), '[^0-9]', '', 'g') = i.document
+    UNION ALL
+    SELECT 'ServiceProvider', p.id, p.name, 'email' FROM public.service_providers p, input i
+    WHERE i.email IS NOT NULL AND lower(trim(p.email)) = i.email;
+$fn$ LANGUAGE sql STABLE;
+-- 27. CARTEIRINHA DE MEMBRO COM QR CODE ASSINADO
+-- O token do QR é "id_da_carteirinha.assinatura", com HMAC-SHA256 sobre carteirinha, membro e validade.
+-- A chave fica numa tabela sem políticas de acesso: só as funções SECURITY DEFINER a leem.
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+CREATE TABLE IF NOT EXISTS public.member_card_secret (
+    id INT PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+    secret TEXT NOT NULL
+);
+
+INSERT INTO public.member_card_secret (id, secret) VALUES (1, encode(extensions.gen_random_bytes(32), 'hex')) ON CONFLICT (id) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS public.member_cards (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    member_id UUID NOT NULL REFERENCES public.members(id) ON DELETE CASCADE,
+    valid_until DATE NOT NULL,
+    token TEXT NOT NULL,
+    issued_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    revoked_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS member_cards_member_idx ON public.member_cards (member_id);
+
+ALTER TABLE public.member_card_secret ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.member_cards ENABLE ROW LEVEL SECURITY;
+-- Carteirinhas: leitura pela equipe (Super Admin e Financeiro); o próprio associado lê a sua pela política do portal (seção 29)
+DROP POLICY IF EXISTS "Enable read for authenticated users on member_cards" ON public.member_cards;
+DROP POLICY IF EXISTS "Staff can read member_cards" ON public.member_cards;
+CREATE POLICY "Staff can read member_cards" ON public.member_cards FOR SELECT TO authenticated
+    USING (EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role IN ('Super Admin', 'Financeiro')));
+
+CREATE OR REPLACE FUNCTION public.sign_member_card(p_card_id UUID, p_member_id UUID, p_valid_until DATE)
+RETURNS TEXT AS $fn$
+    SELECT encode(extensions.hmac(p_card_id::text || ':' || p_member_id::text || ':' || p_valid_until::text, secret, 'sha256'), 'hex')
+    FROM public.member_card_secret WHERE id = 1;
+$fn$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.sign_member_card(UUID, UUID, DATE) FROM PUBLIC, anon, authenticated;
+
+-- Emite uma nova carteirinha e revoga as anteriores do mesmo membro
+CREATE OR REPLACE FUNCTION public.issue_member_card(p_member_id UUID, p_valid_until DATE)
+RETURNS public.member_cards AS $fn$
+DECLARE
+    v_id UUID := gen_random_uuid();
+    v_card public.member_cards;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role IN ('Super Admin', 'Financeiro')) THEN
+        RAISE EXCEPTION 'Apenas Super Admin e Financeiro podem emitir carteirinhas';
+    END IF;
+    IF p_valid_until < current_date THEN RAISE EXCEPTION 'A validade deve ser uma data futura'; END IF;
+    UPDATE public.member_cards SET revoked_at = now() WHERE member_id = p_member_id AND revoked_at IS NULL;
+    INSERT INTO public.member_cards (id, member_id, valid_until, token)
+    VALUES (v_id, p_member_id, p_valid_until, v_id::text || '.' || public.sign_member_card(v_id, p_member_id, p_valid_until))
+    RETURNING * INTO v_card;
+    RETURN v_card;
+END;
+$fn$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Verificação pública (parceiros, portaria de eventos): não exige login.
+-- Token adulterado ou desconhecido não devolve dados do membro.
+CREATE OR REPLACE FUNCTION public.verify_member_card(p_token TEXT)
+RETURNS TABLE (status TEXT, member_name TEXT, member_role TEXT, avatar_url TEXT, admission_date DATE, valid_until DATE) AS $fn$
+DECLARE
+    v_card public.member_cards;
+    v_member public.members;
+BEGIN
+    IF split_part(COALESCE(p_token, ''), '.', 1) !~ '^[0-9a-fA-F-]{36}$' THEN
+        RETURN QUERY SELECT 'Invalid'::text, NULL::text, NULL::text, NULL::text, NULL::date, NULL::date; RETURN;
+    END IF;
+    SELECT * INTO v_card FROM public.member_cards c WHERE c.id = split_part(p_token, '.', 1)::uuid;
+    IF NOT FOUND OR v_card.token <> p_token OR split_part(p_token, '.', 2) <> public.sign_member_card(v_card.id, v_card.member_id, v_card.valid_until) THEN
+        RETURN QUERY SELECT 'Invalid'::text, NULL::text, NULL::text, NULL::text, NULL::date, NULL::date; RETURN;
+    END IF;
+    SELECT * INTO v_member FROM public.members m WHERE m.id = v_card.member_id;
+    RETURN QUERY SELECT
+        CASE
+            WHEN v_card.revoked_at IS NOT NULL THEN 'Revoked'
+            WHEN v_card.valid_until < current_date THEN 'Expired'
+            WHEN v_member.status <> 'Active' THEN 'MemberInactive'
+            ELSE 'Valid'
+        END,
+        v_member.name, v_member.role, v_member.avatar_url, v_member.admission_date::date, v_card.valid_until;
+END;
+$fn$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.verify_member_card(TEXT) TO anon, authenticated;
+
+-- 28. INSCRIÇÃO DE NOVOS MEMBROS E VOTAÇÃO DA DIRETORIA
+-- O formulário público cria o membro como Pending; membros ativos da Diretoria (usuário vinculado ao cadastro
+-- pelo profiles.member_id, seção 29) votam, e ao atingir o quórum do estatuto o membro vira Active ou Inactive.
+CREATE TABLE IF NOT EXISTS public.membership_settings (
+    id INT PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+    quorum INT NOT NULL DEFAULT 3 CHECK (quorum > 0)
+);
+
+INSERT INTO public.membership_settings (id) VALUES (1) ON CONFLICT (id) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS public.membership_applications (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    member_id UUID NOT NULL UNIQUE REFERENCES public.members(id) ON DELETE CASCADE,
+    message TEXT,
+    status TEXT NOT NULL DEFAULT 'Pending' CHECK (status IN ('Pending', 'Approved', 'Rejected')),
+    submitted_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    decided_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Nomes dos cadastros com o mesmo CPF/email, para a Diretoria conferir (o formulário não revela isso)
+ALTER TABLE public.membership_applications ADD COLUMN IF NOT EXISTS duplicate_of TEXT;
+
+CREATE TABLE IF NOT EXISTS public.membership_votes (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    application_id UUID NOT NULL REFERENCES public.membership_applications(id) ON DELETE CASCADE,
+    voter_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    voter_member_id UUID REFERENCES public.members(id) ON DELETE CASCADE,
+    voter_name TEXT NOT NULL,
+    vote TEXT NOT NULL CHECK (vote IN ('Approve', 'Reject')),
+    comment TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+-- Um voto por membro da Diretoria, mesmo que mais de um usuário esteja vinculado ao cadastro.
+-- Votos antigos eram identificados pelo email do login.
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_schema = 'public' AND table_name = 'membership_votes' AND column_name = 'voter_member_id') THEN
+        ALTER TABLE public.membership_votes ADD COLUMN voter_member_id UUID REFERENCES public.members(id) ON DELETE CASCADE;
+        UPDATE public.membership_votes v SET voter_member_id = m.id
+        FROM public.profiles p JOIN public.members m ON lower(trim(m.email)) = lower(trim(p.email)) AND m.role = 'Diretoria'
+        WHERE p.id = v.voter_id;
+    END IF;
+END $$;
+ALTER TABLE public.membership_votes DROP CONSTRAINT IF EXISTS membership_votes_application_id_voter_id_key;
+CREATE UNIQUE INDEX IF NOT EXISTS membership_votes_application_voter_member_key ON public.membership_votes (application_id, voter_member_id);
+
+ALTER TABLE public.membership_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.membership_applications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.membership_votes ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Enable all for authenticated users on membership_settings" ON public.membership_settings;
+CREATE POLICY "Enable read for authenticated users on membership_settings" ON public.membership_settings FOR SELECT TO authenticated USING (true);
+-- O quórum é regra do estatuto: só o Super Admin altera
+CREATE POLICY "Super Admins can manage membership_settings" ON public.membership_settings FOR ALL TO authenticated
+USING (EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'Super Admin'))
+WITH CHECK (EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'Super Admin'));
+-- Inscrições e votos só mudam pelas funções abaixo
+CREATE POLICY "Enable read for authenticated users on membership_applications" ON public.membership_applications FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Enable read for authenticated users on membership_votes" ON public.membership_votes FOR SELECT TO authenticated USING (true);
+
+-- Dígitos verificadores do CPF (aceita com ou sem máscara)
+CREATE OR REPLACE FUNCTION public.is_valid_cpf(p_cpf TEXT)
+RETURNS BOOLEAN AS $fn$
+DECLARE
+    v_digits TEXT := regexp_replace(COALESCE(p_cpf, ''), '[^0-9]', '', 'g');
+    v_sum INT;
+    v_check INT;
+BEGIN
+    IF COALESCE(p_cpf, '') !~ '^[0-9. -]*$' OR length(v_digits) <> 11 OR v_digits = repeat(left(v_digits, 1), 11) THEN RETURN false; END IF;
+    FOR v_pos IN 10..11 LOOP
+        v_sum := 0;
+        FOR i IN 1..(v_pos - 1) LOOP
+            v_sum := v_sum + substr(v_digits, i, 1)::INT * (v_pos + 1 - i);
+        END LOOP;
+        v_check := (v_sum * 10) % 11 % 10;
+        IF v_check <> substr(v_digits, v_pos, 1)::INT THEN RETURN false; END IF;
+    END LOOP;
+    RETURN true;
+END;
+$fn$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Chamada pelo formulário público, sem login. Cadastro já existente não é informado a quem envia:
+-- a inscrição entra normalmente, marcada para a Diretoria conferir.
+CREATE OR REPLACE FUNCTION public.submit_membership_application(
+    p_name TEXT, p_email TEXT, p_cpf TEXT, p_phone TEXT, p_birth_date DATE,
+    p_address TEXT, p_city TEXT, p_state TEXT, p_message TEXT
+) RETURNS UUID AS $fn$
+DECLARE
+    v_email TEXT := lower(trim(COALESCE(p_email, '')));
+    v_cpf TEXT := NULLIF(regexp_replace(COALESCE(p_cpf, ''), '[^0-9]', '', 'g'), '');
+    v_duplicate_of TEXT;
+    v_member_id UUID;
+    v_application_id UUID;
+BEGIN
+    IF length(trim(COALESCE(p_name, ''))) < 3 OR v_email !~ '^[^@ ]+@[^@ ]+[.][^@ ]+$' THEN
+        RAISE EXCEPTION 'Informe nome e email válidos';
+    END IF;
+    IF NULLIF(trim(COALESCE(p_cpf, '')), '') IS NOT NULL AND NOT public.is_valid_cpf(p_cpf) THEN
+        RAISE EXCEPTION 'CPF inválido';
+    END IF;
+    IF v_cpf IS NOT NULL THEN
+        v_cpf := substr(v_cpf, 1, 3) || '.' || substr(v_cpf, 4, 3) || '.' || substr(v_cpf, 7, 3) || '-' || substr(v_cpf, 10, 2);
+    END IF;
+    SELECT string_agg(DISTINCT d.name, ', ') INTO v_duplicate_of
+    FROM public.find_registration_duplicates(v_cpf, v_email) d WHERE d.kind = 'Member';
+    INSERT INTO public.members (name, email, cpf, phone, birth_date, address, city, state, role, status, admission_date, avatar_url)
+    VALUES (trim(p_name), v_email, v_cpf, NULLIF(p_phone, ''), p_birth_date, NULLIF(p_address, ''), NULLIF(p_city, ''), NULLIF(upper(p_state), ''),
+            'Associado', 'Pending', current_date, 'https://i.pravatar.cc/150?u=' || v_email)
+    RETURNING id INTO v_member_id;
+    INSERT INTO public.membership_applications (member_id, message, duplicate_of) VALUES (v_member_id, NULLIF(trim(p_message), ''), v_duplicate_of)
+    RETURNING id INTO v_application_id;
+    RETURN v_application_id;
+END;
+$fn$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.submit_membership_application(TEXT, TEXT, TEXT, TEXT, DATE, TEXT, TEXT, TEXT, TEXT) TO anon, authenticated;
+
+-- Registra (ou altera) o voto e aplica o quórum. Devolve a situação da inscrição após o voto.
+CREATE OR REPLACE FUNCTION public.cast_membership_vote(p_application_id UUID, p_vote TEXT, p_comment TEXT)
+RETURNS TEXT AS $fn$
+DECLARE
+    v_voter_member_id UUID;
+    v_voter_name TEXT;
+    v_application public.membership_applications;
+    v_quorum INT;
+    v_approvals INT;
+    v_rejections INT;
+BEGIN
+    SELECT m.id, m.name INTO v_voter_member_id, v_voter_name FROM public.profiles p
+    JOIN public.members m ON m.id = p.member_id
+    WHERE p.id = auth.uid() AND m.role = 'Diretoria' AND m.status = 'Active';
+    IF v_voter_member_id IS NULL THEN RAISE EXCEPTION 'Apenas membros ativos da Diretoria podem votar'; END IF;
+
+    SELECT * INTO v_application FROM public.membership_applications WHERE id = p_application_id FOR UPDATE;
+    IF NOT FOUND THEN RAISE EXCEPTION 'Inscrição não encontrada'; END IF;
+    IF v_application.status <> 'Pending' THEN RAISE EXCEPTION 'Esta inscrição já foi decidida'; END IF;
+    IF p_vote = 'Reject' AND length(trim(COALESCE(p_comment, ''))) = 0 THEN RAISE EXCEPTION 'Justifique o voto contrário'; END IF;
+
+    INSERT INTO public.membership_votes (application_id, voter_id, voter_member_id, voter_name, vote, comment)
+    VALUES (p_application_id, auth.uid(), v_voter_member_id, v_voter_name, p_vote, NULLIF(trim(p_comment), ''))
+    ON CONFLICT (application_id, voter_member_id) DO UPDATE
+    SET voter_id = EXCLUDED.voter_id, vote = EXCLUDED.vote, comment = EXCLUDED.comment, created_at = now();
+
+    SELECT quorum INTO v_quorum FROM public.membership_settings WHERE id = 1;
+    SELECT count(*) FILTER (WHERE vote = 'Approve'), count(*) FILTER (WHERE vote = 'Reject')
+    INTO v_approvals, v_rejections FROM public.membership_votes WHERE application_id = p_application_id;
+
+    IF v_approvals >= COALESCE(v_quorum, 3) THEN
+        UPDATE public.membership_applications SET status = 'Approved', decided_at = now() WHERE id = p_application_id;
+        UPDATE public.members SET status = 'Active', admission_date = current_date WHERE id = v_application.member_id;
+        RETURN 'Approved';
+    ELSIF v_rejections >= COALESCE(v_quorum, 3) THEN
+        UPDATE public.membership_applications SET status = 'Rejected', decided_at = now() WHERE id = p_application_id;
+        UPDATE public.members SET status = 'Inactive' WHERE id = v_application.member_id;
+        RETURN 'Rejected';
+    END IF;
+    RETURN 'Pending';
+END;
+$fn$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+-- 29. PORTAL DO ASSOCIADO
+-- Usuário com papel Associado vê só o próprio cadastro. O vínculo profiles.member_id é feito pelo
+-- Super Admin ou, no primeiro acesso, pelo email igual ao do cadastro de membro.
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'profiles' AND column_name = 'member_id') THEN
+        ALTER TABLE public.profiles ADD COLUMN member_id UUID REFERENCES public.members(id) ON DELETE SET NULL;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'documents' AND column_name = 'member_visible') THEN
+        ALTER TABLE public.documents ADD COLUMN member_visible BOOLEAN NOT NULL DEFAULT false;
+    END IF;
+END $$;
+
+-- O associado lê só a própria carteirinha
+DROP POLICY IF EXISTS "Members can read their own member_cards" ON public.member_cards;
+CREATE POLICY "Members can read their own member_cards" ON public.member_cards FOR SELECT TO authenticated
+    USING (member_id = (SELECT member_id FROM public.profiles WHERE id = auth.uid()));
+
+CREATE TABLE IF NOT EXISTS public.event_registrations (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+    member_id UUID NOT NULL REFERENCES public.members(id) ON DELETE CASCADE,
+    registered_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    UNIQUE (event_id, member_id)
+);
+
+ALTER TABLE public.event_registrations ENABLE ROW LEVEL SECURITY;
+
+-- Cadastro de membro do usuário logado (vincula pelo email se ainda não houver vínculo)
+CREATE OR REPLACE FUNCTION public.my_member()
+RETURNS SETOF public.members AS $fn$
+DECLARE
+    v_member_id UUID;
+BEGIN
+    SELECT member_id INTO v_member_id FROM public.profiles WHERE id = auth.uid();
+    IF v_member_id IS NULL THEN
+        SELECT m.id INTO v_member_id FROM public.members m
+        JOIN public.profiles p ON lower(trim(p.email)) = lower(trim(m.email))
+        WHERE p.id = auth.uid()
+        ORDER BY m.admission_date LIMIT 1;
+        IF v_member_id IS NOT NULL THEN UPDATE public.profiles SET member_id = v_member_id WHERE id = auth.uid(); END IF;
+    END IF;
+    RETURN QUERY SELECT * FROM public.members WHERE id = v_member_id;
+END;
+$fn$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- O associado altera só os próprios dados de contato; nome, CPF e email ficam com a secretaria
+CREATE OR REPLACE FUNCTION public.update_my_contact(p_phone TEXT, p_address TEXT, p_city TEXT, p_state TEXT)
+RETURNS VOID AS $fn$
+DECLARE
+    v_member_id UUID;
+BEGIN
+    SELECT member_id INTO v_member_id FROM public.profiles WHERE id = auth.uid();
+    IF v_member_id IS NULL THEN RAISE EXCEPTION 'Seu usuário não está vinculado a um cadastro de membro'; END IF;
+    IF length(COALESCE(p_state, '')) > 2 THEN RAISE EXCEPTION 'UF deve ter 2 letras'; END IF;
+    UPDATE public.members
+    SET phone = NULLIF(trim(p_phone), ''), address = NULLIF(trim(p_address), ''), city = NULLIF(trim(p_city), ''), state = NULLIF(upper(trim(p_state)), '')
+    WHERE id = v_member_id;
+END;
+$fn$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 30. PERMISSÕES POR PAPEL
+-- Super Admin e Financeiro têm acesso total; o Associado lê só o que é dele e as configurações que o portal
+-- usa (PIX, mensalidades e dados da associação). As políticas antigas dessas tabelas (liberadas para qualquer
+-- usuário logado) são removidas antes, seja qual for o nome.
+CREATE OR REPLACE FUNCTION public.is_staff()
+RETURNS BOOLEAN AS $fn$
+    SELECT EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role IN ('Super Admin', 'Financeiro'));
+$fn$ LANGUAGE sql STABLE;
+
+ALTER TABLE public.members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.transactions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.documents ENABLE ROW LEVEL SECURITY;
+
+DO $$
+DECLARE
+    v_policy RECORD;
+    v_table TEXT;
+BEGIN
+    FOR v_policy IN SELECT policyname, tablename FROM pg_policies
+        WHERE schemaname = 'public' AND tablename IN (
+            'members', 'dues_charges', 'transactions', 'receipts', 'documents', 'event_registrations',
+            'projects', 'project_budget_lines', 'service_providers', 'inventory', 'account_categories',
+            'dues_settings', 'pix_settings', 'association_settings', 'event_charges', 'financial_accounts',
+            'account_transfers', 'recurring_templates', 'accountability_layouts', 'withholding_tables', 'rpas',
+            'tax_payables', 'ledger_accounts', 'alert_settings', 'alert_reviews',
+            'transaction_history', 'journal_entries', 'journal_lines', 'membership_applications', 'membership_votes')
+    LOOP
+        EXECUTE format('DROP POLICY %I ON public.%I', v_policy.policyname, v_policy.tablename);
+    END LOOP;
+
+    FOREACH v_table IN ARRAY ARRAY[
+        'members', 'dues_charges', 'transactions', 'receipts', 'documents', 'event_registrations',
+        'projects', 'project_budget_lines', 'service_providers', 'inventory', 'account_categories',
+        'dues_settings', 'pix_settings', 'association_settings', 'event_charges', 'financial_accounts',
+        'account_transfers', 'recurring_templates', 'accountability_layouts', 'withholding_tables', 'rpas',
+        'tax_payables', 'ledger_accounts', 'alert_settings', 'alert_reviews']
+    LOOP
+        EXECUTE format('CREATE POLICY %I ON public.%I FOR ALL TO authenticated USING (public.is_staff()) WITH CHECK (public.is_staff())',
+            'Staff can manage ' || v_table, v_table);
+    END LOOP;
+
+    -- Histórico de transações, diário e inscrições só mudam por trigger ou função; a leitura fica com a equipe
+    -- (o histórico guarda a transação inteira e a inscrição, o CPF do candidato)
+    FOREACH v_table IN ARRAY ARRAY['transaction_history', 'journal_entries', 'journal_lines', 'membership_applications', 'membership_votes']
+    LOOP
+        EXECUTE format('CREATE POLICY %I ON public.%I FOR SELECT TO authenticated USING (public.is_staff())',
+            'Staff can read ' || v_table, v_table);
+    END LOOP;
+
+    -- Configurações lidas pelo portal (QR Code PIX, valor da mensalidade, cabeçalho dos recibos)
+    FOREACH v_table IN ARRAY ARRAY['pix_settings', 'dues_settings', 'association_settings']
+    LOOP
+        EXECUTE format('CREATE POLICY %I ON public.%I FOR SELECT TO authenticated USING (true)',
+            'Enable read for authenticated users on ' || v_table, v_table);
+    END LOOP;
+END $$;
+
+CREATE POLICY "Members can read their own member record" ON public.members FOR SELECT TO authenticated
+    USING (id = (SELECT member_id FROM public.profiles WHERE id = auth.uid()));
+CREATE POLICY "Members can read their own dues_charges" ON public.dues_charges FOR SELECT TO authenticated
+    USING (member_id = (SELECT member_id FROM public.profiles WHERE id = auth.uid()));
+CREATE POLICY "Members can read their own transactions" ON public.transactions FOR SELECT TO authenticated
+    USING (member_id = (SELECT member_id FROM public.profiles WHERE id = auth.uid()));
+CREATE POLICY "Members can read their own receipts" ON public.receipts FOR SELECT TO authenticated
+    USING (member_id = (SELECT member_id FROM public.profiles WHERE id = auth.uid()));
+
+-- Documentos: o associado vê só os marcados como visíveis no portal
+CREATE POLICY "Members can read member_visible documents" ON public.documents FOR SELECT TO authenticated
+    USING (member_visible);
+
+-- O associado inscreve e cancela só a própria participação
+CREATE POLICY "Members can read their own event_registrations" ON public.event_registrations FOR SELECT TO authenticated
+    USING (member_id = (SELECT member_id FROM public.profiles WHERE id = auth.uid()));
+CREATE POLICY "Members can register themselves in events" ON public.event_registrations FOR INSERT TO authenticated
+    WITH CHECK (member_id = (SELECT member_id FROM public.profiles WHERE id = auth.uid()));
+CREATE POLICY "Members can cancel their own event_registrations" ON public.event_registrations FOR DELETE TO authenticated
+    USING (member_id = (SELECT member_id FROM public.profiles WHERE id = auth.uid()));
+
+-- TXID da cobrança PIX da mensalidade: a equipe grava em qualquer cobrança; o associado, só na própria
+-- cobrança em aberto que ainda não tem TXID (o QR Code gerado no portal)
+CREATE OR REPLACE FUNCTION public.set_dues_charge_txid(p_id UUID, p_txid TEXT)
+RETURNS VOID AS $fn$
+BEGIN
+    IF public.is_staff() THEN
+        UPDATE public.dues_charges SET txid = p_txid WHERE id = p_id;
+    ELSE
+        UPDATE public.dues_charges SET txid = p_txid
+        WHERE id = p_id AND status = 'Open' AND txid IS NULL
+          AND member_id = (SELECT member_id FROM public.profiles WHERE id = auth.uid());
+    END IF;
+    IF NOT FOUND THEN RAISE EXCEPTION 'Cobrança não encontrada'; END IF;
+END;
+$fn$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- O próprio usuário altera o nome, mas papel, email e vínculo com o membro só o Super Admin.
+-- Funções SECURITY DEFINER (como my_member) rodam com outro current_user e não passam por esta regra.
+CREATE OR REPLACE FUNCTION public.check_profile_protected_columns()
+RETURNS TRIGGER AS $fn$
+BEGIN
+    IF current_user = 'authenticated'
+       AND (NEW.role IS DISTINCT FROM OLD.role OR NEW.email IS DISTINCT FROM OLD.email OR NEW.member_id IS DISTINCT FROM OLD.member_id)
+       AND NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'Super Admin') THEN
+        RAISE EXCEPTION 'Apenas o Super Admin pode alterar papel, email ou vínculo de membro do usuário';
+    END IF;
+    RETURN NEW;
+END;
+$fn$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS profiles_protected_columns ON public.profiles;
+CREATE TRIGGER profiles_protected_columns BEFORE UPDATE ON public.profiles FOR EACH ROW EXECUTE FUNCTION public.check_profile_protected_columns();
 `;
 
 export const DatabaseSchemaHelp: React.FC = () => {
@@ -0,0 +1,19 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { RegistrationDuplicate } from '../types';
+
+const KIND_LABELS: Record<RegistrationDuplicate['kind'], string> = { Member: 'Membro', ServiceProvider: 'Prestador' };
+const FIELD_LABELS: Record<RegistrationDuplicate['field'], string> = { document: 'o mesmo CPF/CNPJ', email: 'o mesmo email' };
+
+export const DuplicateWarning: React.FC<{ duplicates: RegistrationDuplicate[] }> = ({ duplicates }) => {
+  if (duplicates.length === 0) return null;
+  return (
+    <div className="p-3 rounded-lg bg-yellow-50 dark:bg-yellow-900/30 border border-yellow-300 dark:border-yellow-700 text-sm text-yellow-800 dark:text-yellow-200">
+      <p className="font-semibold flex items-center gap-2"><AlertTriangle size={16} /> Possível cadastro duplicado</p>
+      <ul className="list-disc pl-6 mt-1">
+        {duplicates.map(d => <li key={`${d.kind}-${d.id}-${d.field}`}>{KIND_LABELS[d.kind]} <strong>{d.name}</strong> já usa {FIELD_LABELS[d.field]}.</li>)}
+      </ul>
+      <p className="text-xs mt-1">Confira os dados ou clique em salvar novamente para confirmar.</p>
+    </div>
+  );
+};
@@ -0,0 +1,40 @@
+import React, { useState } from 'react';
+import { FileSpreadsheet, ChevronDown } from 'lucide-react';
+import { SPREADSHEET_FORMAT_LABELS, SpreadsheetColumn, SpreadsheetFormat, downloadSpreadsheet } from '../utils/spreadsheet';
+
+interface ExportButtonProps<T> {
+  rows: T[];
+  columns: SpreadsheetColumn<T>[];
+  filename: string;
+  sheetName?: string;
+  label?: string;
+}
+
+const FORMATS = Object.keys(SPREADSHEET_FORMAT_LABELS) as SpreadsheetFormat[];
+
+export const ExportButton = <T,>({ rows, columns, filename, sheetName, label = 'Exportar' }: ExportButtonProps<T>) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const handleExport = (format: SpreadsheetFormat) => {
+    setIsOpen(false);
+    downloadSpreadsheet(rows, columns, filename, format, sheetName);
+  };
+
+  return (
+    <div className="relative" onMouseLeave={() => setIsOpen(false)}>
+      {/* Com um único formato o botão exporta direto, sem menu */}
+      <button type="button" onClick={() => FORMATS.length === 1 ? handleExport(FORMATS[0]) : setIsOpen(!isOpen)} disabled={rows.length === 0} className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-600 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50">
+        <FileSpreadsheet size={16} /> {label} {FORMATS.length > 1 && <ChevronDown size={14} />}
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 z-20 pt-1 w-44">
+          <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg py-1">
+            {FORMATS.map(format => (
+              <button key={format} type="button" onClick={() => handleExport(format)} className="block w-full px-3 py-2 text-sm text-left hover:bg-gray-100 dark:hover:bg-gray-700">{SPREADSHEET_FORMAT_LABELS[format]}</button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
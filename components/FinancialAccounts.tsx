@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { Edit, Trash2, PlusCircle, X } from 'lucide-react';
+import { FinancialAccount, FinancialAccountType } from '../types';
+import { useData } from '../contexts/DataContext';
+import { ACCOUNT_TYPE_LABELS } from '../utils/accounts';
+
+const INPUT_CLASS = "mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-secondary-500 focus:ring-secondary-500 sm:text-sm dark:bg-gray-700 dark:border-gray-600 dark:placeholder-gray-400 dark:text-white dark:focus:border-secondary-500 dark:focus:ring-secondary-500";
+
+const EMPTY_FORM = { name: '', type: 'Checking' as FinancialAccountType, initialBalance: '', active: true };
+
+export const FinancialAccounts: React.FC<{ showToast: (msg: string, type?: 'success' | 'error') => void }> = ({ showToast }) => {
+    const { financialAccounts, addFinancialAccount, updateFinancialAccount, deleteFinancialAccount } = useData();
+    const [form, setForm] = useState(EMPTY_FORM);
+    const [editingId, setEditingId] = useState<string | null>(null);
+
+    const handleEdit = (account: FinancialAccount) => {
+        setEditingId(account.id);
+        setForm({ name: account.name, type: account.type, initialBalance: String(account.initialBalance), active: account.active });
+    };
+
+    const handleCancel = () => { setEditingId(null); setForm(EMPTY_FORM); };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const initialBalance = form.initialBalance ? parseFloat(form.initialBalance) : 0;
+        if (!form.name || isNaN(initialBalance)) { showToast('Informe nome e saldo inicial válidos.', 'error'); return; }
+        const data = { name: form.name, type: form.type, initialBalance, active: form.active };
+        if (editingId) { await updateFinancialAccount(editingId, data); showToast('Conta atualizada!'); }
+        else { await addFinancialAccount(data); showToast('Conta criada!'); }
+        handleCancel();
+    };
+
+    // Contas com lançamentos não podem ser excluídas (FK no banco); a alternativa é inativá-las
+    const handleDelete = async (account: FinancialAccount) => {
+        if (window.confirm(`Excluir a conta "${account.name}"? Contas com lançamentos devem ser inativadas.`)) { await deleteFinancialAccount(account.id); }
+    };
+
+    return (
+        <div className="space-y-4">
+            <form onSubmit={handleSubmit} className="grid grid-cols-2 md:grid-cols-4 gap-3 items-end">
+                <div><label className="block text-sm font-medium">Nome</label><input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} placeholder="Caixa da Feira" className={INPUT_CLASS} /></div>
+                <div><label className="block text-sm font-medium">Tipo</label><select value={form.type} onChange={(e) => setForm({ ...form, type: e.target.value as FinancialAccountType })} className={INPUT_CLASS}>{Object.entries(ACCOUNT_TYPE_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}</select></div>
+                <div><label className="block text-sm font-medium">Saldo Inicial (R$)</label><input type="number" step="0.01" value={form.initialBalance} onChange={(e) => setForm({ ...form, initialBalance: e.target.value })} className={INPUT_CLASS} /></div>
+                <label className="flex items-center gap-2 text-sm pb-2"><input type="checkbox" checked={form.active} onChange={(e) => setForm({ ...form, active: e.target.checked })} className="rounded" /> Ativa</label>
+                <div className="col-span-2 md:col-span-4 flex justify-end gap-2">
+                    {editingId && <button type="button" onClick={handleCancel} className="flex items-center gap-2 px-4 py-2 text-sm font-medium bg-gray-100 dark:bg-gray-700 rounded-lg"><X size={16} /> Cancelar</button>}
+                    <button type="submit" className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-secondary-700 rounded-lg hover:bg-secondary-800"><PlusCircle size={16} /> {editingId ? 'Salvar' : 'Adicionar'}</button>
+                </div>
+            </form>
+            <ul className="divide-y dark:divide-gray-700">
+                {financialAccounts.map(account => (
+                    <li key={account.id} className={`py-2 flex justify-between items-center text-sm ${account.active ? '' : 'opacity-50'}`}>
+                        <span>{account.name} <span className="text-xs text-gray-500 ml-2">{ACCOUNT_TYPE_LABELS[account.type]}{!account.active && ' · Inativa'}</span></span>
+                        <div className="flex items-center">
+                            <span className="text-xs text-gray-500 mr-2">Saldo inicial: R$ {account.initialBalance.toFixed(2)}</span>
+                            <button onClick={() => handleEdit(account)} className="p-2 text-gray-500 hover:text-blue-600"><Edit size={14} /></button>
+                            <button onClick={() => handleDelete(account)} className="p-2 text-gray-500 hover:text-red-600"><Trash2 size={14} /></button>
+                        </div>
+                    </li>
+                ))}
+            </ul>
+            {financialAccounts.length === 0 && <p className="text-sm text-gray-500 text-center py-4">Nenhuma conta cadastrada.</p>}
+        </div>
+    );
+};
@@ -0,0 +1,62 @@
+import React, { useState } from 'react';
+import { AlertTriangle, Check, Eye, RotateCcw } from 'lucide-react';
+import { FinancialAlert } from '../types';
+import { useData } from '../contexts/DataContext';
+import { ALERT_RULE_LABELS, describeAlert, getPendingAlerts } from '../utils/alerts';
+import { formatBRL, formatDateBR } from '../utils/print';
+
+interface FinancialAlertsProps {
+  onOpenTransaction: (alert: FinancialAlert) => void;
+  showToast: (message: string, type?: 'success' | 'error') => void;
+}
+
+const COLLAPSED_LIMIT = 5;
+
+export const FinancialAlerts: React.FC<FinancialAlertsProps> = ({ onOpenTransaction, showToast }) => {
+  const { financialAlerts, reviewAlert, reopenAlert } = useData();
+  const [showReviewed, setShowReviewed] = useState(false);
+  const [expanded, setExpanded] = useState(false);
+
+  const pending = getPendingAlerts(financialAlerts);
+  if (financialAlerts.length === 0) return null;
+
+  const visible = showReviewed ? financialAlerts : pending;
+  const shown = expanded ? visible : visible.slice(0, COLLAPSED_LIMIT);
+
+  const handleReview = async (alert: FinancialAlert) => { await reviewAlert(alert); showToast('Alerta marcado como revisado'); };
+  const handleReopen = async (alert: FinancialAlert) => { await reopenAlert(alert); showToast('Alerta reaberto'); };
+
+  return (
+    <div className="bg-orange-50 dark:bg-orange-900/20 p-4 rounded-xl border border-orange-200 dark:border-orange-800">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="font-semibold text-orange-800 dark:text-orange-200 flex items-center gap-2"><AlertTriangle size={16} /> Alertas financeiros {pending.length > 0 && <span className="px-1.5 text-xs text-white bg-orange-500 rounded-full">{pending.length}</span>}</h3>
+        <label className="flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400"><input type="checkbox" checked={showReviewed} onChange={(e) => setShowReviewed(e.target.checked)} /> Mostrar revisados</label>
+      </div>
+      {visible.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Nenhum alerta pendente.</p>
+      ) : (
+        <ul className="space-y-2">
+          {shown.map(alert => (
+            <li key={alert.alertKey} className={`flex flex-wrap justify-between items-center gap-2 text-sm ${alert.reviewedAt ? 'opacity-60' : ''}`}>
+              <div className="min-w-0">
+                <p><span className="font-medium text-orange-800 dark:text-orange-200">{ALERT_RULE_LABELS[alert.rule]}</span> — {formatDateBR(alert.date)} · {alert.description} · {formatBRL(alert.amount)}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {describeAlert(alert)}{alert.reviewedAt && ` Revisado por ${alert.reviewedBy} em ${formatDateBR(alert.reviewedAt)}.`}
+                </p>
+              </div>
+              <span className="flex gap-2">
+                <button onClick={() => onOpenTransaction(alert)} className="flex items-center gap-1 px-2 py-1 text-xs font-medium bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded hover:bg-gray-100"><Eye size={12} /> Ver</button>
+                {alert.reviewedAt
+                  ? <button onClick={() => handleReopen(alert)} className="flex items-center gap-1 px-2 py-1 text-xs font-medium bg-gray-100 dark:bg-gray-700 rounded hover:bg-gray-200"><RotateCcw size={12} /> Reabrir</button>
+                  : <button onClick={() => handleReview(alert)} className="flex items-center gap-1 px-2 py-1 text-xs font-medium text-white bg-secondary-700 rounded hover:bg-secondary-800"><Check size={12} /> Revisado</button>}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+      {visible.length > COLLAPSED_LIMIT && (
+        <button onClick={() => setExpanded(!expanded)} className="mt-2 text-xs text-orange-700 dark:text-orange-300 hover:underline">{expanded ? 'Mostrar menos' : `Ver todos (${visible.length})`}</button>
+      )}
+    </div>
+  );
+};
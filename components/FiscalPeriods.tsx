@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { Lock, Unlock, X } from 'lucide-react';
+import { useData } from '../contexts/DataContext';
+import { useAuth } from '../contexts/AuthContext';
+import { formatCompetence } from '../utils/dues';
+import { listRecentPeriods } from '../utils/fiscalPeriods';
+
+const INPUT_CLASS = "mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-secondary-500 focus:ring-secondary-500 sm:text-sm dark:bg-gray-700 dark:border-gray-600 dark:placeholder-gray-400 dark:text-white dark:focus:border-secondary-500 dark:focus:ring-secondary-500";
+
+export const FiscalPeriods: React.FC<{ showToast: (msg: string, type?: 'success' | 'error') => void }> = ({ showToast }) => {
+    const { currentUser } = useAuth();
+    const { fiscalPeriods, fiscalPeriodLogs, closeFiscalPeriod, reopenFiscalPeriod } = useData();
+    const [reopening, setReopening] = useState<string | null>(null);
+    const [justification, setJustification] = useState('');
+    const isSuperAdmin = currentUser?.role === 'Super Admin';
+
+    // Últimos 24 meses mais qualquer período mais antigo que já tenha sido fechado
+    const periods = Array.from(new Set([...listRecentPeriods(24), ...fiscalPeriods.map(p => p.period)])).sort().reverse();
+    const findPeriod = (period: string) => fiscalPeriods.find(p => p.period === period);
+
+    const handleClose = async (period: string) => {
+        if (!window.confirm(`Fechar ${formatCompetence(period)}? Lançamentos e transferências do mês ficarão bloqueados.`)) return;
+        await closeFiscalPeriod(period);
+        showToast(`Período ${formatCompetence(period)} fechado.`);
+    };
+
+    const handleReopen = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!reopening) return;
+        if (!justification.trim()) { showToast('Informe a justificativa da reabertura.', 'error'); return; }
+        await reopenFiscalPeriod(reopening, justification);
+        showToast(`Período ${formatCompetence(reopening)} reaberto.`);
+        setReopening(null); setJustification('');
+    };
+
+    return (
+        <div className="space-y-4">
+            <ul className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                {periods.map(period => {
+                    const closed = findPeriod(period)?.status === 'Closed';
+                    return (
+                        <li key={period} className={`flex justify-between items-center px-3 py-2 rounded-lg text-sm border dark:border-gray-700 ${closed ? 'bg-gray-100 dark:bg-gray-700' : ''}`}>
+                            <span className="flex items-center gap-2">{closed ? <Lock size={14} className="text-gray-500" /> : <Unlock size={14} className="text-green-600" />} {formatCompetence(period)}</span>
+                            {isSuperAdmin && (closed
+                                ? <button onClick={() => { setReopening(period); setJustification(''); }} className="text-xs text-blue-600 hover:underline">Reabrir</button>
+                                : <button onClick={() => handleClose(period)} className="text-xs text-red-600 hover:underline">Fechar</button>)}
+                        </li>
+                    );
+                })}
+            </ul>
+
+            {reopening && (
+                <form onSubmit={handleReopen} className="p-4 rounded-lg bg-yellow-50 dark:bg-yellow-900/20 space-y-2">
+                    <label className="block text-sm font-medium">Justificativa para reabrir {formatCompetence(reopening)}</label>
+                    <textarea value={justification} onChange={(e) => setJustification(e.target.value)} rows={2} required placeholder="Ex.: correção aprovada em assembleia de 10/03" className={INPUT_CLASS} />
+                    <div className="flex justify-end gap-2">
+                        <button type="button" onClick={() => setReopening(null)} className="flex items-center gap-2 px-4 py-2 text-sm font-medium bg-gray-100 dark:bg-gray-700 rounded-lg"><X size={16} /> Cancelar</button>
+                        <button type="submit" className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-secondary-700 rounded-lg hover:bg-secondary-800"><Unlock size={16} /> Reabrir Período</button>
+                    </div>
+                </form>
+            )}
+
+            <div>
+                <h3 className="text-sm font-semibold mb-2">Histórico</h3>
+                <ul className="divide-y dark:divide-gray-700 text-sm">
+                    {fiscalPeriodLogs.map(log => (
+                        <li key={log.id} className="py-2">
+                            <span className="font-medium">{log.action === 'Close' ? 'Fechamento' : 'Reabertura'} de {formatCompetence(log.period)}</span>
+                            <span className="text-xs text-gray-500 ml-2">{log.userName} · {new Date(log.createdAt).toLocaleString('pt-BR')}</span>
+                            {log.justification && <p className="text-xs text-gray-600 dark:text-gray-400 mt-1">{log.justification}</p>}
+                        </li>
+                    ))}
+                </ul>
+                {fiscalPeriodLogs.length === 0 && <p className="text-sm text-gray-500 text-center py-4">Nenhum período fechado até o momento.</p>}
+            </div>
+        </div>
+    );
+};
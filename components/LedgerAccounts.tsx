@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { Edit, Trash2, PlusCircle, X, RefreshCw, Loader2 } from 'lucide-react';
+import { LedgerAccount, LedgerNature } from '../types';
+import { useData } from '../contexts/DataContext';
+import { LEDGER_NATURE_LABELS } from '../utils/accounting';
+import { sortCategories } from '../utils/categories';
+
+const INPUT_CLASS = "mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-secondary-500 focus:ring-secondary-500 sm:text-sm dark:bg-gray-700 dark:border-gray-600 dark:placeholder-gray-400 dark:text-white dark:focus:border-secondary-500 dark:focus:ring-secondary-500";
+
+const EMPTY_FORM = { code: '', name: '', nature: 'Asset' as LedgerNature, active: true };
+
+export const LedgerAccounts: React.FC<{ showToast: (msg: string, type?: 'success' | 'error') => void }> = ({ showToast }) => {
+    const { ledgerAccounts, financialAccounts, categories, addLedgerAccount, updateLedgerAccount, deleteLedgerAccount, updateFinancialAccount, updateCategory, migrateJournal, rebuildJournal } = useData();
+    const [form, setForm] = useState(EMPTY_FORM);
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [isProcessing, setIsProcessing] = useState(false);
+
+    const handleEdit = (account: LedgerAccount) => {
+        setEditingId(account.id);
+        setForm({ code: account.code, name: account.name, nature: account.nature, active: account.active });
+    };
+
+    const handleCancel = () => { setEditingId(null); setForm(EMPTY_FORM); };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!form.code.trim() || !form.name.trim()) { showToast('Informe código e nome da conta.', 'error'); return; }
+        const data = { ...form, code: form.code.trim(), name: form.name.trim() };
+        if (editingId) { await updateLedgerAccount(editingId, data); showToast('Conta contábil atualizada!'); }
+        else { await addLedgerAccount(data); showToast('Conta contábil criada!'); }
+        handleCancel();
+    };
+
+    // Contas com partidas não podem ser excluídas (FK no banco); a alternativa é inativá-las
+    const handleDelete = async (account: LedgerAccount) => {
+        if (window.confirm(`Excluir a conta "${account.code} ${account.name}"? Contas com lançamentos devem ser inativadas.`)) { await deleteLedgerAccount(account.id); }
+    };
+
+    const handleMapFinancial = async (id: string, ledgerAccountId: string) => {
+        await updateFinancialAccount(id, { ledgerAccountId: ledgerAccountId || null });
+        showToast('Mapeamento salvo. Reprocesse o diário para aplicá-lo aos lançamentos já registrados.');
+    };
+
+    const handleMapCategory = async (id: string, ledgerAccountId: string) => {
+        await updateCategory(id, { ledgerAccountId: ledgerAccountId || null });
+        showToast('Mapeamento salvo. Reprocesse o diário para aplicá-lo aos lançamentos já registrados.');
+    };
+
+    const runJob = async (job: () => Promise<void>, message: string) => {
+        setIsProcessing(true);
+        await job();
+        setIsProcessing(false);
+        showToast(message);
+    };
+
+    const handleMigrate = () => {
+        if (!window.confirm('Criar contas contábeis para as categorias sem mapeamento e gerar as partidas de todas as transações, transferências e tributos retidos?')) return;
+        runJob(migrateJournal, 'Lançamentos migrados para a contabilidade!');
+    };
+
+    const handleRebuild = () => {
+        if (!window.confirm('Regerar as partidas automáticas dos períodos abertos com os mapeamentos atuais? Lançamentos manuais e períodos fechados são preservados.')) return;
+        runJob(rebuildJournal, 'Diário reprocessado!');
+    };
+
+    const activeAccounts = ledgerAccounts.filter(a => a.active);
+    const mappingSelect = (value: string | null | undefined, natures: LedgerNature[], onChange: (id: string) => void) => (
+        <select value={value || ''} onChange={(e) => onChange(e.target.value)} className={`${INPUT_CLASS} !mt-0 max-w-[55%]`}>
+            <option value="">Padrão</option>
+            {activeAccounts.filter(a => natures.includes(a.nature)).map(a => <option key={a.id} value={a.id}>{a.code} {a.name}</option>)}
+        </select>
+    );
+
+    return (
+        <div className="space-y-6">
+            <form onSubmit={handleSubmit} className="grid grid-cols-2 md:grid-cols-4 gap-3 items-end">
+                <div><label className="block text-sm font-medium">Código</label><input value={form.code} onChange={(e) => setForm({ ...form, code: e.target.value })} placeholder="1.1.1.04" className={INPUT_CLASS} /></div>
+                <div><label className="block text-sm font-medium">Nome</label><input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} className={INPUT_CLASS} /></div>
+                <div><label className="block text-sm font-medium">Natureza</label><select value={form.nature} onChange={(e) => setForm({ ...form, nature: e.target.value as LedgerNature })} className={INPUT_CLASS}>{Object.entries(LEDGER_NATURE_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}</select></div>
+                <label className="flex items-center gap-2 text-sm pb-2"><input type="checkbox" checked={form.active} onChange={(e) => setForm({ ...form, active: e.target.checked })} className="rounded" /> Ativa</label>
+                <div className="col-span-2 md:col-span-4 flex justify-end gap-2">
+                    {editingId && <button type="button" onClick={handleCancel} className="flex items-center gap-2 px-4 py-2 text-sm font-medium bg-gray-100 dark:bg-gray-700 rounded-lg"><X size={16} /> Cancelar</button>}
+                    <button type="submit" className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-secondary-700 rounded-lg hover:bg-secondary-800"><PlusCircle size={16} /> {editingId ? 'Salvar' : 'Adicionar'}</button>
+                </div>
+            </form>
+            <ul className="divide-y dark:divide-gray-700 max-h-72 overflow-y-auto">
+                {ledgerAccounts.map(account => (
+                    <li key={account.id} className={`py-2 flex justify-between items-center text-sm ${account.active ? '' : 'opacity-50'}`}>
+                        <span><span className="font-mono mr-2">{account.code}</span>{account.name} <span className="text-xs text-gray-500 ml-2">{LEDGER_NATURE_LABELS[account.nature]}{!account.active && ' · Inativa'}</span></span>
+                        <div className="flex items-center">
+                            <button onClick={() => handleEdit(account)} className="p-2 text-gray-500 hover:text-blue-600"><Edit size={14} /></button>
+                            <button onClick={() => handleDelete(account)} className="p-2 text-gray-500 hover:text-red-600"><Trash2 size={14} /></button>
+                        </div>
+                    </li>
+                ))}
+            </ul>
+            {ledgerAccounts.length === 0 && <p className="text-sm text-gray-500 text-center py-4">Nenhuma conta contábil cadastrada. Execute o script do banco de dados.</p>}
+
+            <div>
+                <h4 className="text-sm font-semibold mb-2">Mapeamento das contas financeiras</h4>
+                <ul className="space-y-2">
+                    {financialAccounts.map(account => (
+                        <li key={account.id} className="flex justify-between items-center gap-2 text-sm">
+                            <span>{account.name}</span>
+                            {mappingSelect(account.ledgerAccountId, ['Asset'], (id) => handleMapFinancial(account.id, id))}
+                        </li>
+                    ))}
+                </ul>
+            </div>
+            <div>
+                <h4 className="text-sm font-semibold mb-2">Mapeamento das categorias</h4>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">Subcategoria em "Padrão" usa a conta da categoria pai; sem mapeamento, vai para Receitas/Despesas Não Classificadas.</p>
+                <ul className="space-y-2 max-h-72 overflow-y-auto">
+                    {sortCategories(categories).map(category => (
+                        <li key={category.id} className="flex justify-between items-center gap-2 text-sm">
+                            <span className={category.parentId ? 'pl-4' : ''}><span className="font-mono mr-2">{category.code}</span>{category.name}</span>
+                            {mappingSelect(category.ledgerAccountId, category.type === 'Income' ? ['Revenue'] : ['Expense'], (id) => handleMapCategory(category.id, id))}
+                        </li>
+                    ))}
+                </ul>
+            </div>
+            <div className="flex flex-wrap justify-end gap-2 pt-4 border-t dark:border-gray-700">
+                <button type="button" onClick={handleRebuild} disabled={isProcessing} className="flex items-center gap-2 px-4 py-2 text-sm font-medium bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 disabled:opacity-50"><RefreshCw size={16} /> Reprocessar diário</button>
+                <button type="button" onClick={handleMigrate} disabled={isProcessing} className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-secondary-700 rounded-lg hover:bg-secondary-800 disabled:opacity-50">
+                    {isProcessing ? <Loader2 size={16} className="animate-spin" /> : <PlusCircle size={16} />} Migrar transações existentes
+                </button>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,72 @@
+import React, { useState, useEffect } from 'react';
+import { Search, X, Paperclip } from 'lucide-react';
+import { LedgerFilters, Member } from '../types';
+import { useData } from '../contexts/DataContext';
+
+interface LedgerFilterBarProps {
+  filters: LedgerFilters;
+  onApply: (filters: LedgerFilters) => void;
+  members: Member[];
+}
+
+const FILTER_CLASS = "text-sm rounded-lg bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 px-2 py-1.5 dark:text-white";
+
+type LinkType = 'Member' | 'Project' | 'Provider' | 'None';
+
+const getLinkType = (filters: LedgerFilters): LinkType =>
+  filters.memberId ? 'Member' : filters.projectId ? 'Project' : filters.providerId ? 'Provider' : 'None';
+
+export const LedgerFilterBar: React.FC<LedgerFilterBarProps> = ({ filters, onApply, members }) => {
+  const { projects, providers } = useData();
+  const [draft, setDraft] = useState<LedgerFilters>(filters);
+  const [linkType, setLinkType] = useState<LinkType>(getLinkType(filters));
+
+  useEffect(() => { setDraft(filters); setLinkType(getLinkType(filters)); }, [filters]);
+
+  const linkedId = draft.memberId || draft.projectId || draft.providerId || '';
+  const setLinked = (type: LinkType, id: string) => setDraft({
+    ...draft,
+    memberId: type === 'Member' ? id : '',
+    projectId: type === 'Project' ? id : '',
+    providerId: type === 'Provider' ? id : '',
+  });
+
+  const handleSubmit = (e: React.FormEvent) => { e.preventDefault(); onApply(draft); };
+  const hasFilters = Object.values(filters).some(Boolean);
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-wrap items-end gap-2 mb-4 p-3 rounded-lg bg-gray-50/50 dark:bg-gray-700/30 border border-gray-200 dark:border-gray-700">
+      <div className="flex items-center gap-1 flex-1 min-w-[180px]">
+        <Search size={16} className="text-gray-400" />
+        <input value={draft.search || ''} onChange={(e) => setDraft({ ...draft, search: e.target.value })} placeholder="Buscar descrição, associado, projeto..." className={`${FILTER_CLASS} w-full`} />
+      </div>
+      <input type="date" value={draft.startDate || ''} onChange={(e) => setDraft({ ...draft, startDate: e.target.value })} title="De" className={FILTER_CLASS} />
+      <input type="date" value={draft.endDate || ''} onChange={(e) => setDraft({ ...draft, endDate: e.target.value })} title="Até" className={FILTER_CLASS} />
+      <select value={draft.type || ''} onChange={(e) => setDraft({ ...draft, type: e.target.value as LedgerFilters['type'] })} className={FILTER_CLASS}>
+        <option value="">Receitas e despesas</option>
+        <option value="Income">Receitas</option>
+        <option value="Expense">Despesas</option>
+      </select>
+      <select value={linkType} onChange={(e) => { setLinkType(e.target.value as LinkType); setLinked('None', ''); }} className={FILTER_CLASS}>
+        <option value="None">Qualquer vínculo</option><option value="Member">Associado</option><option value="Project">Projeto</option><option value="Provider">Prestador</option>
+      </select>
+      {linkType !== 'None' && (
+        <select value={linkedId} onChange={(e) => setLinked(linkType, e.target.value)} className={FILTER_CLASS}>
+          <option value="">Todos</option>
+          {linkType === 'Member' && members.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+          {linkType === 'Project' && projects.map(p => <option key={p.id} value={p.id}>{p.title}</option>)}
+          {linkType === 'Provider' && providers.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+        </select>
+      )}
+      <input type="number" step="0.01" min="0" value={draft.minAmount || ''} onChange={(e) => setDraft({ ...draft, minAmount: e.target.value })} placeholder="Valor mín." className={`${FILTER_CLASS} w-28`} />
+      <input type="number" step="0.01" min="0" value={draft.maxAmount || ''} onChange={(e) => setDraft({ ...draft, maxAmount: e.target.value })} placeholder="Valor máx." className={`${FILTER_CLASS} w-28`} />
+      <button type="button" onClick={() => onApply({ ...draft, missingProof: !draft.missingProof })} className={`flex items-center gap-1 px-3 py-1.5 text-sm font-medium rounded-lg ${draft.missingProof ? 'text-white bg-orange-500 hover:bg-orange-600' : 'text-gray-600 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600'}`}>
+        <Paperclip size={14} /> Sem Comprovante
+      </button>
+      <button type="submit" className="px-3 py-1.5 text-sm font-medium text-white bg-secondary-700 rounded-lg hover:bg-secondary-800">Filtrar</button>
+      {hasFilters && (
+        <button type="button" onClick={() => onApply({})} className="flex items-center gap-1 px-3 py-1.5 text-sm font-medium bg-gray-100 dark:bg-gray-700 rounded-lg"><X size={14} /> Limpar</button>
+      )}
+    </form>
+  );
+};
@@ -0,0 +1,95 @@
+import React, { useState, useEffect } from 'react';
+import { X, PlusCircle, Loader2 } from 'lucide-react';
+import { JournalLine } from '../types';
+import { useData } from '../contexts/DataContext';
+import { validateJournalLines } from '../utils/accounting';
+import { todayISO } from '../utils/dues';
+import { formatBRL } from '../utils/print';
+
+interface ManualJournalEntryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSaved: () => void;
+  showToast: (message: string, type?: 'success' | 'error') => void;
+}
+
+interface LineDraft { accountId: string; debit: string; credit: string; }
+
+const INPUT_CLASS = "mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-secondary-500 focus:ring-secondary-500 sm:text-sm dark:bg-gray-700 dark:border-gray-600 dark:placeholder-gray-400 dark:text-white dark:focus:border-secondary-500 dark:focus:ring-secondary-500";
+
+const EMPTY_LINE: LineDraft = { accountId: '', debit: '', credit: '' };
+
+export const ManualJournalEntryModal: React.FC<ManualJournalEntryModalProps> = ({ isOpen, onClose, onSaved, showToast }) => {
+  const { ledgerAccounts, addManualJournalEntry } = useData();
+  const [date, setDate] = useState(todayISO());
+  const [description, setDescription] = useState('');
+  const [lines, setLines] = useState<LineDraft[]>([EMPTY_LINE, EMPTY_LINE]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) { setDate(todayISO()); setDescription(''); setLines([EMPTY_LINE, EMPTY_LINE]); }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const parsed: JournalLine[] = lines.map(l => ({ accountId: l.accountId, debit: parseFloat(l.debit) || 0, credit: parseFloat(l.credit) || 0 }));
+  const totalDebit = parsed.reduce((acc, l) => acc + l.debit, 0);
+  const totalCredit = parsed.reduce((acc, l) => acc + l.credit, 0);
+
+  const setLine = (index: number, field: keyof LineDraft, value: string) =>
+    setLines(lines.map((l, i) => i === index ? { ...l, [field]: value } : l));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!description.trim()) { showToast('Informe o histórico do lançamento.', 'error'); return; }
+    const validationError = validateJournalLines(parsed);
+    if (validationError) { showToast(validationError, 'error'); return; }
+    setIsSaving(true);
+    const saved = await addManualJournalEntry(date, description.trim(), parsed);
+    setIsSaving(false);
+    if (saved) { showToast('Lançamento registrado'); onSaved(); onClose(); }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex justify-center items-center p-4" onClick={onClose}>
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-2xl" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold">Lançamento Manual</h2>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700"><X size={20} /></button>
+        </div>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-3 gap-4">
+            <div><label className="block text-sm font-medium">Data</label><input type="date" value={date} onChange={(e) => setDate(e.target.value)} className={INPUT_CLASS} /></div>
+            <div className="col-span-2"><label className="block text-sm font-medium">Histórico</label><input value={description} onChange={(e) => setDescription(e.target.value)} placeholder="Ajuste, depreciação, provisão..." className={INPUT_CLASS} /></div>
+          </div>
+          <div className="space-y-2">
+            <div className="grid grid-cols-[2fr_1fr_1fr_auto] gap-2 text-xs font-medium text-gray-500"><span>Conta</span><span>Débito</span><span>Crédito</span><span className="w-6" /></div>
+            {lines.map((line, i) => (
+              <div key={i} className="grid grid-cols-[2fr_1fr_1fr_auto] gap-2 items-center">
+                <select value={line.accountId} onChange={(e) => setLine(i, 'accountId', e.target.value)} className={`${INPUT_CLASS} !mt-0`}>
+                  <option value="">Selecione...</option>
+                  {ledgerAccounts.filter(a => a.active).map(a => <option key={a.id} value={a.id}>{a.code} {a.name}</option>)}
+                </select>
+                <input type="number" step="0.01" min="0" value={line.debit} onChange={(e) => setLine(i, 'debit', e.target.value)} className={`${INPUT_CLASS} !mt-0`} />
+                <input type="number" step="0.01" min="0" value={line.credit} onChange={(e) => setLine(i, 'credit', e.target.value)} className={`${INPUT_CLASS} !mt-0`} />
+                <button type="button" onClick={() => setLines(lines.filter((_, j) => j !== i))} disabled={lines.length <= 2} className="p-1 text-gray-400 hover:text-red-500 disabled:opacity-30"><X size={16} /></button>
+              </div>
+            ))}
+            <button type="button" onClick={() => setLines([...lines, EMPTY_LINE])} className="flex items-center gap-1 text-xs text-secondary-700 dark:text-secondary-400 hover:underline"><PlusCircle size={12} /> Adicionar partida</button>
+          </div>
+          <div className="flex justify-end gap-6 text-sm">
+            <span>Débitos: <span className="font-semibold">{formatBRL(totalDebit)}</span></span>
+            <span>Créditos: <span className="font-semibold">{formatBRL(totalCredit)}</span></span>
+            {Math.abs(totalDebit - totalCredit) > 0.005 && <span className="text-red-500">Diferença: {formatBRL(totalDebit - totalCredit)}</span>}
+          </div>
+          <div className="flex justify-end gap-2 pt-4 border-t dark:border-gray-700">
+            <button type="button" onClick={onClose} className="px-4 py-2 text-sm font-medium bg-gray-100 dark:bg-gray-700 rounded-lg">Cancelar</button>
+            <button type="submit" disabled={isSaving} className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-secondary-700 rounded-lg hover:bg-secondary-800 disabled:opacity-50">
+              {isSaving && <Loader2 size={16} className="animate-spin" />} Registrar
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
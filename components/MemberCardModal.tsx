@@ -0,0 +1,94 @@
+import React, { useState, useEffect } from 'react';
+import QRCode from 'qrcode';
+import { X, IdCard, Loader2, Printer, RefreshCw } from 'lucide-react';
+import { Member, MemberCard } from '../types';
+import { useData } from '../contexts/DataContext';
+import { buildCardVerificationUrl, buildMemberCardHtml, defaultCardValidity } from '../utils/memberCard';
+import { formatDateBR, printHtml } from '../utils/print';
+
+interface MemberCardModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  member: Member | null;
+  showToast: (msg: string, type?: 'success' | 'error') => void;
+}
+
+export const MemberCardModal: React.FC<MemberCardModalProps> = ({ isOpen, onClose, member, showToast }) => {
+  const { associationSettings, fetchActiveMemberCard, issueMemberCard } = useData();
+  const [card, setCard] = useState<MemberCard | null>(null);
+  const [validUntil, setValidUntil] = useState(defaultCardValidity());
+  const [qrDataUrl, setQrDataUrl] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen || !member) return;
+    setCard(null); setValidUntil(defaultCardValidity());
+    setIsLoading(true);
+    fetchActiveMemberCard(member.id).then(setCard).finally(() => setIsLoading(false));
+  }, [isOpen, member?.id]);
+
+  useEffect(() => {
+    if (!card) { setQrDataUrl(''); return; }
+    QRCode.toDataURL(buildCardVerificationUrl(card.token), { margin: 1, width: 256 }).then(setQrDataUrl).catch(err => { console.error('QR Code Error:', err); setQrDataUrl(''); });
+  }, [card?.token]);
+
+  if (!isOpen || !member) return null;
+
+  const html = card && qrDataUrl ? buildMemberCardHtml(member, card, qrDataUrl, associationSettings) : '';
+
+  const handleIssue = async () => {
+    if (card && !window.confirm('Emitir uma nova via invalida a carteirinha atual. Continuar?')) return;
+    setIsLoading(true);
+    try {
+      const issued = await issueMemberCard(member.id, validUntil);
+      if (issued) { setCard(issued); showToast('Carteirinha emitida com sucesso!'); }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handlePrint = () => {
+    if (html && !printHtml(html)) showToast('Permita pop-ups para imprimir a carteirinha.', 'error');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex justify-center items-center p-4" onClick={onClose}>
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl p-6 w-full max-w-lg" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold flex items-center gap-2"><IdCard size={20} /> Carteirinha — {member.name}</h2>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700"><X size={20} /></button>
+        </div>
+
+        {member.status !== 'Active' && (
+          <p className="mb-3 p-2 rounded bg-yellow-50 dark:bg-yellow-900/30 text-sm text-yellow-800 dark:text-yellow-200">O membro não está ativo: a verificação da carteirinha mostrará que ela não é válida.</p>
+        )}
+
+        {isLoading && !card ? (
+          <div className="flex justify-center py-10"><Loader2 className="animate-spin text-primary-600" /></div>
+        ) : card ? (
+          <div className="space-y-2">
+            <iframe title="Carteirinha" srcDoc={html} className="w-full h-64 border rounded bg-white dark:border-gray-700" />
+            <p className="text-xs text-gray-500 dark:text-gray-400">Emitida em {formatDateBR(card.issuedAt)} · válida até {formatDateBR(card.validUntil)}</p>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-6">Nenhuma carteirinha emitida para este membro.</p>
+        )}
+
+        <div className="flex flex-wrap items-end justify-between gap-2 pt-4 border-t dark:border-gray-700 mt-4">
+          <div>
+            <label className="block text-xs text-gray-500">Validade da nova via</label>
+            <input type="date" value={validUntil} onChange={(e) => setValidUntil(e.target.value)} className="block rounded-md border-gray-300 shadow-sm sm:text-sm dark:bg-gray-700 dark:border-gray-600 dark:text-white" />
+          </div>
+          <div className="flex gap-2">
+            <button onClick={handleIssue} disabled={isLoading || !validUntil} className="flex items-center gap-2 px-4 py-2 text-sm font-medium bg-gray-100 dark:bg-gray-700 rounded-lg disabled:opacity-50">
+              {isLoading ? <Loader2 size={16} className="animate-spin" /> : <RefreshCw size={16} />} {card ? 'Emitir nova via' : 'Emitir carteirinha'}
+            </button>
+            <button onClick={handlePrint} disabled={!html} className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-primary-700 rounded-lg hover:bg-primary-800 disabled:opacity-50">
+              <Printer size={16} /> Imprimir / PDF
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,10 @@
-import React from 'react';
-import { Member, Transaction, Event } from '../types';
-import { X, User, Calendar, Mail, MapPin, Phone, DollarSign, CalendarCheck2, Briefcase, Info, FileText } from 'lucide-react';
+import React, { useState } from 'react';
+import { Member, Transaction, Event, DuesCharge, DuesStatus } from '../types';
+import { X, User, Calendar, Mail, MapPin, Phone, DollarSign, CalendarCheck2, Briefcase, Info, FileText, Wallet, QrCode } from 'lucide-react';
+import { formatCompetence, getDuesStatus } from '../utils/dues';
+import { buildDuesTxid } from '../utils/pix';
+import { useData } from '../contexts/DataContext';
+import { PixChargeModal } from './PixChargeModal';
 
 interface MemberDetailModalProps {
   isOpen: boolean;
@@ -8,8 +12,16 @@ interface MemberDetailModalProps {
   member: Member;
   transactions: Transaction[];
   events: Event[];
+  duesCharges: DuesCharge[];
+  graceDays: number;
 }
 
+const DUES_STATUS: Record<DuesStatus, { label: string; className: string }> = {
+    Open: { label: 'Em aberto', className: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300' },
+    Paid: { label: 'Pago', className: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300' },
+    Overdue: { label: 'Vencido', className: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300' },
+};
+
 const DetailRow: React.FC<{ icon: React.ReactNode; label: string; value: string | null | undefined;}> = ({ icon, label, value }) => (
     <div className="flex items-start text-sm py-2">
         <div className="text-secondary-700 dark:text-secondary-400 w-6 h-6 flex-shrink-0 flex items-center justify-center">{icon}</div>
@@ -31,9 +43,25 @@ const Section: React.FC<{ title: string; icon: React.ReactNode; children: React.
 );
 
 
-export const MemberDetailModal: React.FC<MemberDetailModalProps> = ({ isOpen, onClose, member, transactions, events }) => {
+export const MemberDetailModal: React.FC<MemberDetailModalProps> = ({ isOpen, onClose, member, transactions, events, duesCharges, graceDays }) => {
+  const { setDuesChargeTxid } = useData();
+  const [pixCharge, setPixCharge] = useState<DuesCharge | null>(null);
+
   if (!isOpen) return null;
 
+  // Cobranças antigas (anteriores ao PIX) recebem o TXID na primeira emissão do QR Code
+  const handleOpenPix = async (charge: DuesCharge) => {
+    if (!charge.txid) {
+      const txid = buildDuesTxid(charge.memberId, charge.competence);
+      await setDuesChargeTxid(charge.id, txid);
+      charge = { ...charge, txid };
+    }
+    setPixCharge(charge);
+  };
+
+  const ledger = [...duesCharges].sort((a, b) => b.competence.localeCompare(a.competence));
+  const outstanding = ledger.filter(c => c.status === 'Open').reduce((acc, c) => acc + c.amount, 0);
+
   return (
     <div
       className="fixed inset-0 bg-black bg-opacity-60 z-50 flex justify-center items-center p-4 transition-opacity duration-300"
@@ -69,6 +97,49 @@ export const MemberDetailModal: React.FC<MemberDetailModalProps> = ({ isOpen, on
                 </div>
             </Section>
 
+            <Section title="Mensalidades" icon={<Wallet size={20}/>}>
+                {ledger.length > 0 ? (
+                    <>
+                        <p className="text-sm text-gray-500 dark:text-gray-400 mb-2">Saldo em aberto: <span className="font-semibold text-gray-900 dark:text-white">R$ {outstanding.toFixed(2)}</span></p>
+                        <div className="overflow-x-auto">
+                            <table className="w-full text-sm text-left text-gray-500 dark:text-gray-400">
+                                <thead className="text-xs text-gray-700 uppercase bg-gray-50 dark:bg-gray-700 dark:text-gray-400">
+                                    <tr>
+                                        <th className="px-4 py-2">Competência</th>
+                                        <th className="px-4 py-2">Vencimento</th>
+                                        <th className="px-4 py-2">Valor</th>
+                                        <th className="px-4 py-2">Status</th>
+                                        <th className="px-4 py-2">Pago em</th>
+                                        <th className="px-4 py-2"></th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {ledger.map(charge => {
+                                        const status = DUES_STATUS[getDuesStatus(charge, graceDays)];
+                                        return (
+                                            <tr key={charge.id} className="border-b dark:border-gray-700">
+                                                <td className="px-4 py-2 font-medium text-gray-900 dark:text-white">{formatCompetence(charge.competence)}</td>
+                                                <td className="px-4 py-2">{new Date(`${charge.dueDate}T00:00:00`).toLocaleDateString('pt-BR')}</td>
+                                                <td className="px-4 py-2">R$ {charge.amount.toFixed(2)}</td>
+                                                <td className="px-4 py-2"><span className={`px-2 py-1 text-xs font-medium rounded-full ${status.className}`}>{status.label}</span></td>
+                                                <td className="px-4 py-2">{charge.paidAt ? new Date(`${charge.paidAt}T00:00:00`).toLocaleDateString('pt-BR') : '-'}</td>
+                                                <td className="px-4 py-2 text-right">
+                                                    {charge.status === 'Open' && (
+                                                        <button onClick={() => handleOpenPix(charge)} className="flex items-center gap-1 text-xs font-medium text-secondary-700 dark:text-secondary-400 hover:underline"><QrCode size={14} /> PIX</button>
+                                                    )}
+                                                </td>
+                                            </tr>
+                                        );
+                                    })}
+                                </tbody>
+                            </table>
+                        </div>
+                    </>
+                ) : (
+                    <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-4">Nenhuma mensalidade gerada para este membro.</p>
+                )}
+            </Section>
+
             <Section title="Histórico Financeiro" icon={<DollarSign size={20}/>}>
                 {transactions.length > 0 ? (
                     <ul className="space-y-2">
@@ -106,6 +177,14 @@ export const MemberDetailModal: React.FC<MemberDetailModalProps> = ({ isOpen, on
               Fechar
             </button>
         </div>
+        <PixChargeModal
+          isOpen={!!pixCharge}
+          onClose={() => setPixCharge(null)}
+          title="Cobrança PIX"
+          amount={pixCharge?.amount || 0}
+          txid={pixCharge?.txid || ''}
+          description={pixCharge ? `Mensalidade ${formatCompetence(pixCharge.competence)}` : undefined}
+        />
         <style>{`
           @keyframes fade-in-scale {
             from {
@@ -0,0 +1,190 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { X, FileUp, Loader2, CheckCircle, AlertTriangle, XCircle } from 'lucide-react';
+import { Member, MemberRole } from '../types';
+import { useData } from '../contexts/DataContext';
+import { MEMBER_IMPORT_FIELDS, MemberImportDefaults, MemberImportMapping, buildMemberImportRows, guessMemberMapping } from '../utils/memberImport';
+import { readSpreadsheetFile } from '../utils/spreadsheet';
+import { todayISO } from '../utils/dues';
+
+interface MemberImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  showToast: (msg: string, type?: 'success' | 'error') => void;
+}
+
+const INPUT_CLASS = "block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm dark:bg-gray-700 dark:border-gray-600 dark:text-white";
+
+const DEFAULTS: MemberImportDefaults = { role: 'Associado', status: 'Pending', admissionDate: todayISO() };
+
+type ImportResult = { line: number; name: string; error: string | null };
+
+export const MemberImportModal: React.FC<MemberImportModalProps> = ({ isOpen, onClose, showToast }) => {
+  const { fetchAllMembers, importMembers } = useData();
+  const [fileName, setFileName] = useState('');
+  const [sheet, setSheet] = useState<{ headers: string[]; rows: string[][] }>({ headers: [], rows: [] });
+  const [mapping, setMapping] = useState<MemberImportMapping>({});
+  const [defaults, setDefaults] = useState<MemberImportDefaults>(DEFAULTS);
+  const [existing, setExisting] = useState<Member[]>([]);
+  const [includeDuplicates, setIncludeDuplicates] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [results, setResults] = useState<ImportResult[] | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setFileName(''); setSheet({ headers: [], rows: [] }); setMapping({}); setDefaults({ ...DEFAULTS, admissionDate: todayISO() });
+    setIncludeDuplicates(false); setResults(null);
+  }, [isOpen]);
+
+  const preview = useMemo(
+    () => buildMemberImportRows(sheet.rows, mapping, defaults, existing),
+    [sheet.rows, mapping, defaults, existing]
+  );
+
+  if (!isOpen) return null;
+
+  const toImport = preview.filter(r => r.member && (includeDuplicates || !r.duplicateOf));
+  const invalidCount = preview.filter(r => !r.member).length;
+  const duplicateCount = preview.filter(r => r.member && r.duplicateOf).length;
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setIsLoading(true);
+    try {
+      const [parsed, members] = await Promise.all([readSpreadsheetFile(file), fetchAllMembers()]);
+      if (parsed.rows.length === 0) { showToast('A planilha não tem linhas de dados.', 'error'); return; }
+      setFileName(file.name);
+      setSheet(parsed);
+      setMapping(guessMemberMapping(parsed.headers));
+      setExisting(members);
+    } catch (err) {
+      console.error('Member import read error:', err);
+      showToast('Não foi possível ler o arquivo.', 'error');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleMap = (field: keyof MemberImportMapping, value: string) => setMapping(prev => {
+    const next = { ...prev };
+    if (value === '') delete next[field]; else next[field] = Number(value);
+    return next;
+  });
+
+  const handleImport = async () => {
+    if (mapping.name === undefined || mapping.email === undefined) { showToast('Associe ao menos as colunas de nome e email.', 'error'); return; }
+    if (toImport.length === 0) { showToast('Nenhuma linha válida para importar.', 'error'); return; }
+    setIsLoading(true);
+    try {
+      const errors = await importMembers(toImport.map(r => r.member!));
+      const imported = toImport.map((r, i) => ({ line: r.line, name: r.member!.name, error: errors[i] }));
+      setResults(imported);
+      const failed = imported.filter(r => r.error).length;
+      showToast(`${imported.length - failed} membro(s) importado(s)${failed ? `, ${failed} com erro` : ''}`, failed ? 'error' : 'success');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex justify-center items-center p-4" onClick={onClose}>
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl p-6 w-full max-w-5xl max-h-[90vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold flex items-center gap-2"><FileUp size={20} /> Importar Membros</h2>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700"><X size={20} /></button>
+        </div>
+
+        {results ? (
+          <div className="flex-1 overflow-y-auto space-y-3 text-sm">
+            <p className="flex items-center gap-2 text-green-700 dark:text-green-400"><CheckCircle size={16} /> {results.filter(r => !r.error).length} de {results.length} linha(s) importada(s).</p>
+            {results.some(r => r.error) && (
+              <table className="w-full text-left">
+                <thead className="text-xs uppercase bg-gray-50 dark:bg-gray-700"><tr><th className="px-3 py-2">Linha</th><th className="px-3 py-2">Nome</th><th className="px-3 py-2">Erro</th></tr></thead>
+                <tbody>
+                  {results.filter(r => r.error).map(r => <tr key={r.line} className="border-b dark:border-gray-700"><td className="px-3 py-1.5">{r.line}</td><td className="px-3 py-1.5">{r.name}</td><td className="px-3 py-1.5 text-red-600">{r.error}</td></tr>)}
+                </tbody>
+              </table>
+            )}
+          </div>
+        ) : sheet.rows.length === 0 ? (
+          <label className="flex flex-col items-center justify-center gap-3 py-16 border-2 border-dashed rounded-lg cursor-pointer border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700/50">
+            {isLoading ? <Loader2 className="animate-spin text-primary-600" /> : <FileUp size={40} className="text-gray-400" />}
+            <span className="text-sm text-gray-600 dark:text-gray-300">Selecione uma planilha CSV, XLSX ou ODS. A primeira linha deve conter os títulos das colunas.</span>
+            <input type="file" accept=".csv,.txt,.xlsx,.xls,.ods" className="sr-only" onChange={handleFile} disabled={isLoading} />
+          </label>
+        ) : (
+          <>
+            <p className="text-xs text-gray-500 mb-2">{fileName} · {sheet.rows.length} linha(s)</p>
+            <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-6 gap-2 mb-3">
+              {MEMBER_IMPORT_FIELDS.map(field => (
+                <div key={field.key}>
+                  <label className="block text-xs text-gray-500">{field.label}{(field.key === 'name' || field.key === 'email') && ' *'}</label>
+                  <select value={mapping[field.key] ?? ''} onChange={(e) => handleMap(field.key, e.target.value)} className={INPUT_CLASS}>
+                    <option value="">— não importar —</option>
+                    {sheet.headers.map((header, i) => <option key={i} value={i}>{header || `Coluna ${i + 1}`}</option>)}
+                  </select>
+                </div>
+              ))}
+            </div>
+            <div className="flex flex-wrap items-end gap-3 mb-3 text-sm">
+              <div><label className="block text-xs text-gray-500">Função padrão</label>
+                <select value={defaults.role} onChange={(e) => setDefaults({ ...defaults, role: e.target.value as MemberRole })} className={INPUT_CLASS}>
+                  <option value="Associado">Associado</option><option value="Membro Fundador">Membro Fundador</option><option value="Diretoria">Diretoria</option>
+                </select>
+              </div>
+              <div><label className="block text-xs text-gray-500">Status padrão</label>
+                <select value={defaults.status} onChange={(e) => setDefaults({ ...defaults, status: e.target.value as Member['status'] })} className={INPUT_CLASS}>
+                  <option value="Pending">Pendente</option><option value="Active">Ativo</option><option value="Inactive">Inativo</option>
+                </select>
+              </div>
+              <div><label className="block text-xs text-gray-500">Admissão padrão</label>
+                <input type="date" value={defaults.admissionDate} onChange={(e) => setDefaults({ ...defaults, admissionDate: e.target.value })} className={INPUT_CLASS} />
+              </div>
+              <label className="flex items-center gap-1 pb-2"><input type="checkbox" checked={includeDuplicates} onChange={(e) => setIncludeDuplicates(e.target.checked)} /> Importar também as duplicadas</label>
+            </div>
+            <p className="text-xs mb-2 flex flex-wrap gap-4">
+              <span className="text-green-700 dark:text-green-400">{toImport.length} para importar</span>
+              {invalidCount > 0 && <span className="text-red-600">{invalidCount} com erro (ignoradas)</span>}
+              {duplicateCount > 0 && <span className="text-yellow-700 dark:text-yellow-400">{duplicateCount} duplicada(s){includeDuplicates ? '' : ' (ignoradas)'}</span>}
+            </p>
+            <div className="flex-1 overflow-auto border rounded dark:border-gray-700 min-h-[200px]">
+              <table className="w-full text-xs text-left">
+                <thead className="uppercase bg-gray-50 dark:bg-gray-700 sticky top-0"><tr><th className="px-3 py-2">Linha</th><th className="px-3 py-2">Nome</th><th className="px-3 py-2">Email</th><th className="px-3 py-2">CPF</th><th className="px-3 py-2">Situação</th></tr></thead>
+                <tbody>
+                  {preview.map(row => {
+                    const cell = (field: keyof MemberImportMapping) => mapping[field] !== undefined ? sheet.rows[row.line - 2][mapping[field]!] : '';
+                    return (
+                      <tr key={row.line} className={`border-b dark:border-gray-700 ${!row.member ? 'bg-red-50 dark:bg-red-900/20' : row.duplicateOf ? 'bg-yellow-50 dark:bg-yellow-900/20' : ''}`}>
+                        <td className="px-3 py-1.5">{row.line}</td>
+                        <td className="px-3 py-1.5">{row.member?.name ?? cell('name')}</td>
+                        <td className="px-3 py-1.5">{row.member?.email ?? cell('email')}</td>
+                        <td className="px-3 py-1.5">{row.member?.cpf ?? cell('cpf')}</td>
+                        <td className="px-3 py-1.5">
+                          {!row.member
+                            ? <span className="text-red-600 flex items-start gap-1"><XCircle size={14} className="shrink-0" /> {row.errors.join('; ')}</span>
+                            : row.duplicateOf
+                              ? <span className="text-yellow-700 dark:text-yellow-400 flex items-start gap-1"><AlertTriangle size={14} className="shrink-0" /> Já cadastrado: {row.duplicateOf}</span>
+                              : <span className="text-green-700 dark:text-green-400 flex items-center gap-1"><CheckCircle size={14} /> OK</span>}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+
+        <div className="flex justify-end gap-2 pt-4 border-t dark:border-gray-700 mt-4">
+          <button type="button" onClick={onClose} className="px-4 py-2 text-sm font-medium bg-gray-100 dark:bg-gray-700 rounded-lg">{results ? 'Concluir' : 'Cancelar'}</button>
+          {!results && sheet.rows.length > 0 && (
+            <button onClick={handleImport} disabled={isLoading || toImport.length === 0} className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-primary-700 rounded-lg hover:bg-primary-800 disabled:opacity-50">
+              {isLoading && <Loader2 size={16} className="animate-spin" />} Importar {toImport.length} membro(s)
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
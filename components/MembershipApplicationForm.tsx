@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Loader2, CheckCircle2, AlertCircle, Send } from 'lucide-react';
+import { PROJECT_NAME } from '../constants';
+import { useData } from '../contexts/DataContext';
+import { formatCPF } from '../utils/cpfCnpj';
+import { membershipApplicationSchema, MembershipApplicationFormData } from '../utils/memberSchema';
+
+const INPUT_CLASS = "mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm dark:bg-gray-700 dark:border-gray-600 dark:placeholder-gray-400 dark:text-white";
+const ERROR_CLASS = "text-red-500 text-xs mt-1 font-medium";
+const LABEL_CLASS = "block text-sm font-medium text-gray-700 dark:text-gray-300";
+
+// Tela pública (?inscricao): cria o membro como Pending e abre a inscrição para votação da Diretoria
+export const MembershipApplicationForm: React.FC = () => {
+  const { submitMembershipApplication } = useData();
+  const [isSaving, setIsSaving] = useState(false);
+  const [submitError, setSubmitError] = useState('');
+  const [submitted, setSubmitted] = useState(false);
+  const { register, handleSubmit, setValue, formState: { errors } } = useForm<MembershipApplicationFormData>({
+    resolver: zodResolver(membershipApplicationSchema),
+  });
+
+  const onSubmit = async (data: MembershipApplicationFormData) => {
+    setIsSaving(true);
+    setSubmitError('');
+    try {
+      await submitMembershipApplication({
+        name: data.name, email: data.email, cpf: data.cpf || '', phone: data.phone || '', birthDate: data.birthDate || '',
+        address: data.address || '', city: data.city || '', state: (data.state || '').toUpperCase(), message: data.message || '',
+      });
+      setSubmitted(true);
+    } catch (err: any) {
+      setSubmitError(err.message || 'Não foi possível enviar a inscrição.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-gray-50 dark:bg-gray-900 px-4 py-8">
+      <div className="max-w-xl w-full">
+        <div className="text-center mb-8">
+          <h1 className="mt-6 text-3xl font-extrabold text-gray-900 dark:text-white">{PROJECT_NAME}</h1>
+          <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">Ficha de inscrição de novo associado</p>
+        </div>
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6">
+          {submitted ? (
+            <div className="text-center py-8 text-gray-700 dark:text-gray-300">
+              <CheckCircle2 className="mx-auto h-12 w-12 text-green-600" />
+              <p className="mt-3 text-lg font-bold">Inscrição enviada!</p>
+              <p className="mt-1 text-sm">Sua inscrição será avaliada pela Diretoria. Você receberá um email quando ela for aprovada.</p>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+              <div>
+                <label className={LABEL_CLASS}>Nome completo *</label>
+                <input {...register('name')} className={INPUT_CLASS} />
+                {errors.name && <p className={ERROR_CLASS}>{errors.name.message}</p>}
+              </div>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <label className={LABEL_CLASS}>Email *</label>
+                  <input type="email" {...register('email')} className={INPUT_CLASS} />
+                  {errors.email && <p className={ERROR_CLASS}>{errors.email.message}</p>}
+                </div>
+                <div>
+                  <label className={LABEL_CLASS}>Telefone</label>
+                  <input {...register('phone')} className={INPUT_CLASS} />
+                </div>
+                <div>
+                  <label className={LABEL_CLASS}>CPF</label>
+                  <input {...register('cpf', { onChange: (e) => setValue('cpf', formatCPF(e.target.value)) })} placeholder="000.000.000-00" className={INPUT_CLASS} />
+                  {errors.cpf && <p className={ERROR_CLASS}>{errors.cpf.message}</p>}
+                </div>
+                <div>
+                  <label className={LABEL_CLASS}>Data de Nascimento</label>
+                  <input type="date" {...register('birthDate')} className={INPUT_CLASS} />
+                </div>
+              </div>
+              <div>
+                <label className={LABEL_CLASS}>Endereço</label>
+                <input {...register('address')} className={INPUT_CLASS} />
+              </div>
+              <div className="grid grid-cols-3 gap-4">
+                <div className="col-span-2">
+                  <label className={LABEL_CLASS}>Cidade</label>
+                  <input {...register('city')} className={INPUT_CLASS} />
+                </div>
+                <div>
+                  <label className={LABEL_CLASS}>UF</label>
+                  <input maxLength={2} {...register('state')} className={`${INPUT_CLASS} uppercase`} />
+                  {errors.state && <p className={ERROR_CLASS}>{errors.state.message}</p>}
+                </div>
+              </div>
+              <div>
+                <label className={LABEL_CLASS}>Por que deseja se associar?</label>
+                <textarea rows={3} {...register('message')} className={INPUT_CLASS} />
+                {errors.message && <p className={ERROR_CLASS}>{errors.message.message}</p>}
+              </div>
+              <label className="flex items-start gap-2 text-sm text-gray-600 dark:text-gray-300">
+                <input type="checkbox" {...register('consent')} className="mt-1 rounded" />
+                Autorizo a associação a guardar e usar meus dados para avaliar a inscrição e manter meu cadastro de associado.
+              </label>
+              {errors.consent && <p className={ERROR_CLASS}>{errors.consent.message}</p>}
+              {submitError && <p className="flex items-center gap-2 p-3 rounded-lg bg-red-50 dark:bg-red-900/30 text-sm text-red-700 dark:text-red-200"><AlertCircle size={16} /> {submitError}</p>}
+              <button type="submit" disabled={isSaving} className="w-full flex justify-center items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-primary-700 rounded-lg hover:bg-primary-800 disabled:opacity-50">
+                {isSaving ? <Loader2 size={16} className="animate-spin" /> : <Send size={16} />} Enviar inscrição
+              </button>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,130 @@
+import React, { useState, useEffect } from 'react';
+import { Loader2, ThumbsUp, ThumbsDown, Link2, Inbox, MessageSquare, AlertTriangle } from 'lucide-react';
+import { MembershipApplication, MembershipApplicationStatus, MembershipVoteChoice } from '../types';
+import { useData } from '../contexts/DataContext';
+import { useAuth } from '../contexts/AuthContext';
+import { APPLICATION_STATUS_LABELS, buildMembershipFormUrl, tallyVotes } from '../utils/membership';
+import { formatDateBR } from '../utils/print';
+
+interface MembershipApplicationsProps {
+  showToast: (msg: string, type?: 'success' | 'error') => void;
+}
+
+const STATUS_BADGES: Record<MembershipApplicationStatus, string> = {
+  Pending: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300',
+  Approved: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300',
+  Rejected: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300',
+};
+
+// Fila de inscrições do formulário público. Qualquer usuário vê; só a Diretoria ativa consegue votar (checado no banco).
+export const MembershipApplications: React.FC<MembershipApplicationsProps> = ({ showToast }) => {
+  const { currentUser } = useAuth();
+  const { membershipSettings, fetchMembershipApplications, castMembershipVote } = useData();
+  const [applications, setApplications] = useState<MembershipApplication[]>([]);
+  const [filter, setFilter] = useState<MembershipApplicationStatus | 'All'>('Pending');
+  const [comments, setComments] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [votingId, setVotingId] = useState<string | null>(null);
+
+  const load = async () => {
+    setIsLoading(true);
+    try { setApplications(await fetchMembershipApplications(filter === 'All' ? undefined : filter)); } finally { setIsLoading(false); }
+  };
+
+  useEffect(() => { load(); }, [filter]);
+
+  const handleCopyLink = () => {
+    navigator.clipboard.writeText(buildMembershipFormUrl());
+    showToast('Link do formulário de inscrição copiado!');
+  };
+
+  const handleVote = async (application: MembershipApplication, vote: MembershipVoteChoice) => {
+    const comment = comments[application.id] || '';
+    if (vote === 'Reject' && !comment.trim()) { showToast('Justifique o voto contrário no comentário.', 'error'); return; }
+    setVotingId(application.id);
+    try {
+      const status = await castMembershipVote(application, vote, comment);
+      if (!status) return;
+      if (status === 'Approved') showToast(`${application.member.name} foi aprovado(a) e agora é membro ativo.`);
+      else if (status === 'Rejected') showToast(`A inscrição de ${application.member.name} foi recusada.`);
+      else showToast('Voto registrado.');
+      setComments(prev => ({ ...prev, [application.id]: '' }));
+      await load();
+    } finally {
+      setVotingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4 min-h-[300px]">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm">
+          <select value={filter} onChange={(e) => setFilter(e.target.value as MembershipApplicationStatus | 'All')} className="rounded-md border-gray-300 shadow-sm sm:text-sm dark:bg-gray-700 dark:border-gray-600 dark:text-white">
+            <option value="Pending">Em votação</option><option value="Approved">Aprovadas</option><option value="Rejected">Recusadas</option><option value="All">Todas</option>
+          </select>
+          <span className="text-gray-500 dark:text-gray-400">Quórum do estatuto: {membershipSettings.quorum} voto(s) iguais da Diretoria</span>
+        </div>
+        <button onClick={handleCopyLink} className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-gray-600 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600">
+          <Link2 size={16} /> Copiar link do formulário
+        </button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-10"><Loader2 className="animate-spin text-primary-600" /></div>
+      ) : applications.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-10 text-gray-500 dark:text-gray-400">
+          <Inbox size={48} className="mb-2 opacity-50" />
+          <h3 className="text-lg font-semibold">Nenhuma inscrição</h3>
+        </div>
+      ) : applications.map(application => {
+        const { approvals, rejections } = tallyVotes(application);
+        const myVote = currentUser?.memberId ? application.votes.find(v => v.voterMemberId === currentUser.memberId) : undefined;
+        const { member } = application;
+        return (
+          <div key={application.id} className="p-4 rounded-lg border border-gray-200 dark:border-gray-700 space-y-3">
+            <div className="flex flex-wrap justify-between gap-2">
+              <div>
+                <p className="font-semibold text-gray-900 dark:text-white">{member.name}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">{[member.email, member.phone, member.cpf, [member.city, member.state].filter(Boolean).join('/')].filter(Boolean).join(' · ')}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">Enviada em {formatDateBR(application.submittedAt)}{application.decidedAt && ` · decidida em ${formatDateBR(application.decidedAt)}`}</p>
+              </div>
+              <div className="text-right space-y-1">
+                <span className={`px-2 py-1 text-xs font-medium rounded-full ${STATUS_BADGES[application.status]}`}>{APPLICATION_STATUS_LABELS[application.status]}</span>
+                <p className="text-xs text-gray-500 dark:text-gray-400">{approvals} a favor · {rejections} contra</p>
+              </div>
+            </div>
+            {application.duplicateOf && (
+              <p className="flex items-center gap-1 text-xs text-yellow-700 dark:text-yellow-400"><AlertTriangle size={14} /> Mesmo CPF ou email de: {application.duplicateOf}</p>
+            )}
+            {application.message && <p className="text-sm italic text-gray-600 dark:text-gray-300">"{application.message}"</p>}
+            {application.votes.length > 0 && (
+              <ul className="text-xs space-y-1">
+                {application.votes.map(v => (
+                  <li key={v.id} className="flex items-start gap-2">
+                    {v.vote === 'Approve' ? <ThumbsUp size={14} className="text-green-600 shrink-0" /> : <ThumbsDown size={14} className="text-red-600 shrink-0" />}
+                    <span><strong>{v.voterName}</strong>{v.comment && <>: {v.comment}</>}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {application.status === 'Pending' && (
+              <div className="flex flex-wrap items-center gap-2 pt-2 border-t dark:border-gray-700">
+                <div className="relative flex-1 min-w-[200px]">
+                  <MessageSquare size={14} className="absolute left-2 top-2.5 text-gray-400" />
+                  <input value={comments[application.id] || ''} onChange={(e) => setComments(prev => ({ ...prev, [application.id]: e.target.value }))} placeholder={myVote ? 'Comentário (altera seu voto)' : 'Comentário (obrigatório para recusar)'} className="w-full pl-7 rounded-md border-gray-300 shadow-sm text-sm dark:bg-gray-700 dark:border-gray-600 dark:text-white" />
+                </div>
+                <button onClick={() => handleVote(application, 'Approve')} disabled={votingId === application.id} className="flex items-center gap-1 px-3 py-1.5 text-sm font-medium text-white bg-green-600 rounded-lg hover:bg-green-700 disabled:opacity-50">
+                  <ThumbsUp size={14} /> Aprovar
+                </button>
+                <button onClick={() => handleVote(application, 'Reject')} disabled={votingId === application.id} className="flex items-center gap-1 px-3 py-1.5 text-sm font-medium text-white bg-red-600 rounded-lg hover:bg-red-700 disabled:opacity-50">
+                  <ThumbsDown size={14} /> Recusar
+                </button>
+                {myVote && <span className="text-xs text-gray-500 dark:text-gray-400">Seu voto: {myVote.vote === 'Approve' ? 'a favor' : 'contra'}</span>}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,76 @@
+import React, { useState, useEffect } from 'react';
+import QRCode from 'qrcode';
+import { X, QrCode, Clipboard, Check } from 'lucide-react';
+import { useData } from '../contexts/DataContext';
+import { buildPixPayload } from '../utils/pix';
+
+interface PixChargeModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  title: string;
+  amount: number;
+  txid: string;
+  description?: string;
+  singleUse?: boolean; // Padrão: cobranças individuais são de uso único
+}
+
+export const PixChargeModal: React.FC<PixChargeModalProps> = ({ isOpen, onClose, title, amount, txid, description, singleUse = true }) => {
+  const { pixSettings } = useData();
+  const [isSingleUse, setIsSingleUse] = useState(singleUse);
+  const [qrDataUrl, setQrDataUrl] = useState('');
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => { if (isOpen) { setIsSingleUse(singleUse); setCopied(false); } }, [isOpen, singleUse]);
+
+  const payload = pixSettings?.key
+    ? buildPixPayload({ key: pixSettings.key, merchantName: pixSettings.merchantName, merchantCity: pixSettings.merchantCity, amount, txid, description, singleUse: isSingleUse })
+    : '';
+
+  useEffect(() => {
+    if (!isOpen || !payload) { setQrDataUrl(''); return; }
+    QRCode.toDataURL(payload, { margin: 1, width: 256 }).then(setQrDataUrl).catch(err => { console.error('QR Code Error:', err); setQrDataUrl(''); });
+  }, [isOpen, payload]);
+
+  if (!isOpen) return null;
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(payload);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-[60] flex justify-center items-center p-4" onClick={onClose}>
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-md" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold flex items-center gap-2"><QrCode size={20} /> {title}</h2>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700"><X size={20} /></button>
+        </div>
+        {!pixSettings?.key ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-6">Configure a chave PIX da associação em Configurações para gerar cobranças.</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="text-center">
+              <p className="text-3xl font-bold text-gray-900 dark:text-white">R$ {amount.toFixed(2)}</p>
+              <p className="text-xs text-gray-500 dark:text-gray-400 font-mono mt-1">TXID: {txid}</p>
+            </div>
+            {qrDataUrl && <img src={qrDataUrl} alt="QR Code PIX" className="mx-auto w-56 h-56 bg-white p-2 rounded-lg border" />}
+            <div>
+              <label className="block text-sm font-medium mb-1">PIX Copia e Cola</label>
+              <div className="relative">
+                <textarea readOnly value={payload} rows={4} className="w-full rounded-md border-gray-300 text-xs font-mono dark:bg-gray-700 dark:border-gray-600 dark:text-white pr-10" />
+                <button onClick={handleCopy} className="absolute top-2 right-2 p-1.5 bg-gray-100 dark:bg-gray-600 rounded-md hover:bg-gray-200">
+                  {copied ? <Check size={14} className="text-green-500" /> : <Clipboard size={14} />}
+                </button>
+              </div>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+              <input type="checkbox" checked={isSingleUse} onChange={(e) => setIsSingleUse(e.target.checked)} className="rounded" />
+              Uso único (não reutilizável após o pagamento)
+            </label>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
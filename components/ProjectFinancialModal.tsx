@@ -0,0 +1,132 @@
+import React, { useState, useEffect } from 'react';
+import { X, PieChart, AlertTriangle, PlusCircle, Edit, Trash2 } from 'lucide-react';
+import { Project, ProjectBudgetLine } from '../types';
+import { useData } from '../contexts/DataContext';
+import { getExecutionBarColor, getProjectExecution } from '../utils/projectBudget';
+
+interface ProjectFinancialModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  project: Project | null;
+  canPerformActions: boolean;
+  showToast: (msg: string, type?: 'success' | 'error') => void;
+}
+
+const INPUT_CLASS = "block w-full rounded-md border-gray-300 shadow-sm focus:border-secondary-500 focus:ring-secondary-500 sm:text-sm dark:bg-gray-700 dark:border-gray-600 dark:placeholder-gray-400 dark:text-white dark:focus:border-secondary-500 dark:focus:ring-secondary-500";
+
+const formatBRL = (value: number) => `R$ ${value.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+export const ExecutionBar: React.FC<{ percent: number }> = ({ percent }) => (
+  <div className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+    <div className={`h-full ${getExecutionBarColor(percent)}`} style={{ width: `${Math.min(percent, 100)}%` }} />
+  </div>
+);
+
+export const ProjectFinancialModal: React.FC<ProjectFinancialModalProps> = ({ isOpen, onClose, project, canPerformActions, showToast }) => {
+  const { projectExpenseSummary, budgetLines, addBudgetLine, updateBudgetLine, deleteBudgetLine } = useData();
+  const [name, setName] = useState('');
+  const [plannedAmount, setPlannedAmount] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  useEffect(() => { if (isOpen) { setName(''); setPlannedAmount(''); setEditingId(null); } }, [isOpen]);
+
+  if (!isOpen || !project) return null;
+
+  const execution = getProjectExecution(project, budgetLines, projectExpenseSummary);
+  const overruns = execution.lines.filter(l => l.overrun);
+
+  const handleEdit = (line: ProjectBudgetLine) => { setEditingId(line.id); setName(line.name); setPlannedAmount(String(line.plannedAmount)); };
+  const handleCancel = () => { setEditingId(null); setName(''); setPlannedAmount(''); };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = parseFloat(plannedAmount);
+    if (!name || isNaN(value) || value < 0) { showToast('Informe nome e valor orçado da rubrica.', 'error'); return; }
+    if (editingId) { await updateBudgetLine(editingId, { name, plannedAmount: value }); showToast('Rubrica atualizada!'); }
+    else { await addBudgetLine({ projectId: project.id, name, plannedAmount: value }); showToast('Rubrica criada!'); }
+    handleCancel();
+  };
+
+  const handleDelete = async (line: ProjectBudgetLine) => {
+    if (window.confirm(`Excluir a rubrica "${line.name}"? As despesas lançadas nela ficarão sem rubrica.`)) { await deleteBudgetLine(line.id); }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex justify-center items-center p-4" onClick={onClose}>
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-4xl max-h-[90vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold flex items-center gap-2"><PieChart size={20} /> Orçado x Realizado — {project.title}</h2>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700"><X size={20} /></button>
+        </div>
+
+        <div className="overflow-y-auto space-y-6">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="p-4 rounded-lg bg-gray-50 dark:bg-gray-700/50"><p className="text-xs text-gray-500">Orçamento</p><p className="text-lg font-bold">{formatBRL(execution.budget)}</p></div>
+            <div className="p-4 rounded-lg bg-gray-50 dark:bg-gray-700/50"><p className="text-xs text-gray-500">Executado</p><p className="text-lg font-bold text-red-500">{formatBRL(execution.actual)}</p></div>
+            <div className="p-4 rounded-lg bg-gray-50 dark:bg-gray-700/50"><p className="text-xs text-gray-500">Saldo</p><p className={`text-lg font-bold ${execution.remaining < 0 ? 'text-red-500' : 'text-green-600'}`}>{formatBRL(execution.remaining)}</p></div>
+            <div className="p-4 rounded-lg bg-gray-50 dark:bg-gray-700/50"><p className="text-xs text-gray-500">% Executado</p><p className="text-lg font-bold">{execution.percent.toFixed(1)}%</p><ExecutionBar percent={execution.percent} /></div>
+          </div>
+
+          {overruns.length > 0 && (
+            <div className="flex items-start gap-2 p-3 rounded-lg bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800 text-sm text-red-700 dark:text-red-300">
+              <AlertTriangle size={18} className="flex-shrink-0 mt-0.5" />
+              <p>Rubrica(s) estourada(s): {overruns.map(l => `${l.line.name} (${formatBRL(-l.remaining)} acima)`).join(', ')}.</p>
+            </div>
+          )}
+          {execution.budget > 0 && Math.abs(execution.planned - execution.budget) > 0.005 && execution.lines.length > 0 && (
+            <p className="text-xs text-yellow-600 dark:text-yellow-400">A soma das rubricas ({formatBRL(execution.planned)}) difere do orçamento total do projeto.</p>
+          )}
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-left text-gray-500 dark:text-gray-400">
+              <thead className="text-xs text-gray-700 uppercase bg-gray-50 dark:bg-gray-700 dark:text-gray-400">
+                <tr>
+                  <th className="px-4 py-2">Rubrica</th>
+                  <th className="px-4 py-2 text-right">Orçado</th>
+                  <th className="px-4 py-2 text-right">Realizado</th>
+                  <th className="px-4 py-2 text-right">Saldo</th>
+                  <th className="px-4 py-2 w-40">Execução</th>
+                  {canPerformActions && <th className="px-4 py-2"></th>}
+                </tr>
+              </thead>
+              <tbody>
+                {execution.lines.map(({ line, actual, remaining, percent, overrun }) => (
+                  <tr key={line.id} className={`border-b dark:border-gray-700 ${overrun ? 'bg-red-50 dark:bg-red-900/20' : ''}`}>
+                    <td className="px-4 py-2 font-medium text-gray-900 dark:text-white">{line.name}</td>
+                    <td className="px-4 py-2 text-right">{formatBRL(line.plannedAmount)}</td>
+                    <td className="px-4 py-2 text-right">{formatBRL(actual)}</td>
+                    <td className={`px-4 py-2 text-right ${remaining < 0 ? 'text-red-500 font-semibold' : ''}`}>{formatBRL(remaining)}</td>
+                    <td className="px-4 py-2"><div className="flex items-center gap-2"><ExecutionBar percent={percent} /><span className="text-xs w-12 text-right">{percent.toFixed(0)}%</span></div></td>
+                    {canPerformActions && <td className="px-4 py-2 text-right whitespace-nowrap"><button onClick={() => handleEdit(line)} className="p-1 text-gray-500 hover:text-blue-600"><Edit size={14} /></button><button onClick={() => handleDelete(line)} className="p-1 text-gray-500 hover:text-red-600"><Trash2 size={14} /></button></td>}
+                  </tr>
+                ))}
+                {execution.unallocated > 0 && (
+                  <tr className="border-b dark:border-gray-700 italic">
+                    <td className="px-4 py-2">Sem rubrica</td>
+                    <td className="px-4 py-2 text-right">-</td>
+                    <td className="px-4 py-2 text-right">{formatBRL(execution.unallocated)}</td>
+                    <td className="px-4 py-2" colSpan={canPerformActions ? 3 : 2}></td>
+                  </tr>
+                )}
+                {execution.lines.length === 0 && execution.unallocated === 0 && (
+                  <tr><td colSpan={canPerformActions ? 6 : 5} className="px-4 py-6 text-center">Nenhuma rubrica cadastrada.</td></tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          {canPerformActions && (
+            <form onSubmit={handleSubmit} className="flex flex-col md:flex-row gap-3 items-end">
+              <div className="flex-1 w-full"><label className="block text-sm font-medium mb-1">Rubrica</label><input value={name} onChange={(e) => setName(e.target.value)} placeholder="Ex: Cachês artísticos" className={INPUT_CLASS} /></div>
+              <div className="w-full md:w-48"><label className="block text-sm font-medium mb-1">Valor Orçado (R$)</label><input type="number" step="0.01" min="0" value={plannedAmount} onChange={(e) => setPlannedAmount(e.target.value)} className={INPUT_CLASS} /></div>
+              <div className="flex gap-2">
+                {editingId && <button type="button" onClick={handleCancel} className="px-4 py-2 text-sm font-medium bg-gray-100 dark:bg-gray-700 rounded-lg">Cancelar</button>}
+                <button type="submit" className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-secondary-700 rounded-lg hover:bg-secondary-800"><PlusCircle size={16} /> {editingId ? 'Salvar' : 'Adicionar'}</button>
+              </div>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,79 @@
+import React, { useState, useEffect } from 'react';
+import { X, Printer, Mail, Loader2, FileText } from 'lucide-react';
+import { Receipt, Transaction } from '../types';
+import { useData } from '../contexts/DataContext';
+import { buildReceiptHtml, buildReceiptText, formatReceiptNumber } from '../utils/receipts';
+import { printHtml } from '../utils/print';
+
+interface ReceiptModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  transaction: Transaction | null;
+  memberEmail?: string;
+  showToast: (message: string, type?: 'success' | 'error') => void;
+}
+
+export const ReceiptModal: React.FC<ReceiptModalProps> = ({ isOpen, onClose, transaction, memberEmail, showToast }) => {
+  const { associationSettings, issueReceipt, sendReceiptEmail } = useData();
+  const [receipt, setReceipt] = useState<Receipt | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen || !transaction || !associationSettings?.name) { setReceipt(null); return; }
+    setIsLoading(true);
+    issueReceipt(transaction).then(setReceipt).finally(() => setIsLoading(false));
+  }, [isOpen, transaction?.id, associationSettings?.name]);
+
+  if (!isOpen || !transaction) return null;
+
+  const html = receipt && associationSettings ? buildReceiptHtml(receipt, associationSettings) : '';
+
+  const handlePrint = () => {
+    if (!printHtml(html)) showToast('Permita pop-ups para imprimir o recibo.', 'error');
+  };
+
+  const handleEmail = async () => {
+    if (!receipt || !associationSettings || !memberEmail) return;
+    setIsSending(true);
+    try {
+      await sendReceiptEmail(memberEmail, `Recibo ${formatReceiptNumber(receipt)} - ${associationSettings.name}`, buildReceiptText(receipt, associationSettings), html);
+      showToast(`Recibo enviado para ${memberEmail}`);
+    } catch { /* erro já exibido pelo DataContext */ } finally { setIsSending(false); }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex justify-center items-center p-4" onClick={onClose}>
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-3xl max-h-[90vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold flex items-center gap-2"><FileText size={20} /> Recibo {receipt ? formatReceiptNumber(receipt) : ''}</h2>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700"><X size={20} /></button>
+        </div>
+
+        {!associationSettings?.name ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-10">Cadastre os dados da associação em Configurações antes de emitir recibos.</p>
+        ) : isLoading ? (
+          <div className="flex justify-center py-10"><Loader2 className="animate-spin text-secondary-600" /></div>
+        ) : !receipt ? (
+          <p className="text-sm text-red-500 text-center py-10">Não foi possível emitir o recibo.</p>
+        ) : (
+          <iframe title="Pré-visualização do recibo" srcDoc={html} className="w-full flex-1 min-h-[420px] bg-white rounded border dark:border-gray-600" />
+        )}
+
+        <div className="flex justify-end gap-2 pt-4 border-t dark:border-gray-700 mt-4">
+          <button type="button" onClick={onClose} className="px-4 py-2 text-sm font-medium bg-gray-100 dark:bg-gray-700 rounded-lg">Fechar</button>
+          {receipt && (
+            <>
+              <button onClick={handleEmail} disabled={!memberEmail || isSending} title={memberEmail ? `Enviar para ${memberEmail}` : 'Associado sem e-mail cadastrado'} className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-600 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 disabled:opacity-50">
+                {isSending ? <Loader2 size={16} className="animate-spin" /> : <Mail size={16} />} Enviar por E-mail
+              </button>
+              <button onClick={handlePrint} className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-secondary-700 rounded-lg hover:bg-secondary-800">
+                <Printer size={16} /> Imprimir / PDF
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
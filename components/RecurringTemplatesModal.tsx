@@ -0,0 +1,133 @@
+import React, { useState, useEffect } from 'react';
+import { X, Repeat, Edit, Trash2, PlusCircle, Pause, Play } from 'lucide-react';
+import { RecurrenceFrequency, RecurringTemplate } from '../types';
+import { useData } from '../contexts/DataContext';
+import { getCategoryLabel, sortCategories } from '../utils/categories';
+import { FREQUENCY_LABELS, firstOccurrenceFrom } from '../utils/recurring';
+
+interface RecurringTemplatesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  showToast: (msg: string, type?: 'success' | 'error') => void;
+}
+
+const INPUT_CLASS = "mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-secondary-500 focus:ring-secondary-500 sm:text-sm dark:bg-gray-700 dark:border-gray-600 dark:placeholder-gray-400 dark:text-white dark:focus:border-secondary-500 dark:focus:ring-secondary-500";
+
+const EMPTY_FORM = {
+  description: '', amount: '', type: 'Expense' as 'Income' | 'Expense', categoryId: '', accountId: '', providerId: '',
+  frequency: 'Monthly' as RecurrenceFrequency, startDate: new Date().toISOString().split('T')[0], endDate: '', autoConfirm: true,
+};
+
+export const RecurringTemplatesModal: React.FC<RecurringTemplatesModalProps> = ({ isOpen, onClose, showToast }) => {
+  const { recurringTemplates, categories, financialAccounts, providers, addRecurringTemplate, updateRecurringTemplate, deleteRecurringTemplate } = useData();
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [editing, setEditing] = useState<RecurringTemplate | null>(null);
+
+  useEffect(() => { if (isOpen) { setForm(EMPTY_FORM); setEditing(null); } }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const handleEdit = (template: RecurringTemplate) => {
+    setEditing(template);
+    setForm({
+      description: template.description, amount: String(template.amount), type: template.type, categoryId: template.categoryId,
+      accountId: template.accountId, providerId: template.providerId || '', frequency: template.frequency,
+      startDate: template.startDate, endDate: template.endDate || '', autoConfirm: template.autoConfirm,
+    });
+  };
+
+  const handleCancel = () => { setEditing(null); setForm(EMPTY_FORM); };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const amount = parseFloat(form.amount);
+    if (!form.description || isNaN(amount) || amount <= 0 || !form.categoryId || !form.accountId || !form.startDate) { showToast('Preencha descrição, valor, categoria, conta e início.', 'error'); return; }
+    if (form.endDate && form.endDate < form.startDate) { showToast('O término deve ser posterior ao início.', 'error'); return; }
+    const data = {
+      description: form.description, amount, type: form.type,
+      categoryId: form.categoryId, categoryName: getCategoryLabel(form.categoryId, categories),
+      accountId: form.accountId, accountName: financialAccounts.find(a => a.id === form.accountId)?.name,
+      providerId: form.providerId || null, providerName: providers.find(p => p.id === form.providerId)?.name,
+      frequency: form.frequency, startDate: form.startDate, endDate: form.endDate || null, autoConfirm: form.autoConfirm,
+    };
+    if (editing) {
+      // Reprogramação vale a partir da próxima ocorrência pendente; o que já foi lançado não muda
+      const from = editing.nextDueDate > form.startDate ? editing.nextDueDate : form.startDate;
+      await updateRecurringTemplate(editing.id, { ...data, nextDueDate: firstOccurrenceFrom(data, from) });
+      showToast('Recorrência atualizada!');
+    } else {
+      await addRecurringTemplate({ ...data, active: true });
+      showToast('Recorrência criada!');
+    }
+    handleCancel();
+  };
+
+  const handleToggleActive = async (template: RecurringTemplate) => {
+    await updateRecurringTemplate(template.id, { active: !template.active });
+    showToast(template.active ? 'Série pausada.' : 'Série retomada.');
+  };
+
+  const handleDelete = async (template: RecurringTemplate) => {
+    if (window.confirm(`Excluir o modelo "${template.description}"? Os lançamentos já gerados são mantidos.`)) { await deleteRecurringTemplate(template.id); }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex justify-center items-center p-4" onClick={onClose}>
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-5xl max-h-[90vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold flex items-center gap-2"><Repeat size={20} /> Lançamentos Recorrentes</h2>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700"><X size={20} /></button>
+        </div>
+
+        <div className="overflow-y-auto space-y-6">
+          <form onSubmit={handleSubmit} className="grid grid-cols-2 md:grid-cols-4 gap-3 items-end bg-gray-50 dark:bg-gray-700/50 p-4 rounded-lg border dark:border-gray-600">
+            <div className="col-span-2"><label className="block text-sm">Descrição</label><input value={form.description} onChange={(e) => setForm({ ...form, description: e.target.value })} placeholder="Ex: Aluguel da sede" className={INPUT_CLASS} /></div>
+            <div><label className="block text-sm">Tipo</label><select value={form.type} onChange={(e) => setForm({ ...form, type: e.target.value as 'Income' | 'Expense', categoryId: '' })} className={INPUT_CLASS}><option value="Expense">Despesa</option><option value="Income">Receita</option></select></div>
+            <div><label className="block text-sm">Valor (R$)</label><input type="number" step="0.01" min="0" value={form.amount} onChange={(e) => setForm({ ...form, amount: e.target.value })} className={INPUT_CLASS} /></div>
+            <div><label className="block text-sm">Categoria</label><select value={form.categoryId} onChange={(e) => setForm({ ...form, categoryId: e.target.value })} className={INPUT_CLASS}><option value="">Selecione...</option>{sortCategories(categories.filter(c => c.type === form.type)).map(c => <option key={c.id} value={c.id}>{c.code} - {getCategoryLabel(c.id, categories)}</option>)}</select></div>
+            <div><label className="block text-sm">Conta</label><select value={form.accountId} onChange={(e) => setForm({ ...form, accountId: e.target.value })} className={INPUT_CLASS}><option value="">Selecione...</option>{financialAccounts.filter(a => a.active).map(a => <option key={a.id} value={a.id}>{a.name}</option>)}</select></div>
+            <div><label className="block text-sm">Prestador (Opcional)</label><select value={form.providerId} onChange={(e) => setForm({ ...form, providerId: e.target.value })} className={INPUT_CLASS}><option value="">Nenhum</option>{providers.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}</select></div>
+            <div><label className="block text-sm">Frequência</label><select value={form.frequency} onChange={(e) => setForm({ ...form, frequency: e.target.value as RecurrenceFrequency })} className={INPUT_CLASS}>{Object.entries(FREQUENCY_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}</select></div>
+            <div><label className="block text-sm">Início</label><input type="date" value={form.startDate} onChange={(e) => setForm({ ...form, startDate: e.target.value })} className={INPUT_CLASS} /></div>
+            <div><label className="block text-sm">Término (Opcional)</label><input type="date" value={form.endDate} onChange={(e) => setForm({ ...form, endDate: e.target.value })} className={INPUT_CLASS} /></div>
+            <label className="col-span-2 flex items-center gap-2 text-sm pb-2"><input type="checkbox" checked={form.autoConfirm} onChange={(e) => setForm({ ...form, autoConfirm: e.target.checked })} className="rounded" /> Lançar automaticamente (desmarcado: gera rascunho para confirmar)</label>
+            <div className="col-span-2 md:col-span-4 flex justify-end gap-2">
+              {editing && <button type="button" onClick={handleCancel} className="px-4 py-2 text-sm font-medium bg-gray-100 dark:bg-gray-700 rounded-lg">Cancelar</button>}
+              <button type="submit" className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-secondary-700 rounded-lg hover:bg-secondary-800"><PlusCircle size={16} /> {editing ? 'Salvar' : 'Adicionar'}</button>
+            </div>
+          </form>
+
+          <table className="w-full text-sm text-left text-gray-500 dark:text-gray-400">
+            <thead className="text-xs text-gray-700 uppercase bg-gray-50 dark:bg-gray-700 dark:text-gray-400">
+              <tr>
+                <th className="px-4 py-2">Descrição</th>
+                <th className="px-4 py-2">Valor</th>
+                <th className="px-4 py-2">Frequência</th>
+                <th className="px-4 py-2">Próxima</th>
+                <th className="px-4 py-2">Modo</th>
+                <th className="px-4 py-2 text-right">Ações</th>
+              </tr>
+            </thead>
+            <tbody>
+              {recurringTemplates.map(template => (
+                <tr key={template.id} className={`border-b dark:border-gray-700 ${template.active ? '' : 'opacity-50'}`}>
+                  <td className="px-4 py-2 font-medium text-gray-900 dark:text-white">{template.description}<p className="text-xs font-normal text-gray-400">{template.categoryName} · {template.accountName}</p></td>
+                  <td className={`px-4 py-2 font-semibold ${template.type === 'Income' ? 'text-green-500' : 'text-red-500'}`}>R$ {template.amount.toFixed(2)}</td>
+                  <td className="px-4 py-2">{FREQUENCY_LABELS[template.frequency]}</td>
+                  <td className="px-4 py-2">{template.endDate && template.nextDueDate > template.endDate ? 'Encerrada' : new Date(`${template.nextDueDate}T00:00:00`).toLocaleDateString('pt-BR')}</td>
+                  <td className="px-4 py-2">{template.autoConfirm ? 'Automático' : 'Rascunho'}</td>
+                  <td className="px-4 py-2 text-right whitespace-nowrap">
+                    <button onClick={() => handleToggleActive(template)} title={template.active ? 'Pausar série' : 'Retomar série'} className="p-1 text-gray-500 hover:text-yellow-600">{template.active ? <Pause size={14} /> : <Play size={14} />}</button>
+                    <button onClick={() => handleEdit(template)} className="p-1 text-gray-500 hover:text-blue-600"><Edit size={14} /></button>
+                    <button onClick={() => handleDelete(template)} className="p-1 text-gray-500 hover:text-red-600"><Trash2 size={14} /></button>
+                  </td>
+                </tr>
+              ))}
+              {recurringTemplates.length === 0 && <tr><td colSpan={6} className="px-4 py-6 text-center">Nenhum lançamento recorrente cadastrado.</td></tr>}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,43 +1,17 @@
-import React from 'react';
+import React, { useState, useEffect } from 'react';
 // FIX: Replaced non-existent 'UserClock' icon with 'Hourglass', which is a valid lucide-react icon.
-import { X, Users, FileText, ArrowUp, ArrowDown, UserCheck, UserX, Hourglass } from 'lucide-react';
+import { X, Users, FileText, ArrowUp, ArrowDown, UserCheck, UserX, Hourglass, Download } from 'lucide-react';
 import { Member, Transaction } from '../types';
+import { useData } from '../contexts/DataContext';
+import { buildDRE, dreToRows, DreLine } from '../utils/categories';
+import { SPREADSHEET_FORMAT_LABELS, SpreadsheetColumn, SpreadsheetFormat, downloadSpreadsheet } from '../utils/spreadsheet';
 
 interface ReportModalProps {
   isOpen: boolean;
   onClose: () => void;
   members: Member[];
-  transactions: Transaction[];
 }
 
-// Helper to convert array of objects to CSV string
-const convertToCSV = (data: any[], headers: { key: string; label: string }[]): string => {
-  const headerRow = headers.map(h => h.label).join(',');
-  const bodyRows = data.map(row => {
-    return headers.map(header => {
-      const value = row[header.key] ?? '';
-      const stringValue = String(value).replace(/"/g, '""'); // Escape double quotes
-      return `"${stringValue}"`;
-    }).join(',');
-  });
-  return [headerRow, ...bodyRows].join('\n');
-};
-
-// Helper to trigger download
-const downloadCSV = (csvString: string, filename: string) => {
-  const blob = new Blob([csvString], { type: 'text/csv;charset=utf-8;' });
-  const link = document.createElement('a');
-  if (link.download !== undefined) {
-    const url = URL.createObjectURL(blob);
-    link.setAttribute('href', url);
-    link.setAttribute('download', filename);
-    link.style.visibility = 'hidden';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-  }
-};
-
 const ReportButton: React.FC<{ icon: React.ReactNode; title: string; subtitle: string; onClick: () => void; }> = ({ icon, title, subtitle, onClick }) => (
     <button onClick={onClick} className="flex items-center w-full p-4 rounded-lg bg-gray-50 dark:bg-gray-700/50 hover:bg-secondary-50 dark:hover:bg-secondary-900/40 transition-colors text-left border border-gray-200 dark:border-gray-700">
         <div className="p-3 rounded-lg bg-secondary-100 dark:bg-secondary-800 text-secondary-700 dark:text-secondary-300 mr-4">
@@ -51,32 +25,69 @@ const ReportButton: React.FC<{ icon: React.ReactNode; title: string; subtitle: s
 );
 
 
-export const ReportModal: React.FC<ReportModalProps> = ({ isOpen, onClose, members, transactions }) => {
+const DreSection: React.FC<{ title: string; lines: DreLine[]; total: number; className: string }> = ({ title, lines, total, className }) => (
+    <>
+        <tr className="bg-gray-50 dark:bg-gray-700 font-semibold"><td className="px-4 py-2">{title}</td><td className={`px-4 py-2 text-right ${className}`}>R$ {total.toFixed(2)}</td></tr>
+        {lines.map(line => (
+            <React.Fragment key={line.name}>
+                <tr className="border-b dark:border-gray-700"><td className="px-4 py-1.5 pl-8">{line.name}</td><td className="px-4 py-1.5 text-right">R$ {line.total.toFixed(2)}</td></tr>
+                {line.children.map(child => (
+                    <tr key={child.name} className="border-b dark:border-gray-700 text-xs text-gray-500 dark:text-gray-400"><td className="px-4 py-1 pl-12">{child.name}</td><td className="px-4 py-1 text-right">R$ {child.total.toFixed(2)}</td></tr>
+                ))}
+            </React.Fragment>
+        ))}
+    </>
+);
+
+const currentYear = new Date().getFullYear();
+
+const MEMBER_STATUS_LABELS: Record<Member['status'], string> = { Active: 'Ativo', Inactive: 'Inativo', Pending: 'Pendente' };
+
+const memberColumns: SpreadsheetColumn<Member>[] = [
+  { key: 'name', label: 'Nome' },
+  { key: 'email', label: 'Email' },
+  { key: 'status', label: 'Status', value: (m) => MEMBER_STATUS_LABELS[m.status] },
+  { key: 'admissionDate', label: 'Data de Admissão', type: 'date' },
+  { key: 'phone', label: 'Telefone' },
+  { key: 'cpf', label: 'CPF' },
+  { key: 'role', label: 'Função' },
+];
+
+const transactionColumns: SpreadsheetColumn<Transaction>[] = [
+  { key: 'date', label: 'Data', type: 'date' },
+  { key: 'description', label: 'Descrição' },
+  { key: 'type', label: 'Tipo', value: (t) => t.type === 'Income' ? 'Receita' : 'Despesa' },
+  { key: 'categoryName', label: 'Categoria' },
+  { key: 'amount', label: 'Valor', type: 'currency' },
+  { key: 'memberName', label: 'Membro Associado' },
+];
+
+const dreColumns: SpreadsheetColumn<{ line: string; amount: string }>[] = [
+  { key: 'line', label: 'Conta' },
+  { key: 'amount', label: 'Valor', type: 'currency' },
+];
+
+export const ReportModal: React.FC<ReportModalProps> = ({ isOpen, onClose, members }) => {
+  const { categories, fetchTransactions } = useData();
+  const [dreStart, setDreStart] = useState(`${currentYear}-01-01`);
+  const [dreEnd, setDreEnd] = useState(`${currentYear}-12-31`);
+  const [dreTransactions, setDreTransactions] = useState<Transaction[]>([]);
+  const [format, setFormat] = useState<SpreadsheetFormat>('xlsx');
+
+  // DRE e históricos usam todas as transações do banco, não só a janela recente do contexto
+  useEffect(() => {
+    if (!isOpen || !dreStart || !dreEnd) return;
+    fetchTransactions({ startDate: dreStart, endDate: dreEnd }).then(setDreTransactions);
+  }, [isOpen, dreStart, dreEnd]);
+
   if (!isOpen) return null;
 
-  const memberHeaders = [
-    { key: 'name', label: 'Nome' },
-    { key: 'email', label: 'Email' },
-    { key: 'status', label: 'Status' },
-    { key: 'admissionDate', label: 'Data de Admissão' },
-    { key: 'phone', label: 'Telefone' },
-    { key: 'cpf', label: 'CPF' },
-    { key: 'role', label: 'Função' },
-  ];
-  
-  const transactionHeaders = [
-    { key: 'date', label: 'Data' },
-    { key: 'description', label: 'Descrição' },
-    { key: 'type', label: 'Tipo' },
-    { key: 'amount', label: 'Valor' },
-    { key: 'memberName', label: 'Membro Associado' },
-  ];
-
-  const handleDownload = (data: any[], headers: any[], baseFilename: string) => {
-    const date = new Date().toISOString().split('T')[0];
-    const csv = convertToCSV(data, headers);
-    downloadCSV(csv, `${baseFilename}_${date}.csv`);
-  };
+  const dre = buildDRE(dreTransactions, categories, dreStart, dreEnd);
+
+  const handleDownload = <T,>(data: T[], columns: SpreadsheetColumn<T>[], baseFilename: string) => downloadSpreadsheet(data, columns, baseFilename, format);
+
+  const handleDownloadTransactions = async (type: Transaction['type'] | '', baseFilename: string) =>
+    handleDownload(await fetchTransactions({ type }), transactionColumns, baseFilename);
 
   const getMembersByStatus = (status: Member['status']) => members.filter(m => m.status === status);
 
@@ -85,27 +96,49 @@ export const ReportModal: React.FC<ReportModalProps> = ({ isOpen, onClose, membe
       <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-3xl" onClick={(e) => e.stopPropagation()}>
         <div className="flex justify-between items-center mb-4">
           <h2 className="text-xl font-semibold">Centro de Relatórios</h2>
-          <button onClick={onClose} className="p-1 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700">
-            <X size={20} />
-          </button>
+          <div className="flex items-center gap-3">
+            <select value={format} onChange={(e) => setFormat(e.target.value as SpreadsheetFormat)} className="rounded-md border-gray-300 text-sm dark:bg-gray-700 dark:border-gray-600">
+              {(Object.keys(SPREADSHEET_FORMAT_LABELS) as SpreadsheetFormat[]).map(f => <option key={f} value={f}>{SPREADSHEET_FORMAT_LABELS[f]}</option>)}
+            </select>
+            <button onClick={onClose} className="p-1 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700">
+              <X size={20} />
+            </button>
+          </div>
         </div>
         <div className="space-y-6 max-h-[70vh] overflow-y-auto pr-2">
             <div>
                 <h3 className="text-lg font-medium mb-3 text-secondary-800 dark:text-secondary-300">Relatórios de Membros</h3>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                    <ReportButton icon={<Users size={20}/>} title="Lista Completa" subtitle="Todos os membros cadastrados" onClick={() => handleDownload(members, memberHeaders, 'relatorio_membros_completo')} />
-                    <ReportButton icon={<UserCheck size={20}/>} title="Membros Ativos" subtitle="Apenas membros com status Ativo" onClick={() => handleDownload(getMembersByStatus('Active'), memberHeaders, 'relatorio_membros_ativos')} />
-                    <ReportButton icon={<UserX size={20}/>} title="Membros Inativos" subtitle="Apenas membros com status Inativo" onClick={() => handleDownload(getMembersByStatus('Inactive'), memberHeaders, 'relatorio_membros_inativos')} />
-                    <ReportButton icon={<Hourglass size={20}/>} title="Membros Pendentes" subtitle="Apenas membros com status Pendente" onClick={() => handleDownload(getMembersByStatus('Pending'), memberHeaders, 'relatorio_membros_pendentes')} />
+                    <ReportButton icon={<Users size={20}/>} title="Lista Completa" subtitle="Todos os membros cadastrados" onClick={() => handleDownload(members, memberColumns, 'relatorio_membros_completo')} />
+                    <ReportButton icon={<UserCheck size={20}/>} title="Membros Ativos" subtitle="Apenas membros com status Ativo" onClick={() => handleDownload(getMembersByStatus('Active'), memberColumns, 'relatorio_membros_ativos')} />
+                    <ReportButton icon={<UserX size={20}/>} title="Membros Inativos" subtitle="Apenas membros com status Inativo" onClick={() => handleDownload(getMembersByStatus('Inactive'), memberColumns, 'relatorio_membros_inativos')} />
+                    <ReportButton icon={<Hourglass size={20}/>} title="Membros Pendentes" subtitle="Apenas membros com status Pendente" onClick={() => handleDownload(getMembersByStatus('Pending'), memberColumns, 'relatorio_membros_pendentes')} />
                 </div>
             </div>
              <div>
                 <h3 className="text-lg font-medium mb-3 text-secondary-800 dark:text-secondary-300">Relatórios Financeiros</h3>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                    <ReportButton icon={<FileText size={20}/>} title="Histórico Completo" subtitle="Todas as receitas e despesas" onClick={() => handleDownload(transactions, transactionHeaders, 'relatorio_financeiro_completo')} />
-                    <ReportButton icon={<ArrowUp size={20}/>} title="Relatório de Receitas" subtitle="Apenas as transações de entrada" onClick={() => handleDownload(transactions.filter(t => t.type === 'Income'), transactionHeaders, 'relatorio_financeiro_receitas')} />
-                    <ReportButton icon={<ArrowDown size={20}/>} title="Relatório de Despesas" subtitle="Apenas as transações de saída" onClick={() => handleDownload(transactions.filter(t => t.type === 'Expense'), transactionHeaders, 'relatorio_financeiro_despesas')} />
+                    <ReportButton icon={<FileText size={20}/>} title="Histórico Completo" subtitle="Todas as receitas e despesas" onClick={() => handleDownloadTransactions('', 'relatorio_financeiro_completo')} />
+                    <ReportButton icon={<ArrowUp size={20}/>} title="Relatório de Receitas" subtitle="Apenas as transações de entrada" onClick={() => handleDownloadTransactions('Income', 'relatorio_financeiro_receitas')} />
+                    <ReportButton icon={<ArrowDown size={20}/>} title="Relatório de Despesas" subtitle="Apenas as transações de saída" onClick={() => handleDownloadTransactions('Expense', 'relatorio_financeiro_despesas')} />
+                </div>
+            </div>
+            <div>
+                <h3 className="text-lg font-medium mb-3 text-secondary-800 dark:text-secondary-300">Demonstração de Resultado (DRE)</h3>
+                <div className="flex flex-wrap items-end gap-3 mb-3">
+                    <div><label className="block text-xs text-gray-500">De</label><input type="date" value={dreStart} onChange={(e) => setDreStart(e.target.value)} className="rounded-md border-gray-300 text-sm dark:bg-gray-700 dark:border-gray-600" /></div>
+                    <div><label className="block text-xs text-gray-500">Até</label><input type="date" value={dreEnd} onChange={(e) => setDreEnd(e.target.value)} className="rounded-md border-gray-300 text-sm dark:bg-gray-700 dark:border-gray-600" /></div>
+                    <button onClick={() => handleDownload(dreToRows(dre), dreColumns, `dre_${dreStart}_${dreEnd}`)} className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-secondary-700 dark:text-secondary-300 bg-secondary-50 dark:bg-secondary-900/40 rounded-lg hover:bg-secondary-100">
+                        <Download size={16} /> Exportar
+                    </button>
                 </div>
+                <table className="w-full text-sm text-left text-gray-700 dark:text-gray-300 border dark:border-gray-700">
+                    <tbody>
+                        <DreSection title="RECEITAS" lines={dre.income} total={dre.totalIncome} className="text-green-600" />
+                        <DreSection title="(-) DESPESAS" lines={dre.expense} total={dre.totalExpense} className="text-red-500" />
+                        <tr className="font-bold bg-gray-100 dark:bg-gray-900"><td className="px-4 py-2">{dre.result >= 0 ? 'SUPERÁVIT DO PERÍODO' : 'DÉFICIT DO PERÍODO'}</td><td className={`px-4 py-2 text-right ${dre.result >= 0 ? 'text-green-600' : 'text-red-500'}`}>R$ {dre.result.toFixed(2)}</td></tr>
+                    </tbody>
+                </table>
             </div>
         </div>
         <div className="flex justify-end pt-6 border-t dark:border-gray-700 mt-4">
@@ -0,0 +1,109 @@
+import React, { useState, useEffect } from 'react';
+import { X, Printer, Loader2, FileSignature, AlertTriangle } from 'lucide-react';
+import { Rpa, Transaction } from '../types';
+import { useData } from '../contexts/DataContext';
+import { buildRpaHtml, calculateWithholding, findWithholdingTable, formatRpaNumber } from '../utils/rpa';
+import { formatBRL, printHtml } from '../utils/print';
+
+interface RpaModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  transaction: Transaction | null;
+  showToast: (message: string, type?: 'success' | 'error') => void;
+}
+
+const INPUT_CLASS = "mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-secondary-500 focus:ring-secondary-500 sm:text-sm dark:bg-gray-700 dark:border-gray-600 dark:placeholder-gray-400 dark:text-white dark:focus:border-secondary-500 dark:focus:ring-secondary-500";
+
+export const RpaModal: React.FC<RpaModalProps> = ({ isOpen, onClose, transaction, showToast }) => {
+  const { associationSettings, providers, withholdingTables, fetchRpa, issueRpa } = useData();
+  const [rpa, setRpa] = useState<Rpa | null>(null);
+  const [grossAmount, setGrossAmount] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isIssuing, setIsIssuing] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen || !transaction) { setRpa(null); return; }
+    setGrossAmount(String(transaction.amount));
+    setIsLoading(true);
+    fetchRpa(transaction.id).then(setRpa).finally(() => setIsLoading(false));
+  }, [isOpen, transaction?.id]);
+
+  if (!isOpen || !transaction) return null;
+
+  const provider = providers.find(p => p.id === transaction.providerId);
+  const gross = parseFloat(grossAmount);
+  const table = findWithholdingTable(withholdingTables, Number(transaction.date.slice(0, 4)));
+  const preview = gross > 0 ? calculateWithholding(gross, table) : null;
+  const netMismatch = !!preview && Math.abs(preview.netAmount - transaction.amount) > 0.005;
+  const html = rpa && associationSettings ? buildRpaHtml(rpa, associationSettings) : '';
+
+  const handleIssue = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!provider || !preview) return;
+    setIsIssuing(true);
+    const issued = await issueRpa(transaction, provider, gross);
+    setIsIssuing(false);
+    if (issued) { setRpa(issued); showToast(`RPA ${formatRpaNumber(issued)} emitido`); }
+  };
+
+  const handlePrint = () => {
+    if (!printHtml(html)) showToast('Permita pop-ups para imprimir o RPA.', 'error');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex justify-center items-center p-4" onClick={onClose}>
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-3xl max-h-[90vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold flex items-center gap-2"><FileSignature size={20} /> RPA {rpa ? formatRpaNumber(rpa) : ''}</h2>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700"><X size={20} /></button>
+        </div>
+
+        {!associationSettings?.name ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-10">Cadastre os dados da associação em Configurações antes de emitir RPAs.</p>
+        ) : isLoading ? (
+          <div className="flex justify-center py-10"><Loader2 className="animate-spin text-secondary-600" /></div>
+        ) : rpa ? (
+          <iframe title="Pré-visualização do RPA" srcDoc={html} className="w-full flex-1 min-h-[420px] bg-white rounded border dark:border-gray-600" />
+        ) : !provider ? (
+          <p className="text-sm text-red-500 text-center py-10">Vincule a despesa a um prestador cadastrado para emitir o RPA.</p>
+        ) : (
+          <form id="rpa-form" onSubmit={handleIssue} className="space-y-4">
+            <p className="text-sm text-gray-600 dark:text-gray-300"><span className="font-medium">{provider.name}</span>{provider.cpfCnpj ? ` · CPF ${provider.cpfCnpj}` : ''} — {transaction.description}</p>
+            {!provider.cpfCnpj && <p className="text-xs text-orange-500 flex items-center gap-1"><AlertTriangle size={14} /> Prestador sem CPF cadastrado.</p>}
+            <div>
+              <label className="block text-sm font-medium">Valor bruto do serviço (R$)</label>
+              <input type="number" step="0.01" min="0.01" value={grossAmount} onChange={(e) => setGrossAmount(e.target.value)} className={INPUT_CLASS} />
+            </div>
+            {preview && (
+              <table className="w-full text-sm">
+                <tbody className="divide-y dark:divide-gray-700">
+                  <tr><td className="py-1">INSS ({table.inssRate}%)</td><td className="py-1 text-right text-red-500">- {formatBRL(preview.inssAmount)}</td></tr>
+                  <tr><td className="py-1">IRRF (base {formatBRL(preview.irrfBase)})</td><td className="py-1 text-right text-red-500">- {formatBRL(preview.irrfAmount)}</td></tr>
+                  <tr><td className="py-1">ISS ({table.issRate}%)</td><td className="py-1 text-right text-red-500">- {formatBRL(preview.issAmount)}</td></tr>
+                  <tr className="font-semibold"><td className="py-1">Líquido a pagar</td><td className="py-1 text-right">{formatBRL(preview.netAmount)}</td></tr>
+                </tbody>
+              </table>
+            )}
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Tabela de retenções de {table.year}. Os tributos retidos ficam em "Tributos a recolher".
+            </p>
+            {netMismatch && <p className="text-xs text-red-500">O líquido deve ser igual ao valor pago na transação ({formatBRL(transaction.amount)}). Ajuste o valor bruto ou edite a transação.</p>}
+          </form>
+        )}
+
+        <div className="flex justify-end gap-2 pt-4 border-t dark:border-gray-700 mt-4">
+          <button type="button" onClick={onClose} className="px-4 py-2 text-sm font-medium bg-gray-100 dark:bg-gray-700 rounded-lg">Fechar</button>
+          {rpa ? (
+            <button onClick={handlePrint} className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-secondary-700 rounded-lg hover:bg-secondary-800">
+              <Printer size={16} /> Imprimir / PDF
+            </button>
+          ) : provider && associationSettings?.name && !isLoading && (
+            <button type="submit" form="rpa-form" disabled={!preview || netMismatch || isIssuing} className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-secondary-700 rounded-lg hover:bg-secondary-800 disabled:opacity-50">
+              {isIssuing ? <Loader2 size={16} className="animate-spin" /> : <FileSignature size={16} />} Emitir RPA
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
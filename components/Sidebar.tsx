@@ -1,6 +1,6 @@
 import React, { useState } from 'react';
 import { Page, User } from '../types';
-import { Home, Users, DollarSign, Calendar, FileText, Send, Settings, ChevronFirst, ChevronLast, LogOut, Briefcase, Palette, Box } from 'lucide-react';
+import { Home, Users, DollarSign, Calendar, FileText, Send, Settings, ChevronFirst, ChevronLast, LogOut, Briefcase, Palette, Box, BookOpen, UserCircle } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import { LOGO_BASE64 } from '../constants';
 
@@ -10,6 +10,7 @@ const NAV_ITEMS = [
   { name: 'Projects', icon: <Briefcase size={20}/>, label: 'Projetos' }, // Novo
   { name: 'ServiceProviders', icon: <Palette size={20}/>, label: 'Prestadores' }, // Novo
   { name: 'Financial', icon: <DollarSign size={20}/>, label: 'Financeiro' },
+  { name: 'Accounting', icon: <BookOpen size={20}/>, label: 'Contabilidade' },
   { name: 'Inventory', icon: <Box size={20}/>, label: 'Patrimônio' }, // Novo
   { name: 'Events', icon: <Calendar size={20}/>, label: 'Eventos' },
   { name: 'Documents', icon: <FileText size={20}/>, label: 'Documentos' },
@@ -17,6 +18,11 @@ const NAV_ITEMS = [
   { name: 'Settings', icon: <Settings size={20}/>, label: 'Configurações' },
 ];
 
+// Associados não acessam as páginas administrativas, só o próprio portal
+const PORTAL_NAV_ITEMS = [
+  { name: 'Portal', icon: <UserCircle size={20}/>, label: 'Meu Portal' },
+];
+
 interface SidebarProps {
   currentPage: Page;
   setCurrentPage: (page: Page) => void;
@@ -50,7 +56,7 @@ export const Sidebar: React.FC<SidebarProps> = ({ currentPage, setCurrentPage, u
         </div>
 
         <ul className="flex-1 px-3 overflow-y-auto custom-scrollbar">
-          {NAV_ITEMS.map(item => (
+          {(user.role === 'Associado' ? PORTAL_NAV_ITEMS : NAV_ITEMS).map(item => (
             <li
               key={item.name}
               onClick={() => setCurrentPage(item.name as Page)}
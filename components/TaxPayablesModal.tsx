@@ -0,0 +1,129 @@
+import React, { useState, useEffect } from 'react';
+import { X, HandCoins, Check } from 'lucide-react';
+import { TaxPayable } from '../types';
+import { useData } from '../contexts/DataContext';
+import { getCategoryLabel, sortCategories } from '../utils/categories';
+import { WITHHELD_TAX_LABELS } from '../utils/rpa';
+import { todayISO } from '../utils/dues';
+import { formatBRL, formatDateBR } from '../utils/print';
+
+interface TaxPayablesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  showToast: (message: string, type?: 'success' | 'error') => void;
+}
+
+const INPUT_CLASS = "block w-full rounded-md border-gray-300 shadow-sm focus:border-secondary-500 focus:ring-secondary-500 sm:text-sm dark:bg-gray-700 dark:border-gray-600 dark:placeholder-gray-400 dark:text-white dark:focus:border-secondary-500 dark:focus:ring-secondary-500";
+
+export const TaxPayablesModal: React.FC<TaxPayablesModalProps> = ({ isOpen, onClose, showToast }) => {
+  const { taxPayables, payTaxPayable, financialAccounts, categories } = useData();
+  const [paying, setPaying] = useState<TaxPayable | null>(null);
+  const [date, setDate] = useState(todayISO());
+  const [accountId, setAccountId] = useState('');
+  const [categoryId, setCategoryId] = useState('');
+  const [showPaid, setShowPaid] = useState(false);
+
+  useEffect(() => { if (isOpen) { setPaying(null); setShowPaid(false); } }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const today = todayISO();
+  const visible = taxPayables.filter(p => showPaid || p.status === 'Open');
+  const openTotal = taxPayables.filter(p => p.status === 'Open').reduce((acc, p) => acc + p.amount, 0);
+
+  const startPayment = (payable: TaxPayable) => {
+    setPaying(payable); setDate(todayISO()); setCategoryId('');
+    setAccountId(financialAccounts.find(a => a.active)?.id || '');
+  };
+
+  const handlePay = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!paying) return;
+    if (!accountId || !categoryId) { showToast('Selecione a conta e a categoria do recolhimento.', 'error'); return; }
+    await payTaxPayable(paying, {
+      description: `Recolhimento ${paying.tax} retido — RPA nº ${String(paying.rpaNumber).padStart(6, '0')}`,
+      amount: paying.amount,
+      type: 'Expense',
+      date,
+      accountId,
+      accountName: financialAccounts.find(a => a.id === accountId)?.name,
+      categoryId,
+      categoryName: getCategoryLabel(categoryId, categories),
+    });
+    showToast(`${paying.tax} recolhido`);
+    setPaying(null);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex justify-center items-center p-4" onClick={onClose}>
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-3xl" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-2">
+          <h2 className="text-xl font-semibold flex items-center gap-2"><HandCoins size={20} /> Tributos a Recolher</h2>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700"><X size={20} /></button>
+        </div>
+        <div className="flex justify-between items-center mb-4 text-sm">
+          <p className="text-gray-500 dark:text-gray-400">Em aberto: <span className="font-semibold text-red-500">{formatBRL(openTotal)}</span></p>
+          <label className="flex items-center gap-1 text-gray-500 dark:text-gray-400"><input type="checkbox" checked={showPaid} onChange={(e) => setShowPaid(e.target.checked)} /> Mostrar recolhidos</label>
+        </div>
+
+        {visible.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-10">{showPaid ? 'Nenhum tributo retido.' : 'Nenhum tributo retido em aberto.'}</p>
+        ) : (
+          <div className="max-h-[60vh] overflow-y-auto">
+            <table className="w-full text-sm text-left text-gray-500 dark:text-gray-400">
+              <thead className="text-xs text-gray-700 uppercase bg-gray-50 dark:bg-gray-700 dark:text-gray-400">
+                <tr>
+                  <th className="px-3 py-2">Tributo</th>
+                  <th className="px-3 py-2">RPA</th>
+                  <th className="px-3 py-2">Vencimento</th>
+                  <th className="px-3 py-2 text-right">Valor</th>
+                  <th className="px-3 py-2 text-right">Situação</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visible.map(payable => (
+                  <React.Fragment key={payable.id}>
+                    <tr className="border-b dark:border-gray-700">
+                      <td className="px-3 py-2 font-medium text-gray-900 dark:text-white">{WITHHELD_TAX_LABELS[payable.tax]}</td>
+                      <td className="px-3 py-2">{String(payable.rpaNumber).padStart(6, '0')}</td>
+                      <td className={`px-3 py-2 ${payable.status === 'Open' && payable.dueDate < today ? 'text-red-500 font-semibold' : ''}`}>{formatDateBR(payable.dueDate)}</td>
+                      <td className="px-3 py-2 text-right">{formatBRL(payable.amount)}</td>
+                      <td className="px-3 py-2 text-right">
+                        {payable.status === 'Paid'
+                          ? <span className="text-green-600">Recolhido em {formatDateBR(payable.paidAt!)}</span>
+                          : <button onClick={() => startPayment(payable)} className="px-2 py-1 text-xs font-medium text-white bg-secondary-700 rounded hover:bg-secondary-800">Recolher</button>}
+                      </td>
+                    </tr>
+                    {paying?.id === payable.id && (
+                      <tr className="bg-gray-50 dark:bg-gray-700/50">
+                        <td colSpan={5} className="px-3 py-3">
+                          <form onSubmit={handlePay} className="flex flex-wrap items-end gap-2">
+                            <div><label className="block text-xs">Data</label><input type="date" value={date} onChange={(e) => setDate(e.target.value)} className={INPUT_CLASS} /></div>
+                            <div className="flex-1 min-w-[140px]"><label className="block text-xs">Conta</label>
+                              <select value={accountId} onChange={(e) => setAccountId(e.target.value)} className={INPUT_CLASS}>
+                                <option value="">Selecione...</option>
+                                {financialAccounts.filter(a => a.active).map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                              </select>
+                            </div>
+                            <div className="flex-1 min-w-[160px]"><label className="block text-xs">Categoria</label>
+                              <select value={categoryId} onChange={(e) => setCategoryId(e.target.value)} className={INPUT_CLASS}>
+                                <option value="">Selecione...</option>
+                                {sortCategories(categories.filter(c => c.type === 'Expense')).map(c => <option key={c.id} value={c.id}>{c.code} - {getCategoryLabel(c.id, categories)}</option>)}
+                              </select>
+                            </div>
+                            <button type="submit" className="flex items-center gap-1 px-3 py-2 text-xs font-medium text-white bg-secondary-700 rounded-lg hover:bg-secondary-800"><Check size={14} /> Confirmar</button>
+                            <button type="button" onClick={() => setPaying(null)} className="px-3 py-2 text-xs font-medium bg-gray-100 dark:bg-gray-700 rounded-lg">Cancelar</button>
+                          </form>
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { X, Paperclip, Download, Trash2, Upload, Loader2 } from 'lucide-react';
+import { Transaction, Document } from '../types';
+import { useData } from '../contexts/DataContext';
+import { buildProofDocument } from '../utils/attachments';
+import { isPeriodClosed } from '../utils/fiscalPeriods';
+
+interface TransactionAttachmentsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  transaction: Transaction | null;
+  canEdit: boolean;
+  showToast: (message: string, type?: 'success' | 'error') => void;
+}
+
+export const TransactionAttachmentsModal: React.FC<TransactionAttachmentsModalProps> = ({ isOpen, onClose, transaction, canEdit, showToast }) => {
+  const { documents, fiscalPeriods, addDocument, deleteDocument } = useData();
+  const [isUploading, setIsUploading] = useState(false);
+
+  if (!isOpen || !transaction) return null;
+
+  const attachments = documents.filter(d => d.transactionId === transaction.id);
+  // Comprovantes de períodos fechados podem ser incluídos, mas não removidos
+  const canDelete = canEdit && !isPeriodClosed(fiscalPeriods, transaction.date);
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+    e.target.value = '';
+    if (files.length === 0) return;
+    setIsUploading(true);
+    let uploaded = 0;
+    for (const file of files) if (await addDocument(buildProofDocument(file, transaction.id), file)) uploaded++;
+    setIsUploading(false);
+    if (uploaded < files.length) showToast(`${files.length - uploaded} comprovante(s) não foram anexados`, 'error');
+    else showToast(files.length === 1 ? 'Comprovante anexado' : `${files.length} comprovantes anexados`);
+  };
+
+  const handleDelete = async (doc: Document) => {
+    if (window.confirm(`Remover o comprovante "${doc.name}"?`)) await deleteDocument(doc);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex justify-center items-center p-4" onClick={onClose}>
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-lg" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold flex items-center gap-2"><Paperclip size={20} /> Comprovantes</h2>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700"><X size={20} /></button>
+        </div>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">{transaction.description} · {new Date(`${transaction.date}T00:00:00`).toLocaleDateString('pt-BR')} · R$ {transaction.amount.toFixed(2)}</p>
+
+        <ul className="divide-y dark:divide-gray-700">
+          {attachments.map(doc => (
+            <li key={doc.id} className="py-2 flex justify-between items-center text-sm">
+              <span className="truncate">{doc.name}</span>
+              <span className="flex items-center">
+                <a href={doc.url} download={doc.name} target="_blank" rel="noopener noreferrer" className="p-2 text-gray-500 hover:text-green-600"><Download size={16} /></a>
+                {canDelete && <button onClick={() => handleDelete(doc)} className="p-2 text-gray-500 hover:text-red-600"><Trash2 size={16} /></button>}
+              </span>
+            </li>
+          ))}
+        </ul>
+        {attachments.length === 0 && <p className="text-sm text-gray-500 text-center py-6">Nenhum comprovante anexado.</p>}
+
+        <div className="flex justify-end gap-2 pt-4 border-t dark:border-gray-700 mt-4">
+          <button type="button" onClick={onClose} className="px-4 py-2 text-sm font-medium bg-gray-100 dark:bg-gray-700 rounded-lg">Fechar</button>
+          {canEdit && (
+            <label className={`flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-secondary-700 rounded-lg hover:bg-secondary-800 cursor-pointer ${isUploading ? 'opacity-50 pointer-events-none' : ''}`}>
+              {isUploading ? <Loader2 size={16} className="animate-spin" /> : <Upload size={16} />} Anexar
+              <input type="file" multiple className="sr-only" onChange={handleUpload} />
+            </label>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,95 @@
+import React, { useState, useEffect } from 'react';
+import { X, History, Loader2 } from 'lucide-react';
+import { Transaction, TransactionChange } from '../types';
+import { useData } from '../contexts/DataContext';
+
+interface TransactionHistoryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  transaction: Transaction | null;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  description: 'Descrição',
+  amount: 'Valor',
+  type: 'Tipo',
+  date: 'Data',
+  category_name: 'Categoria',
+  account_name: 'Conta',
+  member_name: 'Associado',
+  project_name: 'Projeto',
+  provider_name: 'Prestador',
+  budget_line_name: 'Rubrica',
+  pix_txid: 'TXID PIX',
+  reconciled: 'Conciliada',
+  bank_ref: 'Referência do extrato',
+};
+
+const formatValue = (field: string | null | undefined, value: string | null | undefined): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (field === 'type') return value === 'Income' ? 'Receita' : 'Despesa';
+  if (field === 'reconciled') return value === 'true' ? 'Sim' : 'Não';
+  if (field === 'amount') return `R$ ${Number(value).toFixed(2)}`;
+  if (field === 'date') return new Date(`${value}T00:00:00`).toLocaleDateString('pt-BR');
+  return value;
+};
+
+export const TransactionHistoryModal: React.FC<TransactionHistoryModalProps> = ({ isOpen, onClose, transaction }) => {
+  const { fetchTransactionHistory } = useData();
+  const [changes, setChanges] = useState<TransactionChange[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen || !transaction) { setChanges([]); return; }
+    setIsLoading(true);
+    fetchTransactionHistory(transaction.id).then(setChanges).finally(() => setIsLoading(false));
+  }, [isOpen, transaction?.id]);
+
+  if (!isOpen || !transaction) return null;
+
+  // IDs de vínculo mudam junto com o nome correspondente; só os nomes são exibidos
+  const visibleChanges = changes.filter(c => c.action === 'Delete' || (c.field && FIELD_LABELS[c.field]));
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex justify-center items-center p-4" onClick={onClose}>
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-2xl" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold flex items-center gap-2"><History size={20} /> Histórico de Alterações</h2>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700"><X size={20} /></button>
+        </div>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">{transaction.description} · R$ {transaction.amount.toFixed(2)}</p>
+
+        {isLoading ? (
+          <div className="flex justify-center py-10"><Loader2 className="animate-spin text-secondary-600" /></div>
+        ) : visibleChanges.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-10">Nenhuma alteração registrada desde o lançamento.</p>
+        ) : (
+          <div className="max-h-[60vh] overflow-y-auto">
+            <table className="w-full text-sm text-left text-gray-500 dark:text-gray-400">
+              <thead className="text-xs text-gray-700 uppercase bg-gray-50 dark:bg-gray-700 dark:text-gray-400">
+                <tr>
+                  <th className="px-3 py-2">Quando</th>
+                  <th className="px-3 py-2">Quem</th>
+                  <th className="px-3 py-2">Campo</th>
+                  <th className="px-3 py-2">Antes</th>
+                  <th className="px-3 py-2">Depois</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visibleChanges.map(change => (
+                  <tr key={change.id} className="border-b dark:border-gray-700">
+                    <td className="px-3 py-2 whitespace-nowrap">{new Date(change.changedAt).toLocaleString('pt-BR')}</td>
+                    <td className="px-3 py-2">{change.userName}</td>
+                    <td className="px-3 py-2 font-medium text-gray-900 dark:text-white">{change.action === 'Delete' ? 'Exclusão' : FIELD_LABELS[change.field!]}</td>
+                    <td className="px-3 py-2 text-red-500">{change.action === 'Delete' ? 'Transação excluída' : formatValue(change.field, change.oldValue)}</td>
+                    <td className="px-3 py-2 text-green-600">{change.action === 'Delete' ? '—' : formatValue(change.field, change.newValue)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
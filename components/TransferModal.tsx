@@ -0,0 +1,68 @@
+import React, { useState, useEffect } from 'react';
+import { X, ArrowRightLeft } from 'lucide-react';
+import { AccountTransfer } from '../types';
+import { useData } from '../contexts/DataContext';
+
+interface TransferModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onAddTransfer: (transfer: Omit<AccountTransfer, 'id'>) => Promise<void>;
+}
+
+const INPUT_CLASS = "mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-secondary-500 focus:ring-secondary-500 sm:text-sm dark:bg-gray-700 dark:border-gray-600 dark:placeholder-gray-400 dark:text-white dark:focus:border-secondary-500 dark:focus:ring-secondary-500";
+
+export const TransferModal: React.FC<TransferModalProps> = ({ isOpen, onClose, onAddTransfer }) => {
+  const { financialAccounts } = useData();
+  const [fromAccountId, setFromAccountId] = useState('');
+  const [toAccountId, setToAccountId] = useState('');
+  const [amount, setAmount] = useState('');
+  const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
+  const [description, setDescription] = useState('');
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => { if (isOpen) { setFromAccountId(''); setToAccountId(''); setAmount(''); setDate(new Date().toISOString().split('T')[0]); setDescription(''); setError(''); setIsSaving(false); } }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const activeAccounts = financialAccounts.filter(a => a.active);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = parseFloat(amount);
+    if (!fromAccountId || !toAccountId || !date || isNaN(value) || value <= 0) { setError('Preencha origem, destino, valor e data.'); return; }
+    if (fromAccountId === toAccountId) { setError('Origem e destino devem ser contas diferentes.'); return; }
+    setError(''); setIsSaving(true);
+    await onAddTransfer({
+      fromAccountId, fromAccountName: financialAccounts.find(a => a.id === fromAccountId)?.name,
+      toAccountId, toAccountName: financialAccounts.find(a => a.id === toAccountId)?.name,
+      amount: value, date, description,
+    });
+    setIsSaving(false); onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex justify-center items-center p-4" onClick={onClose}>
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-lg" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-4"><h2 className="text-xl font-semibold flex items-center gap-2"><ArrowRightLeft size={20} /> Transferência entre Contas</h2><button onClick={onClose}><X size={20} /></button></div>
+        <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+                <div><label className="block text-sm">De</label><select value={fromAccountId} onChange={(e) => setFromAccountId(e.target.value)} className={INPUT_CLASS}><option value="">Selecione...</option>{activeAccounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}</select></div>
+                <div><label className="block text-sm">Para</label><select value={toAccountId} onChange={(e) => setToAccountId(e.target.value)} className={INPUT_CLASS}><option value="">Selecione...</option>{activeAccounts.filter(a => a.id !== fromAccountId).map(a => <option key={a.id} value={a.id}>{a.name}</option>)}</select></div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+                <div><label className="block text-sm">Valor (R$)</label><input type="number" step="0.01" min="0" value={amount} onChange={(e) => setAmount(e.target.value)} className={INPUT_CLASS} /></div>
+                <div><label className="block text-sm">Data</label><input type="date" value={date} onChange={(e) => setDate(e.target.value)} className={INPUT_CLASS} /></div>
+            </div>
+            <div><label className="block text-sm">Descrição (Opcional)</label><input value={description} onChange={(e) => setDescription(e.target.value)} placeholder="Ex: Suprimento do caixa da Feira" className={INPUT_CLASS} /></div>
+            <p className="text-xs text-gray-500 dark:text-gray-400">Transferências movimentam apenas os saldos das contas e não entram como receita ou despesa.</p>
+            {error && <p className="text-red-500 text-sm">{error}</p>}
+            <div className="flex justify-end gap-2 pt-4 border-t dark:border-gray-700">
+                <button type="button" onClick={onClose} className="px-4 py-2 text-sm font-medium bg-gray-100 dark:bg-gray-700 rounded-lg">Cancelar</button>
+                <button type="submit" disabled={isSaving} className="px-4 py-2 text-sm font-medium text-white bg-secondary-700 rounded-lg hover:bg-secondary-800 disabled:opacity-50">{isSaving ? 'Salvando...' : 'Transferir'}</button>
+            </div>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -9,7 +9,7 @@ interface UploadDocumentModalProps {
   onStorageError?: () => void;
 }
 
-const documentTypes: DocumentType[] = ['Statute', 'Meeting Minutes', 'Report', 'Other'];
+const documentTypes: DocumentType[] = ['Statute', 'Meeting Minutes', 'Report', 'Proof', 'Other'];
 const INPUT_CLASS = "mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-secondary-500 focus:ring-secondary-500 sm:text-sm dark:bg-gray-700 dark:border-gray-600 dark:placeholder-gray-400 dark:text-white dark:focus:border-secondary-500 dark:focus:ring-secondary-500";
 
 
@@ -0,0 +1,100 @@
+import React, { useState, useEffect } from 'react';
+import { PlusCircle, Trash2, X } from 'lucide-react';
+import { WithholdingTable } from '../types';
+import { useData } from '../contexts/DataContext';
+import { buildDefaultWithholdingTable, findWithholdingTable } from '../utils/rpa';
+
+const INPUT_CLASS = "mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-secondary-500 focus:ring-secondary-500 sm:text-sm dark:bg-gray-700 dark:border-gray-600 dark:placeholder-gray-400 dark:text-white dark:focus:border-secondary-500 dark:focus:ring-secondary-500";
+
+interface BracketDraft { upTo: string; rate: string; deduction: string; }
+
+interface TableDraft { inssRate: string; inssCeiling: string; issRate: string; issDueDay: string; brackets: BracketDraft[]; }
+
+const toDraft = (table: WithholdingTable): TableDraft => ({
+    inssRate: String(table.inssRate), inssCeiling: String(table.inssCeiling), issRate: String(table.issRate), issDueDay: String(table.issDueDay),
+    brackets: table.irrfBrackets.map(b => ({ upTo: b.upTo === null ? '' : String(b.upTo), rate: String(b.rate), deduction: String(b.deduction) })),
+});
+
+export const WithholdingTables: React.FC<{ showToast: (msg: string, type?: 'success' | 'error') => void }> = ({ showToast }) => {
+    const { withholdingTables, saveWithholdingTable, deleteWithholdingTable } = useData();
+    const currentYear = new Date().getFullYear();
+    const [year, setYear] = useState(currentYear);
+    const [draft, setDraft] = useState<TableDraft | null>(null);
+    const isSaved = withholdingTables.some(t => t.year === year);
+    const years = Array.from(new Set([currentYear, ...withholdingTables.map(t => t.year)])).sort((a, b) => b - a);
+
+    // Ano sem tabela começa como cópia da mais recente anterior
+    useEffect(() => {
+        setDraft(toDraft(findWithholdingTable(withholdingTables, year)));
+    }, [year, withholdingTables]);
+
+    if (!draft) return null;
+
+    const setBracket = (index: number, field: keyof BracketDraft, value: string) =>
+        setDraft({ ...draft, brackets: draft.brackets.map((b, i) => i === index ? { ...b, [field]: value } : b) });
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const inssRate = parseFloat(draft.inssRate), inssCeiling = parseFloat(draft.inssCeiling), issRate = parseFloat(draft.issRate), issDueDay = parseInt(draft.issDueDay, 10);
+        const irrfBrackets = draft.brackets.map(b => ({ upTo: b.upTo.trim() ? parseFloat(b.upTo) : null, rate: parseFloat(b.rate), deduction: parseFloat(b.deduction) || 0 }));
+        if ([inssRate, inssCeiling, issRate].some(v => isNaN(v) || v < 0) || isNaN(issDueDay) || issDueDay < 1 || issDueDay > 31) { showToast('Valores de INSS/ISS inválidos.', 'error'); return; }
+        if (irrfBrackets.some(b => isNaN(b.rate) || b.rate < 0 || (b.upTo !== null && isNaN(b.upTo)))) { showToast('Faixas do IRRF inválidas.', 'error'); return; }
+        if (irrfBrackets.filter(b => b.upTo === null).length !== 1) { showToast('Deixe o limite em branco em exatamente uma faixa (a última).', 'error'); return; }
+        await saveWithholdingTable({ year, inssRate, inssCeiling, issRate, issDueDay, irrfBrackets });
+        showToast(`Tabela de ${year} salva!`);
+    };
+
+    const handleDelete = async () => {
+        if (!window.confirm(`Excluir a tabela de ${year}? RPAs do ano passarão a usar a tabela anterior.`)) return;
+        await deleteWithholdingTable(year);
+        showToast(`Tabela de ${year} excluída.`);
+    };
+
+    const handleAddYear = () => {
+        const value = parseInt(window.prompt('Ano da nova tabela:', String(Math.max(...years) + 1)) || '', 10);
+        if (!isNaN(value) && value > 2000) setYear(value);
+    };
+
+    const handleRestoreDefaults = () => setDraft(toDraft(buildDefaultWithholdingTable(year)));
+
+    return (
+        <form className="space-y-4" onSubmit={handleSubmit}>
+            <div className="flex items-end gap-2">
+                <div className="flex-1">
+                    <label className="block text-sm font-medium">Ano</label>
+                    <select value={year} onChange={(e) => setYear(Number(e.target.value))} className={INPUT_CLASS}>
+                        {(years.includes(year) ? years : [year, ...years]).map(y => <option key={y} value={y}>{y}{withholdingTables.some(t => t.year === y) ? '' : ' (não cadastrada)'}</option>)}
+                    </select>
+                </div>
+                <button type="button" onClick={handleAddYear} className="flex items-center gap-1 px-3 py-2 text-sm font-medium bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200"><PlusCircle size={14} /> Ano</button>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div><label className="block text-sm font-medium">INSS (%)</label><input type="number" step="0.01" min="0" value={draft.inssRate} onChange={(e) => setDraft({ ...draft, inssRate: e.target.value })} className={INPUT_CLASS} /></div>
+                <div><label className="block text-sm font-medium">Teto INSS (R$)</label><input type="number" step="0.01" min="0" value={draft.inssCeiling} onChange={(e) => setDraft({ ...draft, inssCeiling: e.target.value })} className={INPUT_CLASS} /></div>
+                <div><label className="block text-sm font-medium">ISS (%)</label><input type="number" step="0.01" min="0" value={draft.issRate} onChange={(e) => setDraft({ ...draft, issRate: e.target.value })} className={INPUT_CLASS} /></div>
+                <div><label className="block text-sm font-medium">Vencimento ISS (dia)</label><input type="number" min="1" max="31" value={draft.issDueDay} onChange={(e) => setDraft({ ...draft, issDueDay: e.target.value })} className={INPUT_CLASS} /></div>
+            </div>
+            <div>
+                <label className="block text-sm font-medium mb-1">Tabela progressiva do IRRF (base = bruto - INSS)</label>
+                <div className="space-y-2">
+                    {draft.brackets.map((bracket, i) => (
+                        <div key={i} className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2 items-center">
+                            <input type="number" step="0.01" min="0" value={bracket.upTo} onChange={(e) => setBracket(i, 'upTo', e.target.value)} placeholder="Até R$ (vazio = acima)" className={INPUT_CLASS} />
+                            <input type="number" step="0.01" min="0" value={bracket.rate} onChange={(e) => setBracket(i, 'rate', e.target.value)} placeholder="Alíquota %" className={INPUT_CLASS} />
+                            <input type="number" step="0.01" min="0" value={bracket.deduction} onChange={(e) => setBracket(i, 'deduction', e.target.value)} placeholder="Dedução R$" className={INPUT_CLASS} />
+                            <button type="button" onClick={() => setDraft({ ...draft, brackets: draft.brackets.filter((_, j) => j !== i) })} className="p-1 text-gray-400 hover:text-red-500"><X size={16} /></button>
+                        </div>
+                    ))}
+                </div>
+                <button type="button" onClick={() => setDraft({ ...draft, brackets: [...draft.brackets, { upTo: '', rate: '', deduction: '' }] })} className="mt-2 text-xs text-secondary-700 dark:text-secondary-400 hover:underline">+ Adicionar faixa</button>
+            </div>
+            <div className="flex justify-between items-center">
+                <button type="button" onClick={handleRestoreDefaults} className="text-xs text-gray-500 hover:underline">Restaurar valores padrão</button>
+                <div className="flex gap-2">
+                    {isSaved && <button type="button" onClick={handleDelete} className="flex items-center gap-1 px-4 py-2 text-sm font-medium text-red-600 bg-red-50 dark:bg-red-900/30 rounded-lg hover:bg-red-100"><Trash2 size={14} /> Excluir</button>}
+                    <button type="submit" className="px-4 py-2 text-sm font-medium text-white bg-secondary-700 rounded-lg hover:bg-secondary-800">Salvar</button>
+                </div>
+            </div>
+        </form>
+    );
+};
@@ -26,7 +26,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     try {
       const { data: profile, error } = await supabase
         .from('profiles')
-        .select('id, name, email, role, avatar_url')
+        .select('*')
         .eq('id', supabaseUser.id)
         .single();
 
@@ -37,7 +37,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
       return {
         id: profile.id, email: profile.email, name: profile.name,
-        role: profile.role, avatarUrl: profile.avatar_url,
+        role: profile.role, avatarUrl: profile.avatar_url, memberId: profile.member_id ?? null,
       };
     } catch (error: any) {
         console.error("Error fetching user profile:", error.message);
@@ -63,6 +63,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
           name: profile.name,
           role: profile.role,
           avatarUrl: profile.avatar_url,
+          memberId: profile.member_id ?? null,
       })));
     } catch (error: any) {
         console.error("Error fetching users:", error.message);
@@ -162,7 +163,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   }, [fetchUsers]);
   
   const updateUser = useCallback(async (userId: string, data: Partial<User>) => {
-     const snakeCaseData = { name: data.name, role: data.role, email: data.email };
+     const snakeCaseData = { name: data.name, role: data.role, email: data.email, member_id: data.memberId };
      Object.keys(snakeCaseData).forEach(key => (snakeCaseData as any)[key] === undefined && delete (snakeCaseData as any)[key]);
 
      const { error } = await supabase.from('profiles').update(snakeCaseData).eq('id', userId);
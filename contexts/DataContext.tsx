@@ -1,7 +1,15 @@
 import React, { createContext, useState, useContext, ReactNode, useCallback, useEffect } from 'react';
-import { Member, Transaction, Event, Document, Communication, Project, ServiceProvider, InventoryItem } from '../types';
+import { Member, Transaction, Event, Document, Communication, Project, ServiceProvider, InventoryItem, DuesCharge, DuesSettings, EventCharge, AccountCategory, PixSettings, FinancialAccount, AccountTransfer, ProjectBudgetLine, AccountabilityLayout, RecurringTemplate, AssociationSettings, Receipt, Rpa, TaxPayable, WithholdingTable, FiscalPeriod, FiscalPeriodLog, TransactionChange, LedgerFilters, LedgerPage, TransactionSummary, ProjectExpenseSummary, LedgerAccount, JournalEntry, JournalLine, TrialBalanceRow, GeneralLedgerRow, FinancialAlert, AlertSettings, RegistrationDuplicate, MemberCard, MemberCardVerification, MembershipApplication, MembershipApplicationForm, MembershipApplicationStatus, MembershipSettings, MembershipVoteChoice, MemberPortalData, MemberContactForm } from '../types';
 import { supabase } from '../supabaseClient';
 import { useAuth } from './AuthContext';
+import { DEFAULT_DUES_SETTINGS, buildMissingCharges, formatCompetence, toCompetence } from '../utils/dues';
+import { buildRecurringTransaction, getDueOccurrences, nextOccurrenceAfter } from '../utils/recurring';
+import { assertPeriodsOpen, isPeriodClosed } from '../utils/fiscalPeriods';
+import { buildProofDocument } from '../utils/attachments';
+import { buildTaxPayables, calculateWithholding, findWithholdingTable } from '../utils/rpa';
+import { formatBRL } from '../utils/print';
+import { buildWelcomeEmail } from '../utils/membership';
+import { PROJECT_NAME } from '../constants';
 
 // Utilitários de conversão de case
 const snakeToCamel = (obj: any): any => {
@@ -24,41 +32,178 @@ const camelToSnake = (obj: any): any => {
   }, {} as { [key: string]: any });
 };
 
+// Lança as ocorrências vencidas dos modelos recorrentes automáticos e avança o cursor de cada um.
+// O índice único (recurring_template_id, date) impede duplicidade se dois usuários abrirem o app ao mesmo tempo.
+// Ocorrências em período fechado são puladas (o cursor passa por elas) e devolvidas para aviso único.
+const generateDueRecurringTransactions = async (): Promise<{ generated: number; skipped: string[] }> => {
+  const [{ data, error }, { data: periods }] = await Promise.all([
+    supabase.from('recurring_templates').select('*').eq('active', true).eq('auto_confirm', true),
+    supabase.from('fiscal_periods').select('*').eq('status', 'Closed'),
+  ]);
+  if (error || !data) return { generated: 0, skipped: [] }; // Tabela ainda não criada: ignora
+  const closedPeriods = snakeToCamel(periods || []) as FiscalPeriod[];
+  let generated = 0;
+  const skipped: string[] = [];
+  for (const template of snakeToCamel(data) as RecurringTemplate[]) {
+    const dates = getDueOccurrences(template);
+    if (dates.length === 0) continue;
+    const openDates = dates.filter(date => !isPeriodClosed(closedPeriods, date));
+    dates.filter(date => isPeriodClosed(closedPeriods, date)).forEach(date => skipped.push(`${template.description} (${formatCompetence(toCompetence(date))})`));
+    if (openDates.length > 0) {
+      const rows = openDates.map(date => camelToSnake(buildRecurringTransaction(template, date)));
+      const { error: insError } = await supabase.from('transactions').upsert(rows, { onConflict: 'recurring_template_id,date', ignoreDuplicates: true });
+      if (insError) throw insError;
+    }
+    const { error: updError } = await supabase.from('recurring_templates').update({ next_due_date: nextOccurrenceAfter(template, dates[dates.length - 1]) }).eq('id', template.id);
+    if (updError) throw updError;
+    generated += openDates.length;
+  }
+  return { generated, skipped };
+};
+
+// Transações recentes mantidas em memória (conciliação, recibos, IA); totais e livro-caixa vêm do banco
+const RECENT_TRANSACTIONS_LIMIT = 200;
+const FULL_QUERY_PAGE_SIZE = 1000;
+const MEMBER_IMPORT_BATCH_SIZE = 50;
+
+const buildLedgerParams = (filters: LedgerFilters) => ({
+  p_start: filters.startDate || null,
+  p_end: filters.endDate || null,
+  p_type: filters.type || null,
+  p_member_id: filters.memberId || null,
+  p_project_id: filters.projectId || null,
+  p_provider_id: filters.providerId || null,
+  p_min_amount: filters.minAmount ? parseFloat(filters.minAmount) : null,
+  p_max_amount: filters.maxAmount ? parseFloat(filters.maxAmount) : null,
+  p_search: filters.search?.trim() || null,
+  p_missing_proof: !!filters.missingProof,
+});
+
 interface DataContextType {
   members: Member[];
-  transactions: Transaction[];
+  transactions: Transaction[]; // Janela das transações mais recentes (o livro-caixa completo é paginado no banco)
+  transactionSummary: TransactionSummary[];
+  projectExpenseSummary: ProjectExpenseSummary[];
   events: Event[];
   documents: Document[];
   communications: Communication[];
   projects: Project[]; // Novo
   providers: ServiceProvider[]; // Novo
   inventory: InventoryItem[]; // Novo
+  duesCharges: DuesCharge[];
+  duesSettings: DuesSettings;
+  categories: AccountCategory[];
+  pixSettings: PixSettings | null;
+  fiscalPeriods: FiscalPeriod[];
+  fiscalPeriodLogs: FiscalPeriodLog[];
+  financialAccounts: FinancialAccount[];
+  transfers: AccountTransfer[];
+  budgetLines: ProjectBudgetLine[];
+  accountabilityLayouts: AccountabilityLayout[];
+  recurringTemplates: RecurringTemplate[];
+  associationSettings: AssociationSettings | null;
+  withholdingTables: WithholdingTable[];
+  taxPayables: TaxPayable[];
+  ledgerAccounts: LedgerAccount[];
+  financialAlerts: FinancialAlert[];
+  alertSettings: AlertSettings;
+  membershipSettings: MembershipSettings;
   loading: boolean;
   error: string | null;
   
   fetchMembers: (search?: string, status?: string) => Promise<void>;
+  fetchAllMembers: () => Promise<Member[]>;
+  findRegistrationDuplicates: (document: string, email: string, exclude?: { kind: RegistrationDuplicate['kind']; id: string }) => Promise<RegistrationDuplicate[]>;
   fetchAllData: () => Promise<void>;
 
   addMember: (data: Omit<Member, 'id'>) => Promise<void>;
+  importMembers: (data: Omit<Member, 'id'>[]) => Promise<(string | null)[]>;
+  fetchActiveMemberCard: (memberId: string) => Promise<MemberCard | null>;
+  issueMemberCard: (memberId: string, validUntil: string) => Promise<MemberCard | null>;
+  verifyMemberCard: (token: string) => Promise<MemberCardVerification | null>;
+  submitMembershipApplication: (form: MembershipApplicationForm) => Promise<void>;
+  fetchMembershipApplications: (status?: MembershipApplicationStatus) => Promise<MembershipApplication[]>;
+  castMembershipVote: (application: MembershipApplication, vote: MembershipVoteChoice, comment: string) => Promise<MembershipApplicationStatus | null>;
   updateMember: (id: string, data: Partial<Member>) => Promise<void>;
   deleteMember: (id: string) => Promise<void>;
   
-  addTransaction: (data: Omit<Transaction, 'id'>) => Promise<void>;
+  addTransaction: (data: Omit<Transaction, 'id'>, attachments?: File[]) => Promise<boolean>;
+  updateTransaction: (id: string, data: Partial<Transaction>) => Promise<void>;
+  fetchTransactionHistory: (transactionId: string) => Promise<TransactionChange[]>;
+  fetchLedgerPage: (filters: LedgerFilters, page: number, pageSize: number) => Promise<LedgerPage>;
+  fetchTransactions: (filters: LedgerFilters) => Promise<Transaction[]>;
   deleteTransaction: (id: string) => Promise<void>;
+  reconcileTransaction: (id: string, bankRef: string) => Promise<boolean>;
+
+  // Lançamentos recorrentes
+  addRecurringTemplate: (data: Omit<RecurringTemplate, 'id' | 'nextDueDate'>) => Promise<void>;
+  updateRecurringTemplate: (id: string, data: Partial<RecurringTemplate>) => Promise<void>;
+  deleteRecurringTemplate: (id: string) => Promise<void>;
+  confirmRecurringDraft: (template: RecurringTemplate) => Promise<void>;
+  skipRecurringDraft: (template: RecurringTemplate) => Promise<void>;
   
   addEvent: (data: Omit<Event, 'id'>) => Promise<void>;
   updateEvent: (id: string, data: Omit<Event, 'id'>) => Promise<void>;
   deleteEvent: (id: string) => Promise<void>;
   
-  addDocument: (data: Omit<Document, 'id' | 'url'>, file: File) => Promise<void>;
+  addDocument: (data: Omit<Document, 'id' | 'url'>, file: File) => Promise<boolean>;
   deleteDocument: (doc: Document) => Promise<void>;
+  updateDocument: (id: string, data: Partial<Document>) => Promise<void>;
   
   sendCommunication: (data: Omit<Communication, 'id'>, recipients: string[]) => Promise<void>;
 
+  // Recibos
+  updateAssociationSettings: (data: AssociationSettings) => Promise<void>;
+  issueReceipt: (transaction: Transaction) => Promise<Receipt | null>;
+  sendReceiptEmail: (recipient: string, subject: string, message: string, html: string) => Promise<void>;
+
+  // RPA e tributos retidos
+  saveWithholdingTable: (data: WithholdingTable) => Promise<void>;
+  deleteWithholdingTable: (year: number) => Promise<void>;
+  fetchRpa: (transactionId: string) => Promise<Rpa | null>;
+  issueRpa: (transaction: Transaction, provider: ServiceProvider, grossAmount: number) => Promise<Rpa | null>;
+  payTaxPayable: (payable: TaxPayable, payment: Omit<Transaction, 'id'>) => Promise<void>;
+
+  // Contabilidade em partidas dobradas
+  addLedgerAccount: (data: Omit<LedgerAccount, 'id'>) => Promise<void>;
+  updateLedgerAccount: (id: string, data: Partial<LedgerAccount>) => Promise<void>;
+  deleteLedgerAccount: (id: string) => Promise<void>;
+  fetchJournal: (start: string, end: string) => Promise<JournalEntry[]>;
+  fetchTrialBalance: (start: string | null, end: string) => Promise<TrialBalanceRow[]>;
+  fetchGeneralLedger: (accountId: string, start: string, end: string) => Promise<GeneralLedgerRow[]>;
+  addManualJournalEntry: (date: string, description: string, lines: JournalLine[]) => Promise<boolean>;
+  deleteManualJournalEntry: (id: string) => Promise<void>;
+  migrateJournal: () => Promise<void>;
+  rebuildJournal: () => Promise<void>;
+
+  // Alertas financeiros
+  updateAlertSettings: (data: AlertSettings) => Promise<void>;
+  updateMembershipSettings: (data: MembershipSettings) => Promise<void>;
+
+  fetchMemberPortal: () => Promise<MemberPortalData | null>;
+  updateMyContact: (data: MemberContactForm) => Promise<boolean>;
+  registerForEvent: (eventId: string, memberId: string) => Promise<boolean>;
+  cancelEventRegistration: (eventId: string, memberId: string) => Promise<boolean>;
+  reviewAlert: (alert: FinancialAlert) => Promise<void>;
+  reopenAlert: (alert: FinancialAlert) => Promise<void>;
+
+  // Fechamento de períodos (Super Admin)
+  closeFiscalPeriod: (period: string) => Promise<void>;
+  reopenFiscalPeriod: (period: string, justification: string) => Promise<void>;
+
   // Novos CRUDs
   addProject: (data: Omit<Project, 'id'>) => Promise<void>;
   updateProject: (id: string, data: Partial<Project>) => Promise<void>;
   deleteProject: (id: string) => Promise<void>;
+  addBudgetLine: (data: Omit<ProjectBudgetLine, 'id'>) => Promise<void>;
+  updateBudgetLine: (id: string, data: Partial<ProjectBudgetLine>) => Promise<void>;
+  deleteBudgetLine: (id: string) => Promise<void>;
+
+  // Prestação de contas
+  fetchProjectTransactions: (projectId: string) => Promise<Transaction[]>;
+  addAccountabilityLayout: (data: Omit<AccountabilityLayout, 'id'>) => Promise<void>;
+  updateAccountabilityLayout: (id: string, data: Partial<AccountabilityLayout>) => Promise<void>;
+  deleteAccountabilityLayout: (id: string) => Promise<void>;
 
   addProvider: (data: Omit<ServiceProvider, 'id'>) => Promise<void>;
   updateProvider: (id: string, data: Partial<ServiceProvider>) => Promise<void>;
@@ -67,6 +212,25 @@ interface DataContextType {
   addInventoryItem: (data: Omit<InventoryItem, 'id'>) => Promise<void>;
   updateInventoryItem: (id: string, data: Partial<InventoryItem>) => Promise<void>;
   deleteInventoryItem: (id: string) => Promise<void>;
+
+  // Mensalidades
+  updateDuesSettings: (data: DuesSettings) => Promise<void>;
+  generateDuesCharges: () => Promise<number>;
+  setDuesChargeTxid: (id: string, txid: string) => Promise<void>;
+  createEventCharge: (event: Event) => Promise<EventCharge | null>;
+  updatePixSettings: (data: PixSettings) => Promise<void>;
+
+  // Plano de contas
+  addCategory: (data: Omit<AccountCategory, 'id'>) => Promise<void>;
+  updateCategory: (id: string, data: Partial<AccountCategory>) => Promise<void>;
+  deleteCategory: (id: string) => Promise<void>;
+
+  // Contas financeiras e transferências
+  addFinancialAccount: (data: Omit<FinancialAccount, 'id'>) => Promise<void>;
+  updateFinancialAccount: (id: string, data: Partial<FinancialAccount>) => Promise<void>;
+  deleteFinancialAccount: (id: string) => Promise<void>;
+  addTransfer: (data: Omit<AccountTransfer, 'id'>) => Promise<void>;
+  deleteTransfer: (id: string) => Promise<void>;
 }
 
 const DataContext = createContext<DataContextType | undefined>(undefined);
@@ -75,12 +239,32 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   const { currentUser } = useAuth();
   const [members, setMembers] = useState<Member[]>([]);
   const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [transactionSummary, setTransactionSummary] = useState<TransactionSummary[]>([]);
+  const [projectExpenseSummary, setProjectExpenseSummary] = useState<ProjectExpenseSummary[]>([]);
   const [events, setEvents] = useState<Event[]>([]);
   const [documents, setDocuments] = useState<Document[]>([]);
   const [communications, setCommunications] = useState<Communication[]>([]);
   const [projects, setProjects] = useState<Project[]>([]);
   const [providers, setProviders] = useState<ServiceProvider[]>([]);
   const [inventory, setInventory] = useState<InventoryItem[]>([]);
+  const [duesCharges, setDuesCharges] = useState<DuesCharge[]>([]);
+  const [duesSettings, setDuesSettings] = useState<DuesSettings>(DEFAULT_DUES_SETTINGS);
+  const [categories, setCategories] = useState<AccountCategory[]>([]);
+  const [pixSettings, setPixSettings] = useState<PixSettings | null>(null);
+  const [financialAccounts, setFinancialAccounts] = useState<FinancialAccount[]>([]);
+  const [transfers, setTransfers] = useState<AccountTransfer[]>([]);
+  const [budgetLines, setBudgetLines] = useState<ProjectBudgetLine[]>([]);
+  const [accountabilityLayouts, setAccountabilityLayouts] = useState<AccountabilityLayout[]>([]);
+  const [recurringTemplates, setRecurringTemplates] = useState<RecurringTemplate[]>([]);
+  const [associationSettings, setAssociationSettings] = useState<AssociationSettings | null>(null);
+  const [withholdingTables, setWithholdingTables] = useState<WithholdingTable[]>([]);
+  const [taxPayables, setTaxPayables] = useState<TaxPayable[]>([]);
+  const [ledgerAccounts, setLedgerAccounts] = useState<LedgerAccount[]>([]);
+  const [financialAlerts, setFinancialAlerts] = useState<FinancialAlert[]>([]);
+  const [alertSettings, setAlertSettings] = useState<AlertSettings>({ expenseThreshold: 1000 });
+  const [membershipSettings, setMembershipSettings] = useState<MembershipSettings>({ quorum: 3 });
+  const [fiscalPeriods, setFiscalPeriods] = useState<FiscalPeriod[]>([]);
+  const [fiscalPeriodLogs, setFiscalPeriodLogs] = useState<FiscalPeriodLog[]>([]);
   
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -104,12 +288,51 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     } catch (err) { handleError(err, 'buscar membros'); } finally { setLoading(false); }
   }, []);
 
+  // Sem o limite da listagem: usado nos relatórios
+  const fetchAllMembers = async (): Promise<Member[]> => {
+    try {
+      const { data, error } = await supabase.from('members').select('*').order('name', { ascending: true });
+      if (error) throw error;
+      return snakeToCamel(data) as Member[];
+    } catch (err) { handleError(err, 'buscar membros'); return []; }
+  };
+
+  const findRegistrationDuplicates = async (document: string, email: string, exclude?: { kind: RegistrationDuplicate['kind']; id: string }): Promise<RegistrationDuplicate[]> => {
+    try {
+      const { data, error } = await supabase.rpc('find_registration_duplicates', { p_document: document, p_email: email });
+      if (error) throw error;
+      return (snakeToCamel(data) as RegistrationDuplicate[]).filter(d => !(exclude && d.kind === exclude.kind && d.id === exclude.id));
+    } catch (err) { handleError(err, 'verificar duplicidade'); return []; }
+  };
+
   const fetchAllData = useCallback(async () => {
     if (!currentUser) return;
     setLoading(true);
     try {
-      const [transRes, eventsRes, docsRes, commsRes, projRes, provRes, invRes] = await Promise.all([
-        supabase.from('transactions').select('*').order('date', { ascending: false }).limit(200),
+      // Associados usam só o portal, que busca os próprios dados em fetchMemberPortal
+      if (currentUser.role === 'Associado') {
+        const [eventsRes, docsRes, associationRes, pixRes, duesSettingsRes] = await Promise.all([
+          supabase.from('events').select('*').order('date', { ascending: false }),
+          supabase.from('documents').select('*').eq('member_visible', true).order('upload_date', { ascending: false }),
+          supabase.from('association_settings').select('*').eq('id', 1).maybeSingle(),
+          supabase.from('pix_settings').select('*').eq('id', 1).maybeSingle(),
+          supabase.from('dues_settings').select('*').eq('id', 1).maybeSingle(),
+        ]);
+        setEvents(snakeToCamel(eventsRes.data || []) as Event[]);
+        setDocuments(snakeToCamel(docsRes.data || []) as Document[]);
+        if (associationRes.data) { const { id, ...association } = snakeToCamel(associationRes.data); setAssociationSettings(association as AssociationSettings); }
+        if (pixRes.data) { const { id, ...pix } = snakeToCamel(pixRes.data); setPixSettings(pix as PixSettings); }
+        if (duesSettingsRes.data) { const { id, ...settings } = snakeToCamel(duesSettingsRes.data); setDuesSettings(settings as DuesSettings); }
+        return;
+      }
+      if (currentUser.role === 'Super Admin' || currentUser.role === 'Financeiro') {
+        try {
+          const { skipped } = await generateDueRecurringTransactions();
+          if (skipped.length > 0) handleError(new Error(`Lançamentos recorrentes pulados por período fechado: ${skipped.join(', ')}. Lance-os manualmente após a reabertura, se necessário.`), 'gerar lançamentos recorrentes');
+        } catch (err) { handleError(err, 'gerar lançamentos recorrentes'); }
+      }
+      const [transRes, eventsRes, docsRes, commsRes, projRes, provRes, invRes, chargesRes, duesSettingsRes, catRes, pixRes, accountsRes, transfersRes, budgetLinesRes, recurringRes, associationRes, periodsRes, periodLogsRes, summaryRes, projectExpensesRes, layoutsRes, withholdingRes, payablesRes, ledgerAccountsRes, alertsRes, alertSettingsRes, membershipSettingsRes] = await Promise.all([
+        supabase.from('transactions').select('*').order('date', { ascending: false }).limit(RECENT_TRANSACTIONS_LIMIT),
         supabase.from('events').select('*').order('date', { ascending: false }),
         supabase.from('documents').select('*').order('upload_date', { ascending: false }),
         supabase.from('communications').select('*').order('sent_at', { ascending: false }),
@@ -117,10 +340,32 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         supabase.from('projects').select('*').order('start_date', { ascending: false }), 
         supabase.from('service_providers').select('*').order('name', { ascending: true }),
         supabase.from('inventory').select('*').order('name', { ascending: true }),
+        supabase.from('dues_charges').select('*').order('competence', { ascending: false }),
+        supabase.from('dues_settings').select('*').eq('id', 1).maybeSingle(),
+        supabase.from('account_categories').select('*').order('code', { ascending: true }),
+        supabase.from('pix_settings').select('*').eq('id', 1).maybeSingle(),
+        supabase.from('financial_accounts').select('*').order('name', { ascending: true }),
+        supabase.from('account_transfers').select('*').order('date', { ascending: false }),
+        supabase.from('project_budget_lines').select('*').order('name', { ascending: true }),
+        supabase.from('recurring_templates').select('*').order('description', { ascending: true }),
+        supabase.from('association_settings').select('*').eq('id', 1).maybeSingle(),
+        supabase.from('fiscal_periods').select('*').order('period', { ascending: false }),
+        supabase.from('fiscal_period_logs').select('*').order('created_at', { ascending: false }),
+        supabase.rpc('transaction_summary'),
+        supabase.rpc('project_expense_summary'),
+        supabase.from('accountability_layouts').select('*').order('name', { ascending: true }),
+        supabase.from('withholding_tables').select('*').order('year', { ascending: false }),
+        supabase.from('tax_payables').select('*').order('due_date', { ascending: true }),
+        supabase.from('ledger_accounts').select('*').order('code', { ascending: true }),
+        supabase.rpc('financial_alerts'),
+        supabase.from('alert_settings').select('*').eq('id', 1).maybeSingle(),
+        supabase.from('membership_settings').select('*').eq('id', 1).maybeSingle(),
       ]);
 
       if (transRes.error) throw transRes.error;
       setTransactions(snakeToCamel(transRes.data) as Transaction[]);
+      setTransactionSummary(snakeToCamel(summaryRes.data || []) as TransactionSummary[]);
+      setProjectExpenseSummary(snakeToCamel(projectExpensesRes.data || []) as ProjectExpenseSummary[]);
       setEvents(snakeToCamel(eventsRes.data || []) as Event[]);
       setDocuments(snakeToCamel(docsRes.data || []) as Document[]);
       setCommunications(snakeToCamel(commsRes.data || []) as Communication[]);
@@ -129,6 +374,24 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       setProjects(snakeToCamel(projRes.data || []) as Project[]);
       setProviders(snakeToCamel(provRes.data || []) as ServiceProvider[]);
       setInventory(snakeToCamel(invRes.data || []) as InventoryItem[]);
+      setDuesCharges(snakeToCamel(chargesRes.data || []) as DuesCharge[]);
+      setCategories(snakeToCamel(catRes.data || []) as AccountCategory[]);
+      setFinancialAccounts(snakeToCamel(accountsRes.data || []) as FinancialAccount[]);
+      setTransfers(snakeToCamel(transfersRes.data || []) as AccountTransfer[]);
+      setBudgetLines(snakeToCamel(budgetLinesRes.data || []) as ProjectBudgetLine[]);
+      setAccountabilityLayouts(snakeToCamel(layoutsRes.data || []) as AccountabilityLayout[]);
+      setRecurringTemplates(snakeToCamel(recurringRes.data || []) as RecurringTemplate[]);
+      setFiscalPeriods(snakeToCamel(periodsRes.data || []) as FiscalPeriod[]);
+      setFiscalPeriodLogs(snakeToCamel(periodLogsRes.data || []) as FiscalPeriodLog[]);
+      setWithholdingTables(snakeToCamel(withholdingRes.data || []) as WithholdingTable[]);
+      setTaxPayables(snakeToCamel(payablesRes.data || []) as TaxPayable[]);
+      setLedgerAccounts(snakeToCamel(ledgerAccountsRes.data || []) as LedgerAccount[]);
+      setFinancialAlerts(snakeToCamel(alertsRes.data || []) as FinancialAlert[]);
+      if (alertSettingsRes.data) setAlertSettings({ expenseThreshold: Number(alertSettingsRes.data.expense_threshold) });
+      if (membershipSettingsRes.data) setMembershipSettings({ quorum: Number(membershipSettingsRes.data.quorum) });
+      if (associationRes.data) { const { id, ...association } = snakeToCamel(associationRes.data); setAssociationSettings(association as AssociationSettings); }
+      if (pixRes.data) { const { id, ...pix } = snakeToCamel(pixRes.data); setPixSettings(pix as PixSettings); }
+      if (duesSettingsRes.data) { const { id, ...settings } = snakeToCamel(duesSettingsRes.data); setDuesSettings(settings as DuesSettings); }
       
       await fetchMembers();
 
@@ -139,17 +402,210 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   const addMember = async (data: Omit<Member, 'id'>) => {
     try { const { error } = await supabase.from('members').insert([camelToSnake(data)]); if (error) throw error; await fetchMembers(); } catch (err) { handleError(err, 'adicionar membro'); }
   };
+  // Insere em lotes; se um lote falha, repete linha a linha para saber quais deram erro.
+  // Devolve, na ordem recebida, null (importado) ou a mensagem de erro.
+  const importMembers = async (data: Omit<Member, 'id'>[]): Promise<(string | null)[]> => {
+    const results: (string | null)[] = [];
+    for (let start = 0; start < data.length; start += MEMBER_IMPORT_BATCH_SIZE) {
+      const batch = data.slice(start, start + MEMBER_IMPORT_BATCH_SIZE);
+      const { error } = await supabase.from('members').insert(batch.map(m => camelToSnake(m)));
+      if (!error) { results.push(...batch.map(() => null)); continue; }
+      for (const member of batch) {
+        const { error: rowError } = await supabase.from('members').insert([camelToSnake(member)]);
+        results.push(rowError ? rowError.message : null);
+      }
+    }
+    await fetchMembers();
+    return results;
+  };
+  const fetchActiveMemberCard = async (memberId: string): Promise<MemberCard | null> => {
+    try {
+      const { data, error } = await supabase.from('member_cards').select('*').eq('member_id', memberId).is('revoked_at', null).order('issued_at', { ascending: false }).limit(1).maybeSingle();
+      if (error) throw error;
+      return data ? snakeToCamel(data) as MemberCard : null;
+    } catch (err) { handleError(err, 'carregar carteirinha'); return null; }
+  };
+  const issueMemberCard = async (memberId: string, validUntil: string): Promise<MemberCard | null> => {
+    try {
+      const { data, error } = await supabase.rpc('issue_member_card', { p_member_id: memberId, p_valid_until: validUntil });
+      if (error) throw error;
+      return snakeToCamel(data) as MemberCard;
+    } catch (err) { handleError(err, 'emitir carteirinha'); return null; }
+  };
+  // Usada na tela pública de verificação, sem usuário logado
+  const verifyMemberCard = async (token: string): Promise<MemberCardVerification | null> => {
+    try {
+      const { data, error } = await supabase.rpc('verify_member_card', { p_token: token });
+      if (error) throw error;
+      return data?.[0] ? snakeToCamel(data[0]) as MemberCardVerification : null;
+    } catch (err) { handleError(err, 'verificar carteirinha'); return null; }
+  };
+  // Formulário público de inscrição: o erro volta para a tela, que não tem o toast do app
+  const submitMembershipApplication = async (form: MembershipApplicationForm) => {
+    try {
+      const { error } = await supabase.rpc('submit_membership_application', {
+        p_name: form.name, p_email: form.email, p_cpf: form.cpf, p_phone: form.phone, p_birth_date: form.birthDate || null,
+        p_address: form.address, p_city: form.city, p_state: form.state, p_message: form.message,
+      });
+      if (error) throw error;
+    } catch (err) { handleError(err, 'enviar inscrição'); throw err; }
+  };
+  const fetchMembershipApplications = async (status?: MembershipApplicationStatus): Promise<MembershipApplication[]> => {
+    try {
+      let query = supabase.from('membership_applications').select('*, member:members(*), votes:membership_votes(*)').order('submitted_at', { ascending: false });
+      if (status) query = query.eq('status', status);
+      const { data, error } = await query;
+      if (error) throw error;
+      return snakeToCamel(data || []) as MembershipApplication[];
+    } catch (err) { handleError(err, 'carregar inscrições'); return []; }
+  };
+  // O banco confere se quem vota é da Diretoria e aplica o quórum; aprovada, o novo membro recebe as boas-vindas
+  const castMembershipVote = async (application: MembershipApplication, vote: MembershipVoteChoice, comment: string): Promise<MembershipApplicationStatus | null> => {
+    let status: MembershipApplicationStatus;
+    try {
+      const { data, error } = await supabase.rpc('cast_membership_vote', { p_application_id: application.id, p_vote: vote, p_comment: comment });
+      if (error) throw error;
+      status = data as MembershipApplicationStatus;
+    } catch (err) { handleError(err, 'registrar voto'); return null; }
+    if (status !== 'Pending') await fetchMembers();
+    if (status === 'Approved') {
+      try {
+        const { subject, message } = buildWelcomeEmail(application.member.name, associationSettings?.name || PROJECT_NAME);
+        const { error } = await supabase.functions.invoke('send-email', { body: { recipients: [application.member.email], subject, message } });
+        if (error) throw new Error(`Erro ao enviar email de boas-vindas: ${error.message}`);
+      } catch (err) { handleError(err, 'enviar email de boas-vindas'); }
+    }
+    return status;
+  };
   const updateMember = async (id: string, data: Partial<Member>) => {
     try { const { error } = await supabase.from('members').update(camelToSnake(data)).eq('id', id); if (error) throw error; await fetchMembers(); } catch (err) { handleError(err, 'atualizar membro'); }
   };
   const deleteMember = async (id: string) => {
     try { const { error } = await supabase.from('members').delete().eq('id', id); if (error) throw error; await fetchMembers(); } catch (err) { handleError(err, 'excluir membro'); }
   };
-  const addTransaction = async (data: Omit<Transaction, 'id'>) => {
-    try { const { error } = await supabase.from('transactions').insert([camelToSnake(data)]); if (error) throw error; const { data: d } = await supabase.from('transactions').select('*').order('date', { ascending: false }).limit(200); setTransactions(snakeToCamel(d)); } catch (err) { handleError(err, 'adicionar transação'); }
+  const addTransaction = async (data: Omit<Transaction, 'id'>, attachments: File[] = []): Promise<boolean> => {
+    let insertedId: string;
+    try {
+      assertPeriodsOpen(fiscalPeriods, data.date);
+      // A quitação de mensalidades e inscrições é feita pelo trigger do banco, junto com a inclusão
+      const { data: row, error } = await supabase.from('transactions').insert([camelToSnake(data)]).select().single();
+      if (error) throw error;
+      insertedId = row.id;
+      await refreshTransactions();
+      if (data.type === 'Income') await refreshDuesCharges();
+    } catch (err) { handleError(err, 'adicionar transação'); return false; }
+    // A transação já está gravada: comprovante que falhou é avisado, sem desfazer a inclusão
+    let failedAttachments = 0;
+    for (const file of attachments) if (!(await addDocument(buildProofDocument(file, insertedId), file))) failedAttachments++;
+    if (failedAttachments > 0) handleError(new Error(`Transação salva, mas ${failedAttachments} comprovante(s) não foram anexados. Anexe novamente pela lista de transações.`), 'anexar comprovantes');
+    return true;
+  };
+  const refreshTransactions = async () => {
+    const [{ data: d }, { data: summary }, { data: projectExpenses }, { data: alerts }] = await Promise.all([
+      supabase.from('transactions').select('*').order('date', { ascending: false }).limit(RECENT_TRANSACTIONS_LIMIT),
+      supabase.rpc('transaction_summary'),
+      supabase.rpc('project_expense_summary'),
+      supabase.rpc('financial_alerts'),
+    ]);
+    setTransactions(snakeToCamel(d)); setTransactionSummary(snakeToCamel(summary || [])); setProjectExpenseSummary(snakeToCamel(projectExpenses || [])); setFinancialAlerts(snakeToCamel(alerts || []));
+  };
+  const refreshFinancialAlerts = async () => {
+    const { data, error } = await supabase.rpc('financial_alerts'); if (error) throw error;
+    setFinancialAlerts(snakeToCamel(data));
+  };
+  // Filtros e totais calculados no banco (filter_transactions); a página vem ordenada por data
+  const fetchLedgerPage = async (filters: LedgerFilters, page: number, pageSize: number): Promise<LedgerPage> => {
+    try {
+      const params = buildLedgerParams(filters);
+      const from = page * pageSize;
+      const [rowsRes, totalsRes] = await Promise.all([
+        supabase.rpc('filter_transactions', params, { count: 'exact' }).order('date', { ascending: false }).order('id').range(from, from + pageSize - 1),
+        supabase.rpc('filter_transactions_totals', params).single(),
+      ]);
+      if (rowsRes.error) throw rowsRes.error;
+      if (totalsRes.error) throw totalsRes.error;
+      const totals = totalsRes.data as { income: number; expense: number };
+      return { rows: snakeToCamel(rowsRes.data) as Transaction[], total: rowsRes.count ?? 0, income: Number(totals.income), expense: Number(totals.expense) };
+    } catch (err) { handleError(err, 'carregar livro-caixa'); return { rows: [], total: 0, income: 0, expense: 0 }; }
+  };
+  // Todas as transações dos filtros, sem a janela recente (relatórios, exportações e importação de extrato).
+  // Busca em páginas porque o PostgREST limita a quantidade de linhas por resposta.
+  const fetchTransactions = async (filters: LedgerFilters): Promise<Transaction[]> => {
+    try {
+      const params = buildLedgerParams(filters);
+      const rows: Transaction[] = [];
+      for (let from = 0; ; from += FULL_QUERY_PAGE_SIZE) {
+        const { data, error } = await supabase.rpc('filter_transactions', params).order('date', { ascending: false }).order('id').range(from, from + FULL_QUERY_PAGE_SIZE - 1);
+        if (error) throw error;
+        rows.push(...(snakeToCamel(data) as Transaction[]));
+        if (!data || data.length < FULL_QUERY_PAGE_SIZE) return rows;
+      }
+    } catch (err) { handleError(err, 'carregar transações'); return []; }
+  };
+  // O histórico (quem, quando, valor anterior e novo) é gravado pelo trigger do banco
+  const updateTransaction = async (id: string, data: Partial<Transaction>) => {
+    try {
+      // Lida do banco: a transação pode estar fora da janela recente
+      const { data: current, error: fetchError } = await supabase.from('transactions').select('*').eq('id', id).single();
+      if (fetchError) throw fetchError;
+      const before = snakeToCamel(current) as Transaction;
+      assertPeriodsOpen(fiscalPeriods, before.date, data.date);
+      // Valor, associado, tipo ou TXID alterados: o trigger do banco desfaz a quitação e quita de novo na mesma operação
+      const { error } = await supabase.from('transactions').update(camelToSnake(data)).eq('id', id); if (error) throw error;
+      const settlementKeys: (keyof Transaction)[] = ['amount', 'memberId', 'type', 'pixTxid'];
+      if (settlementKeys.some(key => key in data && (data[key] ?? null) !== (before[key] ?? null))) await refreshDuesCharges();
+      await refreshTransactions();
+    } catch (err) { handleError(err, 'atualizar transação'); }
+  };
+  const fetchTransactionHistory = async (transactionId: string): Promise<TransactionChange[]> => {
+    try {
+      const { data, error } = await supabase.from('transaction_history').select('*').eq('transaction_id', transactionId).order('changed_at', { ascending: false });
+      if (error) throw error;
+      return snakeToCamel(data) as TransactionChange[];
+    } catch (err) { handleError(err, 'carregar histórico da transação'); return []; }
+  };
+  // Data lida do banco: a transação pode estar fora da janela recente carregada em `transactions`
+  const fetchTransactionDate = async (id: string): Promise<string> => {
+    const { data, error } = await supabase.from('transactions').select('date').eq('id', id).single();
+    if (error) throw error;
+    return data.date;
   };
   const deleteTransaction = async (id: string) => {
-    try { const { error } = await supabase.from('transactions').delete().eq('id', id); if (error) throw error; setTransactions(prev => prev.filter(t => t.id !== id)); } catch (err) { handleError(err, 'excluir transação'); }
+    try {
+      assertPeriodsOpen(fiscalPeriods, await fetchTransactionDate(id));
+      // O banco reabre mensalidades, tributos e inscrições quitados por ela na mesma operação da exclusão
+      const { error } = await supabase.rpc('delete_transaction', { p_id: id }); if (error) throw error; await refreshTransactions();
+      setDuesCharges(prev => prev.map(c => c.transactionId === id ? { ...c, status: 'Open', paidAt: null, transactionId: null } : c));
+      setTaxPayables(prev => prev.map(p => p.transactionId === id ? { ...p, status: 'Open', paidAt: null, transactionId: null } : p));
+    } catch (err) { handleError(err, 'excluir transação'); }
+  };
+  const reconcileTransaction = async (id: string, bankRef: string): Promise<boolean> => {
+    try { assertPeriodsOpen(fiscalPeriods, await fetchTransactionDate(id)); const { error } = await supabase.from('transactions').update({ reconciled: true, bank_ref: bankRef }).eq('id', id); if (error) throw error; setTransactions(prev => prev.map(t => t.id === id ? { ...t, reconciled: true, bankRef } : t)); return true; } catch (err) { handleError(err, 'conciliar transação'); return false; }
+  };
+  const refreshRecurringTemplates = async () => {
+    const { data: d } = await supabase.from('recurring_templates').select('*').order('description', { ascending: true }); setRecurringTemplates(snakeToCamel(d || []));
+  };
+  const addRecurringTemplate = async (data: Omit<RecurringTemplate, 'id' | 'nextDueDate'>) => {
+    try { const { error } = await supabase.from('recurring_templates').insert([camelToSnake({ ...data, nextDueDate: data.startDate })]); if (error) throw error; await refreshRecurringTemplates(); } catch (err) { handleError(err, 'adicionar lançamento recorrente'); }
+  };
+  const updateRecurringTemplate = async (id: string, data: Partial<RecurringTemplate>) => {
+    try { const { error } = await supabase.from('recurring_templates').update(camelToSnake(data)).eq('id', id); if (error) throw error; await refreshRecurringTemplates(); } catch (err) { handleError(err, 'atualizar lançamento recorrente'); }
+  };
+  const deleteRecurringTemplate = async (id: string) => {
+    try { const { error } = await supabase.from('recurring_templates').delete().eq('id', id); if (error) throw error; setRecurringTemplates(prev => prev.filter(t => t.id !== id)); } catch (err) { handleError(err, 'excluir lançamento recorrente'); }
+  };
+  // Rascunhos são sempre tratados na ordem: a ocorrência pendente é a do cursor do modelo
+  const confirmRecurringDraft = async (template: RecurringTemplate) => {
+    try {
+      assertPeriodsOpen(fiscalPeriods, template.nextDueDate);
+      const { error } = await supabase.from('transactions').insert([camelToSnake(buildRecurringTransaction(template, template.nextDueDate))]); if (error) throw error;
+      const { error: updError } = await supabase.from('recurring_templates').update({ next_due_date: nextOccurrenceAfter(template, template.nextDueDate) }).eq('id', template.id); if (updError) throw updError;
+      await refreshTransactions();
+      await refreshRecurringTemplates();
+    } catch (err) { handleError(err, 'confirmar lançamento recorrente'); }
+  };
+  const skipRecurringDraft = async (template: RecurringTemplate) => {
+    await updateRecurringTemplate(template.id, { nextDueDate: nextOccurrenceAfter(template, template.nextDueDate) });
   };
   const addEvent = async (data: Omit<Event, 'id'>) => {
     try { const { error } = await supabase.from('events').insert([camelToSnake(data)]); if (error) throw error; const { data: d } = await supabase.from('events').select('*').order('date', { ascending: false }); setEvents(snakeToCamel(d)); } catch(err) { handleError(err, 'adicionar evento'); }
@@ -160,7 +616,7 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   const deleteEvent = async (id: string) => {
       try { const { error } = await supabase.from('events').delete().eq('id', id); if(error) throw error; setEvents(prev => prev.filter(e => e.id !== id)); } catch(err) { handleError(err, 'excluir evento'); }
   };
-  const addDocument = async (docData: Omit<Document, 'id' | 'url'>, file: File) => {
+  const addDocument = async (docData: Omit<Document, 'id' | 'url'>, file: File): Promise<boolean> => {
     try {
         const filePath = `${currentUser!.id}/${new Date().getTime()}-${file.name}`;
         const { error: uploadError } = await supabase.storage.from('documents').upload(filePath, file);
@@ -170,7 +626,8 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         if (dbError) throw dbError;
         const { data: d } = await supabase.from('documents').select('*').order('upload_date', { ascending: false });
         setDocuments(snakeToCamel(d));
-    } catch(err) { handleError(err, 'adicionar documento'); }
+        return true;
+    } catch(err) { handleError(err, 'adicionar documento'); return false; }
   };
   const deleteDocument = async (doc: Document) => {
       try {
@@ -182,6 +639,9 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
           setDocuments(prev => prev.filter(d => d.id !== doc.id));
       } catch(err) { handleError(err, 'excluir documento'); }
   };
+  const updateDocument = async (id: string, data: Partial<Document>) => {
+    try { const { error } = await supabase.from('documents').update(camelToSnake(data)).eq('id', id); if (error) throw error; setDocuments(prev => prev.map(d => d.id === id ? { ...d, ...data } : d)); } catch (err) { handleError(err, 'atualizar documento'); }
+  };
   
   const sendCommunication = async (data: Omit<Communication, 'id'>, recipients: string[]) => {
       try {
@@ -214,17 +674,44 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     try { const { error } = await supabase.from('projects').insert([camelToSnake(data)]); if (error) throw error; const { data: d } = await supabase.from('projects').select('*').order('start_date', { ascending: false }); setProjects(snakeToCamel(d)); } catch (err) { handleError(err, 'adicionar projeto'); }
   };
   const updateProject = async (id: string, data: Partial<Project>) => {
-    try { const { error } = await supabase.from('projects').update(camelToSnake(data)).eq('id', id); if (error) throw error; const { data: d } = await supabase.from('projects').select('*').order('start_date', { ascending: false }); setProjects(snakeToCamel(d)); } catch (err) { handleError(err, 'atualizar projeto'); }
+    try { const { error } = await supabase.from('projects').update(camelToSnake(data)).eq('id', id); if (error) throw error; const { data: d } = await supabase.from('projects').select('*').order('start_date', { ascending: false }); setProjects(snakeToCamel(d)); await refreshFinancialAlerts(); } catch (err) { handleError(err, 'atualizar projeto'); }
   };
   const deleteProject = async (id: string) => {
     try { const { error } = await supabase.from('projects').delete().eq('id', id); if (error) throw error; setProjects(prev => prev.filter(p => p.id !== id)); } catch (err) { handleError(err, 'excluir projeto'); }
   };
+  const addBudgetLine = async (data: Omit<ProjectBudgetLine, 'id'>) => {
+    try { const { error } = await supabase.from('project_budget_lines').insert([camelToSnake(data)]); if (error) throw error; const { data: d } = await supabase.from('project_budget_lines').select('*').order('name', { ascending: true }); setBudgetLines(snakeToCamel(d)); } catch (err) { handleError(err, 'adicionar rubrica'); }
+  };
+  const updateBudgetLine = async (id: string, data: Partial<ProjectBudgetLine>) => {
+    try { const { error } = await supabase.from('project_budget_lines').update(camelToSnake(data)).eq('id', id); if (error) throw error; const { data: d } = await supabase.from('project_budget_lines').select('*').order('name', { ascending: true }); setBudgetLines(snakeToCamel(d)); } catch (err) { handleError(err, 'atualizar rubrica'); }
+  };
+  const deleteBudgetLine = async (id: string) => {
+    try { const { error } = await supabase.from('project_budget_lines').delete().eq('id', id); if (error) throw error; setBudgetLines(prev => prev.filter(l => l.id !== id)); setTransactions(prev => prev.map(t => t.budgetLineId === id ? { ...t, budgetLineId: null } : t)); setProjectExpenseSummary(prev => prev.map(s => s.budgetLineId === id ? { ...s, budgetLineId: null } : s)); } catch (err) { handleError(err, 'excluir rubrica'); }
+  };
+
+  // Todas as transações do projeto, sem o limite da janela recente carregada no contexto
+  const fetchProjectTransactions = async (projectId: string): Promise<Transaction[]> => {
+    try {
+      const { data, error } = await supabase.from('transactions').select('*').eq('project_id', projectId).order('date', { ascending: true });
+      if (error) throw error;
+      return snakeToCamel(data) as Transaction[];
+    } catch (err) { handleError(err, 'carregar transações do projeto'); return []; }
+  };
+  const addAccountabilityLayout = async (data: Omit<AccountabilityLayout, 'id'>) => {
+    try { const { error } = await supabase.from('accountability_layouts').insert([camelToSnake(data)]); if (error) throw error; const { data: d } = await supabase.from('accountability_layouts').select('*').order('name', { ascending: true }); setAccountabilityLayouts(snakeToCamel(d)); } catch (err) { handleError(err, 'adicionar layout de prestação de contas'); }
+  };
+  const updateAccountabilityLayout = async (id: string, data: Partial<AccountabilityLayout>) => {
+    try { const { error } = await supabase.from('accountability_layouts').update(camelToSnake(data)).eq('id', id); if (error) throw error; const { data: d } = await supabase.from('accountability_layouts').select('*').order('name', { ascending: true }); setAccountabilityLayouts(snakeToCamel(d)); } catch (err) { handleError(err, 'atualizar layout de prestação de contas'); }
+  };
+  const deleteAccountabilityLayout = async (id: string) => {
+    try { const { error } = await supabase.from('accountability_layouts').delete().eq('id', id); if (error) throw error; setAccountabilityLayouts(prev => prev.filter(l => l.id !== id)); } catch (err) { handleError(err, 'excluir layout de prestação de contas'); }
+  };
 
   const addProvider = async (data: Omit<ServiceProvider, 'id'>) => {
     try { const { error } = await supabase.from('service_providers').insert([camelToSnake(data)]); if (error) throw error; const { data: d } = await supabase.from('service_providers').select('*').order('name', { ascending: true }); setProviders(snakeToCamel(d)); } catch (err) { handleError(err, 'adicionar prestador'); }
   };
   const updateProvider = async (id: string, data: Partial<ServiceProvider>) => {
-    try { const { error } = await supabase.from('service_providers').update(camelToSnake(data)).eq('id', id); if (error) throw error; const { data: d } = await supabase.from('service_providers').select('*').order('name', { ascending: true }); setProviders(snakeToCamel(d)); } catch (err) { handleError(err, 'atualizar prestador'); }
+    try { const { error } = await supabase.from('service_providers').update(camelToSnake(data)).eq('id', id); if (error) throw error; const { data: d } = await supabase.from('service_providers').select('*').order('name', { ascending: true }); setProviders(snakeToCamel(d)); await refreshFinancialAlerts(); } catch (err) { handleError(err, 'atualizar prestador'); }
   };
   const deleteProvider = async (id: string) => {
     try { const { error } = await supabase.from('service_providers').delete().eq('id', id); if (error) throw error; setProviders(prev => prev.filter(p => p.id !== id)); } catch (err) { handleError(err, 'excluir prestador'); }
@@ -240,6 +727,306 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     try { const { error } = await supabase.from('inventory').delete().eq('id', id); if (error) throw error; setInventory(prev => prev.filter(i => i.id !== id)); } catch (err) { handleError(err, 'excluir patrimônio'); }
   };
 
+  const addCategory = async (data: Omit<AccountCategory, 'id'>) => {
+    try { const { error } = await supabase.from('account_categories').insert([camelToSnake(data)]); if (error) throw error; const { data: d } = await supabase.from('account_categories').select('*').order('code', { ascending: true }); setCategories(snakeToCamel(d)); } catch (err) { handleError(err, 'adicionar categoria'); }
+  };
+  const updateCategory = async (id: string, data: Partial<AccountCategory>) => {
+    try { const { error } = await supabase.from('account_categories').update(camelToSnake(data)).eq('id', id); if (error) throw error; const { data: d } = await supabase.from('account_categories').select('*').order('code', { ascending: true }); setCategories(snakeToCamel(d)); } catch (err) { handleError(err, 'atualizar categoria'); }
+  };
+  const deleteCategory = async (id: string) => {
+    try { const { error } = await supabase.from('account_categories').delete().eq('id', id); if (error) throw error; setCategories(prev => prev.filter(c => c.id !== id && c.parentId !== id)); } catch (err) { handleError(err, 'excluir categoria'); }
+  };
+
+  const addFinancialAccount = async (data: Omit<FinancialAccount, 'id'>) => {
+    try { const { error } = await supabase.from('financial_accounts').insert([camelToSnake(data)]); if (error) throw error; const { data: d } = await supabase.from('financial_accounts').select('*').order('name', { ascending: true }); setFinancialAccounts(snakeToCamel(d)); } catch (err) { handleError(err, 'adicionar conta'); }
+  };
+  const updateFinancialAccount = async (id: string, data: Partial<FinancialAccount>) => {
+    try { const { error } = await supabase.from('financial_accounts').update(camelToSnake(data)).eq('id', id); if (error) throw error; const { data: d } = await supabase.from('financial_accounts').select('*').order('name', { ascending: true }); setFinancialAccounts(snakeToCamel(d)); } catch (err) { handleError(err, 'atualizar conta'); }
+  };
+  const deleteFinancialAccount = async (id: string) => {
+    try { const { error } = await supabase.from('financial_accounts').delete().eq('id', id); if (error) throw error; setFinancialAccounts(prev => prev.filter(a => a.id !== id)); } catch (err) { handleError(err, 'excluir conta'); }
+  };
+  const addTransfer = async (data: Omit<AccountTransfer, 'id'>) => {
+    try { assertPeriodsOpen(fiscalPeriods, data.date); const { error } = await supabase.from('account_transfers').insert([camelToSnake(data)]); if (error) throw error; const { data: d } = await supabase.from('account_transfers').select('*').order('date', { ascending: false }); setTransfers(snakeToCamel(d)); } catch (err) { handleError(err, 'registrar transferência'); }
+  };
+  const deleteTransfer = async (id: string) => {
+    try { assertPeriodsOpen(fiscalPeriods, transfers.find(t => t.id === id)?.date); const { error } = await supabase.from('account_transfers').delete().eq('id', id); if (error) throw error; setTransfers(prev => prev.filter(t => t.id !== id)); } catch (err) { handleError(err, 'excluir transferência'); }
+  };
+
+  // --- MENSALIDADES ---
+
+  const refreshDuesCharges = async () => {
+    const { data: d } = await supabase.from('dues_charges').select('*').order('competence', { ascending: false }); setDuesCharges(snakeToCamel(d || []));
+  };
+
+  const setDuesChargeTxid = async (id: string, txid: string) => {
+    try { const { error } = await supabase.rpc('set_dues_charge_txid', { p_id: id, p_txid: txid }); if (error) throw error; setDuesCharges(prev => prev.map(c => c.id === id ? { ...c, txid } : c)); } catch (err) { handleError(err, 'registrar TXID da cobrança'); }
+  };
+
+  // Cada QR Code de inscrição gera uma cobrança própria; o TXID vem do banco
+  const createEventCharge = async (event: Event): Promise<EventCharge | null> => {
+    try {
+      const { data, error } = await supabase.from('event_charges').insert([{ event_id: event.id, event_title: event.title, amount: event.fee || 0 }]).select().single();
+      if (error) throw error;
+      return snakeToCamel(data) as EventCharge;
+    } catch (err) { handleError(err, 'gerar cobrança PIX do evento'); return null; }
+  };
+
+  const updatePixSettings = async (data: PixSettings) => {
+    try { const { error } = await supabase.from('pix_settings').upsert([{ id: 1, ...camelToSnake(data) }]); if (error) throw error; setPixSettings(data); } catch (err) { handleError(err, 'salvar configuração PIX'); }
+  };
+
+  const updateDuesSettings = async (data: DuesSettings) => {
+    try { const { error } = await supabase.from('dues_settings').upsert([{ id: 1, ...camelToSnake(data) }]); if (error) throw error; setDuesSettings(data); } catch (err) { handleError(err, 'salvar configuração de mensalidades'); }
+  };
+
+  const generateDuesCharges = async (): Promise<number> => {
+    try {
+      // Usa a lista completa de ativos: o estado `members` pode estar filtrado pela busca
+      const { data: active, error } = await supabase.from('members').select('*').eq('status', 'Active');
+      if (error) throw error;
+      const { data: existing, error: chargesError } = await supabase.from('dues_charges').select('member_id, competence');
+      if (chargesError) throw chargesError;
+      const missing = buildMissingCharges(snakeToCamel(active || []), snakeToCamel(existing || []), duesSettings);
+      if (missing.length > 0) {
+        const { error: insError } = await supabase.from('dues_charges').insert(camelToSnake(missing));
+        if (insError) throw insError;
+      }
+      await refreshDuesCharges();
+      return missing.length;
+    } catch (err) { handleError(err, 'gerar mensalidades'); return 0; }
+  };
+
+  // --- RECIBOS ---
+
+  const updateAssociationSettings = async (data: AssociationSettings) => {
+    try { const { error } = await supabase.from('association_settings').upsert([{ id: 1, ...camelToSnake(data) }]); if (error) throw error; setAssociationSettings(data); } catch (err) { handleError(err, 'salvar dados da associação'); }
+  };
+
+  // Reimpressão usa o recibo já emitido para a transação (mesmo número)
+  const issueReceipt = async (transaction: Transaction): Promise<Receipt | null> => {
+    try {
+      const { data: existing, error } = await supabase.from('receipts').select('*').eq('transaction_id', transaction.id).maybeSingle();
+      if (error) throw error;
+      if (existing) return snakeToCamel(existing) as Receipt;
+      const { data: inserted, error: insError } = await supabase.from('receipts').insert([camelToSnake({
+        transactionId: transaction.id,
+        memberId: transaction.memberId,
+        memberName: transaction.memberName,
+        amount: transaction.amount,
+        description: transaction.description,
+        paymentDate: transaction.date,
+      })]).select().single();
+      if (insError) throw insError;
+      return snakeToCamel(inserted) as Receipt;
+    } catch (err) { handleError(err, 'emitir recibo'); return null; }
+  };
+
+  const saveWithholdingTable = async (data: WithholdingTable) => {
+    try { const { error } = await supabase.from('withholding_tables').upsert([camelToSnake(data)], { onConflict: 'year' }); if (error) throw error; const { data: d } = await supabase.from('withholding_tables').select('*').order('year', { ascending: false }); setWithholdingTables(snakeToCamel(d)); } catch (err) { handleError(err, 'salvar tabela de retenções'); }
+  };
+  const deleteWithholdingTable = async (year: number) => {
+    try { const { error } = await supabase.from('withholding_tables').delete().eq('year', year); if (error) throw error; setWithholdingTables(prev => prev.filter(t => t.year !== year)); } catch (err) { handleError(err, 'excluir tabela de retenções'); }
+  };
+  const refreshTaxPayables = async () => {
+    const { data } = await supabase.from('tax_payables').select('*').order('due_date', { ascending: true });
+    setTaxPayables(snakeToCamel(data || []));
+  };
+  const fetchRpa = async (transactionId: string): Promise<Rpa | null> => {
+    try {
+      const { data, error } = await supabase.from('rpas').select('*').eq('transaction_id', transactionId).maybeSingle();
+      if (error) throw error;
+      return data ? snakeToCamel(data) as Rpa : null;
+    } catch (err) { handleError(err, 'carregar RPA'); return null; }
+  };
+  // A transação passa a registrar o líquido pago; os tributos retidos viram contas a recolher
+  const issueRpa = async (transaction: Transaction, provider: ServiceProvider, grossAmount: number): Promise<Rpa | null> => {
+    try {
+      const table = findWithholdingTable(withholdingTables, Number(transaction.date.slice(0, 4)));
+      const result = calculateWithholding(grossAmount, table);
+      // Os tributos retidos são lançados na data do pagamento, que precisa estar em período aberto
+      assertPeriodsOpen(fiscalPeriods, transaction.date);
+      // A transação é o que saiu do caixa e não é alterada aqui: as retenções ficam nos tributos a recolher
+      if (Math.abs(result.netAmount - transaction.amount) > 0.005) throw new Error(`O líquido do RPA (${formatBRL(result.netAmount)}) deve ser igual ao valor pago na transação (${formatBRL(transaction.amount)}).`);
+      const { data: inserted, error } = await supabase.from('rpas').insert([camelToSnake({
+        transactionId: transaction.id,
+        providerId: provider.id,
+        providerName: provider.name,
+        providerCpf: provider.cpfCnpj,
+        description: transaction.description,
+        paymentDate: transaction.date,
+        grossAmount,
+        inssAmount: result.inssAmount,
+        irrfAmount: result.irrfAmount,
+        issAmount: result.issAmount,
+        netAmount: result.netAmount,
+      })]).select().single();
+      if (error) throw error;
+      const rpa = snakeToCamel(inserted) as Rpa;
+      const payables = buildTaxPayables(rpa, table);
+      if (payables.length) { const { error: payError } = await supabase.from('tax_payables').insert(camelToSnake(payables)); if (payError) throw payError; }
+      await Promise.all([refreshTransactions(), refreshTaxPayables()]);
+      return rpa;
+    } catch (err) { handleError(err, 'emitir RPA'); return null; }
+  };
+  const payTaxPayable = async (payable: TaxPayable, payment: Omit<Transaction, 'id'>) => {
+    try {
+      assertPeriodsOpen(fiscalPeriods, payment.date);
+      const { data: inserted, error } = await supabase.from('transactions').insert([camelToSnake(payment)]).select().single();
+      if (error) throw error;
+      const { error: updError } = await supabase.from('tax_payables').update({ status: 'Paid', paid_at: payment.date, transaction_id: inserted.id }).eq('id', payable.id);
+      if (updError) throw updError;
+      await Promise.all([refreshTransactions(), refreshTaxPayables()]);
+    } catch (err) { handleError(err, 'recolher tributo'); }
+  };
+
+  const sendReceiptEmail = async (recipient: string, subject: string, message: string, html: string) => {
+    try {
+      const { error } = await supabase.functions.invoke('send-email', { body: { recipients: [recipient], subject, message, html } });
+      if (error) throw new Error(`Erro ao enviar email: ${error.message}`);
+    } catch (err) { handleError(err, 'enviar recibo'); throw err; }
+  };
+
+  // --- FECHAMENTO DE PERÍODOS ---
+
+  const refreshFiscalPeriods = async () => {
+    const [{ data: periods }, { data: logs }] = await Promise.all([
+      supabase.from('fiscal_periods').select('*').order('period', { ascending: false }),
+      supabase.from('fiscal_period_logs').select('*').order('created_at', { ascending: false }),
+    ]);
+    setFiscalPeriods(snakeToCamel(periods || [])); setFiscalPeriodLogs(snakeToCamel(logs || []));
+  };
+  const addLedgerAccount = async (data: Omit<LedgerAccount, 'id'>) => {
+    try { const { error } = await supabase.from('ledger_accounts').insert([camelToSnake(data)]); if (error) throw error; const { data: d } = await supabase.from('ledger_accounts').select('*').order('code', { ascending: true }); setLedgerAccounts(snakeToCamel(d)); } catch (err) { handleError(err, 'adicionar conta contábil'); }
+  };
+  const updateLedgerAccount = async (id: string, data: Partial<LedgerAccount>) => {
+    try { const { error } = await supabase.from('ledger_accounts').update(camelToSnake(data)).eq('id', id); if (error) throw error; const { data: d } = await supabase.from('ledger_accounts').select('*').order('code', { ascending: true }); setLedgerAccounts(snakeToCamel(d)); } catch (err) { handleError(err, 'atualizar conta contábil'); }
+  };
+  const deleteLedgerAccount = async (id: string) => {
+    try { const { error } = await supabase.from('ledger_accounts').delete().eq('id', id); if (error) throw error; setLedgerAccounts(prev => prev.filter(a => a.id !== id)); } catch (err) { handleError(err, 'excluir conta contábil'); }
+  };
+  const fetchJournal = async (start: string, end: string): Promise<JournalEntry[]> => {
+    try {
+      const { data, error } = await supabase.from('journal_entries').select('*, journal_lines(*)').gte('date', start).lte('date', end).order('date', { ascending: true }).order('created_at', { ascending: true });
+      if (error) throw error;
+      return snakeToCamel(data) as JournalEntry[];
+    } catch (err) { handleError(err, 'carregar diário'); return []; }
+  };
+  const fetchTrialBalance = async (start: string | null, end: string): Promise<TrialBalanceRow[]> => {
+    try {
+      const { data, error } = await supabase.rpc('trial_balance', { p_start: start, p_end: end });
+      if (error) throw error;
+      return snakeToCamel(data) as TrialBalanceRow[];
+    } catch (err) { handleError(err, 'carregar balancete'); return []; }
+  };
+  const fetchGeneralLedger = async (accountId: string, start: string, end: string): Promise<GeneralLedgerRow[]> => {
+    try {
+      const { data, error } = await supabase.rpc('general_ledger', { p_account_id: accountId, p_start: start, p_end: end });
+      if (error) throw error;
+      return snakeToCamel(data) as GeneralLedgerRow[];
+    } catch (err) { handleError(err, 'carregar razão'); return []; }
+  };
+  const addManualJournalEntry = async (date: string, description: string, lines: JournalLine[]): Promise<boolean> => {
+    try {
+      assertPeriodsOpen(fiscalPeriods, date);
+      const { error } = await supabase.rpc('add_manual_journal_entry', { p_date: date, p_description: description, p_lines: camelToSnake(lines.map(({ accountId, debit, credit }) => ({ accountId, debit, credit }))) });
+      if (error) throw error;
+      return true;
+    } catch (err) { handleError(err, 'registrar lançamento manual'); return false; }
+  };
+  const deleteManualJournalEntry = async (id: string) => {
+    try { const { error } = await supabase.rpc('delete_manual_journal_entry', { p_id: id }); if (error) throw error; } catch (err) { handleError(err, 'excluir lançamento manual'); }
+  };
+  // Cria contas contábeis para as categorias ainda sem mapeamento e regera o diário a partir das transações existentes
+  const migrateJournal = async () => {
+    try {
+      const { error } = await supabase.rpc('migrate_journal'); if (error) throw error;
+      const [ledgerRes, catRes, accountsRes] = await Promise.all([
+        supabase.from('ledger_accounts').select('*').order('code', { ascending: true }),
+        supabase.from('account_categories').select('*').order('code', { ascending: true }),
+        supabase.from('financial_accounts').select('*').order('name', { ascending: true }),
+      ]);
+      setLedgerAccounts(snakeToCamel(ledgerRes.data || []));
+      setCategories(snakeToCamel(catRes.data || []));
+      setFinancialAccounts(snakeToCamel(accountsRes.data || []));
+    } catch (err) { handleError(err, 'migrar lançamentos para a contabilidade'); }
+  };
+  const rebuildJournal = async () => {
+    try { const { error } = await supabase.rpc('rebuild_journal'); if (error) throw error; } catch (err) { handleError(err, 'reprocessar diário'); }
+  };
+
+  // --- PORTAL DO ASSOCIADO ---
+
+  // null quando o usuário não tem cadastro de membro vinculado (nem pelo email)
+  const fetchMemberPortal = async (): Promise<MemberPortalData | null> => {
+    try {
+      const { data: rows, error } = await supabase.rpc('my_member');
+      if (error) throw error;
+      if (!rows?.[0]) return null;
+      const member = snakeToCamel(rows[0]) as Member;
+      const [chargesRes, paymentsRes, receiptsRes, registrationsRes, card] = await Promise.all([
+        supabase.from('dues_charges').select('*').eq('member_id', member.id).order('competence', { ascending: false }),
+        supabase.from('transactions').select('*').eq('member_id', member.id).eq('type', 'Income').order('date', { ascending: false }),
+        supabase.from('receipts').select('*').eq('member_id', member.id).order('issued_at', { ascending: false }),
+        supabase.from('event_registrations').select('*').eq('member_id', member.id),
+        fetchActiveMemberCard(member.id),
+      ]);
+      if (chargesRes.error) throw chargesRes.error;
+      if (paymentsRes.error) throw paymentsRes.error;
+      return {
+        member,
+        duesCharges: snakeToCamel(chargesRes.data || []),
+        payments: snakeToCamel(paymentsRes.data || []),
+        receipts: snakeToCamel(receiptsRes.data || []),
+        registrations: snakeToCamel(registrationsRes.data || []),
+        card,
+      };
+    } catch (err) { handleError(err, 'carregar portal do associado'); return null; }
+  };
+  const updateMyContact = async (data: MemberContactForm): Promise<boolean> => {
+    try {
+      const { error } = await supabase.rpc('update_my_contact', { p_phone: data.phone, p_address: data.address, p_city: data.city, p_state: data.state });
+      if (error) throw error;
+      return true;
+    } catch (err) { handleError(err, 'atualizar dados de contato'); return false; }
+  };
+  const registerForEvent = async (eventId: string, memberId: string): Promise<boolean> => {
+    try { const { error } = await supabase.from('event_registrations').insert([{ event_id: eventId, member_id: memberId }]); if (error) throw error; return true; } catch (err) { handleError(err, 'inscrever no evento'); return false; }
+  };
+  const cancelEventRegistration = async (eventId: string, memberId: string): Promise<boolean> => {
+    try { const { error } = await supabase.from('event_registrations').delete().eq('event_id', eventId).eq('member_id', memberId); if (error) throw error; return true; } catch (err) { handleError(err, 'cancelar inscrição no evento'); return false; }
+  };
+
+  const updateAlertSettings = async (data: AlertSettings) => {
+    try { const { error } = await supabase.from('alert_settings').upsert([{ id: 1, ...camelToSnake(data) }]); if (error) throw error; setAlertSettings(data); await refreshFinancialAlerts(); } catch (err) { handleError(err, 'salvar configuração de alertas'); }
+  };
+  const updateMembershipSettings = async (data: MembershipSettings) => {
+    try { const { error } = await supabase.from('membership_settings').upsert([{ id: 1, ...camelToSnake(data) }]); if (error) throw error; setMembershipSettings(data); } catch (err) { handleError(err, 'salvar quórum de admissão'); }
+  };
+  const reviewAlert = async (alert: FinancialAlert) => {
+    try { const { error } = await supabase.from('alert_reviews').upsert([{ alert_key: alert.alertKey, reviewed_by: currentUser?.name || '' }]); if (error) throw error; await refreshFinancialAlerts(); } catch (err) { handleError(err, 'marcar alerta como revisado'); }
+  };
+  const reopenAlert = async (alert: FinancialAlert) => {
+    try { const { error } = await supabase.from('alert_reviews').delete().eq('alert_key', alert.alertKey); if (error) throw error; await refreshFinancialAlerts(); } catch (err) { handleError(err, 'reabrir alerta'); }
+  };
+
+  // As funções do banco validam o papel e gravam o log; a checagem aqui só evita a chamada
+  const closeFiscalPeriod = async (period: string) => {
+    try {
+      if (currentUser?.role !== 'Super Admin') throw new Error('Apenas Super Admin pode fechar períodos.');
+      const { error } = await supabase.rpc('close_fiscal_period', { p_period: period }); if (error) throw error;
+      await refreshFiscalPeriods();
+    } catch (err) { handleError(err, 'fechar período'); }
+  };
+  const reopenFiscalPeriod = async (period: string, justification: string) => {
+    try {
+      if (currentUser?.role !== 'Super Admin') throw new Error('Apenas Super Admin pode reabrir períodos.');
+      if (!justification.trim()) throw new Error('Informe a justificativa da reabertura.');
+      const { error } = await supabase.rpc('reopen_fiscal_period', { p_period: period, p_justification: justification.trim() }); if (error) throw error;
+      await refreshFiscalPeriods();
+    } catch (err) { handleError(err, 'reabrir período'); }
+  };
+
   useEffect(() => {
     if (currentUser) {
       fetchAllData();
@@ -248,18 +1035,33 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
   return (
     <DataContext.Provider value={{
-      members, transactions, events, documents, communications, 
+      members, transactions, transactionSummary, projectExpenseSummary, events, documents, communications, 
       projects, providers, inventory,
+      duesCharges, duesSettings, categories, pixSettings,
+      financialAccounts, transfers, budgetLines, accountabilityLayouts, recurringTemplates, associationSettings, withholdingTables, taxPayables, ledgerAccounts, financialAlerts, alertSettings, membershipSettings, fiscalPeriods, fiscalPeriodLogs,
       loading, error,
-      fetchMembers, fetchAllData,
-      addMember, updateMember, deleteMember,
-      addTransaction, deleteTransaction,
+      fetchMembers, fetchAllMembers, findRegistrationDuplicates, fetchAllData,
+      addMember, importMembers, fetchActiveMemberCard, issueMemberCard, verifyMemberCard, updateMember,
+      submitMembershipApplication, fetchMembershipApplications, castMembershipVote, deleteMember,
+      addTransaction, updateTransaction, fetchTransactionHistory, fetchLedgerPage, fetchTransactions, deleteTransaction, reconcileTransaction,
+      addRecurringTemplate, updateRecurringTemplate, deleteRecurringTemplate, confirmRecurringDraft, skipRecurringDraft,
       addEvent, updateEvent, deleteEvent,
-      addDocument, deleteDocument,
+      addDocument, deleteDocument, updateDocument,
       sendCommunication,
-      addProject, updateProject, deleteProject,
+      updateAssociationSettings, issueReceipt, sendReceiptEmail,
+      saveWithholdingTable, deleteWithholdingTable, fetchRpa, issueRpa, payTaxPayable,
+      addLedgerAccount, updateLedgerAccount, deleteLedgerAccount, fetchJournal, fetchTrialBalance, fetchGeneralLedger,
+      addManualJournalEntry, deleteManualJournalEntry, migrateJournal, rebuildJournal,
+      updateAlertSettings, reviewAlert, reopenAlert, updateMembershipSettings,
+      fetchMemberPortal, updateMyContact, registerForEvent, cancelEventRegistration,
+      closeFiscalPeriod, reopenFiscalPeriod,
+      addProject, updateProject, deleteProject, addBudgetLine, updateBudgetLine, deleteBudgetLine,
+      fetchProjectTransactions, addAccountabilityLayout, updateAccountabilityLayout, deleteAccountabilityLayout,
       addProvider, updateProvider, deleteProvider,
-      addInventoryItem, updateInventoryItem, deleteInventoryItem
+      addInventoryItem, updateInventoryItem, deleteInventoryItem,
+      updateDuesSettings, generateDuesCharges, setDuesChargeTxid, createEventCharge, updatePixSettings,
+      addCategory, updateCategory, deleteCategory,
+      addFinancialAccount, updateFinancialAccount, deleteFinancialAccount, addTransfer, deleteTransfer
     }}>
       {children}
     </DataContext.Provider>
@@ -0,0 +1,217 @@
+import React, { useState, useEffect } from 'react';
+import { BookOpen, PlusCircle, Trash2, Loader2, AlertTriangle } from 'lucide-react';
+import { useData } from '../contexts/DataContext';
+import { ManualJournalEntryModal } from '../components/ManualJournalEntryModal';
+import { ExportButton } from '../components/ExportButton';
+import { GeneralLedgerRow, JournalEntry, TrialBalanceRow, UserRole } from '../types';
+import { JOURNAL_SOURCE_LABELS, LEDGER_NATURE_LABELS, buildBalanceSheet, getClosingBalance, toNaturalBalance, withRunningBalance, BalanceSheetItem } from '../utils/accounting';
+import { todayISO } from '../utils/dues';
+import { formatBRL, formatDateBR } from '../utils/print';
+import { SpreadsheetColumn } from '../utils/spreadsheet';
+
+interface AccountingProps { userRole: UserRole; showToast: (msg: string, type?: 'success' | 'error') => void; }
+
+type AccountingTab = 'Journal' | 'TrialBalance' | 'Ledger' | 'BalanceSheet';
+
+const TABS: { id: AccountingTab; label: string }[] = [
+    { id: 'Journal', label: 'Diário' },
+    { id: 'TrialBalance', label: 'Balancete' },
+    { id: 'Ledger', label: 'Razão' },
+    { id: 'BalanceSheet', label: 'Balanço Patrimonial' },
+];
+
+const INPUT_CLASS = "block w-full rounded-md border-gray-300 shadow-sm focus:border-secondary-500 focus:ring-secondary-500 sm:text-sm dark:bg-gray-700 dark:border-gray-600 dark:placeholder-gray-400 dark:text-white dark:focus:border-secondary-500 dark:focus:ring-secondary-500";
+const TH_CLASS = "px-4 py-3";
+const TD_NUM_CLASS = "px-4 py-2 text-right whitespace-nowrap";
+
+const TRIAL_BALANCE_EXPORT_COLUMNS: SpreadsheetColumn<TrialBalanceRow>[] = [
+    { key: 'code', label: 'Código' },
+    { key: 'name', label: 'Conta' },
+    { key: 'nature', label: 'Natureza', value: r => LEDGER_NATURE_LABELS[r.nature] },
+    { key: 'opening', label: 'Saldo anterior (D-C)', type: 'currency' },
+    { key: 'debit', label: 'Débitos', type: 'currency' },
+    { key: 'credit', label: 'Créditos', type: 'currency' },
+    { key: 'closing', label: 'Saldo atual', type: 'currency', value: r => getClosingBalance(r) },
+];
+
+const formatAmount = (value: number): string => (value ? formatBRL(value) : '');
+
+const BalanceSheetGroup: React.FC<{ title: string; items: BalanceSheetItem[]; extra?: BalanceSheetItem; total: number }> = ({ title, items, extra, total }) => (
+    <div className="mb-4">
+        <h4 className="text-sm font-semibold uppercase text-gray-700 dark:text-gray-300 border-b dark:border-gray-700 pb-1 mb-1">{title}</h4>
+        {[...items, ...(extra && extra.balance ? [extra] : [])].map(item => (
+            <div key={item.code} className="flex justify-between text-sm py-1"><span><span className="font-mono text-xs text-gray-500 mr-2">{item.code}</span>{item.name}</span><span>{formatBRL(item.balance)}</span></div>
+        ))}
+        {items.length === 0 && !extra?.balance && <p className="text-xs text-gray-400 py-1">Sem saldo.</p>}
+        <div className="flex justify-between text-sm font-semibold pt-1 border-t dark:border-gray-700"><span>Total</span><span>{formatBRL(total)}</span></div>
+    </div>
+);
+
+export const Accounting: React.FC<AccountingProps> = ({ userRole, showToast }) => {
+    const { ledgerAccounts, transactions, fetchJournal, fetchTrialBalance, fetchGeneralLedger, deleteManualJournalEntry } = useData();
+    const [tab, setTab] = useState<AccountingTab>('Journal');
+    const [startDate, setStartDate] = useState(`${todayISO().slice(0, 4)}-01-01`);
+    const [endDate, setEndDate] = useState(todayISO());
+    const [ledgerAccountId, setLedgerAccountId] = useState('');
+    const [journal, setJournal] = useState<JournalEntry[]>([]);
+    const [trialBalance, setTrialBalance] = useState<TrialBalanceRow[]>([]);
+    const [ledgerRows, setLedgerRows] = useState<GeneralLedgerRow[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [isManualModalOpen, setIsManualModalOpen] = useState(false);
+    const [reloadKey, setReloadKey] = useState(0);
+    const canPerformActions = userRole === 'Super Admin' || userRole === 'Financeiro';
+
+    // Balancete acompanha o Razão (saldo anterior da conta) e o Balanço (acumulado até a data final)
+    useEffect(() => {
+        if (!startDate || !endDate) return;
+        setIsLoading(true);
+        const load = async () => {
+            if (tab === 'Journal') setJournal(await fetchJournal(startDate, endDate));
+            else if (tab === 'TrialBalance') setTrialBalance(await fetchTrialBalance(startDate, endDate));
+            else if (tab === 'BalanceSheet') setTrialBalance(await fetchTrialBalance(null, endDate));
+            else if (ledgerAccountId) {
+                const [rows, balance] = await Promise.all([fetchGeneralLedger(ledgerAccountId, startDate, endDate), fetchTrialBalance(startDate, endDate)]);
+                setLedgerRows(rows); setTrialBalance(balance);
+            } else setLedgerRows([]);
+        };
+        load().finally(() => setIsLoading(false));
+    }, [tab, startDate, endDate, ledgerAccountId, transactions, reloadKey]);
+
+    const accountLabel = (id: string) => { const account = ledgerAccounts.find(a => a.id === id); return account ? `${account.code} ${account.name}` : '—'; };
+
+    const handleDeleteEntry = async (entry: JournalEntry) => {
+        if (!window.confirm(`Excluir o lançamento manual "${entry.description}"?`)) return;
+        await deleteManualJournalEntry(entry.id);
+        showToast('Lançamento excluído');
+        setReloadKey(k => k + 1);
+    };
+
+    const selectedAccount = ledgerAccounts.find(a => a.id === ledgerAccountId);
+    const ledgerOpening = trialBalance.find(r => r.accountId === ledgerAccountId)?.opening ?? 0;
+    const ledgerWithBalance = selectedAccount ? withRunningBalance(ledgerRows, selectedAccount.nature, ledgerOpening) : [];
+    const totalDebit = trialBalance.reduce((acc, r) => acc + r.debit, 0);
+    const totalCredit = trialBalance.reduce((acc, r) => acc + r.credit, 0);
+    const balanceSheet = buildBalanceSheet(trialBalance);
+
+    return (
+        <>
+            <ManualJournalEntryModal isOpen={isManualModalOpen} onClose={() => setIsManualModalOpen(false)} onSaved={() => setReloadKey(k => k + 1)} showToast={showToast} />
+            <div className="space-y-6">
+                <div className="flex flex-wrap justify-between items-center gap-4">
+                    <h2 className="text-2xl font-bold text-gray-800 dark:text-white flex items-center gap-2"><BookOpen className="text-secondary-600" /> Contabilidade</h2>
+                    {canPerformActions && <button onClick={() => setIsManualModalOpen(true)} className="flex items-center gap-2 px-4 py-2 bg-secondary-700 text-white rounded-lg hover:bg-secondary-800"><PlusCircle size={18} /> Lançamento Manual</button>}
+                </div>
+
+                <div className="flex flex-wrap items-end justify-between gap-4">
+                    <div className="flex gap-1 bg-gray-100 dark:bg-gray-700 p-1 rounded-lg">
+                        {TABS.map(t => (
+                            <button key={t.id} onClick={() => setTab(t.id)} className={`px-3 py-1.5 text-sm font-medium rounded-md ${tab === t.id ? 'bg-white dark:bg-gray-800 shadow text-secondary-700 dark:text-white' : 'text-gray-600 dark:text-gray-300'}`}>{t.label}</button>
+                        ))}
+                    </div>
+                    <div className="flex flex-wrap items-end gap-2">
+                        {tab === 'Ledger' && (
+                            <div className="min-w-[220px]"><label className="block text-xs">Conta</label>
+                                <select value={ledgerAccountId} onChange={(e) => setLedgerAccountId(e.target.value)} className={INPUT_CLASS}>
+                                    <option value="">Selecione...</option>
+                                    {ledgerAccounts.map(a => <option key={a.id} value={a.id}>{a.code} {a.name}</option>)}
+                                </select>
+                            </div>
+                        )}
+                        {tab !== 'BalanceSheet' && <div><label className="block text-xs">De</label><input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className={INPUT_CLASS} /></div>}
+                        <div><label className="block text-xs">{tab === 'BalanceSheet' ? 'Posição em' : 'Até'}</label><input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} className={INPUT_CLASS} /></div>
+                        {tab === 'TrialBalance' && <ExportButton rows={trialBalance} columns={TRIAL_BALANCE_EXPORT_COLUMNS} filename={`balancete_${startDate}_${endDate}`} sheetName="Balancete" />}
+                    </div>
+                </div>
+
+                <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg border dark:border-gray-700 overflow-x-auto">
+                    {isLoading ? (
+                        <div className="flex justify-center py-16"><Loader2 className="animate-spin text-secondary-600" /></div>
+                    ) : tab === 'Journal' ? (
+                        <table className="w-full text-sm text-left text-gray-500 dark:text-gray-400">
+                            <thead className="text-xs text-gray-700 uppercase bg-gray-50 dark:bg-gray-700 dark:text-gray-400"><tr><th className={TH_CLASS}>Data</th><th className={TH_CLASS}>Histórico / Conta</th><th className={`${TH_CLASS} text-right`}>Débito</th><th className={`${TH_CLASS} text-right`}>Crédito</th><th className={TH_CLASS} /></tr></thead>
+                            <tbody>
+                                {journal.map(entry => (
+                                    <React.Fragment key={entry.id}>
+                                        <tr className="bg-gray-50/60 dark:bg-gray-700/40 border-t dark:border-gray-700">
+                                            <td className="px-4 py-2 whitespace-nowrap">{formatDateBR(entry.date)}</td>
+                                            <td className="px-4 py-2 font-medium text-gray-900 dark:text-white">{entry.description} <span className="ml-2 text-xs font-normal text-gray-500">{JOURNAL_SOURCE_LABELS[entry.source]}</span></td>
+                                            <td colSpan={2} />
+                                            <td className="px-4 py-2 text-right">{canPerformActions && entry.source === 'Manual' && <button onClick={() => handleDeleteEntry(entry)} className="text-gray-400 hover:text-red-600"><Trash2 size={14} /></button>}</td>
+                                        </tr>
+                                        {[...entry.journalLines].sort((a, b) => b.debit - a.debit).map((line, i) => (
+                                            <tr key={line.id ?? i}>
+                                                <td />
+                                                <td className={`px-4 py-1 ${line.credit ? 'pl-10' : ''}`}>{accountLabel(line.accountId)}</td>
+                                                <td className="px-4 py-1 text-right whitespace-nowrap">{formatAmount(line.debit)}</td>
+                                                <td className="px-4 py-1 text-right whitespace-nowrap">{formatAmount(line.credit)}</td>
+                                                <td />
+                                            </tr>
+                                        ))}
+                                    </React.Fragment>
+                                ))}
+                                {journal.length === 0 && <tr><td colSpan={5} className="text-center py-8 text-gray-500">Nenhum lançamento no período. Se há transações anteriores à contabilidade, use "Migrar transações existentes" em Configurações.</td></tr>}
+                            </tbody>
+                        </table>
+                    ) : tab === 'TrialBalance' ? (
+                        <table className="w-full text-sm text-left text-gray-500 dark:text-gray-400">
+                            <thead className="text-xs text-gray-700 uppercase bg-gray-50 dark:bg-gray-700 dark:text-gray-400"><tr><th className={TH_CLASS}>Conta</th><th className={`${TH_CLASS} text-right`}>Saldo anterior</th><th className={`${TH_CLASS} text-right`}>Débitos</th><th className={`${TH_CLASS} text-right`}>Créditos</th><th className={`${TH_CLASS} text-right`}>Saldo atual</th></tr></thead>
+                            <tbody className="divide-y dark:divide-gray-700">
+                                {trialBalance.map(row => (
+                                    <tr key={row.accountId}>
+                                        <td className="px-4 py-2"><span className="font-mono text-xs mr-2">{row.code}</span><span className="text-gray-900 dark:text-white">{row.name}</span></td>
+                                        <td className={TD_NUM_CLASS}>{formatBRL(toNaturalBalance(row.nature, row.opening))}</td>
+                                        <td className={TD_NUM_CLASS}>{formatAmount(row.debit)}</td>
+                                        <td className={TD_NUM_CLASS}>{formatAmount(row.credit)}</td>
+                                        <td className={`${TD_NUM_CLASS} font-medium`}>{formatBRL(getClosingBalance(row))}</td>
+                                    </tr>
+                                ))}
+                                {trialBalance.length === 0 && <tr><td colSpan={5} className="text-center py-8 text-gray-500">Nenhuma conta movimentada.</td></tr>}
+                            </tbody>
+                            {trialBalance.length > 0 && (
+                                <tfoot className="font-semibold text-gray-900 dark:text-white border-t-2 dark:border-gray-600">
+                                    <tr><td className="px-4 py-2">Totais</td><td /><td className={TD_NUM_CLASS}>{formatBRL(totalDebit)}</td><td className={TD_NUM_CLASS}>{formatBRL(totalCredit)}</td><td className="px-4 py-2 text-right text-xs">{Math.abs(totalDebit - totalCredit) > 0.005 && <span className="text-red-500">Diferença {formatBRL(totalDebit - totalCredit)}</span>}</td></tr>
+                                </tfoot>
+                            )}
+                        </table>
+                    ) : tab === 'Ledger' ? (
+                        !selectedAccount ? (
+                            <p className="text-center py-8 text-sm text-gray-500">Selecione uma conta para ver o razão.</p>
+                        ) : (
+                            <table className="w-full text-sm text-left text-gray-500 dark:text-gray-400">
+                                <thead className="text-xs text-gray-700 uppercase bg-gray-50 dark:bg-gray-700 dark:text-gray-400"><tr><th className={TH_CLASS}>Data</th><th className={TH_CLASS}>Histórico</th><th className={TH_CLASS}>Contrapartida</th><th className={`${TH_CLASS} text-right`}>Débito</th><th className={`${TH_CLASS} text-right`}>Crédito</th><th className={`${TH_CLASS} text-right`}>Saldo</th></tr></thead>
+                                <tbody className="divide-y dark:divide-gray-700">
+                                    <tr className="italic"><td className="px-4 py-2" colSpan={5}>Saldo anterior</td><td className={TD_NUM_CLASS}>{formatBRL(toNaturalBalance(selectedAccount.nature, ledgerOpening))}</td></tr>
+                                    {ledgerWithBalance.map((row, i) => (
+                                        <tr key={`${row.entryId}-${i}`}>
+                                            <td className="px-4 py-2 whitespace-nowrap">{formatDateBR(row.date)}</td>
+                                            <td className="px-4 py-2 text-gray-900 dark:text-white">{row.description}</td>
+                                            <td className="px-4 py-2 text-xs">{row.counterpart || '—'}</td>
+                                            <td className={TD_NUM_CLASS}>{formatAmount(row.debit)}</td>
+                                            <td className={TD_NUM_CLASS}>{formatAmount(row.credit)}</td>
+                                            <td className={`${TD_NUM_CLASS} font-medium`}>{formatBRL(row.balance)}</td>
+                                        </tr>
+                                    ))}
+                                    {ledgerWithBalance.length === 0 && <tr><td colSpan={6} className="text-center py-8 text-gray-500">Sem movimento no período.</td></tr>}
+                                </tbody>
+                            </table>
+                        )
+                    ) : (
+                        <div className="p-6">
+                            {Math.abs(balanceSheet.difference) > 0.005 && <p className="mb-4 text-sm text-red-500 flex items-center gap-2"><AlertTriangle size={16} /> Ativo e Passivo + Patrimônio diferem em {formatBRL(balanceSheet.difference)}. Reprocesse o diário em Configurações.</p>}
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+                                <div>
+                                    <BalanceSheetGroup title="Ativo" items={balanceSheet.assets} total={balanceSheet.totalAssets} />
+                                </div>
+                                <div>
+                                    <BalanceSheetGroup title="Passivo" items={balanceSheet.liabilities} total={balanceSheet.totalLiabilities} />
+                                    <BalanceSheetGroup title="Patrimônio Social" items={balanceSheet.equity} extra={{ code: '—', name: balanceSheet.accumulatedResult >= 0 ? 'Superávit acumulado' : 'Déficit acumulado', balance: balanceSheet.accumulatedResult }} total={balanceSheet.totalEquity} />
+                                    <div className="flex justify-between text-sm font-bold pt-2 border-t-2 dark:border-gray-600"><span>Passivo + Patrimônio Social</span><span>{formatBRL(balanceSheet.totalLiabilities + balanceSheet.totalEquity)}</span></div>
+                                </div>
+                            </div>
+                        </div>
+                    )}
+                </div>
+            </div>
+        </>
+    );
+};
@@ -1,9 +1,18 @@
 import React, { useState, useMemo } from 'react';
 import { Send, Clock, MessageSquareX } from 'lucide-react';
 import { Communication, Member, UserRole } from '../types';
+import { ExportButton } from '../components/ExportButton';
+import { SpreadsheetColumn } from '../utils/spreadsheet';
 
 const INPUT_CLASS = "mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-secondary-500 focus:ring-secondary-500 sm:text-sm dark:bg-gray-700 dark:border-gray-600 dark:placeholder-gray-400 dark:text-white dark:focus:border-secondary-500 dark:focus:ring-secondary-500 disabled:opacity-50";
 
+const COMMUNICATION_EXPORT_COLUMNS: SpreadsheetColumn<Communication>[] = [
+    { key: 'sentAt', label: 'Enviada em', type: 'date' },
+    { key: 'subject', label: 'Assunto' },
+    { key: 'recipients', label: 'Destinatários' },
+    { key: 'message', label: 'Mensagem' },
+];
+
 interface CommunicationsProps {
     members: Member[];
     communications: Communication[];
@@ -146,7 +155,10 @@ export const Communications: React.FC<CommunicationsProps> = ({ members, communi
               )}
             </div>
             <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-lg border border-gray-200 dark:border-gray-700">
-                <h2 className="text-xl font-semibold mb-4">Histórico de Envios</h2>
+                <div className="flex justify-between items-center mb-4">
+                    <h2 className="text-xl font-semibold">Histórico de Envios</h2>
+                    <ExportButton rows={communications} columns={COMMUNICATION_EXPORT_COLUMNS} filename="comunicacoes" sheetName="Comunicações" />
+                </div>
                 <div className="space-y-4 max-h-[60vh] overflow-y-auto">
                     {communications.length > 0 ? communications.map(comm => (
                         <div key={comm.id} className="border-l-4 border-secondary-500 pl-4">
@@ -1,6 +1,9 @@
-import React, { useMemo } from 'react';
+import React, { useMemo, useState } from 'react';
 import { Users, UserCheck, Calendar, DollarSign, CalendarOff, TrendingUp, TrendingDown, UserX } from 'lucide-react';
-import { Member, Transaction, Event } from '../types';
+import { Member, Transaction, Event, AccountCategory, TransactionSummary, UserRole, FinancialAlert } from '../types';
+import { getExpensesByCategory } from '../utils/categories';
+import { CashFlowForecast } from '../components/CashFlowForecast';
+import { FinancialAlerts } from '../components/FinancialAlerts';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, AreaChart, Area } from 'recharts';
 
 const StatCard: React.FC<{ icon: React.ReactNode; title: string; value: string; }> = ({ icon, title, value }) => (
@@ -18,12 +21,21 @@ const StatCard: React.FC<{ icon: React.ReactNode; title: string; value: string;
 interface DashboardProps {
   members: Member[];
   transactions: Transaction[];
+  transactionSummary: TransactionSummary[];
   events: Event[];
+  categories: AccountCategory[];
+  userRole: UserRole;
+  onOpenAlert: (alert: FinancialAlert) => void;
+  showToast: (message: string, type?: 'success' | 'error') => void;
 }
 
-export const Dashboard: React.FC<DashboardProps> = ({ members, transactions, events }) => {
+type CashFlowView = 'Monthly' | 'ByCategory';
+
+export const Dashboard: React.FC<DashboardProps> = ({ members, transactions, transactionSummary, events, categories, userRole, onOpenAlert, showToast }) => {
+  const [cashFlowView, setCashFlowView] = useState<CashFlowView>('Monthly');
   const activeMembers = members.filter(m => m.status === 'Active').length;
-  const monthlyIncome = transactions
+  // Totais agregados no banco (transaction_summary), independentes de quantas transações estão carregadas
+  const monthlyIncome = transactionSummary
     .filter(t => t.type === 'Income')
     .reduce((acc, t) => acc + t.amount, 0);
 
@@ -31,22 +43,20 @@ export const Dashboard: React.FC<DashboardProps> = ({ members, transactions, eve
   const financialData = useMemo(() => {
     const data: Record<string, { name: string; income: number; expense: number }> = {};
     
-    // Process last 6 months
-    transactions.forEach(t => {
-        const date = new Date(t.date);
-        const key = `${date.getMonth()}-${date.getFullYear()}`;
-        const name = date.toLocaleString('default', { month: 'short' });
-        
-        if (!data[key]) {
-            data[key] = { name, income: 0, expense: 0 };
+    transactionSummary.forEach(t => {
+        if (!data[t.month]) {
+            data[t.month] = { name: new Date(`${t.month}-01T00:00:00`).toLocaleString('default', { month: 'short' }), income: 0, expense: 0 };
         }
         
-        if (t.type === 'Income') data[key].income += t.amount;
-        else data[key].expense += t.amount;
+        if (t.type === 'Income') data[t.month].income += t.amount;
+        else data[t.month].expense += t.amount;
     });
 
-    return Object.values(data).slice(0, 6).reverse();
-  }, [transactions]);
+    // Últimos 6 meses com movimento
+    return Object.keys(data).sort().slice(-6).map(month => data[month]);
+  }, [transactionSummary]);
+
+  const expensesByCategory = useMemo(() => getExpensesByCategory(transactionSummary, categories), [transactionSummary, categories]);
 
   return (
     <div className="space-y-8 animate-fade-in">
@@ -57,13 +67,33 @@ export const Dashboard: React.FC<DashboardProps> = ({ members, transactions, eve
         <StatCard icon={<DollarSign className="text-primary-700 dark:text-primary-300"/>} title="Receita Total" value={`R$ ${monthlyIncome.toFixed(0)}`} />
       </div>
 
+      {(userRole === 'Super Admin' || userRole === 'Financeiro') && <FinancialAlerts onOpenTransaction={onOpenAlert} showToast={showToast} />}
+
       {/* SENIOR UPGRADE: Visualização de Dados com Gráficos */}
-      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+      <div className="grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-3 gap-8">
         <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-lg border border-gray-200 dark:border-gray-700 h-96">
-            <h3 className="text-lg font-semibold mb-6 text-gray-800 dark:text-white flex items-center gap-2">
-                <TrendingUp size={20} className="text-green-500"/> Fluxo de Caixa (Receita vs Despesa)
-            </h3>
+            <div className="flex justify-between items-start mb-6 gap-2">
+                <h3 className="text-lg font-semibold text-gray-800 dark:text-white flex items-center gap-2">
+                    <TrendingUp size={20} className="text-green-500"/> {cashFlowView === 'Monthly' ? 'Fluxo de Caixa (Receita vs Despesa)' : 'Despesas por Categoria'}
+                </h3>
+                <select value={cashFlowView} onChange={(e) => setCashFlowView(e.target.value as CashFlowView)} className="text-xs rounded-lg bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 px-2 py-1">
+                    <option value="Monthly">Mensal</option>
+                    <option value="ByCategory">Por Categoria</option>
+                </select>
+            </div>
             <ResponsiveContainer width="100%" height="85%">
+                {cashFlowView === 'ByCategory' ? (
+                <BarChart data={expensesByCategory} layout="vertical">
+                    <CartesianGrid strokeDasharray="3 3" stroke="#374151" opacity={0.1} />
+                    <XAxis type="number" stroke="#9CA3AF" fontSize={12} tickLine={false} axisLine={false} tickFormatter={(value) => `R$${value}`}/>
+                    <YAxis type="category" dataKey="name" stroke="#9CA3AF" fontSize={11} tickLine={false} axisLine={false} width={120}/>
+                    <Tooltip 
+                        contentStyle={{ backgroundColor: '#1F2937', borderColor: '#374151', color: '#F3F4F6', borderRadius: '8px' }}
+                        cursor={{fill: 'transparent'}}
+                    />
+                    <Bar dataKey="value" name="Despesa" fill="#EF4444" radius={[0, 4, 4, 0]} barSize={16} />
+                </BarChart>
+                ) : (
                 <BarChart data={financialData}>
                     <CartesianGrid strokeDasharray="3 3" stroke="#374151" opacity={0.1} />
                     <XAxis dataKey="name" stroke="#9CA3AF" fontSize={12} tickLine={false} axisLine={false} />
@@ -75,6 +105,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ members, transactions, eve
                     <Bar dataKey="income" name="Receita" fill="#10B981" radius={[4, 4, 0, 0]} barSize={20} />
                     <Bar dataKey="expense" name="Despesa" fill="#EF4444" radius={[4, 4, 0, 0]} barSize={20} />
                 </BarChart>
+                )}
             </ResponsiveContainer>
         </div>
 
@@ -98,6 +129,8 @@ export const Dashboard: React.FC<DashboardProps> = ({ members, transactions, eve
                 </AreaChart>
             </ResponsiveContainer>
         </div>
+
+        <CashFlowForecast members={members} events={events} />
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
@@ -1,8 +1,12 @@
 import React, { useState } from 'react';
-import { Upload, Download, FileText, FileBarChart, FileClock, FileQuestion, Trash2, FileX, AlertTriangle, Clipboard, Check, ExternalLink } from 'lucide-react';
+import { Upload, Download, FileText, FileBarChart, FileClock, FileQuestion, FileCheck, Trash2, FileX, AlertTriangle, Clipboard, Check, ExternalLink, Eye, EyeOff } from 'lucide-react';
 import { Document, DocumentType, UserRole } from '../types';
 import { UploadDocumentModal } from '../components/UploadDocumentModal';
+import { AnnualReportModal } from '../components/AnnualReportModal';
+import { ExportButton } from '../components/ExportButton';
+import { SpreadsheetColumn } from '../utils/spreadsheet';
 import { supabaseProjectId } from '../supabaseClient';
+import { useData } from '../contexts/DataContext';
 
 
 const STORAGE_POLICIES_SCRIPT = `-- SCRIPT DE POLÍTICAS PARA O BUCKET 'documents'
@@ -95,6 +99,7 @@ const getDocumentIcon = (type: DocumentType) => {
         case 'Statute': return <FileText className="text-blue-500" />;
         case 'Meeting Minutes': return <FileClock className="text-purple-500" />;
         case 'Report': return <FileBarChart className="text-green-500" />;
+        case 'Proof': return <FileCheck className="text-orange-500" />;
         default: return <FileQuestion className="text-gray-500" />;
     }
 }
@@ -108,17 +113,33 @@ const formatBytes = (bytes: number, decimals = 2) => {
     return parseFloat((bytes / Math.pow(k, i)).toFixed(dm)) + ' ' + sizes[i];
 }
 
+const DOCUMENT_EXPORT_COLUMNS: SpreadsheetColumn<Document>[] = [
+    { key: 'name', label: 'Nome do Arquivo' },
+    { key: 'type', label: 'Tipo' },
+    { key: 'uploadDate', label: 'Data de Upload', type: 'date' },
+    { key: 'size', label: 'Tamanho', value: (doc) => formatBytes(doc.size) },
+    { key: 'url', label: 'Link' },
+];
+
 interface DocumentsProps {
     documents: Document[];
     onAddDocument: (doc: Omit<Document, 'id'|'url'>, file: File) => Promise<void>;
     onDeleteDocument: (doc: Document) => Promise<void>;
     userRole: UserRole;
+    showToast: (msg: string, type?: 'success'|'error') => void;
 }
 
-export const Documents: React.FC<DocumentsProps> = ({ documents, onAddDocument, onDeleteDocument, userRole }) => {
+export const Documents: React.FC<DocumentsProps> = ({ documents, onAddDocument, onDeleteDocument, userRole, showToast }) => {
     const [isModalOpen, setIsModalOpen] = useState(false);
+    const [isAnnualReportOpen, setIsAnnualReportOpen] = useState(false);
     const [showStorageHelp, setShowStorageHelp] = useState(false);
     const canPerformActions = userRole === 'Super Admin' || userRole === 'Financeiro';
+    const { updateDocument } = useData();
+
+    const handleToggleMemberVisible = async (doc: Document) => {
+        await updateDocument(doc.id, { memberVisible: !doc.memberVisible });
+        showToast(doc.memberVisible ? 'Documento oculto do portal do associado.' : 'Documento publicado no portal do associado.');
+    };
 
     const handleDelete = async (doc: Document) => {
         if(window.confirm(`Tem certeza que deseja excluir o documento "${doc.name}"?`)) {
@@ -134,18 +155,32 @@ export const Documents: React.FC<DocumentsProps> = ({ documents, onAddDocument,
             onAddDocument={onAddDocument}
             onStorageError={() => setShowStorageHelp(true)}
         />
+        <AnnualReportModal
+            isOpen={isAnnualReportOpen}
+            onClose={() => setIsAnnualReportOpen(false)}
+            onSaveDocument={onAddDocument}
+            showToast={showToast}
+        />
         <div className="space-y-6">
             {showStorageHelp && <StorageInfoPanel onClose={() => setShowStorageHelp(false)} />}
             <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-lg border border-gray-200 dark:border-gray-700">
                 <div className="flex justify-between items-center mb-6">
                     <h2 className="text-xl font-semibold">Repositório de Documentos</h2>
-                    {canPerformActions && (
-                        <button 
-                            onClick={() => setIsModalOpen(true)}
-                            className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-secondary-700 rounded-lg hover:bg-secondary-800">
-                            <Upload size={16} /> Carregar Documento
-                        </button>
-                    )}
+                    <div className="flex gap-2">
+                        <ExportButton rows={documents} columns={DOCUMENT_EXPORT_COLUMNS} filename="documentos" sheetName="Documentos" />
+                        {canPerformActions && (<>
+                            <button
+                                onClick={() => setIsAnnualReportOpen(true)}
+                                className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-600 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200">
+                                <FileBarChart size={16} /> Relatório Anual
+                            </button>
+                            <button 
+                                onClick={() => setIsModalOpen(true)}
+                                className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-secondary-700 rounded-lg hover:bg-secondary-800">
+                                <Upload size={16} /> Carregar Documento
+                            </button>
+                        </>)}
+                    </div>
                 </div>
                 <div className="overflow-x-auto">
                     <table className="w-full text-sm text-left text-gray-500 dark:text-gray-400">
@@ -172,6 +207,11 @@ export const Documents: React.FC<DocumentsProps> = ({ documents, onAddDocument,
                                         <a href={doc.url} download={doc.name} target="_blank" rel="noopener noreferrer" className="p-2 inline-block text-gray-500 hover:text-green-600 dark:text-gray-400 dark:hover:text-green-400">
                                             <Download size={18} />
                                         </a>
+                                        {canPerformActions && (
+                                            <button onClick={() => handleToggleMemberVisible(doc)} title={doc.memberVisible ? 'Visível no portal do associado' : 'Oculto no portal do associado'} className={`p-2 ${doc.memberVisible ? 'text-green-600 dark:text-green-400' : 'text-gray-500 dark:text-gray-400'} hover:text-green-700`}>
+                                                {doc.memberVisible ? <Eye size={18} /> : <EyeOff size={18} />}
+                                            </button>
+                                        )}
                                         {canPerformActions && (
                                             <button 
                                                 onClick={() => handleDelete(doc)}
@@ -1,7 +1,23 @@
 import React, { useState } from 'react';
-import { PlusCircle, MapPin, Clock, CalendarOff, Edit, Trash2 } from 'lucide-react';
-import { Event, UserRole } from '../types';
+import { PlusCircle, MapPin, Clock, CalendarOff, Edit, Trash2, Ticket, QrCode } from 'lucide-react';
+import { Event, EventCharge, UserRole } from '../types';
 import { AddEventModal } from '../components/AddEventModal';
+import { ExportButton } from '../components/ExportButton';
+import { PixChargeModal } from '../components/PixChargeModal';
+import { useData } from '../contexts/DataContext';
+import { SpreadsheetColumn } from '../utils/spreadsheet';
+
+const EVENT_EXPORT_COLUMNS: SpreadsheetColumn<Event>[] = [
+  { key: 'date', label: 'Data', type: 'date' },
+  { key: 'time', label: 'Horário' },
+  { key: 'title', label: 'Evento' },
+  { key: 'type', label: 'Tipo' },
+  { key: 'location', label: 'Local' },
+  { key: 'fee', label: 'Inscrição', type: 'currency' },
+  { key: 'expectedRevenue', label: 'Receita prevista', type: 'currency' },
+  { key: 'expectedCost', label: 'Custo previsto', type: 'currency' },
+  { key: 'description', label: 'Descrição' },
+];
 
 interface EventCardProps {
   event: Event;
@@ -10,9 +26,10 @@ interface EventCardProps {
   canPerformActions: boolean;
   isSubscribed: boolean;
   onSubscribe: () => void;
+  onPay: () => void;
 }
 
-const EventCard: React.FC<EventCardProps> = ({ event, onEdit, onDelete, canPerformActions, isSubscribed, onSubscribe }) => (
+const EventCard: React.FC<EventCardProps> = ({ event, onEdit, onDelete, canPerformActions, isSubscribed, onSubscribe, onPay }) => (
   <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-lg hover:shadow-xl transition-shadow duration-300 flex flex-col justify-between relative border border-gray-200 dark:border-gray-700">
     {canPerformActions && (
       <div className="absolute top-4 right-4 flex gap-2">
@@ -35,10 +52,11 @@ const EventCard: React.FC<EventCardProps> = ({ event, onEdit, onDelete, canPerfo
       <div className="text-sm text-gray-500 dark:text-gray-400 mt-2 space-y-1">
         <p className="flex items-center"><Clock size={14} className="mr-2" />{event.time}</p>
         <p className="flex items-center"><MapPin size={14} className="mr-2" />{event.location}</p>
+        {!!event.fee && <p className="flex items-center"><Ticket size={14} className="mr-2" />Inscrição: R$ {event.fee.toFixed(2)}</p>}
       </div>
       <p className="text-sm text-gray-600 dark:text-gray-300 mt-3">{event.description}</p>
     </div>
-    <div className="mt-6">
+    <div className="mt-6 flex gap-2">
       <button 
         onClick={onSubscribe}
         disabled={isSubscribed}
@@ -50,6 +68,11 @@ const EventCard: React.FC<EventCardProps> = ({ event, onEdit, onDelete, canPerfo
       >
         {isSubscribed ? 'Inscrito' : 'Inscrever-se'}
       </button>
+      {!!event.fee && (
+        <button onClick={onPay} className="flex items-center gap-1 px-3 py-2 text-sm font-medium text-secondary-700 dark:text-secondary-400 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600">
+          <QrCode size={16} /> PIX
+        </button>
+      )}
     </div>
   </div>
 );
@@ -67,6 +90,8 @@ export const Events: React.FC<EventsProps> = ({ events, onAddEvent, onUpdateEven
   const [editingEvent, setEditingEvent] = useState<Event | null>(null);
   const [subscribedEvents, setSubscribedEvents] = useState<Set<string>>(new Set());
   const [showSuccessAlert, setShowSuccessAlert] = useState(false);
+  const { createEventCharge } = useData();
+  const [pixCharge, setPixCharge] = useState<EventCharge | null>(null);
   
   const canPerformActions = userRole === 'Super Admin' || userRole === 'Financeiro';
 
@@ -113,6 +138,16 @@ export const Events: React.FC<EventsProps> = ({ events, onAddEvent, onUpdateEven
         onSave={handleSaveEvent}
         existingEvent={editingEvent}
       />
+
+      {/* Uma cobrança por QR Code: o TXID identifica o pagamento no extrato e quita a cobrança */}
+      <PixChargeModal
+        isOpen={!!pixCharge}
+        onClose={() => setPixCharge(null)}
+        title="Inscrição via PIX"
+        amount={pixCharge?.amount || 0}
+        txid={pixCharge?.txid || ''}
+        description={pixCharge?.eventTitle}
+      />
       
       {showSuccessAlert && (
         <div className="fixed top-20 right-6 bg-green-100 border border-green-400 text-green-700 dark:bg-green-900 dark:border-green-700 dark:text-green-200 px-4 py-3 rounded-lg shadow-lg z-50" role="alert">
@@ -124,13 +159,16 @@ export const Events: React.FC<EventsProps> = ({ events, onAddEvent, onUpdateEven
       <div>
         <div className="flex justify-between items-center mb-6">
           <h2 className="text-xl font-semibold">Próximos Eventos</h2>
-          {canPerformActions && (
-            <button 
-              onClick={handleOpenAddModal}
-              className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-secondary-700 rounded-lg hover:bg-secondary-800">
-              <PlusCircle size={16} /> Criar Evento
-            </button>
-          )}
+          <div className="flex gap-2">
+            <ExportButton rows={events} columns={EVENT_EXPORT_COLUMNS} filename="eventos" sheetName="Eventos" />
+            {canPerformActions && (
+              <button 
+                onClick={handleOpenAddModal}
+                className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-secondary-700 rounded-lg hover:bg-secondary-800">
+                <PlusCircle size={16} /> Criar Evento
+              </button>
+            )}
+          </div>
         </div>
         {events.length > 0 ? (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -143,6 +181,7 @@ export const Events: React.FC<EventsProps> = ({ events, onAddEvent, onUpdateEven
                 canPerformActions={canPerformActions}
                 isSubscribed={subscribedEvents.has(event.id)}
                 onSubscribe={() => handleSubscribe(event.id)}
+                onPay={async () => setPixCharge(await createEventCharge(event))}
               />
             ))}
           </div>
@@ -1,28 +1,90 @@
-import React, { useState } from 'react';
-import { PlusCircle, Download, ArrowUpCircle, ArrowDownCircle, Receipt, Trash2, Sparkles } from 'lucide-react';
-import { Transaction, Member, UserRole } from '../types';
+import React, { useState, useEffect } from 'react';
+import { PlusCircle, Download, ArrowUpCircle, ArrowDownCircle, Receipt, Trash2, Sparkles, Landmark, BadgeCheck, ArrowRightLeft, Wallet, Repeat, Check, SkipForward, FileText, Lock, Paperclip, Edit, History, ChevronLeft, ChevronRight, FileSignature, HandCoins } from 'lucide-react';
+import { Transaction, Member, UserRole, FinancialAccount, AccountTransfer, LedgerFilters, LedgerPage, FinancialAlert } from '../types';
 import { AddTransactionModal } from '../components/AddTransactionModal';
 import { ReportModal } from '../components/ReportModal';
 import { AIAnalysisModal } from '../components/AIAnalysisModal';
+import { BankImportModal } from '../components/BankImportModal';
+import { TransferModal } from '../components/TransferModal';
+import { RecurringTemplatesModal } from '../components/RecurringTemplatesModal';
+import { ReceiptModal } from '../components/ReceiptModal';
+import { TransactionAttachmentsModal } from '../components/TransactionAttachmentsModal';
+import { TransactionHistoryModal } from '../components/TransactionHistoryModal';
+import { RpaModal } from '../components/RpaModal';
+import { TaxPayablesModal } from '../components/TaxPayablesModal';
+import { LedgerFilterBar } from '../components/LedgerFilterBar';
+import { FinancialAlerts } from '../components/FinancialAlerts';
+import { ACCOUNT_TYPE_LABELS, getAccountBalances } from '../utils/accounts';
+import { getPendingDrafts } from '../utils/recurring';
+import { isPeriodClosed } from '../utils/fiscalPeriods';
+import { countAttachmentsByTransaction, isMissingProof } from '../utils/attachments';
+import { useData } from '../contexts/DataContext';
+
+const LEDGER_PAGE_SIZE = 25;
 
 interface FinancialProps {
     transactions: Transaction[];
     members: Member[];
-    onAddTransaction: (newTransaction: Omit<Transaction, 'id'>) => Promise<void>;
+    onAddTransaction: (newTransaction: Omit<Transaction, 'id'>, attachments?: File[]) => Promise<void>;
+    onUpdateTransaction: (transactionId: string, data: Partial<Transaction>) => Promise<void>;
     onDeleteTransaction: (transactionId: string) => Promise<void>;
+    financialAccounts: FinancialAccount[];
+    transfers: AccountTransfer[];
+    onAddTransfer: (newTransfer: Omit<AccountTransfer, 'id'>) => Promise<void>;
+    onDeleteTransfer: (transferId: string) => Promise<void>;
     userRole: UserRole;
+    showToast: (message: string, type?: 'success' | 'error') => void;
+    focusAlert?: FinancialAlert | null;
+    onFocusHandled?: () => void;
 }
 
-export const Financial: React.FC<FinancialProps> = ({ transactions, members, onAddTransaction, onDeleteTransaction, userRole }) => {
+export const Financial: React.FC<FinancialProps> = ({ transactions, members, onAddTransaction, onUpdateTransaction, onDeleteTransaction, financialAccounts, transfers, onAddTransfer, onDeleteTransfer, userRole, showToast, focusAlert, onFocusHandled }) => {
+    const { recurringTemplates, confirmRecurringDraft, skipRecurringDraft, fiscalPeriods, documents, transactionSummary, fetchLedgerPage, taxPayables } = useData();
     const [isAddModalOpen, setIsAddModalOpen] = useState(false);
     const [isReportModalOpen, setIsReportModalOpen] = useState(false);
     const [isAIModalOpen, setIsAIModalOpen] = useState(false);
+    const [isImportModalOpen, setIsImportModalOpen] = useState(false);
+    const [isTransferModalOpen, setIsTransferModalOpen] = useState(false);
+    const [isRecurringModalOpen, setIsRecurringModalOpen] = useState(false);
+    const [isTaxPayablesModalOpen, setIsTaxPayablesModalOpen] = useState(false);
+    const [receiptTransaction, setReceiptTransaction] = useState<Transaction | null>(null);
+    const [rpaTransaction, setRpaTransaction] = useState<Transaction | null>(null);
+    const [attachmentsTransaction, setAttachmentsTransaction] = useState<Transaction | null>(null);
+    const [editingTransaction, setEditingTransaction] = useState<Transaction | null>(null);
+    const [historyTransaction, setHistoryTransaction] = useState<Transaction | null>(null);
+    const [filters, setFilters] = useState<LedgerFilters>({});
+    const [page, setPage] = useState(0);
+    const [ledger, setLedger] = useState<LedgerPage>({ rows: [], total: 0, income: 0, expense: 0 });
+    const [isLedgerLoading, setIsLedgerLoading] = useState(false);
+    const [highlightedId, setHighlightedId] = useState<string | null>(null);
 
     const canPerformActions = userRole === 'Super Admin' || userRole === 'Financeiro';
+    const openTaxPayables = taxPayables.filter(p => p.status === 'Open').length;
+
+    // Saldos a partir dos totais agregados no banco. Inativas só aparecem enquanto ainda tiverem saldo
+    const accountBalances = getAccountBalances(financialAccounts, transactionSummary, transfers).filter(b => b.account.active || Math.abs(b.balance) > 0.005);
+    const consolidated = accountBalances.reduce((acc, b) => acc + b.balance, 0);
+    const unassigned = transactionSummary.filter(t => !t.accountId).reduce((acc, t) => acc + (t.type === 'Income' ? t.amount : -t.amount), 0);
+
+    // Recarrega a página ao mudar filtros/página e após qualquer inclusão, edição ou exclusão (transactions muda)
+    useEffect(() => {
+        setIsLedgerLoading(true);
+        fetchLedgerPage(filters, page, LEDGER_PAGE_SIZE).then(setLedger).finally(() => setIsLedgerLoading(false));
+    }, [filters, page, transactions]);
+
+    const pageCount = Math.max(1, Math.ceil(ledger.total / LEDGER_PAGE_SIZE));
+    const handleApplyFilters = (next: LedgerFilters) => { setFilters(next); setPage(0); setHighlightedId(null); };
+
+    // Filtra o livro-caixa pelo dia e descrição da transação do alerta e a destaca
+    const handleOpenAlert = (alert: FinancialAlert) => {
+        setFilters({ startDate: alert.date, endDate: alert.date, search: alert.description });
+        setPage(0);
+        setHighlightedId(alert.transactionId);
+    };
 
-    const totalIncome = transactions.filter(t => t.type === 'Income').reduce((acc, t) => acc + t.amount, 0);
-    const totalExpense = transactions.filter(t => t.type === 'Expense').reduce((acc, t) => acc + t.amount, 0);
-    const balance = totalIncome - totalExpense;
+    useEffect(() => {
+        if (focusAlert) { handleOpenAlert(focusAlert); onFocusHandled?.(); }
+    }, [focusAlert]);
     
     const handleDelete = async (transactionId: string) => {
         if (window.confirm('Tem certeza que deseja excluir esta transação?')) {
@@ -30,8 +92,18 @@ export const Financial: React.FC<FinancialProps> = ({ transactions, members, onA
         }
     };
 
+    const drafts = canPerformActions ? getPendingDrafts(recurringTemplates) : [];
+
+    const attachmentCounts = countAttachmentsByTransaction(documents);
+
+    const handleDeleteTransfer = async (transferId: string) => {
+        if (window.confirm('Tem certeza que deseja excluir esta transferência?')) {
+            await onDeleteTransfer(transferId);
+        }
+    };
+
     const TransactionRow: React.FC<{ transaction: Transaction }> = ({ transaction }) => (
-        <tr className="bg-white dark:bg-gray-800 border-b dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600">
+        <tr className={`border-b dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 ${transaction.id === highlightedId ? 'bg-orange-50 dark:bg-orange-900/30 ring-2 ring-inset ring-orange-400' : 'bg-white dark:bg-gray-800'}`}>
             <td className="px-6 py-4 font-medium text-gray-900 dark:text-white whitespace-nowrap">
                 <div className="flex items-center gap-3">
                     {transaction.type === 'Income'
@@ -43,18 +115,51 @@ export const Financial: React.FC<FinancialProps> = ({ transactions, members, onA
                         {transaction.memberName && (
                              <p className="text-xs text-gray-500 dark:text-gray-400">{transaction.memberName}</p>
                         )}
+                        {(transaction.categoryName || transaction.accountName) && (
+                             <p className="text-xs text-gray-400 dark:text-gray-500">{[transaction.categoryName, transaction.accountName].filter(Boolean).join(' · ')}</p>
+                        )}
                     </div>
                 </div>
             </td>
-            <td className="px-6 py-4">{transaction.date}</td>
+            <td className="px-6 py-4">
+                <div className="flex items-center gap-1">
+                    {transaction.date}
+                    {transaction.recurringTemplateId && <span title="Gerada por lançamento recorrente"><Repeat size={14} className="text-purple-500" /></span>}
+                    {transaction.reconciled && <span title="Conciliada com o extrato"><BadgeCheck size={14} className="text-blue-500" /></span>}
+                    {isPeriodClosed(fiscalPeriods, transaction.date) && <span title="Período fechado"><Lock size={14} className="text-gray-400" /></span>}
+                    <button onClick={() => setAttachmentsTransaction(transaction)} title={attachmentCounts.get(transaction.id) ? `${attachmentCounts.get(transaction.id)} comprovante(s)` : 'Sem comprovante'} className={`flex items-center text-xs ${attachmentCounts.get(transaction.id) ? 'text-secondary-600 dark:text-secondary-400' : isMissingProof(transaction, attachmentCounts) ? 'text-orange-400' : 'text-gray-300 dark:text-gray-600'}`}>
+                        <Paperclip size={14} />{attachmentCounts.get(transaction.id) || ''}
+                    </button>
+                    <button onClick={() => setHistoryTransaction(transaction)} title="Histórico de alterações" className="text-gray-300 hover:text-gray-500 dark:text-gray-600 dark:hover:text-gray-400">
+                        <History size={14} />
+                    </button>
+                </div>
+            </td>
             <td className={`px-6 py-4 font-semibold ${transaction.type === 'Income' ? 'text-green-500' : 'text-red-500'}`}>
                 {transaction.type === 'Income' ? '+' : '-'} R$ {transaction.amount.toFixed(2)}
             </td>
             {canPerformActions && (
-                <td className="px-6 py-4 text-right">
-                    <button onClick={() => handleDelete(transaction.id)} className="p-2 text-gray-500 hover:text-primary-700 dark:hover:text-primary-500">
-                        <Trash2 size={16} />
-                    </button>
+                <td className="px-6 py-4 text-right whitespace-nowrap">
+                    {transaction.type === 'Income' && transaction.memberId && (
+                        <button onClick={() => setReceiptTransaction(transaction)} title="Recibo" className="p-2 text-gray-500 hover:text-secondary-700 dark:hover:text-secondary-400">
+                            <FileText size={16} />
+                        </button>
+                    )}
+                    {transaction.type === 'Expense' && transaction.providerId && (
+                        <button onClick={() => setRpaTransaction(transaction)} title="RPA (pagamento a autônomo)" className="p-2 text-gray-500 hover:text-secondary-700 dark:hover:text-secondary-400">
+                            <FileSignature size={16} />
+                        </button>
+                    )}
+                    {!isPeriodClosed(fiscalPeriods, transaction.date) && (
+                        <>
+                            <button onClick={() => { setEditingTransaction(transaction); setIsAddModalOpen(true); }} title="Editar" className="p-2 text-gray-500 hover:text-blue-600">
+                                <Edit size={16} />
+                            </button>
+                            <button onClick={() => handleDelete(transaction.id)} className="p-2 text-gray-500 hover:text-primary-700 dark:hover:text-primary-500">
+                                <Trash2 size={16} />
+                            </button>
+                        </>
+                    )}
                 </td>
             )}
         </tr>
@@ -66,39 +171,108 @@ export const Financial: React.FC<FinancialProps> = ({ transactions, members, onA
             isOpen={isAddModalOpen}
             onClose={() => setIsAddModalOpen(false)}
             onAddTransaction={onAddTransaction}
+            onUpdateTransaction={onUpdateTransaction}
+            existingTransaction={editingTransaction}
             members={members}
         />
+        <TransactionHistoryModal
+            isOpen={!!historyTransaction}
+            onClose={() => setHistoryTransaction(null)}
+            transaction={historyTransaction}
+        />
         <ReportModal
             isOpen={isReportModalOpen}
             onClose={() => setIsReportModalOpen(false)}
             members={members}
-            transactions={transactions}
         />
         <AIAnalysisModal 
             isOpen={isAIModalOpen}
             onClose={() => setIsAIModalOpen(false)}
-            transactions={transactions}
+        />
+        <BankImportModal
+            isOpen={isImportModalOpen}
+            onClose={() => setIsImportModalOpen(false)}
+        />
+        <TransferModal
+            isOpen={isTransferModalOpen}
+            onClose={() => setIsTransferModalOpen(false)}
+            onAddTransfer={onAddTransfer}
+        />
+        <ReceiptModal
+            isOpen={!!receiptTransaction}
+            onClose={() => setReceiptTransaction(null)}
+            transaction={receiptTransaction}
+            memberEmail={members.find(m => m.id === receiptTransaction?.memberId)?.email}
+            showToast={showToast}
+        />
+        <RpaModal
+            isOpen={!!rpaTransaction}
+            onClose={() => setRpaTransaction(null)}
+            transaction={rpaTransaction}
+            showToast={showToast}
+        />
+        <TaxPayablesModal
+            isOpen={isTaxPayablesModalOpen}
+            onClose={() => setIsTaxPayablesModalOpen(false)}
+            showToast={showToast}
+        />
+        <TransactionAttachmentsModal
+            isOpen={!!attachmentsTransaction}
+            onClose={() => setAttachmentsTransaction(null)}
+            transaction={attachmentsTransaction}
+            canEdit={canPerformActions}
+            showToast={showToast}
+        />
+        <RecurringTemplatesModal
+            isOpen={isRecurringModalOpen}
+            onClose={() => setIsRecurringModalOpen(false)}
+            showToast={showToast}
         />
 
         <div className="space-y-8">
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-                <div className="bg-green-100 dark:bg-green-900/50 p-6 rounded-xl text-green-800 dark:text-green-200 border border-green-200 dark:border-green-800">
-                    <h3 className="font-medium">Receita Total</h3>
-                    <p className="text-3xl font-bold">R$ {totalIncome.toFixed(2)}</p>
-                </div>
-                <div className="bg-red-100 dark:bg-red-900/50 p-6 rounded-xl text-red-800 dark:text-red-200 border border-red-200 dark:border-red-800">
-                    <h3 className="font-medium">Despesa Total</h3>
-                    <p className="text-3xl font-bold">R$ {totalExpense.toFixed(2)}</p>
-                </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+                {accountBalances.map(({ account, income, expense, balance }) => (
+                    <div key={account.id} className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-lg border border-gray-200 dark:border-gray-700">
+                        <div className="flex items-center justify-between">
+                            <h3 className="font-medium text-gray-600 dark:text-gray-300">{account.name}</h3>
+                            <span className="text-xs text-gray-400">{ACCOUNT_TYPE_LABELS[account.type]}</span>
+                        </div>
+                        <p className={`text-3xl font-bold ${balance < 0 ? 'text-red-500' : 'text-gray-900 dark:text-white'}`}>R$ {balance.toFixed(2)}</p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400 mt-1"><span className="text-green-500">+ R$ {income.toFixed(2)}</span> · <span className="text-red-500">- R$ {expense.toFixed(2)}</span></p>
+                    </div>
+                ))}
                 <div className="bg-blue-100 dark:bg-blue-900/50 p-6 rounded-xl text-blue-800 dark:text-blue-200 border border-blue-200 dark:border-blue-800">
-                    <h3 className="font-medium">Saldo</h3>
-                    <p className="text-3xl font-bold">R$ {balance.toFixed(2)}</p>
+                    <h3 className="font-medium flex items-center gap-2"><Wallet size={16} /> Saldo Consolidado</h3>
+                    <p className="text-3xl font-bold">R$ {consolidated.toFixed(2)}</p>
+                    {Math.abs(unassigned) > 0.005 && <p className="text-xs mt-1">R$ {unassigned.toFixed(2)} em transações sem conta</p>}
                 </div>
             </div>
 
+            {drafts.length > 0 && (
+                <div className="bg-purple-50 dark:bg-purple-900/30 p-4 rounded-xl border border-purple-200 dark:border-purple-800">
+                    <h3 className="font-semibold text-purple-800 dark:text-purple-200 flex items-center gap-2 mb-3"><Repeat size={16} /> Lançamentos recorrentes aguardando confirmação</h3>
+                    <ul className="space-y-2">
+                        {drafts.map(({ template, date }) => (
+                            <li key={`${template.id}-${date}`} className="flex justify-between items-center text-sm">
+                                <span><span className="font-medium">{new Date(`${date}T00:00:00`).toLocaleDateString('pt-BR')}</span> — {template.description} <span className={template.type === 'Income' ? 'text-green-600' : 'text-red-500'}>R$ {template.amount.toFixed(2)}</span></span>
+                                {/* Só a ocorrência mais antiga de cada modelo pode ser tratada */}
+                                {date === template.nextDueDate && (
+                                    <span className="flex gap-2">
+                                        <button onClick={async () => { await confirmRecurringDraft(template); showToast('Lançamento confirmado'); }} className="flex items-center gap-1 px-2 py-1 text-xs font-medium text-white bg-secondary-700 rounded hover:bg-secondary-800"><Check size={12} /> Confirmar</button>
+                                        <button onClick={async () => { await skipRecurringDraft(template); showToast('Ocorrência pulada'); }} className="flex items-center gap-1 px-2 py-1 text-xs font-medium bg-gray-100 dark:bg-gray-700 rounded hover:bg-gray-200"><SkipForward size={12} /> Pular</button>
+                                    </span>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            {canPerformActions && <FinancialAlerts onOpenTransaction={handleOpenAlert} showToast={showToast} />}
+
             <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-lg border border-gray-200 dark:border-gray-700">
                 <div className="flex flex-col md:flex-row justify-between items-center mb-6 gap-4">
-                    <h2 className="text-xl font-semibold">Transações Recentes</h2>
+                    <h2 className="text-xl font-semibold">Livro-Caixa</h2>
                     <div className="flex flex-wrap items-center gap-2">
                         <button 
                             onClick={() => setIsAIModalOpen(true)}
@@ -111,8 +285,20 @@ export const Financial: React.FC<FinancialProps> = ({ transactions, members, onA
                                 <button onClick={() => setIsReportModalOpen(true)} className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-600 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600">
                                     <Download size={16} /> Relatórios
                                 </button>
+                                <button onClick={() => setIsRecurringModalOpen(true)} className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-600 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600">
+                                    <Repeat size={16} /> Recorrentes
+                                </button>
+                                <button onClick={() => setIsTaxPayablesModalOpen(true)} className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-600 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600">
+                                    <HandCoins size={16} /> Tributos {openTaxPayables > 0 && <span className="px-1.5 text-xs text-white bg-red-500 rounded-full">{openTaxPayables}</span>}
+                                </button>
+                                <button onClick={() => setIsTransferModalOpen(true)} className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-600 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600">
+                                    <ArrowRightLeft size={16} /> Transferência
+                                </button>
+                                <button onClick={() => setIsImportModalOpen(true)} className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-600 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600">
+                                    <Landmark size={16} /> Importar Extrato
+                                </button>
                                 <button 
-                                    onClick={() => setIsAddModalOpen(true)}
+                                    onClick={() => { setEditingTransaction(null); setIsAddModalOpen(true); }}
                                     className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-primary-700 rounded-lg hover:bg-primary-800">
                                     <PlusCircle size={16} /> Nova Transação
                                 </button>
@@ -120,7 +306,14 @@ export const Financial: React.FC<FinancialProps> = ({ transactions, members, onA
                         )}
                     </div>
                 </div>
-                <div className="overflow-x-auto">
+                <LedgerFilterBar filters={filters} onApply={handleApplyFilters} members={members} />
+                <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm mb-3 text-gray-600 dark:text-gray-300">
+                    <span>{ledger.total} transação(ões)</span>
+                    <span className="text-green-600">Receitas: R$ {ledger.income.toFixed(2)}</span>
+                    <span className="text-red-500">Despesas: R$ {ledger.expense.toFixed(2)}</span>
+                    <span className="font-semibold">Resultado: R$ {(ledger.income - ledger.expense).toFixed(2)}</span>
+                </div>
+                <div className={`overflow-x-auto ${isLedgerLoading ? 'opacity-60' : ''}`}>
                     <table className="w-full text-sm text-left text-gray-500 dark:text-gray-400">
                         <thead className="text-xs text-gray-700 uppercase bg-gray-50 dark:bg-gray-700 dark:text-gray-400">
                             <tr>
@@ -131,15 +324,15 @@ export const Financial: React.FC<FinancialProps> = ({ transactions, members, onA
                             </tr>
                         </thead>
                         <tbody>
-                             {transactions.length > 0 ? (
-                                transactions.map((transaction) => <TransactionRow key={transaction.id} transaction={transaction} />)
+                             {ledger.rows.length > 0 ? (
+                                ledger.rows.map((transaction) => <TransactionRow key={transaction.id} transaction={transaction} />)
                             ) : (
                                 <tr className="bg-white dark:bg-gray-800 border-b dark:border-gray-700">
                                     <td colSpan={canPerformActions ? 4 : 3} className="text-center py-10">
                                         <div className="flex flex-col items-center justify-center text-gray-500 dark:text-gray-400">
                                             <Receipt size={48} className="mb-2" />
                                             <h3 className="text-lg font-semibold">Nenhuma transação encontrada</h3>
-                                            <p className="text-sm">Comece adicionando a primeira transação financeira.</p>
+                                            <p className="text-sm">{Object.values(filters).some(Boolean) ? 'Ajuste os filtros para ver outros lançamentos.' : 'Comece adicionando a primeira transação financeira.'}</p>
                                         </div>
                                     </td>
                                 </tr>
@@ -147,7 +340,52 @@ export const Financial: React.FC<FinancialProps> = ({ transactions, members, onA
                         </tbody>
                     </table>
                 </div>
+                {ledger.total > LEDGER_PAGE_SIZE && (
+                    <div className="flex justify-end items-center gap-2 pt-4 text-sm">
+                        <span className="text-gray-500 dark:text-gray-400">Página {page + 1} de {pageCount}</span>
+                        <button onClick={() => setPage(page - 1)} disabled={page === 0} className="p-2 rounded-lg bg-gray-100 dark:bg-gray-700 disabled:opacity-40"><ChevronLeft size={16} /></button>
+                        <button onClick={() => setPage(page + 1)} disabled={page + 1 >= pageCount} className="p-2 rounded-lg bg-gray-100 dark:bg-gray-700 disabled:opacity-40"><ChevronRight size={16} /></button>
+                    </div>
+                )}
             </div>
+
+            {transfers.length > 0 && (
+                <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-lg border border-gray-200 dark:border-gray-700">
+                    <h2 className="text-xl font-semibold mb-4">Transferências entre Contas</h2>
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm text-left text-gray-500 dark:text-gray-400">
+                            <thead className="text-xs text-gray-700 uppercase bg-gray-50 dark:bg-gray-700 dark:text-gray-400">
+                                <tr>
+                                    <th scope="col" className="px-6 py-3">Data</th>
+                                    <th scope="col" className="px-6 py-3">Origem → Destino</th>
+                                    <th scope="col" className="px-6 py-3">Descrição</th>
+                                    <th scope="col" className="px-6 py-3">Valor</th>
+                                    {canPerformActions && <th scope="col" className="px-6 py-3 text-right">Ações</th>}
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {transfers.map(transfer => (
+                                    <tr key={transfer.id} className="bg-white dark:bg-gray-800 border-b dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600">
+                                        <td className="px-6 py-4">{transfer.date}</td>
+                                        <td className="px-6 py-4 font-medium text-gray-900 dark:text-white">{transfer.fromAccountName} → {transfer.toAccountName}</td>
+                                        <td className="px-6 py-4">{transfer.description || '-'}</td>
+                                        <td className="px-6 py-4 font-semibold text-blue-500">R$ {transfer.amount.toFixed(2)}</td>
+                                        {canPerformActions && (
+                                            <td className="px-6 py-4 text-right">
+                                                {isPeriodClosed(fiscalPeriods, transfer.date)
+                                                    ? <span title="Período fechado" className="inline-block p-2"><Lock size={16} className="text-gray-400" /></span>
+                                                    : <button onClick={() => handleDeleteTransfer(transfer.id)} className="p-2 text-gray-500 hover:text-primary-700 dark:hover:text-primary-500">
+                                                        <Trash2 size={16} />
+                                                    </button>}
+                                            </td>
+                                        )}
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            )}
         </div>
         </>
     );
@@ -2,11 +2,25 @@ import React, { useState } from 'react';
 import { PlusCircle, Edit, Trash2, Box, MapPin } from 'lucide-react';
 import { useData } from '../contexts/DataContext';
 import { AddInventoryModal } from '../components/AddInventoryModal';
-import { InventoryItem, UserRole } from '../types';
+import { ExportButton } from '../components/ExportButton';
+import { InventoryCondition, InventoryItem, UserRole } from '../types';
+import { SpreadsheetColumn } from '../utils/spreadsheet';
 
 interface InventoryProps { userRole: UserRole; showToast: (msg: string, type?: 'success'|'error') => void; }
 const getConditionColor = (c: string) => ({ 'New': 'text-green-600 bg-green-100', 'Good': 'text-blue-600 bg-blue-100', 'Fair': 'text-yellow-600 bg-yellow-100', 'Poor': 'text-orange-600 bg-orange-100', 'Broken': 'text-red-600 bg-red-100' }[c] || 'text-gray-600 bg-gray-100');
 
+const CONDITION_LABELS: Record<InventoryCondition, string> = { 'New': 'Novo', 'Good': 'Bom', 'Fair': 'Regular', 'Poor': 'Ruim', 'Broken': 'Quebrado' };
+
+const INVENTORY_EXPORT_COLUMNS: SpreadsheetColumn<InventoryItem>[] = [
+    { key: 'code', label: 'Código' },
+    { key: 'name', label: 'Item' },
+    { key: 'condition', label: 'Condição', value: (i) => CONDITION_LABELS[i.condition] },
+    { key: 'location', label: 'Localização' },
+    { key: 'acquisitionDate', label: 'Aquisição', type: 'date' },
+    { key: 'value', label: 'Valor', type: 'currency' },
+    { key: 'description', label: 'Descrição' },
+];
+
 export const Inventory: React.FC<InventoryProps> = ({ userRole, showToast }) => {
     const { inventory, addInventoryItem, updateInventoryItem, deleteInventoryItem } = useData();
     const [isModalOpen, setIsModalOpen] = useState(false);
@@ -27,7 +41,10 @@ export const Inventory: React.FC<InventoryProps> = ({ userRole, showToast }) =>
             <div className="space-y-6">
                 <div className="flex justify-between items-center">
                     <h2 className="text-2xl font-bold text-gray-800 dark:text-white flex items-center gap-2"><Box className="text-orange-600" /> Patrimônio</h2>
-                    {canPerformActions && <button onClick={handleOpenAdd} className="flex items-center gap-2 px-4 py-2 bg-secondary-700 text-white rounded-lg hover:bg-secondary-800"><PlusCircle size={18} /> Tombar Item</button>}
+                    <div className="flex gap-2">
+                        <ExportButton rows={inventory} columns={INVENTORY_EXPORT_COLUMNS} filename="patrimonio" sheetName="Patrimônio" />
+                        {canPerformActions && <button onClick={handleOpenAdd} className="flex items-center gap-2 px-4 py-2 bg-secondary-700 text-white rounded-lg hover:bg-secondary-800"><PlusCircle size={18} /> Tombar Item</button>}
+                    </div>
                 </div>
                 <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg border dark:border-gray-700 overflow-hidden">
                     <table className="w-full text-sm text-left">
@@ -0,0 +1,275 @@
+import React, { useState, useEffect } from 'react';
+import QRCode from 'qrcode';
+import { Loader2, UserX, User, Wallet, DollarSign, CalendarCheck2, FileText, IdCard, QrCode, Receipt as ReceiptIcon, Download, MapPin, Clock } from 'lucide-react';
+import { DuesCharge, DuesStatus, MemberContactForm, MemberPortalData, Receipt, Transaction } from '../types';
+import { useData } from '../contexts/DataContext';
+import { PixChargeModal } from '../components/PixChargeModal';
+import { ReceiptModal } from '../components/ReceiptModal';
+import { formatCompetence, getDuesStatus, todayISO } from '../utils/dues';
+import { buildDuesTxid } from '../utils/pix';
+import { formatReceiptNumber } from '../utils/receipts';
+import { buildCardVerificationUrl, buildMemberCardHtml } from '../utils/memberCard';
+import { formatBRL, formatDateBR, printHtml } from '../utils/print';
+
+interface MemberPortalProps {
+  showToast: (msg: string, type?: 'success' | 'error') => void;
+}
+
+const INPUT_CLASS = "mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm dark:bg-gray-700 dark:border-gray-600 dark:text-white";
+
+const DUES_STATUS: Record<DuesStatus, { label: string; className: string }> = {
+  Open: { label: 'Em aberto', className: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300' },
+  Paid: { label: 'Pago', className: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300' },
+  Overdue: { label: 'Vencido', className: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300' },
+};
+
+const STATUS_LABELS: Record<MemberPortalData['member']['status'], string> = { Active: 'Ativo', Inactive: 'Inativo', Pending: 'Pendente' };
+
+const Section: React.FC<{ title: string; icon: React.ReactNode; children: React.ReactNode }> = ({ title, icon, children }) => (
+  <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-lg border border-gray-200 dark:border-gray-700">
+    <h3 className="text-lg font-semibold mb-4 flex items-center gap-2 text-secondary-800 dark:text-secondary-300">{icon} {title}</h3>
+    {children}
+  </div>
+);
+
+// Portal do associado: o usuário com papel Associado vê e mantém apenas o próprio cadastro
+export const MemberPortal: React.FC<MemberPortalProps> = ({ showToast }) => {
+  const { events, documents, associationSettings, duesSettings, fetchMemberPortal, updateMyContact, registerForEvent, cancelEventRegistration, setDuesChargeTxid } = useData();
+  const [portal, setPortal] = useState<MemberPortalData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [contact, setContact] = useState<MemberContactForm>({ phone: '', address: '', city: '', state: '' });
+  const [isSaving, setIsSaving] = useState(false);
+  const [pixCharge, setPixCharge] = useState<DuesCharge | null>(null);
+  const [receiptTransaction, setReceiptTransaction] = useState<Transaction | null>(null);
+  const [busyEventId, setBusyEventId] = useState<string | null>(null);
+
+  const load = async () => {
+    const data = await fetchMemberPortal();
+    setPortal(data);
+    if (data) setContact({ phone: data.member.phone || '', address: data.member.address || '', city: data.member.city || '', state: data.member.state || '' });
+  };
+
+  useEffect(() => { load().finally(() => setIsLoading(false)); }, []);
+
+  if (isLoading) return <div className="flex items-center justify-center h-64"><Loader2 className="h-10 w-10 animate-spin text-primary-700" /></div>;
+
+  if (!portal) {
+    return (
+      <div className="flex flex-col items-center justify-center py-20 text-gray-500 dark:text-gray-400">
+        <UserX size={48} className="mb-2 opacity-50" />
+        <h3 className="text-lg font-semibold">Cadastro de membro não encontrado</h3>
+        <p className="text-sm">Seu usuário ainda não está vinculado a um cadastro de associado. Procure a secretaria da associação.</p>
+      </div>
+    );
+  }
+
+  const { member, card } = portal;
+  const today = todayISO();
+  const registeredIds = new Set(portal.registrations.map(r => r.eventId));
+  const upcomingEvents = events.filter(e => e.date >= today).sort((a, b) => a.date.localeCompare(b.date));
+  const pastRegistered = events.filter(e => e.date < today && registeredIds.has(e.id));
+  const receiptsByTransaction = new Map<string, Receipt>(portal.receipts.map(r => [r.transactionId, r]));
+  const outstanding = portal.duesCharges.filter(c => c.status === 'Open').reduce((acc, c) => acc + c.amount, 0);
+
+  const handleContactSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (contact.state && contact.state.length !== 2) { showToast('UF deve ter 2 letras.', 'error'); return; }
+    setIsSaving(true);
+    try {
+      if (await updateMyContact(contact)) { showToast('Dados de contato atualizados!'); await load(); }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handlePrintCard = async () => {
+    if (!card) return;
+    try {
+      const qrDataUrl = await QRCode.toDataURL(buildCardVerificationUrl(card.token), { margin: 1, width: 256 });
+      if (!printHtml(buildMemberCardHtml(member, card, qrDataUrl, associationSettings))) showToast('Permita pop-ups para imprimir a carteirinha.', 'error');
+    } catch (err) {
+      console.error('QR Code Error:', err);
+      showToast('Não foi possível gerar o QR Code da carteirinha.', 'error');
+    }
+  };
+
+  // Cobranças antigas (anteriores ao PIX) recebem o TXID na primeira emissão do QR Code
+  const handleOpenPix = async (charge: DuesCharge) => {
+    if (!charge.txid) {
+      const txid = buildDuesTxid(charge.memberId, charge.competence);
+      await setDuesChargeTxid(charge.id, txid);
+      charge = { ...charge, txid };
+    }
+    setPixCharge(charge);
+  };
+
+  const handleToggleEvent = async (eventId: string) => {
+    setBusyEventId(eventId);
+    try {
+      const ok = registeredIds.has(eventId) ? await cancelEventRegistration(eventId, member.id) : await registerForEvent(eventId, member.id);
+      if (ok) { showToast(registeredIds.has(eventId) ? 'Inscrição cancelada.' : 'Inscrição realizada!'); await load(); }
+    } finally {
+      setBusyEventId(null);
+    }
+  };
+
+  return (
+    <>
+      <PixChargeModal
+        isOpen={!!pixCharge}
+        onClose={() => setPixCharge(null)}
+        title="Cobrança PIX"
+        amount={pixCharge?.amount || 0}
+        txid={pixCharge?.txid || ''}
+        description={pixCharge ? `Mensalidade ${formatCompetence(pixCharge.competence)}` : undefined}
+      />
+      <ReceiptModal isOpen={!!receiptTransaction} onClose={() => { setReceiptTransaction(null); load(); }} transaction={receiptTransaction} memberEmail={member.email} showToast={showToast} />
+
+      <div className="space-y-6">
+        <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-lg border border-gray-200 dark:border-gray-700 flex flex-wrap items-center justify-between gap-4">
+          <div className="flex items-center gap-4">
+            <img src={member.avatarUrl} alt={member.name} className="w-16 h-16 rounded-full object-cover border-2 border-secondary-500" />
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900 dark:text-white">{member.name}</h2>
+              <p className="text-sm text-gray-500 dark:text-gray-400">{member.role} · {STATUS_LABELS[member.status]} · membro desde {formatDateBR(member.admissionDate)}</p>
+            </div>
+          </div>
+          {card ? (
+            <button onClick={handlePrintCard} className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-primary-700 rounded-lg hover:bg-primary-800">
+              <IdCard size={16} /> Carteirinha (válida até {formatDateBR(card.validUntil)})
+            </button>
+          ) : (
+            <p className="text-sm text-gray-500 dark:text-gray-400 flex items-center gap-2"><IdCard size={16} /> Carteirinha ainda não emitida. Solicite à secretaria.</p>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <Section title="Meus Dados" icon={<User size={20} />}>
+            <form className="space-y-3" onSubmit={handleContactSubmit}>
+              <div className="grid grid-cols-2 gap-3 text-sm">
+                <div><p className="text-gray-500 dark:text-gray-400">Email</p><p className="text-gray-900 dark:text-gray-200">{member.email}</p></div>
+                <div><p className="text-gray-500 dark:text-gray-400">CPF</p><p className="text-gray-900 dark:text-gray-200">{member.cpf || 'Não informado'}</p></div>
+              </div>
+              <div><label className="block text-sm font-medium">Telefone</label><input value={contact.phone} onChange={(e) => setContact({ ...contact, phone: e.target.value })} className={INPUT_CLASS} /></div>
+              <div><label className="block text-sm font-medium">Endereço</label><input value={contact.address} onChange={(e) => setContact({ ...contact, address: e.target.value })} className={INPUT_CLASS} /></div>
+              <div className="grid grid-cols-3 gap-3">
+                <div className="col-span-2"><label className="block text-sm font-medium">Cidade</label><input value={contact.city} onChange={(e) => setContact({ ...contact, city: e.target.value })} className={INPUT_CLASS} /></div>
+                <div><label className="block text-sm font-medium">UF</label><input maxLength={2} value={contact.state} onChange={(e) => setContact({ ...contact, state: e.target.value.toUpperCase() })} className={INPUT_CLASS} /></div>
+              </div>
+              <p className="text-xs text-gray-500 dark:text-gray-400">Para alterar nome, email ou CPF, procure a secretaria.</p>
+              <div className="text-right">
+                <button type="submit" disabled={isSaving} className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-secondary-700 rounded-lg hover:bg-secondary-800 disabled:opacity-50">
+                  {isSaving && <Loader2 size={16} className="animate-spin" />} Salvar
+                </button>
+              </div>
+            </form>
+          </Section>
+
+          <Section title="Mensalidades" icon={<Wallet size={20} />}>
+            {portal.duesCharges.length > 0 ? (
+              <>
+                <p className="text-sm text-gray-500 dark:text-gray-400 mb-2">Saldo em aberto: <span className="font-semibold text-gray-900 dark:text-white">{formatBRL(outstanding)}</span></p>
+                <div className="overflow-x-auto max-h-80">
+                  <table className="w-full text-sm text-left text-gray-500 dark:text-gray-400">
+                    <thead className="text-xs text-gray-700 uppercase bg-gray-50 dark:bg-gray-700 dark:text-gray-400">
+                      <tr><th className="px-3 py-2">Competência</th><th className="px-3 py-2">Vencimento</th><th className="px-3 py-2">Valor</th><th className="px-3 py-2">Status</th><th className="px-3 py-2"></th></tr>
+                    </thead>
+                    <tbody>
+                      {portal.duesCharges.map(charge => {
+                        const status = DUES_STATUS[getDuesStatus(charge, duesSettings.graceDays, today)];
+                        return (
+                          <tr key={charge.id} className="border-b dark:border-gray-700">
+                            <td className="px-3 py-2 font-medium text-gray-900 dark:text-white">{formatCompetence(charge.competence)}</td>
+                            <td className="px-3 py-2">{formatDateBR(charge.dueDate)}</td>
+                            <td className="px-3 py-2">{formatBRL(charge.amount)}</td>
+                            <td className="px-3 py-2"><span className={`px-2 py-1 text-xs font-medium rounded-full ${status.className}`}>{status.label}</span></td>
+                            <td className="px-3 py-2 text-right">
+                              {charge.status === 'Open' && <button onClick={() => handleOpenPix(charge)} className="flex items-center gap-1 text-xs font-medium text-secondary-700 dark:text-secondary-400 hover:underline"><QrCode size={14} /> PIX</button>}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              </>
+            ) : (
+              <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-4">Nenhuma mensalidade gerada.</p>
+            )}
+          </Section>
+
+          <Section title="Pagamentos e Recibos" icon={<DollarSign size={20} />}>
+            {portal.payments.length > 0 ? (
+              <ul className="space-y-2 max-h-80 overflow-y-auto">
+                {portal.payments.map(t => {
+                  const receipt = receiptsByTransaction.get(t.id);
+                  return (
+                    <li key={t.id} className="flex justify-between items-center p-2 rounded-lg bg-gray-50 dark:bg-gray-700/50">
+                      <div>
+                        <p className="font-medium text-gray-800 dark:text-gray-200">{t.description}</p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">{formatDateBR(t.date)}{receipt && ` · Recibo nº ${formatReceiptNumber(receipt)}`}</p>
+                      </div>
+                      <div className="flex items-center gap-3">
+                        <span className="font-semibold text-green-600 dark:text-green-400">{formatBRL(t.amount)}</span>
+                        <button onClick={() => setReceiptTransaction(t)} title="Recibo" className="p-1.5 text-gray-500 hover:text-secondary-700 dark:hover:text-secondary-400"><ReceiptIcon size={16} /></button>
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            ) : (
+              <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-4">Nenhum pagamento registrado.</p>
+            )}
+          </Section>
+
+          <Section title="Eventos" icon={<CalendarCheck2 size={20} />}>
+            {upcomingEvents.length > 0 ? (
+              <ul className="space-y-2 max-h-80 overflow-y-auto">
+                {upcomingEvents.map(event => (
+                  <li key={event.id} className="flex justify-between items-center gap-2 p-2 rounded-lg bg-gray-50 dark:bg-gray-700/50">
+                    <div>
+                      <p className="font-medium text-gray-800 dark:text-gray-200">{event.title}</p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400 flex flex-wrap gap-x-3">
+                        <span className="flex items-center gap-1"><Clock size={12} /> {formatDateBR(event.date)} {event.time}</span>
+                        <span className="flex items-center gap-1"><MapPin size={12} /> {event.location}</span>
+                        {!!event.fee && <span>Inscrição: {formatBRL(event.fee)}</span>}
+                      </p>
+                    </div>
+                    <button onClick={() => handleToggleEvent(event.id)} disabled={busyEventId === event.id} className={`shrink-0 px-3 py-1.5 text-xs font-medium rounded-lg disabled:opacity-50 ${registeredIds.has(event.id) ? 'bg-gray-200 text-gray-700 dark:bg-gray-600 dark:text-gray-200' : 'text-white bg-secondary-700 hover:bg-secondary-800'}`}>
+                      {registeredIds.has(event.id) ? 'Cancelar inscrição' : 'Inscrever-se'}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-4">Nenhum evento programado.</p>
+            )}
+            {pastRegistered.length > 0 && (
+              <div className="mt-4">
+                <p className="text-xs font-semibold uppercase text-gray-500 dark:text-gray-400 mb-1">Eventos em que você se inscreveu</p>
+                <ul className="text-sm text-gray-600 dark:text-gray-300 space-y-0.5">
+                  {pastRegistered.map(e => <li key={e.id}>{formatDateBR(e.date)} · {e.title}</li>)}
+                </ul>
+              </div>
+            )}
+          </Section>
+        </div>
+
+        <Section title="Documentos da Associação" icon={<FileText size={20} />}>
+          {documents.length > 0 ? (
+            <ul className="divide-y dark:divide-gray-700">
+              {documents.map(doc => (
+                <li key={doc.id} className="py-2 flex justify-between items-center text-sm">
+                  <span className="text-gray-800 dark:text-gray-200">{doc.name} <span className="text-xs text-gray-500 dark:text-gray-400">· {formatDateBR(doc.uploadDate)}</span></span>
+                  <a href={doc.url} download={doc.name} target="_blank" rel="noopener noreferrer" className="p-2 text-gray-500 hover:text-green-600 dark:text-gray-400 dark:hover:text-green-400"><Download size={18} /></a>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-4">Nenhum documento publicado para os associados.</p>
+          )}
+        </Section>
+      </div>
+    </>
+  );
+};
@@ -1,9 +1,13 @@
 import React, { useState, useEffect } from 'react';
-import { PlusCircle, Search, UserX, Edit, Trash2, Loader2 } from 'lucide-react';
+import { PlusCircle, Search, UserX, Edit, Trash2, Loader2, AlertTriangle, RefreshCw, UserCheck, FileUp, IdCard, ClipboardList } from 'lucide-react';
 import { Member, Transaction, Event, UserRole } from '../types';
 import { AddMemberModal } from '../components/AddMemberModal';
 import { MemberDetailModal } from '../components/MemberDetailModal';
+import { MemberImportModal } from '../components/MemberImportModal';
+import { MemberCardModal } from '../components/MemberCardModal';
+import { MembershipApplications } from '../components/MembershipApplications';
 import { useData } from '../contexts/DataContext';
+import { getDefaulters } from '../utils/dues';
 
 const getStatusBadge = (status: Member['status']) => {
   switch (status) {
@@ -24,22 +28,31 @@ interface MembersProps {
   onUpdateMember: (memberId: string, updatedData: Partial<Omit<Member, 'id'>>) => Promise<void>;
   onDeleteMember: (memberId: string) => Promise<void>;
   userRole: UserRole;
+  showToast: (msg: string, type?: 'success'|'error') => void;
 }
 
-export const Members: React.FC<MembersProps> = ({ members, transactions, events, onAddMember, onUpdateMember, onDeleteMember, userRole }) => {
+type MembersView = 'List' | 'Defaulters' | 'Applications';
+
+export const Members: React.FC<MembersProps> = ({ members, transactions, events, onAddMember, onUpdateMember, onDeleteMember, userRole, showToast }) => {
   // SENIOR UPGRADE: Usando fetchMembers do Context para Server-Side Filtering
-  const { fetchMembers, loading } = useData(); 
+  const { fetchMembers, loading, duesCharges, duesSettings, generateDuesCharges } = useData(); 
   
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
+  const [isImportModalOpen, setIsImportModalOpen] = useState(false);
   const [isDetailModalOpen, setIsDetailModalOpen] = useState(false);
   const [editingMember, setEditingMember] = useState<Member | null>(null);
   const [selectedMember, setSelectedMember] = useState<Member | null>(null);
+  const [cardMember, setCardMember] = useState<Member | null>(null);
   
   // States for server-side filtering
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState('All');
+  const [view, setView] = useState<MembersView>('List');
+  const [isGenerating, setIsGenerating] = useState(false);
   
   const canPerformActions = userRole === 'Super Admin';
+  const canManageDues = userRole === 'Super Admin' || userRole === 'Financeiro';
+  const defaulters = getDefaulters(duesCharges, duesSettings.graceDays);
 
   // SENIOR UPGRADE: Debounce para evitar excesso de requisições ao Supabase
   useEffect(() => {
@@ -81,6 +94,14 @@ export const Members: React.FC<MembersProps> = ({ members, transactions, events,
     setIsAddModalOpen(false);
   };
   
+  const handleGenerateDues = async () => {
+    if (duesSettings.amount <= 0) { showToast('Configure o valor da mensalidade em Configurações.', 'error'); return; }
+    setIsGenerating(true);
+    const created = await generateDuesCharges();
+    setIsGenerating(false);
+    showToast(created > 0 ? `${created} mensalidade(s) gerada(s)` : 'Nenhuma mensalidade pendente de geração');
+  };
+
   const handleDelete = async (memberId: string) => {
     if (window.confirm('Tem certeza que deseja excluir este membro? Esta ação não pode ser desfeita.')) {
         await onDeleteMember(memberId);
@@ -95,6 +116,8 @@ export const Members: React.FC<MembersProps> = ({ members, transactions, events,
         onSave={handleSaveMember}
         existingMember={editingMember}
       />
+      <MemberImportModal isOpen={isImportModalOpen} onClose={() => setIsImportModalOpen(false)} showToast={showToast} />
+      <MemberCardModal isOpen={!!cardMember} onClose={() => setCardMember(null)} member={cardMember} showToast={showToast} />
       {selectedMember && (
         <MemberDetailModal
             isOpen={isDetailModalOpen}
@@ -102,21 +125,93 @@ export const Members: React.FC<MembersProps> = ({ members, transactions, events,
             member={selectedMember}
             transactions={transactions.filter(t => t.memberId === selectedMember.id)}
             events={events} 
+            duesCharges={duesCharges.filter(c => c.memberId === selectedMember.id)}
+            graceDays={duesSettings.graceDays}
         />
       )}
       <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-lg border border-gray-200 dark:border-gray-700">
         <div className="flex flex-col sm:flex-row justify-between items-center mb-6 gap-4">
-          <h2 className="text-xl font-semibold">Lista de Membros</h2>
-          {canPerformActions && (
-            <button
-              onClick={handleOpenAddModal}
-              className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-primary-700 rounded-lg hover:bg-primary-800 transition-colors"
-            >
-              <PlusCircle size={16} /> Adicionar Membro
+          <div className="flex items-center gap-2">
+            <button onClick={() => setView('List')} className={`flex items-center gap-2 px-3 py-1.5 text-sm font-medium rounded-lg transition-colors ${view === 'List' ? 'bg-secondary-100 text-secondary-800 dark:bg-secondary-900 dark:text-secondary-200' : 'text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700'}`}>
+              <UserCheck size={16} /> Lista de Membros
             </button>
-          )}
+            <button onClick={() => setView('Defaulters')} className={`flex items-center gap-2 px-3 py-1.5 text-sm font-medium rounded-lg transition-colors ${view === 'Defaulters' ? 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200' : 'text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700'}`}>
+              <AlertTriangle size={16} /> Inadimplentes ({defaulters.length})
+            </button>
+            <button onClick={() => setView('Applications')} className={`flex items-center gap-2 px-3 py-1.5 text-sm font-medium rounded-lg transition-colors ${view === 'Applications' ? 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200' : 'text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700'}`}>
+              <ClipboardList size={16} /> Inscrições
+            </button>
+          </div>
+          <div className="flex items-center gap-2">
+            {canManageDues && (
+              <button
+                onClick={handleGenerateDues}
+                disabled={isGenerating}
+                className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-600 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50"
+              >
+                <RefreshCw size={16} className={isGenerating ? 'animate-spin' : ''} /> Gerar Mensalidades
+              </button>
+            )}
+            {canPerformActions && (
+              <button
+                onClick={() => setIsImportModalOpen(true)}
+                className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-600 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600"
+              >
+                <FileUp size={16} /> Importar
+              </button>
+            )}
+            {canPerformActions && (
+              <button
+                onClick={handleOpenAddModal}
+                className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-primary-700 rounded-lg hover:bg-primary-800 transition-colors"
+              >
+                <PlusCircle size={16} /> Adicionar Membro
+              </button>
+            )}
+          </div>
         </div>
 
+        {view === 'Applications' ? (
+          <MembershipApplications showToast={showToast} />
+        ) : view === 'Defaulters' ? (
+          <div className="overflow-x-auto min-h-[300px]">
+            <table className="w-full text-sm text-left text-gray-500 dark:text-gray-400">
+              <thead className="text-xs text-gray-700 uppercase bg-gray-50 dark:bg-gray-700 dark:text-gray-400">
+                <tr>
+                  <th scope="col" className="px-6 py-3">Nome</th>
+                  <th scope="col" className="px-6 py-3">Mensalidades Vencidas</th>
+                  <th scope="col" className="px-6 py-3">Valor Devido</th>
+                  <th scope="col" className="px-6 py-3">Vencida Desde</th>
+                </tr>
+              </thead>
+              <tbody>
+                {defaulters.length > 0 ? defaulters.map(d => {
+                  const member = members.find(m => m.id === d.memberId);
+                  return (
+                    <tr key={d.memberId} className={`bg-white dark:bg-gray-800 border-b dark:border-gray-700 ${member ? 'hover:bg-gray-50 dark:hover:bg-gray-600 cursor-pointer' : ''}`} onClick={() => member && handleOpenDetailModal(member)}>
+                      <td className="px-6 py-4 font-medium text-gray-900 dark:text-white">{member?.name || d.memberName}</td>
+                      <td className="px-6 py-4">{d.overdueCount}</td>
+                      <td className="px-6 py-4 font-semibold text-red-500">R$ {d.overdueTotal.toFixed(2)}</td>
+                      <td className="px-6 py-4">{new Date(`${d.oldestDueDate}T00:00:00`).toLocaleDateString('pt-BR')}</td>
+                    </tr>
+                  );
+                }) : (
+                  <tr className="bg-white dark:bg-gray-800 border-b dark:border-gray-700">
+                    <td colSpan={4} className="text-center py-10">
+                      <div className="flex flex-col items-center justify-center text-gray-500 dark:text-gray-400">
+                        <UserCheck size={48} className="mb-2 opacity-50" />
+                        <h3 className="text-lg font-semibold">Nenhum inadimplente</h3>
+                        <p className="text-sm">Todas as mensalidades vencidas estão quitadas.</p>
+                      </div>
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+        <>
+
         {/* Filter and Search Bar */}
         <div className="flex flex-col sm:flex-row gap-4 mb-6">
           <div className="relative flex-grow">
@@ -175,6 +270,7 @@ export const Members: React.FC<MembersProps> = ({ members, transactions, events,
                     </td>
                     {canPerformActions && (
                        <td className="px-6 py-4 text-right" onClick={(e) => e.stopPropagation()}>
+                         <button onClick={() => setCardMember(member)} title="Carteirinha" className="p-2 text-gray-500 hover:text-green-600 transition-colors"><IdCard size={16} /></button>
                          <button onClick={() => handleOpenEditModal(member)} className="p-2 text-gray-500 hover:text-blue-600 transition-colors"><Edit size={16} /></button>
                          <button onClick={() => handleDelete(member.id)} className="p-2 text-gray-500 hover:text-primary-700 dark:hover:text-primary-500 transition-colors"><Trash2 size={16} /></button>
                        </td>
@@ -196,6 +292,8 @@ export const Members: React.FC<MembersProps> = ({ members, transactions, events,
           </table>
           )}
         </div>
+        </>
+        )}
       </div>
     </>
   );
@@ -1,7 +1,13 @@
 import React, { useState } from 'react';
-import { PlusCircle, Edit, Trash2, Calendar, User, DollarSign, Briefcase } from 'lucide-react';
+import { PlusCircle, Edit, Trash2, Calendar, User, DollarSign, Briefcase, PieChart, AlertTriangle, ClipboardCheck } from 'lucide-react';
 import { useData } from '../contexts/DataContext';
 import { AddProjectModal } from '../components/AddProjectModal';
+import { ExecutionBar, ProjectFinancialModal } from '../components/ProjectFinancialModal';
+import { AccountabilityReportModal } from '../components/AccountabilityReportModal';
+import { ExportButton } from '../components/ExportButton';
+import { getProjectExecution } from '../utils/projectBudget';
+import { PROJECT_STATUS_LABELS } from '../utils/annualReport';
+import { SpreadsheetColumn } from '../utils/spreadsheet';
 import { Project, UserRole } from '../types';
 
 interface ProjectsProps { userRole: UserRole; showToast: (msg: string, type?: 'success'|'error') => void; }
@@ -15,10 +21,23 @@ const getStatusBadge = (status: Project['status']) => {
     }
 }
 
+const PROJECT_EXPORT_COLUMNS: SpreadsheetColumn<Project>[] = [
+    { key: 'title', label: 'Projeto' },
+    { key: 'status', label: 'Situação', value: (p) => PROJECT_STATUS_LABELS[p.status] },
+    { key: 'proponent', label: 'Proponente' },
+    { key: 'sponsor', label: 'Patrocinador' },
+    { key: 'startDate', label: 'Início', type: 'date' },
+    { key: 'endDate', label: 'Término', type: 'date' },
+    { key: 'budget', label: 'Orçamento', type: 'currency' },
+    { key: 'description', label: 'Descrição' },
+];
+
 export const Projects: React.FC<ProjectsProps> = ({ userRole, showToast }) => {
-    const { projects, addProject, updateProject, deleteProject } = useData();
+    const { projects, projectExpenseSummary, budgetLines, addProject, updateProject, deleteProject } = useData();
     const [isModalOpen, setIsModalOpen] = useState(false);
     const [editingProject, setEditingProject] = useState<Project | null>(null);
+    const [financialProject, setFinancialProject] = useState<Project | null>(null);
+    const [reportProject, setReportProject] = useState<Project | null>(null);
     const canPerformActions = userRole === 'Super Admin' || userRole === 'Financeiro';
 
     const handleOpenAdd = () => { setEditingProject(null); setIsModalOpen(true); };
@@ -32,10 +51,15 @@ export const Projects: React.FC<ProjectsProps> = ({ userRole, showToast }) => {
     return (
         <>
             <AddProjectModal isOpen={isModalOpen} onClose={() => setIsModalOpen(false)} onSave={handleSave} existingProject={editingProject} />
+            <ProjectFinancialModal isOpen={!!financialProject} onClose={() => setFinancialProject(null)} project={financialProject} canPerformActions={canPerformActions} showToast={showToast} />
+            <AccountabilityReportModal isOpen={!!reportProject} onClose={() => setReportProject(null)} project={reportProject} canPerformActions={canPerformActions} showToast={showToast} />
             <div className="space-y-6">
                 <div className="flex justify-between items-center">
                     <h2 className="text-2xl font-bold text-gray-800 dark:text-white flex items-center gap-2"><Briefcase className="text-secondary-600" /> Projetos</h2>
-                    {canPerformActions && <button onClick={handleOpenAdd} className="flex items-center gap-2 px-4 py-2 bg-secondary-700 text-white rounded-lg hover:bg-secondary-800"><PlusCircle size={18} /> Novo Projeto</button>}
+                    <div className="flex gap-2">
+                        <ExportButton rows={projects} columns={PROJECT_EXPORT_COLUMNS} filename="projetos" sheetName="Projetos" />
+                        {canPerformActions && <button onClick={handleOpenAdd} className="flex items-center gap-2 px-4 py-2 bg-secondary-700 text-white rounded-lg hover:bg-secondary-800"><PlusCircle size={18} /> Novo Projeto</button>}
+                    </div>
                 </div>
                 {projects.length === 0 ? (
                     <div className="bg-white dark:bg-gray-800 rounded-xl p-10 text-center shadow-sm border dark:border-gray-700">
@@ -44,26 +68,39 @@ export const Projects: React.FC<ProjectsProps> = ({ userRole, showToast }) => {
                     </div>
                 ) : (
                     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                        {projects.map(project => (
-                            <div key={project.id} className="bg-white dark:bg-gray-800 rounded-xl shadow-lg border dark:border-gray-700 flex flex-col hover:border-secondary-400">
-                                <div className="p-6 flex-1">
-                                    <div className="flex justify-between items-start mb-4">
-                                        <span className={`px-2 py-1 text-xs font-bold rounded-full uppercase ${getStatusBadge(project.status)}`}>{project.status}</span>
-                                        {canPerformActions && <div className="flex gap-2"><button onClick={() => handleOpenEdit(project)} className="text-gray-400 hover:text-blue-500"><Edit size={16} /></button><button onClick={() => handleDelete(project.id)} className="text-gray-400 hover:text-red-500"><Trash2 size={16} /></button></div>}
+                        {projects.map(project => {
+                            const execution = getProjectExecution(project, budgetLines, projectExpenseSummary);
+                            const hasOverrun = execution.lines.some(l => l.overrun) || execution.remaining < 0;
+                            return (
+                                <div key={project.id} className="bg-white dark:bg-gray-800 rounded-xl shadow-lg border dark:border-gray-700 flex flex-col hover:border-secondary-400">
+                                    <div className="p-6 flex-1">
+                                        <div className="flex justify-between items-start mb-4">
+                                            <span className={`px-2 py-1 text-xs font-bold rounded-full uppercase ${getStatusBadge(project.status)}`}>{project.status}</span>
+                                            {canPerformActions && <div className="flex gap-2"><button onClick={() => handleOpenEdit(project)} className="text-gray-400 hover:text-blue-500"><Edit size={16} /></button><button onClick={() => handleDelete(project.id)} className="text-gray-400 hover:text-red-500"><Trash2 size={16} /></button></div>}
+                                        </div>
+                                        <h3 className="text-xl font-bold mb-2">{project.title}</h3>
+                                        <p className="text-gray-600 dark:text-gray-400 text-sm mb-4 line-clamp-3">{project.description}</p>
+                                        <div className="space-y-2 text-sm text-gray-500">
+                                            <div className="flex items-center gap-2"><Calendar size={14}/> {new Date(project.startDate).toLocaleDateString()}</div>
+                                            <div className="flex items-center gap-2"><User size={14}/> {project.proponent}</div>
+                                            <div className="flex items-center gap-2"><DollarSign size={14}/> R$ {project.budget.toLocaleString()}</div>
+                                        </div>
+                                        <button onClick={() => setFinancialProject(project)} className="w-full mt-4 text-left group">
+                                            <div className="flex justify-between text-xs text-gray-500 mb-1">
+                                                <span className="flex items-center gap-1 group-hover:text-secondary-600"><PieChart size={12} /> Execução do orçamento {hasOverrun && <AlertTriangle size={12} className="text-red-500" />}</span>
+                                                <span>{execution.percent.toFixed(0)}%</span>
+                                            </div>
+                                            <ExecutionBar percent={execution.percent} />
+                                            <p className="text-xs text-gray-400 mt-1">R$ {execution.actual.toLocaleString()} de R$ {execution.budget.toLocaleString()}</p>
+                                        </button>
                                     </div>
-                                    <h3 className="text-xl font-bold mb-2">{project.title}</h3>
-                                    <p className="text-gray-600 dark:text-gray-400 text-sm mb-4 line-clamp-3">{project.description}</p>
-                                    <div className="space-y-2 text-sm text-gray-500">
-                                        <div className="flex items-center gap-2"><Calendar size={14}/> {new Date(project.startDate).toLocaleDateString()}</div>
-                                        <div className="flex items-center gap-2"><User size={14}/> {project.proponent}</div>
-                                        <div className="flex items-center gap-2"><DollarSign size={14}/> R$ {project.budget.toLocaleString()}</div>
+                                    <div className="bg-gray-50 dark:bg-gray-700/50 p-4 border-t dark:border-gray-700 rounded-b-xl flex justify-between items-center gap-2">
+                                        <p className="text-xs text-gray-500">Patrocinador: <span className="font-medium">{project.sponsor}</span></p>
+                                        <button onClick={() => setReportProject(project)} className="flex items-center gap-1 text-xs font-medium text-secondary-700 dark:text-secondary-400 hover:underline"><ClipboardCheck size={14} /> Prestação de Contas</button>
                                     </div>
                                 </div>
-                                <div className="bg-gray-50 dark:bg-gray-700/50 p-4 border-t dark:border-gray-700 rounded-b-xl">
-                                    <p className="text-xs text-gray-500 text-center">Patrocinador: <span className="font-medium">{project.sponsor}</span></p>
-                                </div>
-                            </div>
-                        ))}
+                            );
+                        })}
                     </div>
                 )}
             </div>
@@ -2,10 +2,25 @@ import React, { useState } from 'react';
 import { PlusCircle, Edit, Trash2, Palette, Mail, Phone, Briefcase } from 'lucide-react';
 import { useData } from '../contexts/DataContext';
 import { AddProviderModal } from '../components/AddProviderModal';
-import { ServiceProvider, UserRole } from '../types';
+import { ExportButton } from '../components/ExportButton';
+import { ProviderType, ServiceProvider, UserRole } from '../types';
+import { SpreadsheetColumn } from '../utils/spreadsheet';
 
 interface ProvidersProps { userRole: UserRole; showToast: (msg: string, type?: 'success'|'error') => void; }
 
+const PROVIDER_TYPE_LABELS: Record<ProviderType, string> = { 'Artist': 'Artista', 'Workshop Facilitator': 'Oficineiro', 'Designer': 'Designer', 'Consultant': 'Consultor', 'Other': 'Outro' };
+
+const PROVIDER_EXPORT_COLUMNS: SpreadsheetColumn<ServiceProvider>[] = [
+    { key: 'name', label: 'Nome' },
+    { key: 'type', label: 'Tipo', value: (p) => PROVIDER_TYPE_LABELS[p.type] },
+    { key: 'cpfCnpj', label: 'CPF/CNPJ' },
+    { key: 'email', label: 'Email' },
+    { key: 'phone', label: 'Telefone' },
+    { key: 'contractedAmount', label: 'Valor contratado', type: 'currency' },
+    { key: 'portfolioUrl', label: 'Portfólio' },
+    { key: 'notes', label: 'Observações' },
+];
+
 export const ServiceProviders: React.FC<ProvidersProps> = ({ userRole, showToast }) => {
     const { providers, addProvider, updateProvider, deleteProvider } = useData();
     const [isModalOpen, setIsModalOpen] = useState(false);
@@ -26,7 +41,10 @@ export const ServiceProviders: React.FC<ProvidersProps> = ({ userRole, showToast
             <div className="space-y-6">
                 <div className="flex justify-between items-center">
                     <h2 className="text-2xl font-bold text-gray-800 dark:text-white flex items-center gap-2"><Palette className="text-purple-600" /> Prestadores de Serviço</h2>
-                    {canPerformActions && <button onClick={handleOpenAdd} className="flex items-center gap-2 px-4 py-2 bg-secondary-700 text-white rounded-lg hover:bg-secondary-800"><PlusCircle size={18} /> Novo Prestador</button>}
+                    <div className="flex gap-2">
+                        <ExportButton rows={providers} columns={PROVIDER_EXPORT_COLUMNS} filename="prestadores" sheetName="Prestadores" />
+                        {canPerformActions && <button onClick={handleOpenAdd} className="flex items-center gap-2 px-4 py-2 bg-secondary-700 text-white rounded-lg hover:bg-secondary-800"><PlusCircle size={18} /> Novo Prestador</button>}
+                    </div>
                 </div>
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
                     {providers.map(p => (
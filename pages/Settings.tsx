@@ -1,8 +1,14 @@
-import React, { useState } from 'react';
-import { User, UserRole } from '../types';
+import React, { useState, useEffect } from 'react';
+import { User, UserRole, AssociationSettings } from '../types';
 import { PlusCircle, Edit, Trash2, Shield, Database } from 'lucide-react';
 import { AddUserModal } from '../components/AddUserModal';
 import { DatabaseSchemaHelp } from '../components/DatabaseSchemaHelp';
+import { ChartOfAccounts } from '../components/ChartOfAccounts';
+import { FinancialAccounts } from '../components/FinancialAccounts';
+import { FiscalPeriods } from '../components/FiscalPeriods';
+import { WithholdingTables } from '../components/WithholdingTables';
+import { LedgerAccounts } from '../components/LedgerAccounts';
+import { useData } from '../contexts/DataContext';
 
 const INPUT_CLASS = "mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-secondary-500 focus:ring-secondary-500 sm:text-sm dark:bg-gray-700 dark:border-gray-600 dark:placeholder-gray-400 dark:text-white dark:focus:border-secondary-500 dark:focus:ring-secondary-500";
 
@@ -33,12 +39,68 @@ export const Settings: React.FC<SettingsProps> = ({ currentUser, users, onUpdate
     const [isUserModalOpen, setIsUserModalOpen] = useState(false);
     const [editingUser, setEditingUser] = useState<User | null>(null);
     const [showSql, setShowSql] = useState(false);
+    const { duesSettings, updateDuesSettings, pixSettings, updatePixSettings, associationSettings, updateAssociationSettings, alertSettings, updateAlertSettings, membershipSettings, updateMembershipSettings } = useData();
+    const [dues, setDues] = useState({ amount: '', dueDay: '', graceDays: '', startCompetence: '' });
+    const [pix, setPix] = useState({ key: '', merchantName: '', merchantCity: '' });
+    const [expenseThreshold, setExpenseThreshold] = useState('');
+    const [quorum, setQuorum] = useState('');
+    const [association, setAssociation] = useState<AssociationSettings>({ name: '', cnpj: '', address: '', city: '', state: '', email: '', phone: '', signatoryName: '', signatoryRole: '' });
+    const canManageFinance = currentUser.role === 'Super Admin' || currentUser.role === 'Financeiro';
+
+    useEffect(() => {
+        setDues({ amount: String(duesSettings.amount), dueDay: String(duesSettings.dueDay), graceDays: String(duesSettings.graceDays), startCompetence: duesSettings.startCompetence });
+    }, [duesSettings]);
+
+    useEffect(() => { if (pixSettings) setPix(pixSettings); }, [pixSettings]);
+    useEffect(() => { setExpenseThreshold(String(alertSettings.expenseThreshold)); }, [alertSettings]);
+    useEffect(() => { setQuorum(String(membershipSettings.quorum)); }, [membershipSettings]);
+    useEffect(() => { if (associationSettings) setAssociation(associationSettings); }, [associationSettings]);
 
     const handleProfileSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
-        try { await onUpdateUser(currentUser.id, { name, email }); showToast('Perfil atualizado com sucesso!'); } catch (error: any) { }
+        try { await onUpdateUser(currentUser.id, currentUser.role === 'Super Admin' ? { name, email } : { name }); showToast('Perfil atualizado com sucesso!'); } catch (error: any) { }
     };
     
+    const handleDuesSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const amount = parseFloat(dues.amount), dueDay = parseInt(dues.dueDay, 10), graceDays = parseInt(dues.graceDays, 10);
+        if (isNaN(amount) || amount < 0 || isNaN(dueDay) || dueDay < 1 || dueDay > 31 || isNaN(graceDays) || graceDays < 0 || !dues.startCompetence) {
+            showToast('Valores de mensalidade inválidos.', 'error'); return;
+        }
+        await updateDuesSettings({ amount, dueDay, graceDays, startCompetence: dues.startCompetence });
+        showToast('Configuração de mensalidades salva!');
+    };
+
+    const handleAssociationSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!association.name.trim() || !association.city.trim() || !association.signatoryName.trim()) { showToast('Preencha nome, cidade e responsável pela assinatura.', 'error'); return; }
+        await updateAssociationSettings(association);
+        showToast('Dados da associação salvos!');
+    };
+
+    const handleAlertSettingsSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const value = parseFloat(expenseThreshold);
+        if (isNaN(value) || value < 0) { showToast('Valor limite inválido.', 'error'); return; }
+        await updateAlertSettings({ expenseThreshold: value });
+        showToast('Configuração de alertas salva!');
+    };
+
+    const handleMembershipSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const value = parseInt(quorum, 10);
+        if (isNaN(value) || value < 1) { showToast('Quórum inválido.', 'error'); return; }
+        await updateMembershipSettings({ quorum: value });
+        showToast('Quórum de admissão salvo!');
+    };
+
+    const handlePixSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!pix.key.trim() || !pix.merchantName.trim() || !pix.merchantCity.trim()) { showToast('Preencha chave, beneficiário e cidade.', 'error'); return; }
+        await updatePixSettings({ key: pix.key.trim(), merchantName: pix.merchantName.trim(), merchantCity: pix.merchantCity.trim() });
+        showToast('Configuração PIX salva!');
+    };
+
     const handleDelete = (userId: string) => {
         if (currentUser?.id === userId) { showToast("Você não pode excluir seu próprio usuário.", 'error'); return; }
         if (window.confirm('Excluir este usuário?')) { onDeleteUser(userId); }
@@ -47,7 +109,7 @@ export const Settings: React.FC<SettingsProps> = ({ currentUser, users, onUpdate
     const handleOpenAddUserModal = () => { setEditingUser(null); setIsUserModalOpen(true); };
     const handleOpenEditUserModal = (user: User) => { setEditingUser(user); setIsUserModalOpen(true); };
     
-    const handleSaveUser = async (data: { name: string; email: string; role: UserRole; password?: string; }) => {
+    const handleSaveUser = async (data: { name: string; email: string; role: UserRole; password?: string; memberId?: string | null; }) => {
         if (editingUser) { const { password, ...profileData } = data; await onUpdateUser(editingUser.id, profileData); } 
         else { if (!data.password) { showToast("Senha obrigatória.", 'error'); return; } await onAddUser({ name: data.name, email: data.email, role: data.role, password: data.password }); }
     }
@@ -59,11 +121,105 @@ export const Settings: React.FC<SettingsProps> = ({ currentUser, users, onUpdate
                 <SettingsSection title="Meu Perfil" description="Atualize suas informações.">
                     <form className="space-y-4" onSubmit={handleProfileSubmit}>
                         <div><label className="block text-sm font-medium">Nome</label><input type="text" value={name} onChange={(e) => setName(e.target.value)} className={INPUT_CLASS} /></div>
-                        <div><label className="block text-sm font-medium">Email</label><input type="email" value={email} onChange={(e) => setEmail(e.target.value)} className={INPUT_CLASS} /></div>
+                        <div><label className="block text-sm font-medium">Email</label><input type="email" value={email} onChange={(e) => setEmail(e.target.value)} readOnly={currentUser.role !== 'Super Admin'} title={currentUser.role !== 'Super Admin' ? 'Apenas o Super Admin altera o email' : undefined} className={INPUT_CLASS} /></div>
                         <div className="text-right"><button type="submit" className="px-4 py-2 text-sm font-medium text-white bg-secondary-700 rounded-lg hover:bg-secondary-800">Salvar</button></div>
                     </form>
                 </SettingsSection>
 
+                {canManageFinance && (
+                    <SettingsSection title="Associação" description="Dados institucionais impressos nos recibos e documentos.">
+                        <form className="space-y-4" onSubmit={handleAssociationSubmit}>
+                            <div className="grid grid-cols-2 gap-4">
+                                <div><label className="block text-sm font-medium">Razão Social</label><input type="text" value={association.name} onChange={(e) => setAssociation({ ...association, name: e.target.value })} className={INPUT_CLASS} /></div>
+                                <div><label className="block text-sm font-medium">CNPJ</label><input type="text" value={association.cnpj} onChange={(e) => setAssociation({ ...association, cnpj: e.target.value })} className={INPUT_CLASS} /></div>
+                                <div className="col-span-2"><label className="block text-sm font-medium">Endereço</label><input type="text" value={association.address} onChange={(e) => setAssociation({ ...association, address: e.target.value })} className={INPUT_CLASS} /></div>
+                                <div><label className="block text-sm font-medium">Cidade</label><input type="text" value={association.city} onChange={(e) => setAssociation({ ...association, city: e.target.value })} className={INPUT_CLASS} /></div>
+                                <div><label className="block text-sm font-medium">UF</label><input type="text" maxLength={2} value={association.state} onChange={(e) => setAssociation({ ...association, state: e.target.value.toUpperCase() })} className={INPUT_CLASS} /></div>
+                                <div><label className="block text-sm font-medium">E-mail</label><input type="email" value={association.email} onChange={(e) => setAssociation({ ...association, email: e.target.value })} className={INPUT_CLASS} /></div>
+                                <div><label className="block text-sm font-medium">Telefone</label><input type="text" value={association.phone} onChange={(e) => setAssociation({ ...association, phone: e.target.value })} className={INPUT_CLASS} /></div>
+                                <div><label className="block text-sm font-medium">Responsável pela Assinatura</label><input type="text" value={association.signatoryName} onChange={(e) => setAssociation({ ...association, signatoryName: e.target.value })} className={INPUT_CLASS} /></div>
+                                <div><label className="block text-sm font-medium">Cargo</label><input type="text" value={association.signatoryRole} onChange={(e) => setAssociation({ ...association, signatoryRole: e.target.value })} placeholder="Tesoureiro(a)" className={INPUT_CLASS} /></div>
+                            </div>
+                            <div className="text-right"><button type="submit" className="px-4 py-2 text-sm font-medium text-white bg-secondary-700 rounded-lg hover:bg-secondary-800">Salvar</button></div>
+                        </form>
+                    </SettingsSection>
+                )}
+
+                {canManageFinance && (
+                    <SettingsSection title="Mensalidades" description="Valor, vencimento e carência das cobranças dos associados ativos.">
+                        <form className="space-y-4" onSubmit={handleDuesSubmit}>
+                            <div className="grid grid-cols-2 gap-4">
+                                <div><label className="block text-sm font-medium">Valor (R$)</label><input type="number" step="0.01" min="0" value={dues.amount} onChange={(e) => setDues({ ...dues, amount: e.target.value })} className={INPUT_CLASS} /></div>
+                                <div><label className="block text-sm font-medium">Dia do Vencimento</label><input type="number" min="1" max="31" value={dues.dueDay} onChange={(e) => setDues({ ...dues, dueDay: e.target.value })} className={INPUT_CLASS} /></div>
+                                <div><label className="block text-sm font-medium">Carência (dias)</label><input type="number" min="0" value={dues.graceDays} onChange={(e) => setDues({ ...dues, graceDays: e.target.value })} className={INPUT_CLASS} /></div>
+                                <div><label className="block text-sm font-medium">Cobrar a partir de</label><input type="month" value={dues.startCompetence} onChange={(e) => setDues({ ...dues, startCompetence: e.target.value })} className={INPUT_CLASS} /></div>
+                            </div>
+                            <div className="text-right"><button type="submit" className="px-4 py-2 text-sm font-medium text-white bg-secondary-700 rounded-lg hover:bg-secondary-800">Salvar</button></div>
+                        </form>
+                    </SettingsSection>
+                )}
+
+                {canManageFinance && (
+                    <SettingsSection title="PIX" description="Chave e beneficiário usados nos QR Codes de cobrança de mensalidades e eventos.">
+                        <form className="space-y-4" onSubmit={handlePixSubmit}>
+                            <div><label className="block text-sm font-medium">Chave PIX</label><input type="text" value={pix.key} onChange={(e) => setPix({ ...pix, key: e.target.value })} placeholder="CNPJ, e-mail, telefone ou chave aleatória" className={INPUT_CLASS} /></div>
+                            <div className="grid grid-cols-2 gap-4">
+                                <div><label className="block text-sm font-medium">Nome do Beneficiário</label><input type="text" maxLength={25} value={pix.merchantName} onChange={(e) => setPix({ ...pix, merchantName: e.target.value })} className={INPUT_CLASS} /></div>
+                                <div><label className="block text-sm font-medium">Cidade</label><input type="text" maxLength={15} value={pix.merchantCity} onChange={(e) => setPix({ ...pix, merchantCity: e.target.value })} className={INPUT_CLASS} /></div>
+                            </div>
+                            <div className="text-right"><button type="submit" className="px-4 py-2 text-sm font-medium text-white bg-secondary-700 rounded-lg hover:bg-secondary-800">Salvar</button></div>
+                        </form>
+                    </SettingsSection>
+                )}
+
+                {canManageFinance && (
+                    <SettingsSection title="Contas Financeiras" description="Conta corrente, poupança e caixas físicos onde os recursos da associação ficam guardados.">
+                        <FinancialAccounts showToast={showToast} />
+                    </SettingsSection>
+                )}
+
+                {canManageFinance && (
+                    <SettingsSection title="Plano de Contas" description="Categorias e subcategorias de receitas e despesas usadas nas transações e na DRE.">
+                        <ChartOfAccounts showToast={showToast} />
+                    </SettingsSection>
+                )}
+
+                {canManageFinance && (
+                    <SettingsSection title="Contabilidade" description="Contas contábeis do diário em partidas dobradas e a conta usada por cada conta financeira e categoria. Transações geram as partidas automaticamente.">
+                        <LedgerAccounts showToast={showToast} />
+                    </SettingsSection>
+                )}
+
+                {canManageFinance && (
+                    <SettingsSection title="Retenções do RPA" description="Alíquotas de INSS e ISS e tabela progressiva do IRRF aplicadas nos pagamentos a autônomos, por ano.">
+                        <WithholdingTables showToast={showToast} />
+                    </SettingsSection>
+                )}
+
+                {canManageFinance && (
+                    <SettingsSection title="Alertas Financeiros" description="Verificações automáticas: duplicidades, despesas de projeto fora da vigência, pagamentos acima do valor contratado do prestador e despesas altas sem prestador.">
+                        <form className="space-y-4" onSubmit={handleAlertSettingsSubmit}>
+                            <div><label className="block text-sm font-medium">Despesa sem prestador acima de (R$)</label><input type="number" step="0.01" min="0" value={expenseThreshold} onChange={(e) => setExpenseThreshold(e.target.value)} className={INPUT_CLASS} /></div>
+                            <div className="text-right"><button type="submit" className="px-4 py-2 text-sm font-medium text-white bg-secondary-700 rounded-lg hover:bg-secondary-800">Salvar</button></div>
+                        </form>
+                    </SettingsSection>
+                )}
+
+                {canManageFinance && (
+                    <SettingsSection title="Fechamento de Períodos" description="Meses com contas aprovadas ficam bloqueados para inclusão, edição e exclusão. Apenas Super Admin fecha e reabre, com justificativa.">
+                        <FiscalPeriods showToast={showToast} />
+                    </SettingsSection>
+                )}
+
+                {currentUser.role === 'Super Admin' && (
+                    <SettingsSection title="Admissão de Membros" description="Votos iguais de membros ativos da Diretoria necessários, conforme o estatuto, para aprovar ou recusar uma inscrição do formulário público.">
+                        <form className="space-y-4" onSubmit={handleMembershipSubmit}>
+                            <div><label className="block text-sm font-medium">Quórum (votos)</label><input type="number" min="1" value={quorum} onChange={(e) => setQuorum(e.target.value)} className={INPUT_CLASS} /></div>
+                            <div className="text-right"><button type="submit" className="px-4 py-2 text-sm font-medium text-white bg-secondary-700 rounded-lg hover:bg-secondary-800">Salvar</button></div>
+                        </form>
+                    </SettingsSection>
+                )}
+
                 {currentUser.role === 'Super Admin' && (
                     <SettingsSection title="Usuários" description="Gerencie o acesso ao sistema.">
                         <div className="space-y-4">
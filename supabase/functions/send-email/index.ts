@@ -29,7 +29,8 @@ Deno.serve(async (req: any) => {
         throw new Error("Configuration incomplete: The PROJECT_NAME secret (association's name) was not found.");
     }
 
-    const { recipients, subject, message } = await req.json()
+    // `html` é opcional: documentos prontos (ex.: recibos) já chegam formatados
+    const { recipients, subject, message, html } = await req.json()
 
     if (!recipients || !Array.isArray(recipients) || recipients.length === 0 || !subject || !message) {
       throw new Error("Missing required fields: 'recipients' (must be an array), 'subject', and 'message'.")
@@ -47,7 +48,7 @@ Deno.serve(async (req: any) => {
             to: recipients,
             subject: subject,
             // Format plain text message into basic HTML to preserve line breaks
-            html: `<div style="font-family: sans-serif; line-height: 1.6;">${message.replace(/\n/g, '<br>')}</div>`,
+            html: html || `<div style="font-family: sans-serif; line-height: 1.6;">${message.replace(/\n/g, '<br>')}</div>`,
         }),
     });
 
@@ -1,4 +1,4 @@
-export type Page = 'Dashboard' | 'Members' | 'Financial' | 'Events' | 'Documents' | 'Communications' | 'Projects' | 'ServiceProviders' | 'Inventory' | 'Settings';
+export type Page = 'Dashboard' | 'Members' | 'Financial' | 'Accounting' | 'Events' | 'Documents' | 'Communications' | 'Projects' | 'ServiceProviders' | 'Inventory' | 'Settings' | 'Portal';
 
 export type UserRole = 'Super Admin' | 'Financeiro' | 'Associado';
 
@@ -8,6 +8,7 @@ export interface User {
   email: string;
   role: UserRole;
   avatarUrl: string;
+  memberId?: string | null; // Cadastro de membro vinculado (portal do associado)
 }
 
 export type MemberRole = 'Diretoria' | 'Membro Fundador' | 'Associado';
@@ -26,6 +27,7 @@ export interface Member {
   phone: string;
   birthDate: string | null;
   role: MemberRole;
+  exitDate?: string | null; // Preenchida pelo banco quando o status passa a Inativo
 }
 
 export type EventType = 'Feira' | 'Reunião Ordinária' | 'Encontro' | 'Oficina' | 'Treinamento' | 'Outros';
@@ -38,6 +40,9 @@ export interface Event {
   location: string;
   description: string;
   type: EventType;
+  fee?: number | null; // Valor da inscrição (cobrado via PIX)
+  expectedRevenue?: number | null; // Previsões usadas na projeção de fluxo de caixa
+  expectedCost?: number | null;
 }
 
 export interface Transaction {
@@ -46,15 +51,133 @@ export interface Transaction {
   amount: number;
   type: 'Income' | 'Expense';
   date: string;
+  memberId?: string | null;
+  memberName?: string | null;
+  projectId?: string | null;
+  projectName?: string | null;
+  providerId?: string | null;
+  providerName?: string | null;
+  categoryId?: string;
+  categoryName?: string;
+  pixTxid?: string | null; // TXID do BR Code pago, usado para quitar a cobrança correspondente
+  reconciled?: boolean; // Conferida com o extrato bancário
+  bankRef?: string | null; // FITID/chave da linha do extrato que originou ou conciliou
+  accountId?: string;
+  accountName?: string;
+  budgetLineId?: string | null; // Rubrica do orçamento do projeto
+  budgetLineName?: string | null;
+  recurringTemplateId?: string | null; // Modelo recorrente que gerou o lançamento
+  documentNumber?: string | null; // Nº da nota fiscal/recibo do fornecedor (prestação de contas)
+}
+
+// Alteração registrada pelo banco (trigger) a cada edição ou exclusão; não pode ser alterada nem apagada
+export interface TransactionChange {
+  id: string;
+  transactionId: string;
+  action: 'Update' | 'Delete';
+  field?: string | null; // Coluna alterada (snake_case); nulo na exclusão
+  oldValue?: string | null;
+  newValue?: string | null;
+  userName: string;
+  changedAt: string;
+}
+
+// Filtros do livro-caixa (aplicados no banco)
+export interface LedgerFilters {
+  startDate?: string;
+  endDate?: string;
+  type?: 'Income' | 'Expense' | '';
   memberId?: string;
-  memberName?: string;
   projectId?: string;
-  projectName?: string;
   providerId?: string;
+  minAmount?: string;
+  maxAmount?: string;
+  search?: string;
+  missingProof?: boolean;
+}
+
+export interface LedgerPage {
+  rows: Transaction[];
+  total: number; // Quantidade de transações que atendem aos filtros
+  income: number;
+  expense: number;
+}
+
+// Totais agregados no banco por mês, conta, categoria e tipo
+export interface TransactionSummary {
+  month: string; // YYYY-MM
+  accountId: string | null;
+  categoryId: string | null;
+  type: 'Income' | 'Expense';
+  amount: number;
+  count: number;
+}
+
+// Despesas agregadas por projeto e rubrica (project_expense_summary)
+export interface ProjectExpenseSummary {
+  projectId: string;
+  budgetLineId: string | null;
+  type: 'Expense';
+  amount: number;
+}
+
+export type RecurrenceFrequency = 'Monthly' | 'Quarterly' | 'Yearly';
+
+// Modelo de lançamento recorrente (aluguel, internet, contador...)
+export interface RecurringTemplate {
+  id: string;
+  description: string;
+  amount: number;
+  type: 'Income' | 'Expense';
+  categoryId: string;
+  categoryName?: string;
+  accountId: string;
+  accountName?: string;
+  providerId?: string | null;
   providerName?: string;
+  frequency: RecurrenceFrequency;
+  startDate: string;
+  endDate?: string | null;
+  nextDueDate: string; // Próxima ocorrência ainda não lançada
+  autoConfirm: boolean; // false: gera rascunhos que aguardam confirmação
+  active: boolean;
+}
+
+// Contas onde o dinheiro fica guardado (conta corrente, poupança, caixa físico)
+export type FinancialAccountType = 'Checking' | 'Savings' | 'Cash';
+
+export interface FinancialAccount {
+  id: string;
+  name: string;
+  type: FinancialAccountType;
+  initialBalance: number;
+  active: boolean;
+  ledgerAccountId?: string | null; // Conta contábil; sem mapeamento usa a padrão do tipo
+}
+
+// Transferência entre contas: não é receita nem despesa
+export interface AccountTransfer {
+  id: string;
+  fromAccountId: string;
+  fromAccountName?: string;
+  toAccountId: string;
+  toAccountName?: string;
+  amount: number;
+  date: string;
+  description?: string;
+}
+
+// Plano de contas: categorias de receita/despesa com subcategorias (parentId)
+export interface AccountCategory {
+  id: string;
+  code: string; // Ex: 1.01
+  name: string;
+  type: 'Income' | 'Expense';
+  parentId?: string | null;
+  ledgerAccountId?: string | null;
 }
 
-export type DocumentType = 'Statute' | 'Meeting Minutes' | 'Report' | 'Other';
+export type DocumentType = 'Statute' | 'Meeting Minutes' | 'Report' | 'Proof' | 'Other';
 
 export interface Document {
   id: string;
@@ -63,6 +186,8 @@ export interface Document {
   uploadDate: string;
   size: number; // in bytes
   url: string;
+  transactionId?: string | null; // Nota fiscal ou comprovante anexado a uma transação
+  memberVisible?: boolean; // Aparece no portal do associado
 }
 
 export interface Communication {
@@ -89,6 +214,28 @@ export interface Project {
   budget: number;
 }
 
+// Rubrica do orçamento aprovado de um projeto (ex.: Cachês, Material Gráfico)
+export interface ProjectBudgetLine {
+  id: string;
+  projectId: string;
+  name: string;
+  plannedAmount: number;
+}
+
+// Prestação de contas para patrocinadores/editais. Cada financiador pode ter seu próprio layout.
+export type AccountabilityColumn = 'date' | 'description' | 'provider' | 'providerDocument' | 'documentNumber' | 'budgetLine' | 'category' | 'amount' | 'proof';
+
+export interface AccountabilityLayout {
+  id: string;
+  name: string;
+  funder: string; // Patrocinador ou edital a que o layout se destina
+  columns: AccountabilityColumn[];
+  groupByBudgetLine: boolean;
+  includeIncome: boolean; // Lista os repasses/receitas do projeto
+  headerNote: string;
+  footerNote: string;
+}
+
 export type ProviderType = 'Artist' | 'Workshop Facilitator' | 'Designer' | 'Consultant' | 'Other';
 
 export interface ServiceProvider {
@@ -100,6 +247,100 @@ export interface ServiceProvider {
   cpfCnpj: string;
   portfolioUrl?: string;
   notes?: string;
+  contractedAmount?: number | null; // Valor total contratado; pagamentos acima disso geram alerta
+}
+
+// Carteirinha de membro: o token do QR é assinado no banco (HMAC) e conferido na tela pública
+export interface MemberCard {
+  id: string;
+  memberId: string;
+  validUntil: string;
+  token: string;
+  issuedAt: string;
+  revokedAt: string | null;
+}
+
+export type MemberCardStatus = 'Valid' | 'Invalid' | 'Revoked' | 'Expired' | 'MemberInactive';
+
+export interface MemberCardVerification {
+  status: MemberCardStatus;
+  memberName: string | null;
+  memberRole: MemberRole | null;
+  avatarUrl: string | null;
+  admissionDate: string | null;
+  validUntil: string | null;
+}
+
+// Inscrição pelo formulário público: o membro fica Pending até a Diretoria atingir o quórum
+export type MembershipApplicationStatus = 'Pending' | 'Approved' | 'Rejected';
+export type MembershipVoteChoice = 'Approve' | 'Reject';
+
+export interface MembershipVote {
+  id: string;
+  applicationId: string;
+  voterId: string;
+  voterMemberId: string | null;
+  voterName: string;
+  vote: MembershipVoteChoice;
+  comment: string | null;
+  createdAt: string;
+}
+
+export interface MembershipApplication {
+  id: string;
+  memberId: string;
+  message: string | null;
+  status: MembershipApplicationStatus;
+  submittedAt: string;
+  decidedAt: string | null;
+  duplicateOf: string | null; // Cadastros com o mesmo CPF/email no envio
+  member: Member;
+  votes: MembershipVote[];
+}
+
+export interface MembershipApplicationForm {
+  name: string;
+  email: string;
+  cpf: string;
+  phone: string;
+  birthDate: string;
+  address: string;
+  city: string;
+  state: string;
+  message: string;
+}
+
+export interface MembershipSettings {
+  quorum: number; // Votos iguais da Diretoria necessários para aprovar ou recusar (estatuto)
+}
+
+// --- PORTAL DO ASSOCIADO ---
+
+export interface EventRegistration {
+  id: string;
+  eventId: string;
+  memberId: string;
+  registeredAt: string;
+}
+
+export type MemberContactForm = Pick<Member, 'phone' | 'address' | 'city' | 'state'>;
+
+// Tudo que o associado vê sobre si mesmo, carregado de uma vez ao abrir o portal
+export interface MemberPortalData {
+  member: Member;
+  duesCharges: DuesCharge[];
+  payments: Transaction[];
+  receipts: Receipt[];
+  registrations: EventRegistration[];
+  card: MemberCard | null;
+}
+
+// Cadastro que já usa o mesmo CPF/CNPJ ou email (aviso antes de salvar)
+export interface RegistrationDuplicate {
+  kind: 'Member' | 'ServiceProvider';
+  id: string;
+  name: string;
+  field: 'document' | 'email';
 }
 
 export type InventoryCondition = 'New' | 'Good' | 'Fair' | 'Poor' | 'Broken';
@@ -113,4 +354,218 @@ export interface InventoryItem {
   condition: InventoryCondition;
   location: string;
   description?: string;
-}
\ No newline at end of file
+}
+
+// --- MENSALIDADES ---
+
+export interface DuesSettings {
+  amount: number;
+  dueDay: number; // Dia do vencimento (1-31)
+  graceDays: number; // Carência antes de considerar inadimplente
+  startCompetence: string; // YYYY-MM, primeira competência cobrada
+}
+
+// 'Overdue' não é gravado no banco: é derivado de 'Open' + vencimento + carência.
+export type DuesStatus = 'Open' | 'Paid' | 'Overdue';
+
+export interface DuesCharge {
+  id: string;
+  memberId: string;
+  memberName?: string;
+  competence: string; // YYYY-MM
+  dueDate: string;
+  amount: number;
+  status: 'Open' | 'Paid';
+  paidAt?: string | null;
+  transactionId?: string | null;
+  txid?: string | null; // Identificador do BR Code PIX desta cobrança
+}
+
+// Cobrança PIX de inscrição em evento; o TXID é gerado pelo banco
+export interface EventCharge {
+  id: string;
+  eventId: string;
+  eventTitle?: string;
+  amount: number;
+  txid: string;
+  status: 'Open' | 'Paid';
+  paidAt?: string | null;
+  transactionId?: string | null;
+}
+
+// Dados do recebedor usados na geração do BR Code PIX
+export interface PixSettings {
+  key: string;
+  merchantName: string;
+  merchantCity: string;
+}
+// --- ASSOCIAÇÃO E RECIBOS ---
+
+// Dados institucionais usados em recibos e documentos impressos
+export interface AssociationSettings {
+  name: string;
+  cnpj: string;
+  address: string;
+  city: string;
+  state: string;
+  email: string;
+  phone: string;
+  signatoryName: string; // Quem assina os recibos (ex.: Tesoureiro)
+  signatoryRole: string;
+}
+
+// Recibo emitido: guarda uma cópia dos dados para reimpressão com o mesmo número
+export interface Receipt {
+  id: string;
+  number: number;
+  transactionId: string;
+  memberId: string;
+  memberName: string;
+  amount: number;
+  description: string;
+  paymentDate: string;
+  issuedAt: string;
+}
+
+// --- RPA (PAGAMENTO A AUTÔNOMOS) ---
+
+// Faixa da tabela progressiva do IRRF: base de cálculo até `upTo` (null = acima da última faixa)
+export interface IrrfBracket {
+  upTo: number | null;
+  rate: number; // %
+  deduction: number; // Parcela a deduzir
+}
+
+// Alíquotas e tabelas de retenção vigentes em um ano
+export interface WithholdingTable {
+  year: number;
+  inssRate: number; // % retido do contribuinte individual
+  inssCeiling: number; // Teto do salário de contribuição
+  irrfBrackets: IrrfBracket[];
+  issRate: number; // % do ISS do município (0 se não houver retenção)
+  issDueDay: number; // Dia de vencimento do ISS no mês seguinte
+}
+
+export type WithheldTax = 'INSS' | 'IRRF' | 'ISS';
+
+// Recibo de Pagamento a Autônomo: numeração sequencial, um por transação
+export interface Rpa {
+  id: string;
+  number: number;
+  transactionId: string;
+  providerId: string | null;
+  providerName: string;
+  providerCpf: string;
+  description: string;
+  paymentDate: string;
+  grossAmount: number;
+  inssAmount: number;
+  irrfAmount: number;
+  issAmount: number;
+  netAmount: number;
+  issuedAt: string;
+}
+
+// Tributo retido no RPA, a recolher até o vencimento
+export interface TaxPayable {
+  id: string;
+  rpaId: string;
+  rpaNumber: number;
+  tax: WithheldTax;
+  amount: number;
+  dueDate: string;
+  status: 'Open' | 'Paid';
+  paidAt?: string | null;
+  transactionId?: string | null; // Transação de recolhimento
+}
+
+// --- FECHAMENTO DE PERÍODOS ---
+
+// Mês contábil (YYYY-MM). Períodos fechados não aceitam inclusão, edição ou exclusão de lançamentos.
+export interface FiscalPeriod {
+  period: string;
+  status: 'Open' | 'Closed';
+  closedAt?: string | null;
+  closedBy?: string | null;
+}
+
+export interface FiscalPeriodLog {
+  id: string;
+  period: string;
+  action: 'Close' | 'Reopen';
+  justification?: string | null;
+  userName: string;
+  createdAt: string;
+}
+
+// --- CONTABILIDADE (PARTIDAS DOBRADAS) ---
+
+export type LedgerNature = 'Asset' | 'Liability' | 'Equity' | 'Revenue' | 'Expense';
+
+export interface LedgerAccount {
+  id: string;
+  code: string; // Ex: 1.1.1.01
+  name: string;
+  nature: LedgerNature;
+  active: boolean;
+}
+
+export type JournalSource = 'Transaction' | 'Transfer' | 'TaxPayable' | 'Opening' | 'Manual';
+
+export interface JournalLine {
+  id?: string;
+  accountId: string;
+  debit: number;
+  credit: number;
+}
+
+// Lançamentos automáticos são gerados no banco a partir das transações; só os manuais são editáveis
+export interface JournalEntry {
+  id: string;
+  date: string;
+  description: string;
+  source: JournalSource;
+  sourceId?: string | null;
+  journalLines: JournalLine[];
+}
+
+export interface TrialBalanceRow {
+  accountId: string;
+  code: string;
+  name: string;
+  nature: LedgerNature;
+  opening: number; // Débitos - créditos antes do período
+  debit: number;
+  credit: number;
+}
+
+export interface GeneralLedgerRow {
+  entryId: string;
+  date: string;
+  description: string;
+  source: JournalSource;
+  counterpart: string | null;
+  debit: number;
+  credit: number;
+}
+
+// --- ALERTAS FINANCEIROS ---
+
+export type AlertRule = 'Duplicate' | 'NoProvider' | 'OutsideProject' | 'ContractExceeded';
+
+// Calculado no banco (financial_alerts); a chave é regra + transação
+export interface FinancialAlert {
+  alertKey: string;
+  rule: AlertRule;
+  transactionId: string;
+  date: string;
+  description: string;
+  amount: number;
+  reference: number | null; // Limite configurado ou valor contratado, conforme a regra
+  reviewedBy?: string | null;
+  reviewedAt?: string | null;
+}
+
+export interface AlertSettings {
+  expenseThreshold: number; // Despesas acima disso exigem prestador vinculado
+}
@@ -0,0 +1,220 @@
+import { AccountabilityColumn, AccountabilityLayout, AssociationSettings, Document, Project, ProjectBudgetLine, ServiceProvider, Transaction } from '../types';
+import { escapeHtml, formatBRL, formatDateBR } from './print';
+import { getProjectExecution, ProjectExecution } from './projectBudget';
+import { SpreadsheetColumn } from './spreadsheet';
+
+// Relatório de prestação de contas de um projeto. Funções puras: a busca das transações do
+// projeto (todas, sem o limite da janela recente) é feita pelo DataContext.
+
+export const ACCOUNTABILITY_COLUMN_LABELS: Record<AccountabilityColumn, string> = {
+  date: 'Data',
+  description: 'Descrição',
+  provider: 'Fornecedor',
+  providerDocument: 'CPF/CNPJ',
+  documentNumber: 'Nº Documento',
+  budgetLine: 'Rubrica',
+  category: 'Categoria',
+  amount: 'Valor',
+  proof: 'Comprovante',
+};
+
+export const DEFAULT_ACCOUNTABILITY_LAYOUT: Omit<AccountabilityLayout, 'id'> = {
+  name: 'Padrão',
+  funder: '',
+  columns: ['date', 'description', 'provider', 'providerDocument', 'documentNumber', 'budgetLine', 'amount', 'proof'],
+  groupByBudgetLine: true,
+  includeIncome: true,
+  headerNote: '',
+  footerNote: '',
+};
+
+export interface AccountabilityExpense {
+  transaction: Transaction;
+  provider?: ServiceProvider;
+  proofs: Document[];
+}
+
+export interface AccountabilityReport {
+  project: Project;
+  execution: ProjectExecution;
+  expenses: AccountabilityExpense[];
+  income: Transaction[];
+  totalIncome: number;
+  totalExpense: number;
+  finalBalance: number; // Recursos recebidos - despesas executadas
+  missingProofs: number;
+}
+
+export const buildAccountabilityReport = (
+  project: Project,
+  budgetLines: ProjectBudgetLine[],
+  transactions: Transaction[],
+  providers: ServiceProvider[],
+  documents: Document[]
+): AccountabilityReport => {
+  const own = transactions.filter(t => t.projectId === project.id).sort((a, b) => a.date.localeCompare(b.date));
+  const expenses = own.filter(t => t.type === 'Expense').map(transaction => ({
+    transaction,
+    provider: providers.find(p => p.id === transaction.providerId),
+    proofs: documents.filter(d => d.transactionId === transaction.id),
+  }));
+  const income = own.filter(t => t.type === 'Income');
+  const totalIncome = income.reduce((acc, t) => acc + t.amount, 0);
+  const totalExpense = expenses.reduce((acc, e) => acc + e.transaction.amount, 0);
+  return {
+    project,
+    execution: getProjectExecution(project, budgetLines, own),
+    expenses,
+    income,
+    totalIncome,
+    totalExpense,
+    finalBalance: totalIncome - totalExpense,
+    missingProofs: expenses.filter(e => e.proofs.length === 0).length,
+  };
+};
+
+const getCellText = (column: AccountabilityColumn, expense: AccountabilityExpense): string => {
+  const t = expense.transaction;
+  switch (column) {
+    case 'date': return formatDateBR(t.date);
+    case 'description': return t.description;
+    case 'provider': return expense.provider?.name || t.providerName || '';
+    case 'providerDocument': return expense.provider?.cpfCnpj || '';
+    case 'documentNumber': return t.documentNumber || '';
+    case 'budgetLine': return t.budgetLineName || 'Sem rubrica';
+    case 'category': return t.categoryName || '';
+    case 'amount': return t.amount.toFixed(2);
+    case 'proof': return expense.proofs.length ? expense.proofs.map(d => d.name).join('; ') : 'PENDENTE';
+  }
+};
+
+// Grupos na ordem das rubricas do orçamento; despesas sem rubrica ao final
+const groupExpenses = (report: AccountabilityReport, layout: AccountabilityLayout): { title: string | null; expenses: AccountabilityExpense[] }[] => {
+  if (!layout.groupByBudgetLine) return [{ title: null, expenses: report.expenses }];
+  const groups = report.execution.lines.map(({ line }) => ({ title: line.name, expenses: report.expenses.filter(e => e.transaction.budgetLineId === line.id) }));
+  const lineIds = new Set(report.execution.lines.map(l => l.line.id));
+  groups.push({ title: 'Sem rubrica', expenses: report.expenses.filter(e => !e.transaction.budgetLineId || !lineIds.has(e.transaction.budgetLineId)) });
+  return groups.filter(g => g.expenses.length > 0);
+};
+
+// Linhas da planilha: uma por despesa, seguindo as colunas do layout
+// Data e valor vão como célula tipada (data e moeda); as demais colunas, como texto
+export type AccountabilityRow = Record<string, string | number>;
+
+const getCellValue = (column: AccountabilityColumn, expense: AccountabilityExpense): string | number => {
+  if (column === 'date') return expense.transaction.date;
+  if (column === 'amount') return expense.transaction.amount;
+  return getCellText(column, expense);
+};
+
+export const accountabilityToRows = (report: AccountabilityReport, layout: AccountabilityLayout): { columns: SpreadsheetColumn<AccountabilityRow>[]; rows: AccountabilityRow[] } => {
+  const columns: SpreadsheetColumn<AccountabilityRow>[] = layout.columns.map(key => ({
+    key,
+    label: ACCOUNTABILITY_COLUMN_LABELS[key],
+    type: key === 'date' ? 'date' : key === 'amount' ? 'currency' : 'text',
+  }));
+  const rows = groupExpenses(report, layout).flatMap(group => group.expenses.map(expense =>
+    Object.fromEntries(layout.columns.map(column => [column, column === 'budgetLine' && group.title ? group.title : getCellValue(column, expense)]))
+  ));
+  const total: AccountabilityRow = Object.fromEntries(layout.columns.map(column => [column, '']));
+  // A primeira coluna pode ser a data: o rótulo do total entra na primeira coluna de texto
+  const labelColumn = layout.columns.find(c => c !== 'date' && c !== 'amount') ?? layout.columns[0];
+  total[labelColumn] = 'TOTAL EXECUTADO';
+  if (layout.columns.includes('amount')) total.amount = report.totalExpense;
+  return { columns, rows: [...rows, total] };
+};
+
+const renderExpenseCell = (column: AccountabilityColumn, expense: AccountabilityExpense): string => {
+  if (column === 'amount') return `<td class="num">${escapeHtml(formatBRL(expense.transaction.amount))}</td>`;
+  if (column === 'proof') {
+    if (expense.proofs.length === 0) return '<td class="missing">PENDENTE</td>';
+    return `<td>${expense.proofs.map(d => `<a href="${escapeHtml(d.url)}">${escapeHtml(d.name)}</a>`).join('<br />')}</td>`;
+  }
+  return `<td>${escapeHtml(getCellText(column, expense))}</td>`;
+};
+
+export const buildAccountabilityHtml = (report: AccountabilityReport, layout: AccountabilityLayout, association: AssociationSettings | null): string => {
+  const { project, execution } = report;
+  const columnCount = layout.columns.length;
+  const amountIndex = layout.columns.indexOf('amount');
+  const subtotalRow = (label: string, value: number) => amountIndex < 0 ? '' :
+    `<tr class="subtotal"><td colspan="${Math.max(amountIndex, 1)}">${escapeHtml(label)}</td><td class="num">${escapeHtml(formatBRL(value))}</td>${columnCount - amountIndex - 1 > 0 ? `<td colspan="${columnCount - amountIndex - 1}"></td>` : ''}</tr>`;
+
+  const expenseRows = groupExpenses(report, layout).map(group => [
+    group.title ? `<tr class="group"><td colspan="${columnCount}">${escapeHtml(group.title)}</td></tr>` : '',
+    ...group.expenses.map(expense => `<tr>${layout.columns.map(column => renderExpenseCell(column, expense)).join('')}</tr>`),
+    group.title ? subtotalRow(`Subtotal ${group.title}`, group.expenses.reduce((acc, e) => acc + e.transaction.amount, 0)) : '',
+  ].join('')).join('');
+
+  return `<!DOCTYPE html>
+<html lang="pt-BR">
+<head>
+<meta charset="utf-8" />
+<title>Prestação de Contas - ${escapeHtml(project.title)}</title>
+<style>
+  body { font-family: Arial, Helvetica, sans-serif; color: #111; margin: 0; padding: 24px; font-size: 12px; }
+  h1 { font-size: 18px; margin: 0 0 4px; }
+  h2 { font-size: 14px; margin: 24px 0 8px; border-bottom: 1px solid #999; padding-bottom: 4px; }
+  .muted { color: #555; margin: 0; }
+  .note { margin: 12px 0; white-space: pre-line; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { border: 1px solid #bbb; padding: 4px 6px; text-align: left; vertical-align: top; }
+  th { background: #eee; }
+  .num { text-align: right; white-space: nowrap; }
+  .group td { background: #f5f5f5; font-weight: bold; }
+  .subtotal td { font-weight: bold; }
+  .missing { color: #b91c1c; font-weight: bold; }
+  .ident td:first-child { width: 30%; font-weight: bold; }
+  .signature { margin: 56px auto 0; width: 50%; border-top: 1px solid #111; text-align: center; padding-top: 6px; }
+  a { color: inherit; }
+  @media print { body { padding: 0; } }
+</style>
+</head>
+<body>
+  <h1>Prestação de Contas${layout.funder ? ` — ${escapeHtml(layout.funder)}` : ''}</h1>
+  ${association?.name ? `<p class="muted">${escapeHtml(association.name)}${association.cnpj ? ` · CNPJ ${escapeHtml(association.cnpj)}` : ''}</p>` : ''}
+  ${layout.headerNote ? `<p class="note">${escapeHtml(layout.headerNote)}</p>` : ''}
+
+  <h2>1. Identificação do Projeto</h2>
+  <table class="ident">
+    <tr><td>Projeto</td><td>${escapeHtml(project.title)}</td></tr>
+    <tr><td>Proponente</td><td>${escapeHtml(project.proponent)}</td></tr>
+    <tr><td>Patrocinador</td><td>${escapeHtml(project.sponsor)}</td></tr>
+    <tr><td>Vigência</td><td>${escapeHtml(formatDateBR(project.startDate))}${project.endDate ? ` a ${escapeHtml(formatDateBR(project.endDate))}` : ''}</td></tr>
+  </table>
+
+  <h2>2. Orçamento Aprovado x Executado</h2>
+  <table>
+    <tr><th>Rubrica</th><th class="num">Aprovado</th><th class="num">Executado</th><th class="num">Saldo</th></tr>
+    ${execution.lines.map(l => `<tr><td>${escapeHtml(l.line.name)}</td><td class="num">${escapeHtml(formatBRL(l.line.plannedAmount))}</td><td class="num">${escapeHtml(formatBRL(l.actual))}</td><td class="num">${escapeHtml(formatBRL(l.remaining))}</td></tr>`).join('')}
+    ${execution.unallocated > 0 ? `<tr><td>Sem rubrica</td><td class="num">—</td><td class="num">${escapeHtml(formatBRL(execution.unallocated))}</td><td class="num">—</td></tr>` : ''}
+    <tr class="subtotal"><td>Total</td><td class="num">${escapeHtml(formatBRL(execution.budget))}</td><td class="num">${escapeHtml(formatBRL(execution.actual))}</td><td class="num">${escapeHtml(formatBRL(execution.remaining))}</td></tr>
+  </table>
+
+  <h2>3. Relação de Despesas</h2>
+  <table>
+    <tr>${layout.columns.map(c => `<th${c === 'amount' ? ' class="num"' : ''}>${escapeHtml(ACCOUNTABILITY_COLUMN_LABELS[c])}</th>`).join('')}</tr>
+    ${expenseRows || `<tr><td colspan="${columnCount}">Nenhuma despesa registrada.</td></tr>`}
+    ${subtotalRow('Total executado', report.totalExpense)}
+  </table>
+
+  ${layout.includeIncome ? `<h2>4. Recursos Recebidos</h2>
+  <table>
+    <tr><th>Data</th><th>Descrição</th><th class="num">Valor</th></tr>
+    ${report.income.map(t => `<tr><td>${escapeHtml(formatDateBR(t.date))}</td><td>${escapeHtml(t.description)}</td><td class="num">${escapeHtml(formatBRL(t.amount))}</td></tr>`).join('') || '<tr><td colspan="3">Nenhum repasse registrado.</td></tr>'}
+    <tr class="subtotal"><td colspan="2">Total recebido</td><td class="num">${escapeHtml(formatBRL(report.totalIncome))}</td></tr>
+  </table>` : ''}
+
+  <h2>${layout.includeIncome ? '5' : '4'}. Saldo Final</h2>
+  <table class="ident">
+    ${layout.includeIncome ? `<tr><td>Recursos recebidos</td><td class="num">${escapeHtml(formatBRL(report.totalIncome))}</td></tr>` : ''}
+    <tr><td>Despesas executadas</td><td class="num">${escapeHtml(formatBRL(report.totalExpense))}</td></tr>
+    ${layout.includeIncome ? `<tr class="subtotal"><td>Saldo a devolver / remanescente</td><td class="num">${escapeHtml(formatBRL(report.finalBalance))}</td></tr>` : ''}
+    <tr><td>Saldo do orçamento aprovado</td><td class="num">${escapeHtml(formatBRL(execution.remaining))}</td></tr>
+  </table>
+
+  ${layout.footerNote ? `<p class="note">${escapeHtml(layout.footerNote)}</p>` : ''}
+  ${association?.signatoryName ? `<div class="signature">${escapeHtml(association.signatoryName)}<br />${escapeHtml(association.signatoryRole)}</div>` : ''}
+</body>
+</html>`;
+};
@@ -0,0 +1,90 @@
+import { GeneralLedgerRow, JournalLine, JournalSource, LedgerNature, TrialBalanceRow } from '../types';
+
+export const LEDGER_NATURE_LABELS: Record<LedgerNature, string> = {
+  Asset: 'Ativo',
+  Liability: 'Passivo',
+  Equity: 'Patrimônio Social',
+  Revenue: 'Receita',
+  Expense: 'Despesa',
+};
+
+export const JOURNAL_SOURCE_LABELS: Record<JournalSource, string> = {
+  Transaction: 'Transação',
+  Transfer: 'Transferência',
+  TaxPayable: 'Tributo retido',
+  Opening: 'Saldo inicial',
+  Manual: 'Manual',
+};
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+// Ativo e despesa crescem a débito; as demais naturezas a crédito
+export const isDebitNature = (nature: LedgerNature): boolean => nature === 'Asset' || nature === 'Expense';
+
+// Converte débito - crédito para o saldo no sentido natural da conta (positivo = saldo normal)
+export const toNaturalBalance = (nature: LedgerNature, debitMinusCredit: number): number =>
+  round2(isDebitNature(nature) ? debitMinusCredit : -debitMinusCredit);
+
+export const getClosingBalance = (row: TrialBalanceRow): number =>
+  toNaturalBalance(row.nature, row.opening + row.debit - row.credit);
+
+export interface LedgerRowWithBalance extends GeneralLedgerRow {
+  balance: number;
+}
+
+export const withRunningBalance = (rows: GeneralLedgerRow[], nature: LedgerNature, opening: number): LedgerRowWithBalance[] => {
+  let debitMinusCredit = opening;
+  return rows.map(row => {
+    debitMinusCredit += row.debit - row.credit;
+    return { ...row, balance: toNaturalBalance(nature, debitMinusCredit) };
+  });
+};
+
+export interface BalanceSheetItem {
+  code: string;
+  name: string;
+  balance: number;
+}
+
+export interface BalanceSheet {
+  assets: BalanceSheetItem[];
+  liabilities: BalanceSheetItem[];
+  equity: BalanceSheetItem[];
+  accumulatedResult: number; // Receitas - despesas ainda não transferidas ao patrimônio
+  totalAssets: number;
+  totalLiabilities: number;
+  totalEquity: number;
+  difference: number; // Zero quando o diário está íntegro
+}
+
+// Balanço patrimonial a partir do balancete acumulado até a data (trial_balance sem data inicial)
+export const buildBalanceSheet = (rows: TrialBalanceRow[]): BalanceSheet => {
+  const items = (nature: LedgerNature) => rows
+    .filter(r => r.nature === nature)
+    .map(r => ({ code: r.code, name: r.name, balance: getClosingBalance(r) }))
+    .filter(i => i.balance !== 0);
+  const sum = (list: BalanceSheetItem[]) => round2(list.reduce((acc, i) => acc + i.balance, 0));
+
+  const assets = items('Asset');
+  const liabilities = items('Liability');
+  const equity = items('Equity');
+  const accumulatedResult = round2(sum(items('Revenue')) - sum(items('Expense')));
+  const totalAssets = sum(assets);
+  const totalLiabilities = sum(liabilities);
+  const totalEquity = round2(sum(equity) + accumulatedResult);
+  return {
+    assets, liabilities, equity, accumulatedResult, totalAssets, totalLiabilities, totalEquity,
+    difference: round2(totalAssets - totalLiabilities - totalEquity),
+  };
+};
+
+// Mesmas regras do banco para lançamentos manuais; retorna a mensagem de erro ou null
+export const validateJournalLines = (lines: JournalLine[]): string | null => {
+  if (lines.length < 2) return 'O lançamento precisa de ao menos duas partidas.';
+  if (lines.some(l => !l.accountId)) return 'Selecione a conta de todas as partidas.';
+  if (lines.some(l => l.debit < 0 || l.credit < 0 || (l.debit > 0) === (l.credit > 0))) return 'Cada partida deve ter apenas débito ou apenas crédito.';
+  const debit = round2(lines.reduce((acc, l) => acc + l.debit, 0));
+  const credit = round2(lines.reduce((acc, l) => acc + l.credit, 0));
+  if (debit !== credit) return `Débitos (${debit.toFixed(2)}) e créditos (${credit.toFixed(2)}) não conferem.`;
+  return null;
+};
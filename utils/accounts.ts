@@ -0,0 +1,42 @@
+import { AccountTransfer, FinancialAccount, FinancialAccountType, Transaction } from '../types';
+
+// Transações ou totais agregados do banco (TransactionSummary)
+type AccountMovement = Pick<Transaction, 'type' | 'amount'> & { accountId?: string | null };
+
+export const ACCOUNT_TYPE_LABELS: Record<FinancialAccountType, string> = {
+  Checking: 'Conta Corrente',
+  Savings: 'Poupança',
+  Cash: 'Caixa',
+};
+
+export interface AccountBalance {
+  account: FinancialAccount;
+  income: number;
+  expense: number;
+  transfersIn: number;
+  transfersOut: number;
+  balance: number;
+}
+
+// Saldo = saldo inicial + receitas - despesas + transferências recebidas - enviadas.
+// Transações sem conta (anteriores ao cadastro de contas) ficam fora dos saldos por conta.
+export const getAccountBalances = (
+  accounts: FinancialAccount[],
+  transactions: AccountMovement[],
+  transfers: AccountTransfer[]
+): AccountBalance[] =>
+  accounts.map(account => {
+    const own = transactions.filter(t => t.accountId === account.id);
+    const income = own.filter(t => t.type === 'Income').reduce((acc, t) => acc + t.amount, 0);
+    const expense = own.filter(t => t.type === 'Expense').reduce((acc, t) => acc + t.amount, 0);
+    const transfersIn = transfers.filter(t => t.toAccountId === account.id).reduce((acc, t) => acc + t.amount, 0);
+    const transfersOut = transfers.filter(t => t.fromAccountId === account.id).reduce((acc, t) => acc + t.amount, 0);
+    return {
+      account,
+      income,
+      expense,
+      transfersIn,
+      transfersOut,
+      balance: account.initialBalance + income - expense + transfersIn - transfersOut,
+    };
+  });
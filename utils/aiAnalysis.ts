@@ -0,0 +1,128 @@
+import * as z from 'zod';
+import { Transaction } from '../types';
+import { formatBRL, formatDateBR } from './print';
+
+// Análise financeira estruturada. O modelo devolve JSON validado aqui; nada do texto da IA é injetado como HTML.
+
+export interface AnalysisInput {
+  startDate: string;
+  endDate: string;
+  transactions: Transaction[];
+}
+
+const anomalySchema = z.object({
+  transactionId: z.string(),
+  reason: z.string().min(1),
+  severity: z.enum(['low', 'medium', 'high']).catch('medium'),
+});
+
+const analysisSchema = z.object({
+  summary: z.string().min(1),
+  anomalies: z.array(anomalySchema).default([]),
+  suggestions: z.array(z.string().min(1)).default([]),
+});
+
+export type AnalysisAnomaly = z.infer<typeof anomalySchema>;
+export type FinancialAnalysis = z.infer<typeof analysisSchema>;
+
+export interface AnalysisProvider {
+  name: string;
+  analyze: (input: AnalysisInput) => Promise<FinancialAnalysis>;
+}
+
+export const ANOMALY_SEVERITY_LABELS: Record<AnalysisAnomaly['severity'], string> = {
+  low: 'Baixa',
+  medium: 'Média',
+  high: 'Alta',
+};
+
+export const buildAnalysisPrompt = ({ startDate, endDate, transactions }: AnalysisInput): string => {
+  const rows = transactions.map(t => ({
+    id: t.id, date: t.date, type: t.type === 'Income' ? 'receita' : 'despesa', description: t.description,
+    amount: t.amount, category: t.categoryName || null, provider: t.providerName || null,
+  }));
+  return `Você é um consultor financeiro experiente para associações sem fins lucrativos.
+Analise as transações de ${formatDateBR(startDate)} a ${formatDateBR(endDate)} (JSON abaixo).
+
+Responda APENAS com um objeto JSON, sem markdown, no formato:
+{
+  "summary": "resumo da saúde financeira do período, em texto simples",
+  "anomalies": [{ "transactionId": "id da transação", "reason": "por que é atípica", "severity": "low" | "medium" | "high" }],
+  "suggestions": ["sugestão prática para melhorar o fluxo de caixa"]
+}
+Use somente ids presentes nos dados. Traga no máximo 10 anomalias e 3 sugestões.
+
+Transações:
+${JSON.stringify(rows)}`;
+};
+
+// Valida a resposta do modelo e descarta anomalias que apontem para transações fora do período
+export const parseAnalysisResponse = (text: string, input: AnalysisInput): FinancialAnalysis => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text.trim().replace(/^```(?:json)?\s*/i, '').replace(/```$/, ''));
+  } catch {
+    throw new Error('A IA não retornou um JSON válido.');
+  }
+  const parsed = analysisSchema.safeParse(raw);
+  if (!parsed.success) throw new Error('A resposta da IA não está no formato esperado.');
+  const ids = new Set(input.transactions.map(t => t.id));
+  return { ...parsed.data, anomalies: parsed.data.anomalies.filter(a => ids.has(a.transactionId)) };
+};
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+// Regras fixas, sem rede: mesma entrada, mesmo resultado. Usado em desenvolvimento e quando não há chave da IA.
+export const localAnalysisProvider: AnalysisProvider = {
+  name: 'Análise local (regras)',
+  analyze: async (input) => {
+    const { transactions } = input;
+    const expenses = transactions.filter(t => t.type === 'Expense');
+    const income = transactions.filter(t => t.type === 'Income').reduce((acc, t) => acc + t.amount, 0);
+    const expense = expenses.reduce((acc, t) => acc + t.amount, 0);
+    const result = income - expense;
+
+    const byCategory: Record<string, Transaction[]> = {};
+    expenses.forEach(t => { (byCategory[t.categoryName || 'Sem categoria'] ??= []).push(t); });
+    const [topCategory, topItems] = Object.entries(byCategory).sort((a, b) => b[1].reduce((s, t) => s + t.amount, 0) - a[1].reduce((s, t) => s + t.amount, 0))[0] ?? [];
+
+    const anomalies: AnalysisAnomaly[] = [];
+    Object.values(byCategory).forEach(items => {
+      const reference = median((items.length >= 3 ? items : expenses).map(t => t.amount));
+      items.filter(t => reference > 0 && t.amount >= reference * 3).forEach(t => anomalies.push({
+        transactionId: t.id,
+        reason: `Valor ${(t.amount / reference).toFixed(1)}x a mediana das despesas comparáveis (${formatBRL(reference)}).`,
+        severity: t.amount >= reference * 5 ? 'high' : 'medium',
+      }));
+    });
+    const seen = new Set<string>();
+    transactions.forEach(t => {
+      const key = [t.date, t.type, t.amount.toFixed(2), t.description.trim().toLowerCase()].join('|');
+      if (seen.has(key)) anomalies.push({ transactionId: t.id, reason: 'Possível lançamento duplicado: mesma data, valor e descrição de outra transação.', severity: 'medium' });
+      seen.add(key);
+    });
+    const uncategorized = transactions.filter(t => !t.categoryId);
+    uncategorized.slice(0, 3).forEach(t => anomalies.push({ transactionId: t.id, reason: 'Transação sem categoria no plano de contas.', severity: 'low' }));
+
+    const suggestions: string[] = [];
+    if (result < 0) suggestions.push(`As despesas superaram as receitas em ${formatBRL(-result)}; revise os gastos não essenciais e antecipe a cobrança de mensalidades em aberto.`);
+    if (topCategory && expense > 0 && topItems.reduce((s, t) => s + t.amount, 0) / expense > 0.4) {
+      suggestions.push(`"${topCategory}" concentra ${Math.round(topItems.reduce((s, t) => s + t.amount, 0) / expense * 100)}% das despesas; negocie preços ou busque fornecedores alternativos.`);
+    }
+    if (uncategorized.length > 0) suggestions.push(`Classifique ${uncategorized.length === 1 ? 'a transação' : `as ${uncategorized.length} transações`} sem categoria para que a DRE e a prestação de contas fiquem corretas.`);
+    if (income === 0) suggestions.push('Não há receitas no período; verifique se as entradas foram registradas e planeje campanhas de captação.');
+    suggestions.push(`Mantenha uma reserva equivalente a três meses de despesas (${formatBRL(expense * 3)} no ritmo deste período).`);
+
+    return {
+      summary: transactions.length === 0
+        ? 'Não há transações no período selecionado.'
+        : `De ${formatDateBR(input.startDate)} a ${formatDateBR(input.endDate)} foram ${transactions.length} transações: receitas de ${formatBRL(income)} e despesas de ${formatBRL(expense)}, com ${result >= 0 ? 'superávit' : 'déficit'} de ${formatBRL(Math.abs(result))}.${topCategory ? ` A maior despesa é "${topCategory}".` : ''}`,
+      anomalies: anomalies.slice(0, 10),
+      suggestions: suggestions.slice(0, 3),
+    };
+  },
+};
@@ -0,0 +1,22 @@
+import { AlertRule, FinancialAlert } from '../types';
+import { formatBRL } from './print';
+
+// As regras rodam no banco (financial_alerts) sobre todo o histórico; aqui só a apresentação
+
+export const ALERT_RULE_LABELS: Record<AlertRule, string> = {
+  Duplicate: 'Possível duplicidade',
+  NoProvider: 'Despesa sem prestador',
+  OutsideProject: 'Fora da vigência do projeto',
+  ContractExceeded: 'Acima do valor contratado',
+};
+
+export const describeAlert = (alert: FinancialAlert): string => {
+  switch (alert.rule) {
+    case 'Duplicate': return 'Mesma data, valor e descrição de outra transação.';
+    case 'NoProvider': return `Despesa acima de ${formatBRL(alert.reference ?? 0)} sem prestador vinculado.`;
+    case 'OutsideProject': return 'Data da despesa fora do início/término do projeto vinculado.';
+    case 'ContractExceeded': return `Pagamentos ao prestador ultrapassam o valor contratado de ${formatBRL(alert.reference ?? 0)}.`;
+  }
+};
+
+export const getPendingAlerts = (alerts: FinancialAlert[]): FinancialAlert[] => alerts.filter(a => !a.reviewedAt);
@@ -0,0 +1,223 @@
+import { AccountCategory, AssociationSettings, Event, EventType, InventoryItem, Member, MemberRole, Project, ProjectStatus, TransactionSummary } from '../types';
+import { getRootCategory, UNCATEGORIZED_LABEL } from './categories';
+import { escapeHtml, formatBRL, formatDateBR } from './print';
+
+// Relatório anual de atividades e finanças para a assembleia geral. Funções puras: os membros
+// vêm sem o limite da listagem (fetchAllMembers) e as finanças do resumo mensal agregado no banco.
+
+export const PROJECT_STATUS_LABELS: Record<ProjectStatus, string> = {
+  Planning: 'Em planejamento',
+  Active: 'Em andamento',
+  Completed: 'Concluído',
+  Cancelled: 'Cancelado',
+};
+
+const EVENT_TYPES: EventType[] = ['Feira', 'Reunião Ordinária', 'Encontro', 'Oficina', 'Treinamento', 'Outros'];
+const PROJECT_STATUSES: ProjectStatus[] = ['Planning', 'Active', 'Completed', 'Cancelled'];
+const MEMBER_ROLES: MemberRole[] = ['Diretoria', 'Membro Fundador', 'Associado'];
+
+export interface AnnualReportInput {
+  year: number;
+  members: Member[];
+  events: Event[];
+  projects: Project[];
+  transactionSummary: TransactionSummary[];
+  categories: AccountCategory[];
+  inventory: InventoryItem[];
+}
+
+export interface AnnualReport {
+  year: number;
+  members: {
+    atStart: number;
+    atEnd: number;
+    admissions: Member[];
+    exits: Member[];
+    exitsWithoutDate: number; // Inativos desligados antes de a data passar a ser registrada
+    pending: number;
+    byRole: { role: MemberRole; count: number }[];
+  };
+  events: { list: Event[]; byType: { type: EventType; count: number }[] };
+  projects: { list: Project[]; byStatus: { status: ProjectStatus; count: number }[] };
+  finance: {
+    income: { name: string; value: number }[];
+    expense: { name: string; value: number }[];
+    totalIncome: number;
+    totalExpense: number;
+    result: number;
+    transactionCount: number;
+  };
+  inventory: { count: number; value: number; acquiredCount: number; acquiredValue: number };
+}
+
+const groupByRootCategory = (rows: TransactionSummary[], categories: AccountCategory[]): { name: string; value: number }[] => {
+  const totals: Record<string, number> = {};
+  rows.forEach(r => {
+    const name = getRootCategory(r.categoryId, categories)?.name ?? UNCATEGORIZED_LABEL;
+    totals[name] = (totals[name] || 0) + r.amount;
+  });
+  return Object.entries(totals).map(([name, value]) => ({ name, value })).sort((a, b) => b.value - a.value);
+};
+
+export const buildAnnualReport = ({ year, members, events, projects, transactionSummary, categories, inventory }: AnnualReportInput): AnnualReport => {
+  const start = `${year}-01-01`;
+  const end = `${year}-12-31`;
+  const inYear = (date: string | null | undefined) => !!date && date.slice(0, 10) >= start && date.slice(0, 10) <= end;
+
+  // Pendentes ainda não foram admitidos; inativos sem data de desligamento ficam fora das contagens
+  const admitted = members.filter(m => m.status !== 'Pending' && !(m.status === 'Inactive' && !m.exitDate));
+  const activeOn = (date: string, inclusive: boolean) => admitted.filter(m =>
+    (inclusive ? m.admissionDate.slice(0, 10) <= date : m.admissionDate.slice(0, 10) < date) &&
+    (!m.exitDate || (inclusive ? m.exitDate.slice(0, 10) > date : m.exitDate.slice(0, 10) >= date)));
+  const atEnd = activeOn(end, true);
+
+  const yearEvents = events.filter(e => inYear(e.date)).sort((a, b) => a.date.localeCompare(b.date));
+  const yearProjects = projects
+    .filter(p => p.startDate.slice(0, 10) <= end && (!p.endDate || p.endDate.slice(0, 10) >= start))
+    .sort((a, b) => a.startDate.localeCompare(b.startDate));
+
+  const summary = transactionSummary.filter(r => r.month.startsWith(`${year}-`));
+  const totalIncome = summary.filter(r => r.type === 'Income').reduce((acc, r) => acc + r.amount, 0);
+  const totalExpense = summary.filter(r => r.type === 'Expense').reduce((acc, r) => acc + r.amount, 0);
+
+  const owned = inventory.filter(i => i.acquisitionDate.slice(0, 10) <= end);
+  const acquired = owned.filter(i => inYear(i.acquisitionDate));
+
+  return {
+    year,
+    members: {
+      atStart: activeOn(start, false).length,
+      atEnd: atEnd.length,
+      admissions: admitted.filter(m => inYear(m.admissionDate)).sort((a, b) => a.admissionDate.localeCompare(b.admissionDate)),
+      exits: admitted.filter(m => inYear(m.exitDate)).sort((a, b) => (a.exitDate || '').localeCompare(b.exitDate || '')),
+      exitsWithoutDate: members.filter(m => m.status === 'Inactive' && !m.exitDate).length,
+      pending: members.filter(m => m.status === 'Pending').length,
+      byRole: MEMBER_ROLES.map(role => ({ role, count: atEnd.filter(m => m.role === role).length })),
+    },
+    events: {
+      list: yearEvents,
+      byType: EVENT_TYPES.map(type => ({ type, count: yearEvents.filter(e => e.type === type).length })).filter(t => t.count > 0),
+    },
+    projects: {
+      list: yearProjects,
+      byStatus: PROJECT_STATUSES.map(status => ({ status, count: yearProjects.filter(p => p.status === status).length })).filter(s => s.count > 0),
+    },
+    finance: {
+      income: groupByRootCategory(summary.filter(r => r.type === 'Income'), categories),
+      expense: groupByRootCategory(summary.filter(r => r.type === 'Expense'), categories),
+      totalIncome,
+      totalExpense,
+      result: totalIncome - totalExpense,
+      transactionCount: summary.reduce((acc, r) => acc + r.count, 0),
+    },
+    inventory: {
+      count: owned.length,
+      value: owned.reduce((acc, i) => acc + i.value, 0),
+      acquiredCount: acquired.length,
+      acquiredValue: acquired.reduce((acc, i) => acc + i.value, 0),
+    },
+  };
+};
+
+const amountRows = (rows: { name: string; value: number }[], empty: string) =>
+  rows.map(r => `<tr><td>${escapeHtml(r.name)}</td><td class="num">${escapeHtml(formatBRL(r.value))}</td></tr>`).join('') || `<tr><td colspan="2">${escapeHtml(empty)}</td></tr>`;
+
+export const buildAnnualReportHtml = (report: AnnualReport, association: AssociationSettings | null): string => {
+  const { members, events, projects, finance, inventory } = report;
+  return `<!DOCTYPE html>
+<html lang="pt-BR">
+<head>
+<meta charset="utf-8" />
+<title>Relatório Anual ${report.year}</title>
+<style>
+  body { font-family: Arial, Helvetica, sans-serif; color: #111; margin: 0; padding: 24px; font-size: 12px; }
+  h1 { font-size: 18px; margin: 0 0 4px; }
+  h2 { font-size: 14px; margin: 24px 0 8px; border-bottom: 1px solid #999; padding-bottom: 4px; }
+  h3 { font-size: 12px; margin: 12px 0 6px; }
+  .muted { color: #555; margin: 0; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { border: 1px solid #bbb; padding: 4px 6px; text-align: left; vertical-align: top; }
+  th { background: #eee; }
+  .num { text-align: right; white-space: nowrap; }
+  .subtotal td { font-weight: bold; }
+  .ident td:first-child { width: 50%; font-weight: bold; }
+  .signature { margin: 56px auto 0; width: 50%; border-top: 1px solid #111; text-align: center; padding-top: 6px; }
+  @media print { body { padding: 0; } }
+</style>
+</head>
+<body>
+  <h1>Relatório Anual de Atividades e Prestação de Contas — ${report.year}</h1>
+  ${association?.name ? `<p class="muted">${escapeHtml(association.name)}${association.cnpj ? ` · CNPJ ${escapeHtml(association.cnpj)}` : ''}</p>` : ''}
+  <p class="muted">Período: ${escapeHtml(formatDateBR(`${report.year}-01-01`))} a ${escapeHtml(formatDateBR(`${report.year}-12-31`))}</p>
+
+  <h2>1. Quadro Social</h2>
+  <table class="ident">
+    <tr><td>Membros em 1º de janeiro</td><td class="num">${members.atStart}</td></tr>
+    <tr><td>Admissões no ano</td><td class="num">${members.admissions.length}</td></tr>
+    <tr><td>Desligamentos no ano</td><td class="num">${members.exits.length}</td></tr>
+    <tr class="subtotal"><td>Membros em 31 de dezembro</td><td class="num">${members.atEnd}</td></tr>
+    ${members.byRole.map(r => `<tr><td>${escapeHtml(r.role)}</td><td class="num">${r.count}</td></tr>`).join('')}
+    ${members.pending > 0 ? `<tr><td>Propostas de admissão pendentes (hoje)</td><td class="num">${members.pending}</td></tr>` : ''}
+  </table>
+  ${members.exitsWithoutDate > 0 ? `<p class="muted">${members.exitsWithoutDate} membro(s) inativo(s) sem data de desligamento registrada não entram nas contagens.</p>` : ''}
+  ${members.admissions.length > 0 ? `<h3>Admissões</h3>
+  <table>
+    <tr><th>Nome</th><th>Categoria</th><th>Data</th></tr>
+    ${members.admissions.map(m => `<tr><td>${escapeHtml(m.name)}</td><td>${escapeHtml(m.role)}</td><td>${escapeHtml(formatDateBR(m.admissionDate))}</td></tr>`).join('')}
+  </table>` : ''}
+  ${members.exits.length > 0 ? `<h3>Desligamentos</h3>
+  <table>
+    <tr><th>Nome</th><th>Categoria</th><th>Data</th></tr>
+    ${members.exits.map(m => `<tr><td>${escapeHtml(m.name)}</td><td>${escapeHtml(m.role)}</td><td>${escapeHtml(formatDateBR(m.exitDate!))}</td></tr>`).join('')}
+  </table>` : ''}
+
+  <h2>2. Eventos Realizados</h2>
+  <table>
+    <tr><th>Tipo</th><th class="num">Quantidade</th></tr>
+    ${events.byType.map(t => `<tr><td>${escapeHtml(t.type)}</td><td class="num">${t.count}</td></tr>`).join('') || '<tr><td colspan="2">Nenhum evento no ano.</td></tr>'}
+    <tr class="subtotal"><td>Total</td><td class="num">${events.list.length}</td></tr>
+  </table>
+  ${events.list.length > 0 ? `<h3>Relação de eventos</h3>
+  <table>
+    <tr><th>Data</th><th>Evento</th><th>Tipo</th><th>Local</th></tr>
+    ${events.list.map(e => `<tr><td>${escapeHtml(formatDateBR(e.date))}</td><td>${escapeHtml(e.title)}</td><td>${escapeHtml(e.type)}</td><td>${escapeHtml(e.location)}</td></tr>`).join('')}
+  </table>` : ''}
+
+  <h2>3. Projetos</h2>
+  <table>
+    <tr><th>Situação</th><th class="num">Quantidade</th></tr>
+    ${projects.byStatus.map(s => `<tr><td>${escapeHtml(PROJECT_STATUS_LABELS[s.status])}</td><td class="num">${s.count}</td></tr>`).join('') || '<tr><td colspan="2">Nenhum projeto no ano.</td></tr>'}
+  </table>
+  ${projects.list.length > 0 ? `<h3>Relação de projetos</h3>
+  <table>
+    <tr><th>Projeto</th><th>Patrocinador</th><th>Vigência</th><th>Situação</th><th class="num">Orçamento</th></tr>
+    ${projects.list.map(p => `<tr><td>${escapeHtml(p.title)}</td><td>${escapeHtml(p.sponsor)}</td><td>${escapeHtml(formatDateBR(p.startDate))}${p.endDate ? ` a ${escapeHtml(formatDateBR(p.endDate))}` : ''}</td><td>${escapeHtml(PROJECT_STATUS_LABELS[p.status])}</td><td class="num">${escapeHtml(formatBRL(p.budget))}</td></tr>`).join('')}
+  </table>` : ''}
+
+  <h2>4. Demonstrativo de Receitas e Despesas</h2>
+  <h3>Receitas</h3>
+  <table>
+    ${amountRows(finance.income, 'Nenhuma receita no ano.')}
+    <tr class="subtotal"><td>Total de receitas</td><td class="num">${escapeHtml(formatBRL(finance.totalIncome))}</td></tr>
+  </table>
+  <h3>Despesas</h3>
+  <table>
+    ${amountRows(finance.expense, 'Nenhuma despesa no ano.')}
+    <tr class="subtotal"><td>Total de despesas</td><td class="num">${escapeHtml(formatBRL(finance.totalExpense))}</td></tr>
+  </table>
+  <table class="ident" style="margin-top: 12px;">
+    <tr class="subtotal"><td>${finance.result >= 0 ? 'Superávit' : 'Déficit'} do exercício</td><td class="num">${escapeHtml(formatBRL(Math.abs(finance.result)))}</td></tr>
+    <tr><td>Lançamentos no ano</td><td class="num">${finance.transactionCount}</td></tr>
+  </table>
+
+  <h2>5. Patrimônio</h2>
+  <table class="ident">
+    <tr><td>Bens em 31 de dezembro</td><td class="num">${inventory.count}</td></tr>
+    <tr class="subtotal"><td>Valor dos bens</td><td class="num">${escapeHtml(formatBRL(inventory.value))}</td></tr>
+    <tr><td>Aquisições no ano</td><td class="num">${inventory.acquiredCount} · ${escapeHtml(formatBRL(inventory.acquiredValue))}</td></tr>
+  </table>
+
+  ${association?.signatoryName ? `<div class="signature">${escapeHtml(association.signatoryName)}<br />${escapeHtml(association.signatoryRole)}</div>` : ''}
+</body>
+</html>`;
+};
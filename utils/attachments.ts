@@ -0,0 +1,18 @@
+import { Document, Transaction } from '../types';
+
+// Notas fiscais e comprovantes ficam no repositório de documentos, vinculados à transação.
+
+export const buildProofDocument = (file: File, transactionId: string): Omit<Document, 'id' | 'url'> => ({
+  name: file.name,
+  type: 'Proof',
+  uploadDate: new Date().toISOString(),
+  size: file.size,
+  transactionId,
+});
+
+export const countAttachmentsByTransaction = (documents: Document[]): Map<string, number> =>
+  documents.reduce((acc, doc) => doc.transactionId ? acc.set(doc.transactionId, (acc.get(doc.transactionId) || 0) + 1) : acc, new Map<string, number>());
+
+// Toda despesa precisa de comprovante para a prestação de contas
+export const isMissingProof = (transaction: Transaction, attachmentCounts: Map<string, number>): boolean =>
+  transaction.type === 'Expense' && !attachmentCounts.get(transaction.id);
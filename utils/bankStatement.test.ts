@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { Transaction } from '../types';
+import { matchStatementLines, parseBankCSV, parseBrazilianAmount, parseOFX, parseStatement } from './bankStatement';
+
+const OFX_SGML = `OFXHEADER:100
+<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><BANKTRANLIST>
+<STMTTRN>
+<TRNTYPE>CREDIT
+<DTPOSTED>20240305120000[-3:BRT]
+<TRNAMT>150.00
+<FITID>ABC123
+<MEMO>PIX RECEBIDO FULANO
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20240306
+<TRNAMT>-12,50
+<NAME>TARIFA
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20240306
+<TRNAMT>-12,50
+<NAME>TARIFA
+</STMTTRN>
+</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>`;
+
+const transaction = (data: Partial<Transaction>): Transaction => ({
+  id: 't1', description: '', amount: 0, type: 'Income', date: '2024-03-05', reconciled: false, ...data,
+});
+
+describe('parseBrazilianAmount', () => {
+  it('lê os formatos de valor dos bancos', () => {
+    expect(parseBrazilianAmount('1.234,56')).toBe(1234.56);
+    expect(parseBrazilianAmount('-1234.56')).toBe(-1234.56);
+    expect(parseBrazilianAmount('R$ 10,00')).toBe(10);
+    expect(parseBrazilianAmount('10,00 D')).toBe(-10);
+    expect(parseBrazilianAmount('(5,00)')).toBe(-5);
+    expect(parseBrazilianAmount('abc')).toBeNaN();
+  });
+});
+
+describe('parseOFX', () => {
+  it('lê data, valor, histórico e FITID do OFX 1.x', () => {
+    const lines = parseOFX(OFX_SGML);
+    expect(lines).toHaveLength(3);
+    expect(lines[0]).toEqual({ bankRef: 'ABC123', date: '2024-03-05', description: 'PIX RECEBIDO FULANO', amount: 150 });
+    expect(lines[1]).toMatchObject({ date: '2024-03-06', description: 'TARIFA', amount: -12.5 });
+  });
+
+  it('gera chaves distintas e estáveis para lançamentos idênticos sem FITID', () => {
+    const [, first, second] = parseOFX(OFX_SGML);
+    expect(first.bankRef).not.toBe(second.bankRef);
+    expect(parseOFX(OFX_SGML)[2].bankRef).toBe(second.bankRef);
+  });
+});
+
+describe('parseBankCSV', () => {
+  it('lê CSV com coluna única de valor e ignora linhas de saldo', () => {
+    const lines = parseBankCSV('Data;Histórico;Valor\n05/03/2024;PIX RECEBIDO;"1.500,00"\nSALDO;;2.000,00\n06/03/24;TARIFA;-12,50\n');
+    expect(lines.map(({ date, description, amount }) => ({ date, description, amount }))).toEqual([
+      { date: '2024-03-05', description: 'PIX RECEBIDO', amount: 1500 },
+      { date: '2024-03-06', description: 'TARIFA', amount: -12.5 },
+    ]);
+  });
+
+  it('lê CSV com colunas separadas de crédito e débito', () => {
+    const lines = parseBankCSV('Data,Descrição,Crédito,Débito\n2024-03-05,Mensalidade,100,\n2024-03-06,Aluguel,,800');
+    expect(lines.map(l => l.amount)).toEqual([100, -800]);
+  });
+
+  it('recusa arquivo sem as colunas obrigatórias', () => {
+    expect(() => parseBankCSV('Nome;Valor\nFulano;10')).toThrow('Data');
+    expect(() => parseBankCSV('Data;Histórico\n05/03/2024;PIX')).toThrow('Colunas obrigatórias');
+  });
+});
+
+describe('parseStatement', () => {
+  it('escolhe o leitor pela extensão ou pelo conteúdo', () => {
+    expect(parseStatement('extrato.txt', OFX_SGML)).toHaveLength(3);
+    expect(parseStatement('extrato.csv', 'Data;Valor\n05/03/2024;10,00')).toHaveLength(1);
+  });
+});
+
+describe('matchStatementLines', () => {
+  const line = { bankRef: 'ABC123', date: '2024-03-05', description: 'PIX RECEBIDO FULANO', amount: 150 };
+
+  it('casa com lançamento não conciliado de mesmo valor e data próxima na conta do extrato', () => {
+    const t = transaction({ id: 't1', amount: 150, date: '2024-03-04', description: 'Mensalidade Fulano', accountId: 'bank' });
+    const [match] = matchStatementLines([line], [t], 'bank');
+    expect(match.status).toBe('Matched');
+    expect(match.transaction?.id).toBe('t1');
+  });
+
+  it('não casa com lançamento de outra conta, mas aceita os antigos sem conta', () => {
+    const other = transaction({ id: 'other', amount: 150, accountId: 'cash' });
+    expect(matchStatementLines([line], [other], 'bank')[0].status).toBe('New');
+    const legacy = transaction({ id: 'legacy', amount: 150, accountId: null });
+    expect(matchStatementLines([line], [legacy], 'bank')[0].transaction?.id).toBe('legacy');
+  });
+
+  it('acusa duplicidade pela referência bancária em qualquer conta', () => {
+    const imported = transaction({ id: 'imp', amount: 150, accountId: 'cash', bankRef: 'ABC123', reconciled: true });
+    expect(matchStatementLines([line], [imported], 'bank')[0].status).toBe('Duplicate');
+  });
+
+  it('não usa a mesma transação para duas linhas', () => {
+    const t = transaction({ id: 't1', amount: 150, accountId: 'bank' });
+    const matches = matchStatementLines([line, { ...line, bankRef: 'XYZ' }], [t], 'bank');
+    expect(matches.map(m => m.status)).toEqual(['Matched', 'New']);
+  });
+
+  it('ignora valores diferentes e datas fora da folga', () => {
+    const far = transaction({ amount: 150, date: '2024-03-15', accountId: 'bank' });
+    const different = transaction({ id: 't2', amount: 149, accountId: 'bank' });
+    expect(matchStatementLines([line], [far, different], 'bank')[0].status).toBe('New');
+  });
+});
@@ -0,0 +1,191 @@
+import { Transaction } from '../types';
+
+// Importação de extratos bancários (OFX e CSV dos bancos brasileiros) e
+// conciliação com as transações já lançadas. Funções puras.
+
+export interface StatementLine {
+  bankRef: string; // FITID do OFX ou chave derivada da linha do CSV
+  date: string; // YYYY-MM-DD
+  description: string;
+  amount: number; // Positivo = crédito, negativo = débito
+}
+
+export type MatchStatus = 'Duplicate' | 'Matched' | 'New';
+
+export interface StatementMatch {
+  line: StatementLine;
+  status: MatchStatus;
+  transaction?: Transaction;
+  score?: number;
+}
+
+// Arquivos de banco costumam vir em Windows-1252; tenta UTF-8 primeiro.
+export const decodeStatementFile = (buffer: ArrayBuffer): string => {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+  } catch {
+    return new TextDecoder('windows-1252').decode(buffer);
+  }
+};
+
+// "1.234,56" / "-1234.56" / "R$ 10,00" / "10,00 D"
+export const parseBrazilianAmount = (raw: string): number => {
+  let value = raw.trim().replace(/R\$\s?/i, '').replace(/\s/g, '');
+  let sign = 1;
+  if (/^\(.*\)$/.test(value)) { sign = -1; value = value.slice(1, -1); }
+  if (/[dD]$/.test(value)) { sign = -1; value = value.slice(0, -1); }
+  else if (/[cC]$/.test(value)) value = value.slice(0, -1);
+  if (value.includes(',')) value = value.replace(/\./g, '').replace(',', '.');
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? NaN : sign * parsed;
+};
+
+const parseBrazilianDate = (raw: string): string | null => {
+  const value = raw.trim();
+  let m = value.match(/^(\d{2})\/(\d{2})\/(\d{4})/);
+  if (m) return `${m[3]}-${m[2]}-${m[1]}`;
+  m = value.match(/^(\d{2})\/(\d{2})\/(\d{2})$/);
+  if (m) return `20${m[3]}-${m[2]}-${m[1]}`;
+  m = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (m) return `${m[1]}-${m[2]}-${m[3]}`;
+  return null;
+};
+
+const hashKey = (text: string): string => {
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) hash = (hash * 31 + text.charCodeAt(i)) | 0;
+  return (hash >>> 0).toString(36);
+};
+
+// OFX 1.x (SGML, tags sem fechamento) e 2.x (XML)
+export const parseOFX = (content: string): StatementLine[] => {
+  const blocks = content.split(/<STMTTRN>/i).slice(1);
+  const readTag = (block: string, tag: string): string => {
+    const m = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+    return m ? m[1].trim() : '';
+  };
+  // Sem FITID, lançamentos idênticos no mesmo dia recebem chaves distintas pela ordem de ocorrência (como no CSV)
+  const occurrences: Record<string, number> = {};
+  const lines: StatementLine[] = [];
+  blocks.forEach(raw => {
+    const block = raw.split(/<\/STMTTRN>/i)[0];
+    const posted = readTag(block, 'DTPOSTED');
+    const date = `${posted.slice(0, 4)}-${posted.slice(4, 6)}-${posted.slice(6, 8)}`;
+    const amount = parseFloat(readTag(block, 'TRNAMT').replace(',', '.'));
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(amount)) return;
+    const description = readTag(block, 'MEMO') || readTag(block, 'NAME') || readTag(block, 'TRNTYPE');
+    const fitId = readTag(block, 'FITID');
+    if (fitId) { lines.push({ bankRef: fitId, date, description, amount }); return; }
+    const key = `${date}|${amount}|${description}`;
+    occurrences[key] = (occurrences[key] || 0) + 1;
+    lines.push({ bankRef: hashKey(`${key}|${occurrences[key]}`), date, description, amount });
+  });
+  return lines;
+};
+
+const splitCsvRow = (row: string, delimiter: string): string[] => {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let i = 0; i < row.length; i++) {
+    const ch = row[i];
+    if (ch === '"') {
+      if (quoted && row[i + 1] === '"') { current += '"'; i++; }
+      else quoted = !quoted;
+    } else if (ch === delimiter && !quoted) {
+      cells.push(current.trim()); current = '';
+    } else current += ch;
+  }
+  cells.push(current.trim());
+  return cells;
+};
+
+const normalize = (text: string): string =>
+  text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9 ]/g, ' ').replace(/\s+/g, ' ').trim();
+
+// CSV com cabeçalho: Data; Histórico/Descrição; Valor (ou Crédito e Débito separados)
+export const parseBankCSV = (content: string): StatementLine[] => {
+  const rows = content.split(/\r?\n/).filter(r => r.trim());
+  const headerIndex = rows.findIndex(r => /data/i.test(r));
+  if (headerIndex < 0) throw new Error('Cabeçalho do CSV não encontrado (coluna "Data").');
+  const headerRow = rows[headerIndex];
+  const delimiter = [';', '\t', ','].reduce((best, d) => headerRow.split(d).length > headerRow.split(best).length ? d : best, ';');
+  const header = splitCsvRow(headerRow, delimiter).map(normalize);
+  const find = (pattern: RegExp) => header.findIndex(h => pattern.test(h));
+
+  const dateCol = find(/^data/);
+  const descCol = find(/histor|descri|lancamento|memo|detalhe/);
+  const valueCol = find(/^valor/);
+  const creditCol = find(/credito|entrada/);
+  const debitCol = find(/debito|saida/);
+  if (dateCol < 0 || (valueCol < 0 && creditCol < 0 && debitCol < 0)) {
+    throw new Error('Colunas obrigatórias não encontradas: Data e Valor (ou Crédito/Débito).');
+  }
+
+  const lines: StatementLine[] = [];
+  // Lançamentos idênticos no mesmo dia (ex.: duas tarifas) recebem chaves distintas pela ordem de ocorrência
+  const occurrences: Record<string, number> = {};
+  rows.slice(headerIndex + 1).forEach(row => {
+    const cells = splitCsvRow(row, delimiter);
+    const date = parseBrazilianDate(cells[dateCol] || '');
+    if (!date) return; // Linhas de saldo/rodapé
+    let amount: number;
+    if (valueCol >= 0 && cells[valueCol]) amount = parseBrazilianAmount(cells[valueCol]);
+    else {
+      const credit = creditCol >= 0 && cells[creditCol] ? Math.abs(parseBrazilianAmount(cells[creditCol])) : 0;
+      const debit = debitCol >= 0 && cells[debitCol] ? Math.abs(parseBrazilianAmount(cells[debitCol])) : 0;
+      amount = credit - debit;
+    }
+    if (isNaN(amount) || amount === 0) return;
+    const description = descCol >= 0 ? cells[descCol] : '';
+    const key = `${date}|${amount}|${description}`;
+    occurrences[key] = (occurrences[key] || 0) + 1;
+    lines.push({ bankRef: hashKey(`${key}|${occurrences[key]}`), date, description, amount });
+  });
+  return lines;
+};
+
+export const parseStatement = (fileName: string, content: string): StatementLine[] =>
+  /\.ofx$/i.test(fileName) || /<OFX>/i.test(content) ? parseOFX(content) : parseBankCSV(content);
+
+// Coeficiente de Dice sobre as palavras normalizadas (0..1)
+export const descriptionSimilarity = (a: string, b: string): number => {
+  const wa = new Set(normalize(a).split(' ').filter(w => w.length > 2));
+  const wb = new Set(normalize(b).split(' ').filter(w => w.length > 2));
+  if (wa.size === 0 || wb.size === 0) return 0;
+  let common = 0;
+  wa.forEach(w => { if (wb.has(w)) common++; });
+  return (2 * common) / (wa.size + wb.size);
+};
+
+const daysBetween = (a: string, b: string): number =>
+  Math.abs(new Date(`${a}T00:00:00`).getTime() - new Date(`${b}T00:00:00`).getTime()) / 86400000;
+
+export const MAX_DAY_DISTANCE = 3;
+
+// Mesmo valor e sentido, data até 3 dias de distância; desempata por similaridade da descrição.
+// Só casa com lançamentos da conta do extrato (ou sem conta, os anteriores ao cadastro de contas);
+// a referência bancária é única no banco todo e acusa duplicidade em qualquer conta.
+export const matchStatementLines = (lines: StatementLine[], transactions: Transaction[], accountId: string): StatementMatch[] => {
+  const used = new Set<string>();
+  const accountTransactions = transactions.filter(t => !t.accountId || t.accountId === accountId);
+  return lines.map(line => {
+    const type = line.amount >= 0 ? 'Income' : 'Expense';
+    // Já importada: mesma referência bancária, ou lançamento conciliado idêntico
+    const duplicate = transactions.find(t => t.bankRef === line.bankRef)
+      || accountTransactions.find(t => t.reconciled && t.type === type && t.date === line.date
+        && Math.abs(t.amount - Math.abs(line.amount)) < 0.01 && descriptionSimilarity(t.description, line.description) >= 0.5);
+    if (duplicate) return { line, status: 'Duplicate' as const, transaction: duplicate };
+
+    const candidates = accountTransactions
+      .filter(t => !used.has(t.id) && !t.reconciled && t.type === type
+        && Math.abs(t.amount - Math.abs(line.amount)) < 0.01
+        && daysBetween(t.date, line.date) <= MAX_DAY_DISTANCE)
+      .map(t => ({ t, score: descriptionSimilarity(t.description, line.description) + (1 - daysBetween(t.date, line.date) / (MAX_DAY_DISTANCE + 1)) / 2 }))
+      .sort((a, b) => b.score - a.score);
+
+    if (candidates.length === 0) return { line, status: 'New' as const };
+    used.add(candidates[0].t.id);
+    return { line, status: 'Matched' as const, transaction: candidates[0].t, score: candidates[0].score };
+  });
+};
@@ -0,0 +1,109 @@
+import { DuesCharge, DuesSettings, Event, Member, Project, ProjectBudgetLine, ProjectExpenseSummary, RecurringTemplate } from '../types';
+import { formatCompetence, toCompetence, todayISO } from './dues';
+import { getProjectExecution } from './projectBudget';
+import { nextOccurrenceAfter } from './recurring';
+
+// Projeção mensal de saldo. Parte do saldo consolidado atual e soma o que ainda está previsto
+// para cada mês: mensalidades, recorrentes, execução restante dos projetos e eventos agendados.
+
+export interface ForecastMonth {
+  competence: string; // YYYY-MM
+  label: string; // MM/YYYY
+  dues: number;
+  recurringIncome: number;
+  recurringExpense: number;
+  projects: number;
+  eventsIncome: number;
+  eventsExpense: number;
+  income: number;
+  expense: number;
+  net: number;
+  balance: number; // Saldo projetado ao fim do mês
+}
+
+export interface ForecastInput {
+  openingBalance: number;
+  members: Member[];
+  duesSettings: DuesSettings;
+  duesCharges: DuesCharge[];
+  recurringTemplates: RecurringTemplate[];
+  projects: Project[];
+  budgetLines: ProjectBudgetLine[];
+  projectExpenses: ProjectExpenseSummary[];
+  events: Event[];
+}
+
+// Mensalidades em aberto da competência; sem cobranças geradas, estima pelos associados ativos
+const expectedDues = (competence: string, input: ForecastInput): number => {
+  const charges = input.duesCharges.filter(c => c.competence === competence);
+  if (charges.length > 0) return charges.filter(c => c.status === 'Open').reduce((acc, c) => acc + c.amount, 0);
+  if (competence < input.duesSettings.startCompetence) return 0;
+  return input.members.filter(m => m.status === 'Active').length * input.duesSettings.amount;
+};
+
+// Ocorrências ainda não lançadas (a partir do cursor), agrupadas por competência
+const recurringByMonth = (templates: RecurringTemplate[], lastCompetence: string): Map<string, { income: number; expense: number }> => {
+  const byMonth = new Map<string, { income: number; expense: number }>();
+  templates.filter(t => t.active).forEach(template => {
+    for (let date = template.nextDueDate; toCompetence(date) <= lastCompetence; date = nextOccurrenceAfter(template, date)) {
+      if (template.endDate && date > template.endDate) break;
+      const month = byMonth.get(toCompetence(date)) || { income: 0, expense: 0 };
+      if (template.type === 'Income') month.income += template.amount; else month.expense += template.amount;
+      byMonth.set(toCompetence(date), month);
+    }
+  });
+  return byMonth;
+};
+
+const addMonths = (competence: string, count: number): string => {
+  const [year, month] = competence.split('-').map(Number);
+  const total = year * 12 + (month - 1) + count;
+  return `${Math.floor(total / 12)}-${String((total % 12) + 1).padStart(2, '0')}`;
+};
+
+const monthsBetween = (from: string, to: string): number => {
+  const [fy, fm] = from.split('-').map(Number);
+  const [ty, tm] = to.split('-').map(Number);
+  return (ty * 12 + tm) - (fy * 12 + fm);
+};
+
+// Saldo a executar de cada projeto distribuído igualmente pelos meses restantes da vigência
+// (sem data de término, até o fim do horizonte)
+const projectsByMonth = (input: ForecastInput, competences: string[]): Map<string, number> => {
+  const byMonth = new Map<string, number>();
+  const first = competences[0], last = competences[competences.length - 1];
+  input.projects.filter(p => p.status === 'Planning' || p.status === 'Active').forEach(project => {
+    const remaining = getProjectExecution(project, input.budgetLines, input.projectExpenses).remaining;
+    const start = toCompetence(project.startDate) > first ? toCompetence(project.startDate) : first;
+    const end = project.endDate ? toCompetence(project.endDate) : last;
+    if (remaining <= 0 || end < start) return; // Vigência encerrada: saldo não executado não entra na previsão
+    const perMonth = remaining / (monthsBetween(start, end) + 1);
+    competences.filter(c => c >= start && c <= end).forEach(c => byMonth.set(c, (byMonth.get(c) || 0) + perMonth));
+  });
+  return byMonth;
+};
+
+export const buildCashFlowForecast = (input: ForecastInput, months = 12, today = todayISO()): ForecastMonth[] => {
+  const competences = Array.from({ length: months }, (_, i) => addMonths(toCompetence(today), i));
+  const recurring = recurringByMonth(input.recurringTemplates, competences[competences.length - 1]);
+  const projects = projectsByMonth(input, competences);
+
+  let balance = input.openingBalance;
+  return competences.map(competence => {
+    const dues = expectedDues(competence, input);
+    const { income: recurringIncome, expense: recurringExpense } = recurring.get(competence) || { income: 0, expense: 0 };
+    const monthEvents = input.events.filter(e => toCompetence(e.date) === competence && e.date >= today);
+    const eventsIncome = monthEvents.reduce((acc, e) => acc + (e.expectedRevenue || 0), 0);
+    const eventsExpense = monthEvents.reduce((acc, e) => acc + (e.expectedCost || 0), 0);
+    const projectExpense = projects.get(competence) || 0;
+
+    const income = dues + recurringIncome + eventsIncome;
+    const expense = recurringExpense + projectExpense + eventsExpense;
+    balance += income - expense;
+    return {
+      competence, label: formatCompetence(competence),
+      dues, recurringIncome, recurringExpense, projects: projectExpense, eventsIncome, eventsExpense,
+      income, expense, net: income - expense, balance,
+    };
+  });
+};
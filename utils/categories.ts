@@ -0,0 +1,113 @@
+import { AccountCategory, Transaction } from '../types';
+
+// Plano de contas e Demonstração de Resultado (DRE). Funções puras.
+
+export const UNCATEGORIZED_LABEL = 'Sem categoria';
+
+export const sortCategories = (categories: AccountCategory[]): AccountCategory[] =>
+  [...categories].sort((a, b) => a.code.localeCompare(b.code, undefined, { numeric: true }));
+
+// Os laços guardam os ids visitados: um ciclo antigo no banco não pode travar a tela
+export const getRootCategory = (categoryId: string | null | undefined, categories: AccountCategory[]): AccountCategory | undefined => {
+  const visited = new Set<string>();
+  let current = categories.find(c => c.id === categoryId);
+  while (current?.parentId && !visited.has(current.id)) {
+    visited.add(current.id);
+    const parent = categories.find(c => c.id === current!.parentId);
+    if (!parent) break;
+    current = parent;
+  }
+  return current;
+};
+
+// A própria categoria e todas as subcategorias abaixo dela
+export const getDescendantIds = (categoryId: string, categories: AccountCategory[]): Set<string> => {
+  const ids = new Set<string>([categoryId]);
+  let added = true;
+  while (added) {
+    added = false;
+    categories.forEach(c => {
+      if (c.parentId && ids.has(c.parentId) && !ids.has(c.id)) { ids.add(c.id); added = true; }
+    });
+  }
+  return ids;
+};
+
+// "Despesas Administrativas › Aluguel"
+export const getCategoryLabel = (categoryId: string | undefined, categories: AccountCategory[]): string => {
+  const path: string[] = [];
+  const visited = new Set<string>();
+  let current = categories.find(c => c.id === categoryId);
+  while (current && !visited.has(current.id)) {
+    visited.add(current.id);
+    path.unshift(current.name);
+    current = current.parentId ? categories.find(c => c.id === current!.parentId) : undefined;
+  }
+  return path.join(' › ');
+};
+
+export interface DreLine {
+  name: string;
+  total: number;
+  children: { name: string; total: number }[];
+}
+
+export interface DreReport {
+  startDate: string;
+  endDate: string;
+  income: DreLine[];
+  expense: DreLine[];
+  totalIncome: number;
+  totalExpense: number;
+  result: number;
+}
+
+const groupByRoot = (transactions: Transaction[], categories: AccountCategory[]): DreLine[] => {
+  const lines: Record<string, DreLine & { code: string; childMap: Record<string, number> }> = {};
+  transactions.forEach(t => {
+    const root = getRootCategory(t.categoryId, categories);
+    const key = root?.id ?? '__none__';
+    const line = lines[key] ??= { name: root?.name ?? UNCATEGORIZED_LABEL, code: root?.code ?? '~', total: 0, children: [], childMap: {} };
+    line.total += t.amount;
+    const leaf = categories.find(c => c.id === t.categoryId);
+    if (leaf && root && leaf.id !== root.id) line.childMap[leaf.name] = (line.childMap[leaf.name] || 0) + t.amount;
+  });
+  return Object.values(lines)
+    .sort((a, b) => a.code.localeCompare(b.code, undefined, { numeric: true }))
+    .map(({ name, total, childMap }) => ({
+      name,
+      total,
+      children: Object.entries(childMap).map(([childName, childTotal]) => ({ name: childName, total: childTotal })).sort((a, b) => b.total - a.total),
+    }));
+};
+
+export const buildDRE = (transactions: Transaction[], categories: AccountCategory[], startDate: string, endDate: string): DreReport => {
+  const inPeriod = transactions.filter(t => t.date >= startDate && t.date <= endDate);
+  const income = groupByRoot(inPeriod.filter(t => t.type === 'Income'), categories);
+  const expense = groupByRoot(inPeriod.filter(t => t.type === 'Expense'), categories);
+  const totalIncome = income.reduce((acc, l) => acc + l.total, 0);
+  const totalExpense = expense.reduce((acc, l) => acc + l.total, 0);
+  return { startDate, endDate, income, expense, totalIncome, totalExpense, result: totalIncome - totalExpense };
+};
+
+// Linhas planas para exportação (CSV/planilha)
+export const dreToRows = (report: DreReport): { line: string; amount: string }[] => {
+  const rows: { line: string; amount: string }[] = [];
+  const push = (line: string, amount: number) => rows.push({ line, amount: amount.toFixed(2) });
+  push('RECEITAS', report.totalIncome);
+  report.income.forEach(l => { push(`  ${l.name}`, l.total); l.children.forEach(c => push(`    ${c.name}`, c.total)); });
+  push('(-) DESPESAS', report.totalExpense);
+  report.expense.forEach(l => { push(`  ${l.name}`, l.total); l.children.forEach(c => push(`    ${c.name}`, c.total)); });
+  push(report.result >= 0 ? 'SUPERÁVIT DO PERÍODO' : 'DÉFICIT DO PERÍODO', report.result);
+  return rows;
+};
+
+// Aceita transações ou os totais agregados do banco (TransactionSummary)
+export const getExpensesByCategory = (transactions: (Pick<Transaction, 'type' | 'amount'> & { categoryId?: string | null })[], categories: AccountCategory[]): { name: string; value: number }[] => {
+  const totals: Record<string, number> = {};
+  transactions.filter(t => t.type === 'Expense').forEach(t => {
+    const name = getRootCategory(t.categoryId, categories)?.name ?? UNCATEGORIZED_LABEL;
+    totals[name] = (totals[name] || 0) + t.amount;
+  });
+  return Object.entries(totals).map(([name, value]) => ({ name, value })).sort((a, b) => b.value - a.value);
+};
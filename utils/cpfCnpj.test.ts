@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { formatCNPJ, formatCPF, formatCpfCnpj, isValidCNPJ, isValidCPF, isValidCpfCnpj, onlyDigits } from './cpfCnpj';
+
+describe('isValidCPF', () => {
+  it('aceita CPFs com dígitos verificadores corretos, com ou sem máscara', () => {
+    expect(isValidCPF('529.982.247-25')).toBe(true);
+    expect(isValidCPF('11144477735')).toBe(true);
+  });
+
+  it('recusa dígito verificador errado, tamanho errado e dígitos repetidos', () => {
+    expect(isValidCPF('529.982.247-24')).toBe(false);
+    expect(isValidCPF('529.982.247-15')).toBe(false);
+    expect(isValidCPF('5299822472')).toBe(false);
+    expect(isValidCPF('111.111.111-11')).toBe(false);
+    expect(isValidCPF('')).toBe(false);
+  });
+});
+
+describe('isValidCNPJ', () => {
+  it('valida os dois dígitos verificadores', () => {
+    expect(isValidCNPJ('11.222.333/0001-81')).toBe(true);
+    expect(isValidCNPJ('11.222.333/0001-80')).toBe(false);
+    expect(isValidCNPJ('00.000.000/0000-00')).toBe(false);
+  });
+});
+
+describe('isValidCpfCnpj', () => {
+  it('escolhe a regra pelo número de dígitos', () => {
+    expect(isValidCpfCnpj('111.444.777-35')).toBe(true);
+    expect(isValidCpfCnpj('11222333000181')).toBe(true);
+    expect(isValidCpfCnpj('123')).toBe(false);
+  });
+});
+
+describe('máscaras', () => {
+  it('formatam progressivamente enquanto o usuário digita', () => {
+    expect(formatCPF('529')).toBe('529');
+    expect(formatCPF('5299822')).toBe('529.982.2');
+    expect(formatCPF('52998224725')).toBe('529.982.247-25');
+    expect(formatCPF('529.982.247-25999')).toBe('529.982.247-25');
+    expect(formatCNPJ('11222333000181')).toBe('11.222.333/0001-81');
+  });
+
+  it('formatCpfCnpj decide pelo tamanho e onlyDigits normaliza', () => {
+    expect(formatCpfCnpj('11144477735')).toBe('111.444.777-35');
+    expect(formatCpfCnpj('11222333000181')).toBe('11.222.333/0001-81');
+    expect(onlyDigits('11.222.333/0001-81')).toBe('11222333000181');
+    expect(onlyDigits(null)).toBe('');
+  });
+});
@@ -0,0 +1,56 @@
+// CPF/CNPJ: validação dos dígitos verificadores, máscara e normalização.
+// O cadastro guarda o documento formatado; comparações (duplicidade) usam só os dígitos.
+
+export const onlyDigits = (value: string | null | undefined): string => (value ?? '').replace(/\D/g, '');
+
+const allSameDigit = (digits: string) => /^(\d)\1*$/.test(digits);
+
+// Dígito verificador pelo módulo 11 com os pesos informados
+const checkDigit = (digits: string, weights: number[]): number => {
+  const sum = weights.reduce((acc, weight, i) => acc + Number(digits[i]) * weight, 0);
+  const rest = sum % 11;
+  return rest < 2 ? 0 : 11 - rest;
+};
+
+export const isValidCPF = (value: string): boolean => {
+  const digits = onlyDigits(value);
+  if (digits.length !== 11 || allSameDigit(digits)) return false;
+  const first = checkDigit(digits, [10, 9, 8, 7, 6, 5, 4, 3, 2]);
+  const second = checkDigit(digits, [11, 10, 9, 8, 7, 6, 5, 4, 3, 2]);
+  return first === Number(digits[9]) && second === Number(digits[10]);
+};
+
+export const isValidCNPJ = (value: string): boolean => {
+  const digits = onlyDigits(value);
+  if (digits.length !== 14 || allSameDigit(digits)) return false;
+  const first = checkDigit(digits, [5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2]);
+  const second = checkDigit(digits, [6, 5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2]);
+  return first === Number(digits[12]) && second === Number(digits[13]);
+};
+
+// Pelo tamanho: 11 dígitos é CPF, 14 é CNPJ
+export const isValidCpfCnpj = (value: string): boolean => {
+  const digits = onlyDigits(value);
+  return digits.length === 11 ? isValidCPF(digits) : isValidCNPJ(digits);
+};
+
+// Máscara progressiva, para aplicar enquanto o usuário digita
+export const formatCPF = (value: string): string => {
+  const digits = onlyDigits(value).slice(0, 11);
+  return digits
+    .replace(/^(\d{3})(\d)/, '$1.$2')
+    .replace(/^(\d{3})\.(\d{3})(\d)/, '$1.$2.$3')
+    .replace(/\.(\d{3})(\d{1,2})$/, '.$1-$2');
+};
+
+export const formatCNPJ = (value: string): string => {
+  const digits = onlyDigits(value).slice(0, 14);
+  return digits
+    .replace(/^(\d{2})(\d)/, '$1.$2')
+    .replace(/^(\d{2})\.(\d{3})(\d)/, '$1.$2.$3')
+    .replace(/^(\d{2})\.(\d{3})\.(\d{3})(\d)/, '$1.$2.$3/$4')
+    .replace(/\/(\d{4})(\d{1,2})$/, '/$1-$2');
+};
+
+export const formatCpfCnpj = (value: string): string =>
+  onlyDigits(value).length <= 11 ? formatCPF(value) : formatCNPJ(value);
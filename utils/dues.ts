@@ -0,0 +1,106 @@
+import { DuesCharge, DuesSettings, DuesStatus, Member } from '../types';
+import { buildDuesTxid } from './pix';
+
+// Motor de cobrança de mensalidades. Funções puras: quem grava no banco é o DataContext.
+
+export const DEFAULT_DUES_SETTINGS: DuesSettings = {
+  amount: 0,
+  dueDay: 10,
+  graceDays: 5,
+  startCompetence: new Date().toISOString().slice(0, 7),
+};
+
+export const toCompetence = (date: string): string => date.slice(0, 7);
+
+export const nextCompetence = (competence: string): string => {
+  const [year, month] = competence.split('-').map(Number);
+  return month === 12 ? `${year + 1}-01` : `${year}-${String(month + 1).padStart(2, '0')}`;
+};
+
+export const formatCompetence = (competence: string): string => {
+  const [year, month] = competence.split('-');
+  return `${month}/${year}`;
+};
+
+// Vencimento dentro da competência, respeitando meses curtos (ex.: dia 31 em fevereiro).
+export const buildDueDate = (competence: string, dueDay: number): string => {
+  const [year, month] = competence.split('-').map(Number);
+  const lastDay = new Date(year, month, 0).getDate();
+  return `${competence}-${String(Math.min(Math.max(dueDay, 1), lastDay)).padStart(2, '0')}`;
+};
+
+export const addDays = (date: string, days: number): string => {
+  const d = new Date(`${date}T00:00:00`);
+  d.setDate(d.getDate() + days);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+export const todayISO = (): string => {
+  const d = new Date();
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+export const getDuesStatus = (charge: DuesCharge, graceDays: number, today = todayISO()): DuesStatus => {
+  if (charge.status === 'Paid') return 'Paid';
+  return addDays(charge.dueDate, graceDays) < today ? 'Overdue' : 'Open';
+};
+
+// Gera as cobranças que faltam para cada associado ativo, da competência inicial
+// (ou do mês de admissão, se posterior) até o mês corrente.
+export const buildMissingCharges = (
+  members: Member[],
+  charges: DuesCharge[],
+  settings: DuesSettings,
+  today = todayISO()
+): Omit<DuesCharge, 'id'>[] => {
+  if (settings.amount <= 0) return [];
+  const existing = new Set(charges.map(c => `${c.memberId}:${c.competence}`));
+  const current = toCompetence(today);
+  const result: Omit<DuesCharge, 'id'>[] = [];
+
+  members.filter(m => m.status === 'Active').forEach(member => {
+    const admission = member.admissionDate ? toCompetence(member.admissionDate) : settings.startCompetence;
+    let competence = admission > settings.startCompetence ? admission : settings.startCompetence;
+    while (competence <= current) {
+      if (!existing.has(`${member.id}:${competence}`)) {
+        result.push({
+          memberId: member.id,
+          memberName: member.name,
+          competence,
+          dueDate: buildDueDate(competence, settings.dueDay),
+          amount: settings.amount,
+          status: 'Open',
+          txid: buildDuesTxid(member.id, competence),
+        });
+      }
+      competence = nextCompetence(competence);
+    }
+  });
+  return result;
+};
+
+export interface Defaulter {
+  memberId: string;
+  memberName: string;
+  overdueCount: number;
+  overdueTotal: number;
+  oldestDueDate: string;
+}
+
+export const getDefaulters = (charges: DuesCharge[], graceDays: number, today = todayISO()): Defaulter[] => {
+  const byMember: Record<string, Defaulter> = {};
+  charges.forEach(charge => {
+    if (getDuesStatus(charge, graceDays, today) !== 'Overdue') return;
+    const entry = byMember[charge.memberId] ??= {
+      memberId: charge.memberId,
+      memberName: charge.memberName || '',
+      overdueCount: 0,
+      overdueTotal: 0,
+      oldestDueDate: charge.dueDate,
+    };
+    entry.overdueCount += 1;
+    entry.overdueTotal += charge.amount;
+    if (charge.dueDate < entry.oldestDueDate) entry.oldestDueDate = charge.dueDate;
+  });
+  return Object.values(byMember).sort((a, b) => b.overdueTotal - a.overdueTotal);
+};
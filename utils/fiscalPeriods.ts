@@ -0,0 +1,20 @@
+import { FiscalPeriod } from '../types';
+import { formatCompetence, toCompetence, todayISO } from './dues';
+
+export const isPeriodClosed = (periods: FiscalPeriod[], date: string): boolean =>
+  periods.some(p => p.period === toCompetence(date) && p.status === 'Closed');
+
+// Validação no cliente; o banco aplica a mesma regra via trigger
+export const assertPeriodsOpen = (periods: FiscalPeriod[], ...dates: (string | null | undefined)[]): void => {
+  const closed = dates.find(date => date && isPeriodClosed(periods, date));
+  if (closed) throw new Error(`O período ${formatCompetence(toCompetence(closed))} está fechado. Solicite a reabertura a um Super Admin.`);
+};
+
+// Últimos N meses, do mais recente para o mais antigo
+export const listRecentPeriods = (count: number, today = todayISO()): string[] => {
+  const [year, month] = toCompetence(today).split('-').map(Number);
+  return Array.from({ length: count }, (_, i) => {
+    const total = year * 12 + (month - 1) - i;
+    return `${Math.floor(total / 12)}-${String((total % 12) + 1).padStart(2, '0')}`;
+  });
+};
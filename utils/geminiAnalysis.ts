@@ -0,0 +1,21 @@
+import { GoogleGenAI } from '@google/genai';
+import { AnalysisProvider, buildAnalysisPrompt, localAnalysisProvider, parseAnalysisResponse } from './aiAnalysis';
+
+const GEMINI_MODEL = 'gemini-2.5-flash';
+
+export const createGeminiAnalysisProvider = (apiKey: string): AnalysisProvider => ({
+  name: 'Gemini',
+  analyze: async (input) => {
+    const ai = new GoogleGenAI({ apiKey });
+    const response = await ai.models.generateContent({
+      model: GEMINI_MODEL,
+      contents: buildAnalysisPrompt(input),
+      config: { responseMimeType: 'application/json' },
+    });
+    return parseAnalysisResponse(response.text || '', input);
+  },
+});
+
+// A chave vem do .env (GEMINI_API_KEY); sem ela, ou com AI_PROVIDER=local, usa as regras locais
+export const getAnalysisProvider = (): AnalysisProvider =>
+  process.env.API_KEY && process.env.AI_PROVIDER !== 'local' ? createGeminiAnalysisProvider(process.env.API_KEY) : localAnalysisProvider;
@@ -0,0 +1,61 @@
+import { AssociationSettings, Member, MemberCard, MemberCardStatus } from '../types';
+import { escapeHtml, formatDateBR } from './print';
+
+// Carteirinha de membro em HTML (tamanho cartão de crédito, 85,6 x 54 mm). O QR leva a URL
+// da tela pública de verificação com o token assinado pelo banco.
+
+export const CARD_VERIFICATION_PARAM = 'verificar';
+
+export const MEMBER_CARD_STATUS_LABELS: Record<MemberCardStatus, string> = {
+  Valid: 'Carteirinha válida — membro ativo',
+  Invalid: 'Carteirinha não reconhecida',
+  Revoked: 'Carteirinha substituída por outra via',
+  Expired: 'Carteirinha vencida',
+  MemberInactive: 'Membro não está ativo',
+};
+
+export const buildCardVerificationUrl = (token: string): string =>
+  `${window.location.origin}${window.location.pathname}?${CARD_VERIFICATION_PARAM}=${encodeURIComponent(token)}`;
+
+export const getCardVerificationToken = (): string | null => new URLSearchParams(window.location.search).get(CARD_VERIFICATION_PARAM);
+
+export const defaultCardValidity = (): string => `${new Date().getFullYear()}-12-31`;
+
+export const buildMemberCardHtml = (member: Member, card: MemberCard, qrDataUrl: string, association: AssociationSettings | null): string => `<!DOCTYPE html>
+<html lang="pt-BR">
+<head>
+<meta charset="utf-8" />
+<title>Carteirinha - ${escapeHtml(member.name)}</title>
+<style>
+  @page { size: auto; margin: 10mm; }
+  body { font-family: Arial, Helvetica, sans-serif; color: #111; margin: 0; padding: 24px; }
+  .card { width: 85.6mm; height: 54mm; box-sizing: border-box; border: 1px solid #999; border-radius: 3mm; padding: 3mm; display: flex; flex-direction: column; overflow: hidden; }
+  .head { font-size: 7pt; font-weight: bold; text-transform: uppercase; border-bottom: 1px solid #ccc; padding-bottom: 1mm; margin-bottom: 2mm; }
+  .body { display: flex; gap: 3mm; flex: 1; }
+  .photo { width: 20mm; height: 25mm; object-fit: cover; border-radius: 1mm; background: #eee; }
+  .info { flex: 1; font-size: 7pt; line-height: 1.35; }
+  .name { font-size: 9pt; font-weight: bold; margin-bottom: 1mm; }
+  .label { color: #555; }
+  .qr { width: 22mm; height: 22mm; align-self: center; }
+  .foot { font-size: 5.5pt; color: #555; margin-top: 1mm; }
+  @media print { body { padding: 0; } }
+</style>
+</head>
+<body>
+  <div class="card">
+    <div class="head">${escapeHtml(association?.name || 'Carteirinha de Membro')}</div>
+    <div class="body">
+      ${member.avatarUrl ? `<img class="photo" src="${escapeHtml(member.avatarUrl)}" alt="" />` : '<div class="photo"></div>'}
+      <div class="info">
+        <div class="name">${escapeHtml(member.name)}</div>
+        <div><span class="label">Categoria:</span> ${escapeHtml(member.role)}</div>
+        <div><span class="label">Membro desde:</span> ${escapeHtml(formatDateBR(member.admissionDate))}</div>
+        <div><span class="label">Válida até:</span> ${escapeHtml(formatDateBR(card.validUntil))}</div>
+        ${association?.cnpj ? `<div><span class="label">CNPJ:</span> ${escapeHtml(association.cnpj)}</div>` : ''}
+      </div>
+      <img class="qr" src="${qrDataUrl}" alt="QR Code de verificação" />
+    </div>
+    <div class="foot">Verifique a autenticidade lendo o QR Code. Emitida em ${escapeHtml(formatDateBR(card.issuedAt))}.</div>
+  </div>
+</body>
+</html>`;
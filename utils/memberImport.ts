@@ -0,0 +1,122 @@
+import { Member, MemberRole } from '../types';
+import { formatCPF, onlyDigits } from './cpfCnpj';
+import { MemberFormData, memberSchema } from './memberSchema';
+
+// Importação de membros a partir de planilha (ex.: respostas de formulário de inscrição).
+// Cada linha passa pelo mesmo schema do cadastro manual antes de ir ao banco.
+
+export type MemberImportField = keyof MemberFormData;
+export type MemberImportMapping = Partial<Record<MemberImportField, number>>; // campo -> índice da coluna
+
+export interface MemberImportDefaults {
+  role: MemberRole;
+  status: Member['status'];
+  admissionDate: string;
+}
+
+export interface MemberImportRow {
+  line: number; // Linha na planilha (cabeçalho = 1)
+  member: Omit<Member, 'id'> | null; // null quando há erro de validação
+  errors: string[];
+  duplicateOf: string | null; // Quem já usa o CPF/email (cadastro existente ou linha anterior)
+}
+
+export const MEMBER_IMPORT_FIELDS: { key: MemberImportField; label: string; aliases: string[] }[] = [
+  { key: 'name', label: 'Nome', aliases: ['nome', 'nome completo', 'name'] },
+  { key: 'email', label: 'Email', aliases: ['email', 'e-mail', 'endereco de e-mail', 'endereco de email'] },
+  { key: 'cpf', label: 'CPF', aliases: ['cpf'] },
+  { key: 'phone', label: 'Telefone', aliases: ['telefone', 'celular', 'whatsapp', 'fone', 'phone'] },
+  { key: 'birthDate', label: 'Data de Nascimento', aliases: ['data de nascimento', 'nascimento', 'birth date'] },
+  { key: 'admissionDate', label: 'Data de Admissão', aliases: ['data de admissao', 'admissao', 'carimbo de data/hora', 'timestamp'] },
+  { key: 'address', label: 'Endereço', aliases: ['endereco', 'logradouro', 'address'] },
+  { key: 'city', label: 'Cidade', aliases: ['cidade', 'municipio', 'city'] },
+  { key: 'state', label: 'UF', aliases: ['uf', 'estado', 'state'] },
+  { key: 'role', label: 'Função', aliases: ['funcao', 'categoria', 'role'] },
+  { key: 'status', label: 'Status', aliases: ['status', 'situacao'] },
+];
+
+const normalize = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().toLowerCase();
+
+export const guessMemberMapping = (headers: string[]): MemberImportMapping => {
+  const normalized = headers.map(normalize);
+  const mapping: MemberImportMapping = {};
+  MEMBER_IMPORT_FIELDS.forEach(field => {
+    const index = normalized.findIndex(h => field.aliases.includes(h));
+    if (index >= 0) mapping[field.key] = index;
+  });
+  return mapping;
+};
+
+// Aceita YYYY-MM-DD e DD/MM/YYYY (com ou sem hora, como no carimbo do Google Forms)
+export const parseImportDate = (value: string): string | null => {
+  const iso = /^(\d{4})-(\d{2})-(\d{2})/.exec(value);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+  const br = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})/.exec(value);
+  if (!br) return null;
+  const [day, month] = [Number(br[1]), Number(br[2])];
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  return `${br[3]}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+const ROLE_VALUES: Record<string, MemberRole> = { diretoria: 'Diretoria', 'membro fundador': 'Membro Fundador', fundador: 'Membro Fundador', associado: 'Associado' };
+const STATUS_VALUES: Record<string, Member['status']> = { ativo: 'Active', active: 'Active', inativo: 'Inactive', inactive: 'Inactive', pendente: 'Pending', pending: 'Pending' };
+
+const FIELD_LABELS = Object.fromEntries(MEMBER_IMPORT_FIELDS.map(f => [f.key, f.label])) as Record<MemberImportField, string>;
+
+export const buildMemberImportRows = (rows: string[][], mapping: MemberImportMapping, defaults: MemberImportDefaults, existing: Member[]): MemberImportRow[] => {
+  const knownCpfs = new Map<string, string>();
+  const knownEmails = new Map<string, string>();
+  existing.forEach(m => {
+    if (onlyDigits(m.cpf)) knownCpfs.set(onlyDigits(m.cpf), m.name);
+    if (m.email) knownEmails.set(m.email.trim().toLowerCase(), m.name);
+  });
+
+  return rows.map((row, i) => {
+    const line = i + 2;
+    const cell = (field: MemberImportField) => mapping[field] !== undefined ? (row[mapping[field]!] ?? '').trim() : '';
+    const errors: string[] = [];
+
+    const date = (field: 'birthDate' | 'admissionDate', fallback = '') => {
+      const raw = cell(field);
+      if (!raw) return fallback;
+      const parsed = parseImportDate(raw);
+      if (!parsed) errors.push(`${FIELD_LABELS[field]}: data inválida (${raw})`);
+      return parsed ?? '';
+    };
+
+    // Planilhas costumam tirar os zeros à esquerda de CPFs gravados como número
+    const cpfDigits = onlyDigits(cell('cpf'));
+    const cpf = cpfDigits.length >= 9 && cpfDigits.length < 11 ? cpfDigits.padStart(11, '0') : cpfDigits;
+
+    const form = {
+      name: cell('name'),
+      email: cell('email').toLowerCase(),
+      cpf: cpf ? formatCPF(cpf) : '',
+      phone: cell('phone'),
+      birthDate: date('birthDate'),
+      admissionDate: date('admissionDate', defaults.admissionDate),
+      address: cell('address'),
+      city: cell('city'),
+      state: cell('state').toUpperCase(),
+      role: cell('role') ? (ROLE_VALUES[normalize(cell('role'))] ?? cell('role')) : defaults.role,
+      status: cell('status') ? (STATUS_VALUES[normalize(cell('status'))] ?? cell('status')) : defaults.status,
+    };
+
+    const parsed = memberSchema.safeParse(form);
+    if (parsed.success === false) parsed.error.issues.forEach(issue => errors.push(`${FIELD_LABELS[issue.path[0] as MemberImportField] ?? issue.path[0]}: ${issue.message}`));
+
+    const duplicateOf = (cpf && knownCpfs.get(cpf)) || (form.email && knownEmails.get(form.email)) || null;
+    if (cpf && !knownCpfs.has(cpf)) knownCpfs.set(cpf, `${form.name || 'linha'} (linha ${line})`);
+    if (form.email && !knownEmails.has(form.email)) knownEmails.set(form.email, `${form.name || 'linha'} (linha ${line})`);
+
+    const member: Omit<Member, 'id'> | null = parsed.success && errors.length === 0 ? {
+      ...form,
+      role: form.role as MemberRole,
+      status: form.status as Member['status'],
+      birthDate: form.birthDate || null,
+      avatarUrl: `https://i.pravatar.cc/150?u=${form.email}`,
+    } : null;
+
+    return { line, member, errors, duplicateOf };
+  });
+};
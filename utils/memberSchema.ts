@@ -0,0 +1,27 @@
+import * as z from 'zod';
+import { isValidCPF } from './cpfCnpj';
+
+// Mesmo schema para o cadastro manual (AddMemberModal) e a importação em lote
+export const memberSchema = z.object({
+  name: z.string().min(3, "O nome deve ter pelo menos 3 caracteres"),
+  email: z.string().email("Email inválido"),
+  cpf: z.string().optional().refine((val) => !val || isValidCPF(val), "CPF inválido"),
+  phone: z.string().optional(),
+  birthDate: z.string().optional(),
+  admissionDate: z.string().min(1, "Data de admissão é obrigatória"),
+  address: z.string().optional(),
+  city: z.string().optional(),
+  state: z.string().max(2, "UF deve ter 2 letras").optional().or(z.literal('')),
+  role: z.enum(['Diretoria', 'Membro Fundador', 'Associado'], { errorMap: () => ({ message: "Função inválida" }) }),
+  status: z.enum(['Active', 'Inactive', 'Pending'], { errorMap: () => ({ message: "Status inválido" }) }),
+});
+
+export type MemberFormData = z.infer<typeof memberSchema>;
+
+// Formulário público de inscrição: função, status e admissão são definidos na aprovação
+export const membershipApplicationSchema = memberSchema.pick({ name: true, email: true, cpf: true, phone: true, birthDate: true, address: true, city: true, state: true }).extend({
+  message: z.string().max(1000, "Use no máximo 1000 caracteres").optional(),
+  consent: z.literal(true, { errorMap: () => ({ message: "É preciso autorizar o uso dos dados para se inscrever" }) }),
+});
+
+export type MembershipApplicationFormData = z.infer<typeof membershipApplicationSchema>;
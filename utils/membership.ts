@@ -0,0 +1,27 @@
+import { MembershipApplication, MembershipApplicationStatus } from '../types';
+
+// Admissão de membros: link do formulário público, apuração dos votos e email de boas-vindas.
+// A decisão (quórum) é aplicada pelo banco em cast_membership_vote; aqui só exibimos.
+
+export const MEMBERSHIP_FORM_PARAM = 'inscricao';
+
+export const APPLICATION_STATUS_LABELS: Record<MembershipApplicationStatus, string> = {
+  Pending: 'Em votação',
+  Approved: 'Aprovada',
+  Rejected: 'Recusada',
+};
+
+export const buildMembershipFormUrl = (): string =>
+  `${window.location.origin}${window.location.pathname}?${MEMBERSHIP_FORM_PARAM}`;
+
+export const isMembershipFormRequested = (): boolean => new URLSearchParams(window.location.search).has(MEMBERSHIP_FORM_PARAM);
+
+export const tallyVotes = (application: MembershipApplication) => ({
+  approvals: application.votes.filter(v => v.vote === 'Approve').length,
+  rejections: application.votes.filter(v => v.vote === 'Reject').length,
+});
+
+export const buildWelcomeEmail = (memberName: string, associationName: string) => ({
+  subject: `Bem-vindo(a) à ${associationName}!`,
+  message: `Olá, ${memberName}!\n\nSua inscrição foi aprovada pela Diretoria e você agora é membro ativo da ${associationName}.\n\nEm breve entraremos em contato com as informações sobre mensalidades, carteirinha e próximos eventos.\n\nSeja muito bem-vindo(a)!\n${associationName}`,
+});
@@ -0,0 +1,54 @@
+// Valores monetários por extenso em português (ex.: "cento e vinte reais e cinco centavos").
+
+const UNITS = ['', 'um', 'dois', 'três', 'quatro', 'cinco', 'seis', 'sete', 'oito', 'nove', 'dez', 'onze', 'doze', 'treze', 'quatorze', 'quinze', 'dezesseis', 'dezessete', 'dezoito', 'dezenove'];
+const TENS = ['', '', 'vinte', 'trinta', 'quarenta', 'cinquenta', 'sessenta', 'setenta', 'oitenta', 'noventa'];
+const HUNDREDS = ['', 'cento', 'duzentos', 'trezentos', 'quatrocentos', 'quinhentos', 'seiscentos', 'setecentos', 'oitocentos', 'novecentos'];
+
+const SCALES: [string, string][] = [['', ''], ['mil', 'mil'], ['milhão', 'milhões'], ['bilhão', 'bilhões']];
+
+// 0 a 999
+const groupToWords = (n: number): string => {
+  if (n === 100) return 'cem';
+  const parts: string[] = [];
+  const h = Math.floor(n / 100), rest = n % 100;
+  if (h) parts.push(HUNDREDS[h]);
+  if (rest < 20) { if (rest) parts.push(UNITS[rest]); }
+  else { parts.push(TENS[Math.floor(rest / 10)]); if (rest % 10) parts.push(UNITS[rest % 10]); }
+  return parts.join(' e ');
+};
+
+export const integerToWords = (value: number): string => {
+  if (value === 0) return 'zero';
+  const groups: number[] = [];
+  for (let n = Math.floor(value); n > 0; n = Math.floor(n / 1000)) groups.push(n % 1000);
+
+  const words: { text: string; group: number }[] = [];
+  groups.forEach((group, scale) => {
+    if (!group) return;
+    if (scale === 1 && group === 1) { words.unshift({ text: 'mil', group }); return; }
+    const [singular, plural] = SCALES[scale];
+    const scaleWord = scale === 0 ? '' : ` ${group === 1 ? singular : plural}`;
+    words.unshift({ text: `${groupToWords(group)}${scaleWord}`, group });
+  });
+
+  // "e" antes do último grupo quando ele é menor que 100 ou uma centena exata (ex.: "mil e cem", "dois mil e cinco")
+  return words.reduce((acc, { text, group }, i) => {
+    if (i === 0) return text;
+    const isLast = i === words.length - 1;
+    const joiner = isLast && (group < 100 || group % 100 === 0) ? ' e ' : ' ';
+    return `${acc}${joiner}${text}`;
+  }, '');
+};
+
+export const amountToWords = (amount: number): string => {
+  const cents = Math.round(Math.abs(amount) * 100);
+  const reais = Math.floor(cents / 100), centavos = cents % 100;
+  const parts: string[] = [];
+  if (reais > 0) {
+    // "um milhão de reais", "dois milhões de reais"
+    const isRoundMillion = reais >= 1_000_000 && reais % 1_000_000 === 0;
+    parts.push(`${integerToWords(reais)}${isRoundMillion ? ' de' : ''} ${reais === 1 ? 'real' : 'reais'}`);
+  }
+  if (centavos > 0) parts.push(`${integerToWords(centavos)} ${centavos === 1 ? 'centavo' : 'centavos'}`);
+  return parts.length ? parts.join(' e ') : 'zero reais';
+};
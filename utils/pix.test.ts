@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { buildDuesTxid, buildPixPayload, crc16, sanitizeTxid } from './pix';
+
+// Lê os campos TLV de primeiro nível do BR Code
+const parseTlv = (payload: string): Record<string, string> => {
+  const fields: Record<string, string> = {};
+  for (let i = 0; i < payload.length;) {
+    const id = payload.slice(i, i + 2);
+    const length = Number(payload.slice(i + 2, i + 4));
+    fields[id] = payload.slice(i + 4, i + 4 + length);
+    i += 4 + length;
+  }
+  return fields;
+};
+
+describe('crc16', () => {
+  it('segue o CRC16-CCITT (polinômio 0x1021, início 0xFFFF)', () => {
+    expect(crc16('123456789')).toBe('29B1');
+    expect(crc16('')).toBe('FFFF');
+  });
+});
+
+describe('buildPixPayload', () => {
+  it('reproduz o exemplo de BR Code estático do manual do Pix', () => {
+    expect(buildPixPayload({ key: '123e4567-e12b-12d1-a456-426655440000', merchantName: 'Fulano de Tal', merchantCity: 'BRASILIA' }))
+      .toBe('00020126580014br.gov.bcb.pix0136123e4567-e12b-12d1-a456-4266554400005204000053039865802BR5913Fulano de Tal6008BRASILIA62070503***63041D3D');
+  });
+
+  it('inclui valor, TXID e uso único, com o CRC sobre o payload inteiro', () => {
+    const payload = buildPixPayload({ key: 'pix@associacao.org', merchantName: 'Associação Cultural', merchantCity: 'São Paulo', amount: 50, txid: 'M202403ABC', singleUse: true });
+    const fields = parseTlv(payload);
+    expect(fields['01']).toBe('12');
+    expect(fields['54']).toBe('50.00');
+    expect(fields['59']).toBe('Associacao Cultural');
+    expect(fields['60']).toBe('Sao Paulo');
+    expect(fields['62']).toBe('0510M202403ABC');
+    expect(fields['63']).toBe(crc16(payload.slice(0, -4)));
+  });
+
+  it('limita o campo 26 a 99 caracteres cortando a descrição', () => {
+    const key = 'a'.repeat(60);
+    const payload = buildPixPayload({ key, merchantName: 'X', merchantCity: 'Y', description: 'Mensalidade de março de 2024 do associado' });
+    const accountInfo = parseTlv(payload)['26'];
+    expect(accountInfo.length).toBe(99);
+    expect(parseTlv(accountInfo)['01']).toBe(key);
+  });
+
+  it('corta a descrição no espaço que sobra e a omite quando a chave ocupa o campo 26', () => {
+    // GUI (18) + cabeçalhos da chave (4) + 68 da chave + cabeçalho da descrição (4) deixam 5 caracteres
+    const short = parseTlv(buildPixPayload({ key: 'a'.repeat(68), merchantName: 'X', merchantCity: 'Y', description: 'Mensalidade' }))['26'];
+    expect(parseTlv(short)['02']).toBe('Mensa');
+    const full = parseTlv(buildPixPayload({ key: 'a'.repeat(73), merchantName: 'X', merchantCity: 'Y', description: 'Mensalidade' }))['26'];
+    expect(parseTlv(full)['02']).toBeUndefined();
+  });
+});
+
+describe('TXID', () => {
+  it('usa só alfanuméricos, até 25 caracteres, e *** quando vazio', () => {
+    expect(sanitizeTxid('abc-123_def')).toBe('abc123def');
+    expect(sanitizeTxid('x'.repeat(30))).toHaveLength(25);
+    expect(sanitizeTxid('')).toBe('***');
+  });
+
+  it('gera o TXID da mensalidade pela competência e pelo membro', () => {
+    const txid = buildDuesTxid('0f8fad5b-d9cb-469f-a165-70867728950e', '2024-03');
+    expect(txid).toBe('M2024030F8FAD5BD9CB469F');
+    expect(sanitizeTxid(txid)).toBe(txid);
+  });
+});
@@ -0,0 +1,62 @@
+// Geração local do BR Code PIX ("copia e cola") conforme o Manual de Padrões
+// para Iniciação do Pix (EMV MPM + CRC16-CCITT). Não depende de rede.
+
+export interface PixPayloadInput {
+  key: string; // Chave PIX da associação
+  merchantName: string;
+  merchantCity: string;
+  amount?: number;
+  txid?: string;
+  description?: string;
+  singleUse?: boolean; // "Dinâmico": Point of Initiation Method = 12 (uso único)
+}
+
+const tlv = (id: string, value: string): string => `${id}${String(value.length).padStart(2, '0')}${value}`;
+
+// Campos 59/60 aceitam apenas ASCII; remove acentos e limita o tamanho.
+const sanitize = (text: string, max: number): string =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^A-Za-z0-9 .\-]/g, '').trim().slice(0, max);
+
+export const sanitizeTxid = (txid?: string): string => {
+  const clean = (txid || '').replace(/[^A-Za-z0-9]/g, '').slice(0, 25);
+  return clean || '***';
+};
+
+export const crc16 = (payload: string): string => {
+  let crc = 0xffff;
+  for (let i = 0; i < payload.length; i++) {
+    crc ^= payload.charCodeAt(i) << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1;
+      crc &= 0xffff;
+    }
+  }
+  return crc.toString(16).toUpperCase().padStart(4, '0');
+};
+
+// O campo 26 inteiro (GUI + chave + descrição) tem no máximo 99 caracteres: a descrição usa só o que sobra
+const MAX_ACCOUNT_INFO_LENGTH = 99;
+
+export const buildPixPayload = ({ key, merchantName, merchantCity, amount, txid, description, singleUse }: PixPayloadInput): string => {
+  const baseInfo = tlv('00', 'br.gov.bcb.pix') + tlv('01', key.trim());
+  const info = description ? sanitize(description, Math.max(0, Math.min(40, MAX_ACCOUNT_INFO_LENGTH - baseInfo.length - 4))) : '';
+  const accountInfo = baseInfo + (info ? tlv('02', info) : '');
+  const payload = [
+    tlv('00', '01'),
+    singleUse ? tlv('01', '12') : '',
+    tlv('26', accountInfo),
+    tlv('52', '0000'),
+    tlv('53', '986'),
+    amount && amount > 0 ? tlv('54', amount.toFixed(2)) : '',
+    tlv('58', 'BR'),
+    tlv('59', sanitize(merchantName, 25)),
+    tlv('60', sanitize(merchantCity, 15)),
+    tlv('62', tlv('05', sanitizeTxid(txid))),
+    '6304',
+  ].join('');
+  return payload + crc16(payload);
+};
+
+// TXIDs determinísticos (até 25 caracteres alfanuméricos). Os de inscrição em evento ("E...") são gerados pelo banco, um por cobrança.
+export const buildDuesTxid = (memberId: string, competence: string): string =>
+  `M${competence.replace('-', '')}${memberId.replace(/-/g, '').slice(0, 16)}`.toUpperCase();
@@ -0,0 +1,21 @@
+// Impressão de documentos gerados em HTML (recibos, relatórios). O "PDF" é o
+// "Salvar como PDF" do diálogo de impressão do navegador.
+
+export const escapeHtml = (text: string | null | undefined): string =>
+  (text ?? '').replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export const formatBRL = (value: number): string =>
+  value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+
+export const formatDateBR = (date: string): string => new Date(`${date.slice(0, 10)}T00:00:00`).toLocaleDateString('pt-BR');
+
+export const printHtml = (html: string): boolean => {
+  const win = window.open('', '_blank');
+  if (!win) return false; // Pop-up bloqueado
+  win.document.open();
+  win.document.write(html);
+  win.document.close();
+  win.focus();
+  win.onload = () => win.print();
+  return true;
+};
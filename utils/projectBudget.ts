@@ -0,0 +1,63 @@
+import { Project, ProjectBudgetLine, Transaction } from '../types';
+
+// Orçado x realizado por projeto. Só despesas vinculadas ao projeto contam como execução.
+
+export interface BudgetLineExecution {
+  line: ProjectBudgetLine;
+  actual: number;
+  remaining: number;
+  percent: number;
+  overrun: boolean;
+}
+
+export interface ProjectExecution {
+  budget: number; // Orçamento aprovado (ou soma das rubricas, se o total não foi informado)
+  planned: number; // Soma das rubricas
+  actual: number;
+  unallocated: number; // Despesas do projeto sem rubrica
+  remaining: number;
+  percent: number;
+  lines: BudgetLineExecution[];
+}
+
+const toPercent = (value: number, total: number): number => (total > 0 ? (value / total) * 100 : value > 0 ? 100 : 0);
+
+// Aceita transações ou os totais agregados do banco (ProjectExpenseSummary)
+export const getProjectExecution = (
+  project: Project,
+  budgetLines: ProjectBudgetLine[],
+  transactions: Pick<Transaction, 'type' | 'amount' | 'projectId' | 'budgetLineId'>[]
+): ProjectExecution => {
+  const lines = budgetLines.filter(l => l.projectId === project.id);
+  const expenses = transactions.filter(t => t.type === 'Expense' && t.projectId === project.id);
+  const lineIds = new Set(lines.map(l => l.id));
+
+  const lineExecution = lines.map(line => {
+    const actual = expenses.filter(t => t.budgetLineId === line.id).reduce((acc, t) => acc + t.amount, 0);
+    return {
+      line,
+      actual,
+      remaining: line.plannedAmount - actual,
+      percent: toPercent(actual, line.plannedAmount),
+      overrun: actual > line.plannedAmount + 0.005,
+    };
+  });
+
+  const planned = lines.reduce((acc, l) => acc + l.plannedAmount, 0);
+  const actual = expenses.reduce((acc, t) => acc + t.amount, 0);
+  const unallocated = expenses.filter(t => !t.budgetLineId || !lineIds.has(t.budgetLineId)).reduce((acc, t) => acc + t.amount, 0);
+  const budget = project.budget > 0 ? project.budget : planned;
+
+  return {
+    budget,
+    planned,
+    actual,
+    unallocated,
+    remaining: budget - actual,
+    percent: toPercent(actual, budget),
+    lines: lineExecution,
+  };
+};
+
+export const getExecutionBarColor = (percent: number): string =>
+  percent > 100 ? 'bg-red-500' : percent >= 85 ? 'bg-yellow-500' : 'bg-green-500';
@@ -0,0 +1,67 @@
+import { AssociationSettings, Receipt } from '../types';
+import { amountToWords } from './numberToWords';
+import { escapeHtml, formatBRL, formatDateBR } from './print';
+
+export const formatReceiptNumber = (receipt: Pick<Receipt, 'number' | 'issuedAt'>): string =>
+  `${String(receipt.number).padStart(6, '0')}/${receipt.issuedAt.slice(0, 4)}`;
+
+const formatLongDate = (date: string): string =>
+  new Date(`${date.slice(0, 10)}T00:00:00`).toLocaleDateString('pt-BR', { day: 'numeric', month: 'long', year: 'numeric' });
+
+export const buildReceiptText = (receipt: Receipt, association: AssociationSettings): string => [
+  `RECIBO Nº ${formatReceiptNumber(receipt)}`,
+  '',
+  `Recebemos de ${receipt.memberName} a importância de ${formatBRL(receipt.amount)} (${amountToWords(receipt.amount)}), referente a ${receipt.description}, paga em ${formatDateBR(receipt.paymentDate)}.`,
+  '',
+  `${association.city}${association.state ? `/${association.state}` : ''}, ${formatLongDate(receipt.issuedAt)}.`,
+  '',
+  `${association.signatoryName}${association.signatoryRole ? ` — ${association.signatoryRole}` : ''}`,
+  `${association.name}${association.cnpj ? ` — CNPJ ${association.cnpj}` : ''}`,
+].join('\n');
+
+export const buildReceiptHtml = (receipt: Receipt, association: AssociationSettings): string => `<!DOCTYPE html>
+<html lang="pt-BR">
+<head>
+<meta charset="utf-8" />
+<title>Recibo ${escapeHtml(formatReceiptNumber(receipt))}</title>
+<style>
+  body { font-family: Georgia, 'Times New Roman', serif; color: #111; margin: 0; padding: 32px; }
+  .receipt { max-width: 720px; margin: 0 auto; border: 2px solid #333; padding: 32px 40px; }
+  header { display: flex; justify-content: space-between; align-items: flex-start; border-bottom: 1px solid #999; padding-bottom: 12px; }
+  header h1 { font-size: 18px; margin: 0 0 4px; }
+  header p { font-size: 12px; margin: 0; color: #444; }
+  .number { text-align: right; }
+  .number strong { display: block; font-size: 22px; letter-spacing: 2px; }
+  .value { margin: 24px 0 8px; font-size: 20px; font-weight: bold; text-align: right; }
+  .body { font-size: 15px; line-height: 1.8; text-align: justify; }
+  .place { margin-top: 24px; text-align: right; font-size: 14px; }
+  .signature { margin: 64px auto 0; width: 60%; border-top: 1px solid #111; text-align: center; padding-top: 6px; font-size: 13px; }
+  @media print { body { padding: 0; } .receipt { border-width: 1px; } }
+</style>
+</head>
+<body>
+<div class="receipt">
+  <header>
+    <div>
+      <h1>${escapeHtml(association.name)}</h1>
+      ${association.cnpj ? `<p>CNPJ: ${escapeHtml(association.cnpj)}</p>` : ''}
+      ${association.address ? `<p>${escapeHtml(association.address)} — ${escapeHtml(association.city)}/${escapeHtml(association.state)}</p>` : ''}
+      ${association.email || association.phone ? `<p>${escapeHtml([association.email, association.phone].filter(Boolean).join(' · '))}</p>` : ''}
+    </div>
+    <div class="number">RECIBO Nº<strong>${escapeHtml(formatReceiptNumber(receipt))}</strong></div>
+  </header>
+  <p class="value">${escapeHtml(formatBRL(receipt.amount))}</p>
+  <p class="body">
+    Recebemos de <strong>${escapeHtml(receipt.memberName)}</strong> a importância de
+    <strong>${escapeHtml(formatBRL(receipt.amount))}</strong> (${escapeHtml(amountToWords(receipt.amount))}),
+    referente a ${escapeHtml(receipt.description)}, paga em ${escapeHtml(formatDateBR(receipt.paymentDate))},
+    pelo que damos plena e geral quitação.
+  </p>
+  <p class="place">${escapeHtml(association.city)}${association.state ? `/${escapeHtml(association.state)}` : ''}, ${escapeHtml(formatLongDate(receipt.issuedAt))}.</p>
+  <div class="signature">
+    ${escapeHtml(association.signatoryName)}<br />
+    ${escapeHtml(association.signatoryRole)}
+  </div>
+</div>
+</body>
+</html>`;
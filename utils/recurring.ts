@@ -0,0 +1,81 @@
+import { RecurrenceFrequency, RecurringTemplate, Transaction } from '../types';
+import { todayISO } from './dues';
+
+// Lançamentos recorrentes. Funções puras: quem grava no banco é o DataContext.
+
+export const FREQUENCY_LABELS: Record<RecurrenceFrequency, string> = {
+  Monthly: 'Mensal',
+  Quarterly: 'Trimestral',
+  Yearly: 'Anual',
+};
+
+const FREQUENCY_MONTHS: Record<RecurrenceFrequency, number> = { Monthly: 1, Quarterly: 3, Yearly: 12 };
+
+// Limite de segurança para modelos com data inicial muito antiga
+const MAX_OCCURRENCES = 36;
+
+// N-ésima ocorrência a partir da data inicial, mantendo o dia (ajustado em meses curtos)
+export const occurrenceDate = (startDate: string, frequency: RecurrenceFrequency, index: number): string => {
+  const [year, month, day] = startDate.split('-').map(Number);
+  const totalMonths = (month - 1) + index * FREQUENCY_MONTHS[frequency];
+  const y = year + Math.floor(totalMonths / 12);
+  const m = (totalMonths % 12) + 1;
+  const lastDay = new Date(y, m, 0).getDate();
+  return `${y}-${String(m).padStart(2, '0')}-${String(Math.min(day, lastDay)).padStart(2, '0')}`;
+};
+
+// Primeira ocorrência estritamente posterior à data informada
+export const nextOccurrenceAfter = (template: Pick<RecurringTemplate, 'startDate' | 'frequency'>, date: string): string => {
+  let index = 0;
+  let next = occurrenceDate(template.startDate, template.frequency, index);
+  while (next <= date) next = occurrenceDate(template.startDate, template.frequency, ++index);
+  return next;
+};
+
+// Primeira ocorrência na data informada ou depois dela (usada ao reprogramar um modelo)
+export const firstOccurrenceFrom = (template: Pick<RecurringTemplate, 'startDate' | 'frequency'>, date: string): string => {
+  const d = new Date(`${date}T00:00:00`);
+  d.setDate(d.getDate() - 1);
+  const previous = `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+  return nextOccurrenceAfter(template, previous);
+};
+
+const isWithinSeries = (template: RecurringTemplate, date: string): boolean => !template.endDate || date <= template.endDate;
+
+// Ocorrências vencidas (até hoje) que ainda não foram lançadas nem puladas
+export const getDueOccurrences = (template: RecurringTemplate, today = todayISO()): string[] => {
+  if (!template.active) return [];
+  const dates: string[] = [];
+  let date = template.nextDueDate;
+  while (date <= today && isWithinSeries(template, date) && dates.length < MAX_OCCURRENCES) {
+    dates.push(date);
+    date = nextOccurrenceAfter(template, date);
+  }
+  return dates;
+};
+
+export const buildRecurringTransaction = (template: RecurringTemplate, date: string): Omit<Transaction, 'id'> => ({
+  description: template.description,
+  amount: template.amount,
+  type: template.type,
+  date,
+  categoryId: template.categoryId,
+  categoryName: template.categoryName,
+  accountId: template.accountId,
+  accountName: template.accountName,
+  providerId: template.providerId || undefined,
+  providerName: template.providerName,
+  recurringTemplateId: template.id,
+});
+
+export interface RecurringDraft {
+  template: RecurringTemplate;
+  date: string;
+}
+
+// Rascunhos aguardando confirmação (modelos sem lançamento automático)
+export const getPendingDrafts = (templates: RecurringTemplate[], today = todayISO()): RecurringDraft[] =>
+  templates
+    .filter(t => !t.autoConfirm)
+    .flatMap(template => getDueOccurrences(template, today).map(date => ({ template, date })))
+    .sort((a, b) => a.date.localeCompare(b.date));
@@ -0,0 +1,131 @@
+import { AssociationSettings, Rpa, TaxPayable, WithheldTax, WithholdingTable } from '../types';
+import { amountToWords } from './numberToWords';
+import { escapeHtml, formatBRL, formatDateBR } from './print';
+import { buildDueDate, nextCompetence, toCompetence } from './dues';
+
+// Valores de 2025 como ponto de partida; conferir e ajustar em Configurações a cada mudança da legislação.
+export const buildDefaultWithholdingTable = (year: number): WithholdingTable => ({
+  year,
+  inssRate: 11,
+  inssCeiling: 8157.41,
+  irrfBrackets: [
+    { upTo: 2428.80, rate: 0, deduction: 0 },
+    { upTo: 2826.65, rate: 7.5, deduction: 182.16 },
+    { upTo: 3751.05, rate: 15, deduction: 394.16 },
+    { upTo: 4664.68, rate: 22.5, deduction: 675.49 },
+    { upTo: null, rate: 27.5, deduction: 908.73 },
+  ],
+  issRate: 5,
+  issDueDay: 10,
+});
+
+// Tabela do ano do pagamento; sem cadastro para o ano, usa a mais recente anterior
+export const findWithholdingTable = (tables: WithholdingTable[], year: number): WithholdingTable =>
+  [...tables].sort((a, b) => b.year - a.year).find(t => t.year <= year) || buildDefaultWithholdingTable(year);
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+export interface WithholdingResult {
+  grossAmount: number;
+  inssAmount: number;
+  irrfBase: number;
+  irrfAmount: number;
+  issAmount: number;
+  netAmount: number;
+}
+
+// INSS limitado ao teto; IRRF sobre o bruto menos o INSS retido; ISS sobre o bruto
+export const calculateWithholding = (grossAmount: number, table: WithholdingTable): WithholdingResult => {
+  const inssAmount = round2(Math.min(grossAmount, table.inssCeiling) * table.inssRate / 100);
+  const irrfBase = round2(grossAmount - inssAmount);
+  const brackets = [...table.irrfBrackets].sort((a, b) => (a.upTo ?? Infinity) - (b.upTo ?? Infinity));
+  const bracket = brackets.find(b => b.upTo === null || irrfBase <= b.upTo);
+  const irrfAmount = bracket ? Math.max(0, round2(irrfBase * bracket.rate / 100 - bracket.deduction)) : 0;
+  const issAmount = round2(grossAmount * table.issRate / 100);
+  return { grossAmount, inssAmount, irrfBase, irrfAmount, issAmount, netAmount: round2(grossAmount - inssAmount - irrfAmount - issAmount) };
+};
+
+export const WITHHELD_TAX_LABELS: Record<WithheldTax, string> = {
+  INSS: 'INSS (contribuinte individual)',
+  IRRF: 'IRRF',
+  ISS: 'ISS',
+};
+
+// INSS e IRRF vencem no dia 20 do mês seguinte ao pagamento; o ISS no dia definido pelo município
+export const getTaxDueDate = (tax: WithheldTax, paymentDate: string, table: WithholdingTable): string =>
+  buildDueDate(nextCompetence(toCompetence(paymentDate)), tax === 'ISS' ? table.issDueDay : 20);
+
+export const buildTaxPayables = (rpa: Rpa, table: WithholdingTable): Omit<TaxPayable, 'id'>[] =>
+  ([['INSS', rpa.inssAmount], ['IRRF', rpa.irrfAmount], ['ISS', rpa.issAmount]] as [WithheldTax, number][])
+    .filter(([, amount]) => amount > 0)
+    .map(([tax, amount]) => ({ rpaId: rpa.id, rpaNumber: rpa.number, tax, amount, dueDate: getTaxDueDate(tax, rpa.paymentDate, table), status: 'Open' }));
+
+export const formatRpaNumber = (rpa: Pick<Rpa, 'number' | 'issuedAt'>): string =>
+  `${String(rpa.number).padStart(6, '0')}/${rpa.issuedAt.slice(0, 4)}`;
+
+export const buildRpaHtml = (rpa: Rpa, association: AssociationSettings): string => {
+  const deductions: [string, number][] = [['INSS', rpa.inssAmount], ['IRRF', rpa.irrfAmount], ['ISS', rpa.issAmount]];
+  return `<!DOCTYPE html>
+<html lang="pt-BR">
+<head>
+<meta charset="utf-8" />
+<title>RPA ${escapeHtml(formatRpaNumber(rpa))}</title>
+<style>
+  body { font-family: Arial, Helvetica, sans-serif; color: #111; margin: 0; padding: 32px; font-size: 13px; }
+  .rpa { max-width: 720px; margin: 0 auto; border: 2px solid #333; padding: 24px 32px; }
+  header { display: flex; justify-content: space-between; align-items: flex-start; border-bottom: 1px solid #999; padding-bottom: 12px; }
+  header h1 { font-size: 16px; margin: 0 0 4px; }
+  header p { font-size: 12px; margin: 0; color: #444; }
+  .number { text-align: right; font-size: 12px; }
+  .number strong { display: block; font-size: 18px; letter-spacing: 2px; }
+  h2 { font-size: 13px; margin: 18px 0 6px; text-transform: uppercase; }
+  table { width: 100%; border-collapse: collapse; }
+  td { border: 1px solid #bbb; padding: 5px 8px; }
+  td.num { text-align: right; white-space: nowrap; width: 30%; }
+  .total td { font-weight: bold; background: #f2f2f2; }
+  .body { line-height: 1.7; text-align: justify; margin-top: 18px; }
+  .signatures { display: flex; gap: 32px; margin-top: 56px; }
+  .signatures div { flex: 1; border-top: 1px solid #111; text-align: center; padding-top: 6px; font-size: 12px; }
+  @media print { body { padding: 0; } .rpa { border-width: 1px; } }
+</style>
+</head>
+<body>
+<div class="rpa">
+  <header>
+    <div>
+      <h1>${escapeHtml(association.name)}</h1>
+      ${association.cnpj ? `<p>CNPJ: ${escapeHtml(association.cnpj)}</p>` : ''}
+      ${association.address ? `<p>${escapeHtml(association.address)} — ${escapeHtml(association.city)}/${escapeHtml(association.state)}</p>` : ''}
+    </div>
+    <div class="number">RECIBO DE PAGAMENTO A AUTÔNOMO<strong>${escapeHtml(formatRpaNumber(rpa))}</strong></div>
+  </header>
+
+  <h2>Prestador do serviço</h2>
+  <table>
+    <tr><td>Nome</td><td>${escapeHtml(rpa.providerName)}</td></tr>
+    <tr><td>CPF</td><td>${escapeHtml(rpa.providerCpf) || '—'}</td></tr>
+    <tr><td>Serviço prestado</td><td>${escapeHtml(rpa.description)}</td></tr>
+  </table>
+
+  <h2>Discriminação</h2>
+  <table>
+    <tr><td>Valor bruto do serviço</td><td class="num">${escapeHtml(formatBRL(rpa.grossAmount))}</td></tr>
+    ${deductions.map(([label, value]) => `<tr><td>(-) ${label} retido</td><td class="num">${escapeHtml(formatBRL(value))}</td></tr>`).join('')}
+    <tr class="total"><td>Valor líquido pago</td><td class="num">${escapeHtml(formatBRL(rpa.netAmount))}</td></tr>
+  </table>
+
+  <p class="body">
+    Recebi de <strong>${escapeHtml(association.name)}</strong> a importância líquida de
+    <strong>${escapeHtml(formatBRL(rpa.netAmount))}</strong> (${escapeHtml(amountToWords(rpa.netAmount))}),
+    pela prestação do serviço acima, sem vínculo empregatício, paga em ${escapeHtml(formatDateBR(rpa.paymentDate))},
+    já deduzidos os tributos retidos na forma da lei.
+  </p>
+
+  <div class="signatures">
+    <div>${escapeHtml(rpa.providerName)}<br />Prestador</div>
+    <div>${escapeHtml(association.signatoryName)}<br />${escapeHtml(association.signatoryRole)}</div>
+  </div>
+</div>
+</body>
+</html>`;
+};
@@ -0,0 +1,81 @@
+import * as XLSX from 'xlsx';
+
+// Exportação de listagens para planilha nativa (XLSX). Ao contrário do CSV, as células
+// levam tipo: datas e valores chegam como data e número, já formatados no padrão brasileiro.
+// Sem ODS: o gravador ODS do SheetJS descarta os formatos de número e data. O LibreOffice abre o XLSX.
+
+export type SpreadsheetFormat = 'xlsx';
+export type SpreadsheetColumnType = 'text' | 'date' | 'currency' | 'number';
+
+export interface SpreadsheetColumn<T> {
+  key: string;
+  label: string;
+  type?: SpreadsheetColumnType;
+  value?: (row: T) => string | number | null | undefined; // Quando o valor não é um campo direto da linha
+}
+
+export const SPREADSHEET_FORMAT_LABELS: Record<SpreadsheetFormat, string> = {
+  xlsx: 'Excel (.xlsx)',
+};
+
+const DATE_FORMAT = 'dd/mm/yyyy';
+const CURRENCY_FORMAT = '"R$" #,##0.00';
+const NUMBER_FORMAT = '#,##0.##';
+
+// Data local (sem fuso) para não voltar um dia ao converter 'YYYY-MM-DD'
+const parseDate = (value: string): Date | null => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(value);
+  return match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : null;
+};
+
+const toCell = (value: unknown, type: SpreadsheetColumnType = 'text'): XLSX.CellObject => {
+  if (value === null || value === undefined || value === '') return { t: 'z' };
+  if (type === 'date') {
+    const date = parseDate(String(value));
+    return date ? { t: 'd', v: date, z: DATE_FORMAT } : { t: 's', v: String(value) };
+  }
+  if (type === 'currency' || type === 'number') {
+    const number = Number(value);
+    return Number.isFinite(number) ? { t: 'n', v: number, z: type === 'currency' ? CURRENCY_FORMAT : NUMBER_FORMAT } : { t: 's', v: String(value) };
+  }
+  return { t: 's', v: String(value) };
+};
+
+const columnWidth = (column: Pick<SpreadsheetColumn<unknown>, 'label' | 'type'>, cells: XLSX.CellObject[]): number => {
+  if (column.type === 'date') return Math.max(column.label.length, 11);
+  if (column.type === 'currency') return Math.max(column.label.length, 14);
+  return Math.min(60, Math.max(column.label.length, ...cells.map(c => (c.t === 's' ? String(c.v).length : 10))));
+};
+
+export const buildSheet = <T>(rows: T[], columns: SpreadsheetColumn<T>[]): XLSX.WorkSheet => {
+  const body = rows.map(row => columns.map(column => toCell(column.value ? column.value(row) : (row as Record<string, unknown>)[column.key], column.type)));
+  const sheet = XLSX.utils.aoa_to_sheet([columns.map(c => c.label), ...body]);
+  sheet['!cols'] = columns.map((column, i) => ({ wch: columnWidth(column, body.map(r => r[i])) }));
+  return sheet;
+};
+
+export const downloadSpreadsheet = <T>(rows: T[], columns: SpreadsheetColumn<T>[], baseFilename: string, format: SpreadsheetFormat, sheetName = 'Dados') => {
+  const workbook = XLSX.utils.book_new();
+  // Nome da aba: até 31 caracteres e sem : \ / ? * [ ]
+  XLSX.utils.book_append_sheet(workbook, buildSheet(rows, columns), sheetName.replace(/[:\\/?*[\]]/g, ' ').slice(0, 31));
+  XLSX.writeFile(workbook, `${baseFilename}_${new Date().toISOString().split('T')[0]}.${format}`, { bookType: format, compression: true });
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Lê a primeira aba de um CSV/XLSX/ODS como texto. CSV é lido como UTF-8 e sem conversão
+// de datas (o SheetJS interpretaria 03/04 no padrão americano); datas de planilha viram YYYY-MM-DD.
+export const readSpreadsheetFile = async (file: File): Promise<{ headers: string[]; rows: string[][] }> => {
+  const isCsv = /\.(csv|txt)$/i.test(file.name) || file.type === 'text/csv';
+  const workbook = isCsv
+    ? XLSX.read(await file.text(), { type: 'string', raw: true })
+    : XLSX.read(await file.arrayBuffer(), { cellDates: true });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) return { headers: [], rows: [] };
+  const matrix = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: true, defval: '' });
+  const toText = (value: unknown) => value instanceof Date
+    ? `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`
+    : String(value ?? '').trim();
+  const [headerRow = [], ...body] = matrix.map(row => row.map(toText));
+  return { headers: headerRow, rows: body.filter(row => row.some(cell => cell !== '')) };
+};